@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { buildAccessibilityReport, isFilenameAltText } from '@/server/accessibilityReport';
+import type { CachedCloudflareImage } from '@/server/cloudflareImageCache';
+
+const image = (id: string, overrides: Partial<CachedCloudflareImage> = {}): CachedCloudflareImage => ({
+  id,
+  filename: `${id}.jpg`,
+  uploaded: '2025-01-01T00:00:00.000Z',
+  variants: [],
+  tags: [],
+  ...overrides
+});
+
+describe('accessibility report', () => {
+  it('treats ALT text that only restates the file or display name as a filename issue', () => {
+    expect(isFilenameAltText('IMG 0042', 'IMG_0042.JPG')).toBe(true);
+    expect(isFilenameAltText('hero banner', 'upload.png', 'Hero-Banner')).toBe(true);
+    expect(isFilenameAltText('Hero banner over the harbour at dusk', 'hero-banner.png')).toBe(false);
+  });
+
+  it('flags missing, filename and too-long ALT text', () => {
+    const report = buildAccessibilityReport(
+      [
+        image('a'),
+        image('b', { altTag: 'b' }),
+        image('c', { altTag: 'x'.repeat(30) }),
+        image('d', { altTag: 'A dog on a beach' })
+      ],
+      { maxLength: 20 }
+    );
+
+    const issues = Object.fromEntries(report.groups[0].images.map((entry) => [entry.id, entry.issues]));
+    expect(issues).toEqual({ a: ['missing'], b: ['filename'], c: ['too-long'] });
+    expect(report).toMatchObject({
+      total: 4,
+      withIssues: 3,
+      counts: { missing: 1, filename: 1, 'too-long': 1, duplicate: 0 }
+    });
+  });
+
+  it('reports shared ALT text across unrelated images but not within a variation family', () => {
+    const report = buildAccessibilityReport([
+      image('parent', { altTag: 'Product shot' }),
+      image('child', { altTag: 'Product shot.', parentId: 'parent' }),
+      image('other', { altTag: 'product  shot' })
+    ]);
+
+    const byId = new Map(report.groups[0].images.map((entry) => [entry.id, entry]));
+    expect(byId.get('parent')?.duplicateOf).toEqual(['other']);
+    expect(byId.get('child')?.duplicateOf).toEqual(['other']);
+    expect(byId.get('other')?.duplicateOf).toEqual(['parent', 'child']);
+  });
+
+  it('leaves responsive derivatives out of the report and the duplicate check', () => {
+    const derivative = { profile: 'responsive', format: 'webp' as const, width: 480, height: 320 };
+    const report = buildAccessibilityReport([
+      image('original'),
+      image('small', { parentId: 'original', derivative }),
+      image('large', { parentId: 'original', derivative: { ...derivative, width: 960, height: 640 } }),
+      image('other', { altTag: 'Harbour at dusk' }),
+      image('other-small', { altTag: 'Harbour at dusk', parentId: 'other', derivative })
+    ]);
+
+    expect(report).toMatchObject({ total: 2, withIssues: 1, counts: { missing: 1, duplicate: 0 } });
+    expect(report.groups[0].images.map((entry) => entry.id)).toEqual(['original']);
+  });
+
+  it('groups by namespace and folder and honours the scope and issue filters', () => {
+    const images = [
+      image('a', { namespace: 'site', folder: 'blog/2024' }),
+      image('b', { namespace: 'site', folder: 'blog/2024', altTag: 'A fine harbour view' }),
+      image('c', { namespace: 'site', folder: 'about', altTag: 'c' }),
+      image('d', { folder: 'blog' })
+    ];
+
+    const report = buildAccessibilityReport(images);
+    expect(report.groups.map((group) => [group.namespace, group.folder, group.total, group.images.length])).toEqual([
+      [undefined, 'blog', 1, 1],
+      ['site', 'about', 1, 1],
+      ['site', 'blog/2024', 2, 1]
+    ]);
+
+    expect(buildAccessibilityReport(images, { namespace: 'site', folder: 'blog' }).total).toBe(2);
+    expect(buildAccessibilityReport(images, { namespace: '' }).groups.map((group) => group.folder)).toEqual(['blog']);
+    const onlyFilename = buildAccessibilityReport(images, { issues: ['filename'] });
+    expect(onlyFilename.withIssues).toBe(1);
+    expect(onlyFilename.counts.missing).toBe(0);
+  });
+});
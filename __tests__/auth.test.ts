@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { middleware } from '@/middleware';
+import { createApiKey, revokeApiKey, verifyApiKey } from '@/server/apiKeys';
+import { AUTH_ACTOR_HEADER, createSessionToken, requiredScopeFor, SESSION_COOKIE } from '@/server/auth';
+
+const apiRequest = (path: string, init: { method?: string; headers?: Record<string, string> } = {}) =>
+  new NextRequest(`http://localhost${path}`, init);
+
+describe('API keys', () => {
+  it('verifies active keys and rejects revoked or tampered ones', async () => {
+    const { key, record } = await createApiKey({ name: 'ci', scopes: ['read'] });
+
+    expect(record.hash).not.toContain(key);
+    expect((await verifyApiKey(key))?.id).toBe(record.id);
+    expect(await verifyApiKey(`${key}x`)).toBeUndefined();
+
+    await revokeApiKey(record.id);
+    expect(await verifyApiKey(key)).toBeUndefined();
+  });
+
+  it('maps routes to scopes', () => {
+    expect(requiredScopeFor('GET', '/api/images/query')).toBe('read');
+    expect(requiredScopeFor('POST', '/api/upload/external')).toBe('upload');
+    expect(requiredScopeFor('PATCH', '/api/images/abc/update')).toBe('edit');
+    expect(requiredScopeFor('DELETE', '/api/folders/logos')).toBe('delete');
+    expect(requiredScopeFor('GET', '/api/auth/keys')).toBe('admin');
+    expect(requiredScopeFor('GET', '/api/local-images/ns/abc/public')).toBeNull();
+    expect(requiredScopeFor('OPTIONS', '/api/upload/external')).toBeNull();
+    expect(requiredScopeFor('POST', '/api/share/abc.def')).toBeNull();
+    expect(requiredScopeFor('POST', '/api/images/abc/share')).toBe('edit');
+    expect(requiredScopeFor('GET', '/api/images/abc/share')).toBe('read');
+    expect(requiredScopeFor('GET', '/api/share/gallery/abc.def')).toBeNull();
+    expect(requiredScopeFor('POST', '/api/shares/galleries')).toBe('edit');
+    expect(requiredScopeFor('GET', '/api/export')).toBe('admin');
+  });
+});
+
+describe('auth middleware', () => {
+  beforeEach(() => {
+    vi.stubEnv('AUTH_ENABLED', 'true');
+    vi.stubEnv('AUTH_SECRET', 'test-secret-with-enough-length');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects missing keys and keys without the required scope', async () => {
+    const { key } = await createApiKey({ name: 'reader', scopes: ['read'] });
+
+    const anonymous = await middleware(apiRequest('/api/images/abc', { method: 'DELETE' }));
+    expect(anonymous.status).toBe(401);
+
+    const forbidden = await middleware(
+      apiRequest('/api/images/abc', { method: 'DELETE', headers: { authorization: `Bearer ${key}` } })
+    );
+    expect(forbidden.status).toBe(403);
+
+    const allowed = await middleware(apiRequest('/api/images/query', { headers: { 'x-api-key': key } }));
+    expect(allowed.status).toBe(200);
+    const forwarded = allowed.headers.get(`x-middleware-request-${AUTH_ACTOR_HEADER}`);
+    expect(JSON.parse(decodeURIComponent(forwarded ?? ''))).toMatchObject({ type: 'api-key', name: 'reader' });
+  });
+
+  it('accepts session cookies and redirects anonymous page views to login', async () => {
+    const token = createSessionToken({ type: 'admin', id: 'admin', name: 'Administrator', scopes: ['admin'] });
+    const withSession = await middleware(
+      apiRequest('/api/folders/logos', { method: 'DELETE', headers: { cookie: `${SESSION_COOKIE}=${token}` } })
+    );
+    expect(withSession.status).toBe(200);
+
+    const forged = await middleware(
+      apiRequest('/api/folders/logos', { method: 'DELETE', headers: { cookie: `${SESSION_COOKIE}=${token}x` } })
+    );
+    expect(forged.status).toBe(401);
+
+    const page = await middleware(apiRequest('/images/abc'));
+    expect(page.status).toBe(307);
+    expect(page.headers.get('location')).toBe('http://localhost/login?next=%2Fimages%2Fabc');
+    expect((await middleware(apiRequest('/shared/abc.d-f'))).status).toBe(200);
+  });
+
+  it('keeps namespace-limited keys on namespace-aware routes', async () => {
+    const { key } = await createApiKey({ name: 'client-a', scopes: ['read', 'edit'], namespaces: ['client-a'] });
+    const headers = { 'x-api-key': key };
+
+    expect((await middleware(apiRequest('/api/images/query', { headers }))).status).toBe(200);
+    expect((await middleware(apiRequest('/api/jobs', { headers }))).status).toBe(403);
+    expect((await middleware(apiRequest('/api/images/audit', { method: 'POST', headers }))).status).toBe(403);
+    await expect(
+      createApiKey({ name: 'bad', scopes: ['admin'], namespaces: ['client-a'] })
+    ).rejects.toThrow(/cannot be limited/);
+  });
+
+  it('leaves routes open when auth is disabled', async () => {
+    vi.stubEnv('AUTH_ENABLED', 'false');
+    const response = await middleware(apiRequest('/api/images/abc', { method: 'DELETE' }));
+    expect(response.status).toBe(200);
+  });
+});
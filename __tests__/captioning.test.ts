@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  CaptionError,
+  estimateCaptionCost,
+  generateCaption,
+  getCaptionProvider,
+  resolveCaptionPrompt
+} from '@/server/captioning';
+
+const ORIGINAL_ENV = { ...process.env };
+
+describe('captioning providers', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'photarium-captions-'));
+    process.env = { ...ORIGINAL_ENV, CAPTION_PROMPTS_PATH: path.join(dir, 'caption-prompts.json') };
+    delete process.env.CAPTION_PROVIDER;
+    delete process.env.CAPTION_LANGUAGE;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    process.env = ORIGINAL_ENV;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('defaults to OpenAI and reports a missing key', async () => {
+    expect(getCaptionProvider().kind).toBe('openai');
+    await expect(generateCaption({ kind: 'alt', imageUrl: 'https://example.com/a.png' })).rejects.toThrow(
+      new CaptionError('OpenAI API key not configured')
+    );
+  });
+
+  it('returns deterministic text from the stub provider', async () => {
+    process.env.CAPTION_PROVIDER = 'stub';
+    const request = {
+      kind: 'description' as const,
+      imageUrl: 'https://example.com/a.png',
+      context: { filename: 'red_chair-01.png', folder: 'furniture', tags: ['chair', 'red'] }
+    };
+
+    const first = await generateCaption(request);
+    expect(first).toEqual({
+      text: 'A picture of red chair 01, from furniture, tagged chair, red.',
+      provider: 'stub',
+      model: 'stub',
+      language: 'English'
+    });
+    expect(await generateCaption(request)).toEqual(first);
+    expect((await generateCaption({ ...request, kind: 'alt', language: 'German' })).text).toBe('[German] Image of red chair 01');
+  });
+
+  it('uses per-namespace templates and languages', async () => {
+    await writeFile(
+      process.env.CAPTION_PROMPTS_PATH as string,
+      JSON.stringify({
+        '*': { language: 'French' },
+        acme: { alt: 'Alt text for Acme ({folder}): {filename}', language: 'German' }
+      })
+    );
+    const request = { kind: 'alt' as const, imageUrl: 'x', context: { filename: 'shoe.png', folder: 'catalog' } };
+
+    const acme = await resolveCaptionPrompt({ ...request, namespace: 'acme' });
+    expect(acme.language).toBe('German');
+    expect(acme.prompt.user).toBe('Alt text for Acme (catalog): shoe.png');
+    expect(acme.prompt.system).toContain('Write it in German.');
+
+    const other = await resolveCaptionPrompt({ ...request, namespace: 'other' });
+    expect(other.language).toBe('French');
+    expect(other.prompt.user).toBe('Describe this image for use as an HTML alt attribute.');
+
+    expect((await resolveCaptionPrompt({ ...request, namespace: 'acme', language: 'Dutch' })).language).toBe('Dutch');
+  });
+
+  it('estimates batch cost from the configured model', () => {
+    const openai = estimateCaptionCost({ alt: 10, description: 5 });
+    expect(openai).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini', requests: 15, outputTokens: 10 * 150 + 5 * 400 });
+    expect(openai.usd).toBeGreaterThan(0);
+
+    process.env.CAPTION_MODEL = 'some-new-model';
+    expect(estimateCaptionCost({ alt: 1 }).usd).toBeUndefined();
+
+    process.env.CAPTION_PROVIDER = 'local';
+    expect(estimateCaptionCost({ alt: 1 }).usd).toBe(0);
+  });
+
+  it('inlines the image for a local OpenAI-compatible endpoint', async () => {
+    process.env.CAPTION_PROVIDER = 'local';
+    process.env.CAPTION_LOCAL_URL = 'http://localhost:11434/v1/';
+    process.env.CAPTION_LOCAL_MODEL = 'llava:13b';
+    const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (url === 'https://cdn.example.com/a.png') {
+        return new Response(new Uint8Array([1, 2, 3]), { headers: { 'content-type': 'image/png' } });
+      }
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      const body = JSON.parse(String(init?.body));
+      expect(body.model).toBe('llava:13b');
+      expect(body.messages[1].content[1].image_url.url).toBe('data:image/png;base64,AQID');
+      return Response.json({ choices: [{ message: { content: [{ text: ' A red chair ' }] } }] });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await generateCaption({ kind: 'alt', imageUrl: 'https://cdn.example.com/a.png' });
+
+    expect(result).toMatchObject({ text: 'A red chair', provider: 'local', model: 'llava:13b' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
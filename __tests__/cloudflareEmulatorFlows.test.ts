@@ -0,0 +1,908 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import sharp from 'sharp';
+import AdmZip from 'adm-zip';
+import { startCloudflareEmulator, type RunningCloudflareEmulator } from '@/server/cloudflareEmulator';
+import { clearAllCaches } from '@/server/cloudflareImageCache';
+import { POST as uploadPOST } from '@/app/api/upload/route';
+import { POST as rotatePOST } from '@/app/api/images/[id]/rotate/route';
+import { POST as animateSelectionPOST } from '@/app/api/animate/selection/route';
+import { PATCH as folderPATCH } from '@/app/api/folders/[name]/route';
+import { GET as auditGET, POST as auditPOST } from '@/app/api/images/audit/route';
+import { GET as jobGET } from '@/app/api/jobs/[id]/route';
+import { listJobs, waitForJob } from '@/server/jobQueue';
+import { GET as similarGET } from '@/app/api/images/[id]/similar/route';
+import { GET as queryGET } from '@/app/api/images/query/route';
+import { setNamespaceQuota } from '@/server/namespaceRegistry';
+import { listNamespaceUsage } from '@/server/namespaceUsage';
+import { DEFAULT_DERIVATIVE_PROFILES, generateDerivatives } from '@/server/derivatives';
+import { AUTH_ACTOR_HEADER } from '@/server/auth';
+import { PATCH as updatePATCH } from '@/app/api/images/[id]/update/route';
+import { GET as historyGET } from '@/app/api/images/[id]/history/route';
+import { POST as revertPOST } from '@/app/api/images/[id]/revert/route';
+import { DELETE as imageDELETE } from '@/app/api/images/[id]/route';
+import { POST as restorePOST } from '@/app/api/images/[id]/restore/route';
+import { DELETE as trashDELETE, GET as trashGET } from '@/app/api/trash/route';
+import { GET as exportGET } from '@/app/api/export/route';
+import { POST as importArchivePOST } from '@/app/api/import/archive/route';
+import { POST as sharePOST } from '@/app/api/images/[id]/share/route';
+import { GET as sharedGET } from '@/app/api/share/[token]/route';
+import { DELETE as shareRevokeDELETE } from '@/app/api/shares/[id]/route';
+import { POST as galleryShareCreatePOST } from '@/app/api/shares/galleries/route';
+import { DELETE as galleryShareRevokeDELETE } from '@/app/api/shares/galleries/[id]/route';
+import { GET as sharedGalleryGET } from '@/app/api/share/gallery/[token]/route';
+import { resolveGalleryShare, selectGalleryShareImages } from '@/server/galleryShares';
+import { POST as collectionsPOST } from '@/app/api/collections/route';
+import { GET as collectionGET, PATCH as collectionPATCH } from '@/app/api/collections/[id]/route';
+import { POST as collectionImagesPOST } from '@/app/api/collections/[id]/images/route';
+import { DELETE as trashItemDELETE } from '@/app/api/trash/[id]/route';
+import { GET as tagsGET } from '@/app/api/tags/route';
+import { PATCH as tagPATCH } from '@/app/api/tags/[tag]/route';
+import { POST as tagMergePOST } from '@/app/api/tags/merge/route';
+import { PUT as ingestRulesPUT } from '@/app/api/ingest-rules/route';
+import { POST as ingestPreviewPOST } from '@/app/api/ingest-rules/preview/route';
+import { POST as captionBatchPOST } from '@/app/api/captions/batch/route';
+import { GET as captionReviewGET } from '@/app/api/captions/review/route';
+import { POST as captionReviewPOST } from '@/app/api/captions/review/[id]/route';
+import { GET as derivativesGET, POST as derivativesPOST } from '@/app/api/images/[id]/derivatives/route';
+
+// Keep folder renames away from the checked-in src/data/folders.json
+vi.mock('@/utils/folderStore', () => ({
+  renameFolder: vi.fn(async () => undefined),
+  removeFolder: vi.fn(async () => undefined),
+  listStoredFolders: vi.fn(async () => ['archive']),
+  addFolder: vi.fn(async () => undefined)
+}));
+
+const ORIGINAL_ENV = { ...process.env };
+
+const createPng = (width: number, height: number, r = 220) =>
+  sharp({ create: { width, height, channels: 3, background: { r, g: 40, b: 40 } } })
+    .png()
+    .toBuffer();
+
+const routeParams = <T extends Record<string, string>>(value: T) => ({ params: Promise.resolve(value) });
+
+const uploadFile = async (buffer: Buffer, filename: string, fields: Record<string, string> = {}) => {
+  const formData = new FormData();
+  formData.append('file', new File([new Uint8Array(buffer)], filename, { type: 'image/png' }));
+  Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+  const response = await uploadPOST(
+    new NextRequest('http://localhost/api/upload', { method: 'POST', body: formData })
+  );
+  return { status: response.status, body: await response.json() };
+};
+
+describe('Cloudflare Images emulator flows', () => {
+  let running: RunningCloudflareEmulator;
+  let cacheDir: string;
+
+  beforeAll(async () => {
+    running = await startCloudflareEmulator();
+    cacheDir = await mkdtemp(path.join(tmpdir(), 'photarium-cache-'));
+    process.env = {
+      ...ORIGINAL_ENV,
+      ...running.env,
+      CACHE_STORAGE_DIR: cacheDir,
+      COLLECTIONS_PATH: path.join(cacheDir, 'collections.json'),
+      TAG_TAXONOMY_PATH: path.join(cacheDir, 'tag-taxonomy.json'),
+      INGEST_RULES_PATH: path.join(cacheDir, 'ingest-rules.json'),
+      CAPTION_REVIEW_PATH: path.join(cacheDir, 'caption-review.json'),
+      CHANGE_LOG_DIR: path.join(cacheDir, 'change-log'),
+      CAPTION_PROVIDER: 'stub',
+      DERIVATIVE_PROFILES_PATH: path.join(cacheDir, 'derivative-profiles.json'),
+      SHARE_LINK_SECRET: 'emulator-share-secret'
+    };
+    delete process.env.IMAGE_STORAGE_PROVIDER;
+    delete process.env.IMAGE_NAMESPACE;
+    delete process.env.NEXT_PUBLIC_IMAGE_NAMESPACE;
+  });
+
+  beforeEach(async () => {
+    running.emulator.reset();
+    await clearAllCaches();
+  });
+
+  afterAll(async () => {
+    await running.stop();
+    await rm(cacheDir, { recursive: true, force: true, maxRetries: 3 });
+    process.env = ORIGINAL_ENV;
+  });
+
+  it('uploads through the API and delivers resized variants', async () => {
+    const { status, body } = await uploadFile(await createPng(64, 32), 'hero.png', {
+      folder: 'campaigns',
+      tags: 'hero, red'
+    });
+
+    expect(status).toBe(200);
+    const stored = running.emulator.getImage(body.id);
+    expect(stored?.meta).toMatchObject({ folder: 'campaigns', tags: ['hero', 'red'] });
+
+    const variant = await fetch(`${running.url}/delivery/${running.emulator.accountHash}/${body.id}/w=16`);
+    expect(variant.ok).toBe(true);
+    const info = await sharp(Buffer.from(await variant.arrayBuffer())).metadata();
+    expect(info.width).toBe(16);
+  });
+
+  it('rejects duplicate content on a second upload', async () => {
+    const png = await createPng(20, 20);
+    await uploadFile(png, 'first.png');
+    const { status, body } = await uploadFile(png, 'second.png');
+
+    expect(status).toBe(409);
+    expect(body.duplicates).toHaveLength(1);
+    expect(running.emulator.listImages()).toHaveLength(1);
+  });
+
+  it('rejects a resized copy when near-duplicate rejection is requested', async () => {
+    const stripes = Buffer.alloc(48 * 32 * 3);
+    for (let index = 0; index < 48 * 32; index += 1) {
+      stripes.fill(index % 48 < 16 ? 30 : index % 48 < 32 ? 230 : 120, index * 3, index * 3 + 3);
+    }
+    const original = await sharp(stripes, { raw: { width: 48, height: 32, channels: 3 } }).png().toBuffer();
+    const resized = await sharp(original).resize(24).jpeg().toBuffer();
+    await uploadFile(original, 'stripes.png');
+
+    const { status, body } = await uploadFile(resized, 'stripes-small.png', { nearDuplicates: 'reject' });
+
+    expect(status).toBe(409);
+    expect(body.reason).toBe('near-duplicate');
+    expect(running.emulator.listImages()).toHaveLength(1);
+  });
+
+  it('lists visually similar uploads for an image', async () => {
+    const red = await uploadFile(await createPng(40, 40, 250), 'red.png');
+    const redder = await uploadFile(await createPng(20, 20, 240), 'red-small.png');
+    const dark = await uploadFile(await createPng(40, 40, 5), 'dark.png');
+
+    const response = await similarGET(
+      new NextRequest(`http://localhost/api/images/${red.body.id}/similar`),
+      routeParams({ id: red.body.id })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.matches.map((match: { id: string }) => match.id)).toEqual([redder.body.id, dark.body.id]);
+    expect(body.matches[0].score).toBeGreaterThan(body.matches[1].score);
+  });
+
+  it('stores a dominant palette at upload and filters by color', async () => {
+    const red = await uploadFile(await createPng(40, 40, 220), 'red.png');
+    await uploadFile(await createPng(40, 40, 5), 'dark.png');
+
+    const response = await queryGET(new NextRequest('http://localhost/api/images/query?search=color:red'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.images.map((image: { id: string }) => image.id)).toEqual([red.body.id]);
+    expect(body.images[0].dominantColors).toEqual([{ hex: '#dc2828', share: 1 }]);
+  });
+
+  it('enforces namespace quotas at upload and reports usage', async () => {
+    await setNamespaceQuota('client-a', { maxImages: 1 });
+    const first = await uploadFile(await createPng(30, 30, 200), 'a1.png', { namespace: 'client-a' });
+    const second = await uploadFile(await createPng(30, 30, 90), 'a2.png', { namespace: 'client-a' });
+    await setNamespaceQuota('client-a', {});
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(403);
+    expect(second.body.error).toMatch(/limit of 1 images/);
+    const usage = await listNamespaceUsage();
+    expect(usage.find((entry) => entry.namespace === 'client-a')).toMatchObject({ images: 1 });
+    expect(usage.find((entry) => entry.namespace === 'client-a')?.bytes).toBeGreaterThan(0);
+
+    // Responsive derivatives are uploads too
+    await setNamespaceQuota('client-a', { maxImages: 1 });
+    await expect(generateDerivatives(first.body.id, DEFAULT_DERIVATIVE_PROFILES)).rejects.toThrow(/limit of 1 images/);
+    await setNamespaceQuota('client-a', {});
+  });
+
+  it('limits namespace-scoped callers to their namespaces', async () => {
+    const own = await uploadFile(await createPng(30, 30, 200), 'own.png', { namespace: 'client-a' });
+    await uploadFile(await createPng(30, 30, 90), 'other.png', { namespace: 'client-b' });
+    const actor = encodeURIComponent(
+      JSON.stringify({ type: 'api-key', id: 'k1', name: 'client-a', scopes: ['read', 'upload'], namespaces: ['client-a'] })
+    );
+
+    const response = await queryGET(
+      new NextRequest('http://localhost/api/images/query?namespace=__all__', {
+        headers: { [AUTH_ACTOR_HEADER]: actor }
+      })
+    );
+    const body = await response.json();
+    expect(body.images.map((image: { id: string }) => image.id)).toEqual([own.body.id]);
+
+    const formData = new FormData();
+    formData.append('file', new File([new Uint8Array(await createPng(30, 30, 10))], 'x.png', { type: 'image/png' }));
+    formData.append('namespace', 'client-b');
+    const rejected = await uploadPOST(
+      new NextRequest('http://localhost/api/upload', {
+        method: 'POST',
+        body: formData,
+        headers: { [AUTH_ACTOR_HEADER]: actor }
+      })
+    );
+    expect(rejected.status).toBe(403);
+  });
+
+  it('logs metadata edits and restores an earlier version', async () => {
+    const { body: uploaded } = await uploadFile(await createPng(24, 24, 150), 'history.png', {
+      folder: 'drafts',
+      tags: 'one'
+    });
+    const actor = encodeURIComponent(JSON.stringify({ type: 'api-key', id: 'k1', name: 'editor', scopes: ['edit'] }));
+    const patch = (body: Record<string, unknown>) =>
+      updatePATCH(
+        new NextRequest(`http://localhost/api/images/${uploaded.id}/update`, {
+          method: 'PATCH',
+          body: JSON.stringify(body),
+          headers: { [AUTH_ACTOR_HEADER]: actor }
+        }),
+        routeParams({ id: uploaded.id })
+      );
+    await patch({ folder: 'final', tags: ['one', 'two'] });
+    await patch({ altTag: 'A red square' });
+
+    const history = await (
+      await historyGET(new NextRequest('http://localhost/api/images/x/history'), routeParams({ id: uploaded.id }))
+    ).json();
+    expect(history.entries).toHaveLength(2);
+    expect(history.entries[1]).toMatchObject({
+      source: 'update',
+      actor: { name: 'editor' },
+      changes: { folder: { before: 'drafts', after: 'final' }, tags: { before: ['one'], after: ['one', 'two'] } }
+    });
+
+    const response = await revertPOST(
+      new NextRequest(`http://localhost/api/images/${uploaded.id}/revert`, {
+        method: 'POST',
+        body: JSON.stringify({ changeId: history.entries[1].id })
+      }),
+      routeParams({ id: uploaded.id })
+    );
+    expect(response.status).toBe(200);
+    expect(running.emulator.getImage(uploaded.id)?.meta).toMatchObject({ folder: 'drafts', tags: ['one'] });
+    expect(running.emulator.getImage(uploaded.id)?.meta).not.toHaveProperty('altTag');
+
+    // The log is kept apart from the cache, so clearing it loses nothing
+    await clearAllCaches();
+    const after = await (
+      await historyGET(new NextRequest('http://localhost/api/images/x/history'), routeParams({ id: uploaded.id }))
+    ).json();
+    expect(after.entries).toHaveLength(3);
+    expect(after.entries[0]).toMatchObject({ source: 'revert', revertOf: history.entries[1].id });
+  });
+
+  it('moves deleted images to the trash, restores them and purges them', async () => {
+    const { body: uploaded } = await uploadFile(await createPng(20, 20, 90), 'trashed.png');
+    const listIds = async () =>
+      (await (await queryGET(new NextRequest('http://localhost/api/images/query'))).json()).images.map(
+        (image: { id: string }) => image.id
+      );
+    const remove = () =>
+      imageDELETE(
+        new NextRequest(`http://localhost/api/images/${uploaded.id}`, { method: 'DELETE' }),
+        routeParams({ id: uploaded.id })
+      );
+
+    expect((await remove()).status).toBe(200);
+    expect(running.emulator.getImage(uploaded.id)?.meta).toHaveProperty('deletedAt');
+    expect(await listIds()).not.toContain(uploaded.id);
+    const trash = await (await trashGET()).json();
+    expect(trash.images).toEqual([expect.objectContaining({ id: uploaded.id, purgeAt: expect.any(String) })]);
+
+    const restored = await restorePOST(
+      new NextRequest(`http://localhost/api/images/${uploaded.id}/restore`, { method: 'POST' }),
+      routeParams({ id: uploaded.id })
+    );
+    expect(restored.status).toBe(200);
+    expect(await listIds()).toContain(uploaded.id);
+
+    await remove();
+    const emptied = await trashDELETE();
+    const { jobId } = await emptied.json();
+    expect(emptied.status).toBe(202);
+    const job = await waitForJob(jobId);
+    expect(job?.result).toEqual({ purged: 1, failed: [] });
+    expect(running.emulator.getImage(uploaded.id)).toBeUndefined();
+  });
+
+  it('exports the catalog and imports it under new ids with variation links intact', async () => {
+    const parent = await uploadFile(await createPng(30, 20, 60), 'parent.png', { folder: 'archive', tags: 'kept' });
+    const child = await uploadFile(await createPng(20, 30, 70), 'child.png', { parentId: parent.body.id });
+
+    const exported = await exportGET(new NextRequest('http://localhost/api/export'));
+    expect(exported.headers.get('content-type')).toBe('application/zip');
+    const archive = Buffer.from(await exported.arrayBuffer());
+
+    // Import into an empty library
+    running.emulator.reset();
+    await clearAllCaches();
+    const response = await importArchivePOST(
+      new NextRequest('http://localhost/api/import/archive', {
+        method: 'POST',
+        body: new Uint8Array(archive),
+        headers: { 'Content-Type': 'application/zip' }
+      })
+    );
+    const { jobId, images } = await response.json();
+    expect(response.status).toBe(202);
+    expect(images).toBe(2);
+    const job = await waitForJob(jobId);
+    expect(job).toMatchObject({ status: 'succeeded', result: { imported: 2, skipped: 0, failed: [], linked: 1 } });
+
+    const idMap = (job?.result as { idMap: Record<string, string> }).idMap;
+    const newParentId = idMap[parent.body.id];
+    const newChildId = idMap[child.body.id];
+    expect(newParentId).toBeDefined();
+    expect(newParentId).not.toBe(parent.body.id);
+    expect(running.emulator.getImage(newParentId)?.meta).toMatchObject({ folder: 'archive', tags: ['kept'] });
+    expect(running.emulator.getImage(newChildId)?.meta).toMatchObject({ variationParentId: newParentId });
+    const original = await createPng(30, 20, 60);
+    expect(running.emulator.getImage(newParentId)?.bytes.equals(original)).toBe(true);
+  });
+
+  it('serves signed share links until they run out, are revoked or are tampered with', async () => {
+    const { body: uploaded } = await uploadFile(await createPng(40, 40, 110), 'shared.png');
+    const createLink = async (body: Record<string, unknown>) => {
+      const response = await sharePOST(
+        new NextRequest(`http://localhost/api/images/${uploaded.id}/share`, {
+          method: 'POST',
+          body: JSON.stringify(body)
+        }),
+        routeParams({ id: uploaded.id })
+      );
+      expect(response.status).toBe(201);
+      return response.json();
+    };
+    const open = (token: string, headers: Record<string, string> = {}) =>
+      sharedGET(new NextRequest(`http://localhost/api/share/${token}`, { headers }), routeParams({ token }));
+
+    const limited = await createLink({ variant: 'w=20', maxDownloads: 1, password: 'hunter22' });
+    expect(limited.url).toBe(`http://localhost/api/share/${limited.token}`);
+    expect(limited.link).toMatchObject({ hasPassword: true, downloads: 0, status: 'active' });
+    expect(limited.link).not.toHaveProperty('passwordHash');
+
+    expect((await open(limited.token)).status).toBe(401);
+    expect((await open(limited.token, { 'x-share-password': 'wrong' })).status).toBe(401);
+    const served = await open(limited.token, { 'x-share-password': 'hunter22' });
+    expect(served.status).toBe(200);
+    const info = await sharp(Buffer.from(await served.arrayBuffer())).metadata();
+    expect(info.width).toBe(20);
+    expect((await open(limited.token, { 'x-share-password': 'hunter22' })).status).toBe(410);
+
+    const open2 = await createLink({});
+    const [payload, signature] = open2.token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), v: 'public' })
+    ).toString('base64url');
+    expect((await open(`${forged}.${signature}`)).status).toBe(404);
+
+    await shareRevokeDELETE(
+      new NextRequest(`http://localhost/api/shares/${open2.link.id}`, { method: 'DELETE' }),
+      routeParams({ id: open2.link.id })
+    );
+    expect((await open(open2.token)).status).toBe(410);
+  });
+
+  it('shares a folder, a search or picked images as a gallery with a download-all archive', async () => {
+    const first = await uploadFile(await createPng(20, 20, 30), 'first.png', { folder: 'client', tags: 'pick' });
+    const second = await uploadFile(await createPng(20, 20, 40), 'second.png', { folder: 'client' });
+    await uploadFile(await createPng(20, 20, 50), 'elsewhere.png', { folder: 'archive', tags: 'pick' });
+    const share = async (body: Record<string, unknown>) => {
+      const response = await galleryShareCreatePOST(
+        new NextRequest('http://localhost/api/shares/galleries', { method: 'POST', body: JSON.stringify(body) })
+      );
+      return { status: response.status, body: await response.json() };
+    };
+    const imagesFor = async (token: string) =>
+      (await selectGalleryShareImages(await resolveGalleryShare(token))).map((image) => image.id).sort();
+    const download = (token: string) =>
+      sharedGalleryGET(new NextRequest(`http://localhost/api/share/gallery/${token}`), routeParams({ token }));
+
+    const folder = await share({ source: { kind: 'folder', folder: 'client' }, allowDownload: true });
+    expect(folder.status).toBe(201);
+    expect(folder.body.url).toBe(`http://localhost/shared/${folder.body.token}`);
+    expect(folder.body.share).toMatchObject({ title: 'client', allowDownload: true, status: 'active' });
+    expect(await imagesFor(folder.body.token)).toEqual([first.body.id, second.body.id].sort());
+
+    const search = await share({ source: { kind: 'search', query: 'folder=client&tag=pick&cursor=abc' } });
+    expect(search.body.share.source).toEqual({ kind: 'search', query: 'folder=client&tag=pick' });
+    expect(await imagesFor(search.body.token)).toEqual([first.body.id]);
+    expect((await download(search.body.token)).status).toBe(403);
+
+    const picked = await share({ source: { kind: 'ids', ids: [second.body.id, 'missing'] } });
+    expect(await imagesFor(picked.body.token)).toEqual([second.body.id]);
+    expect((await share({ source: { kind: 'ids', ids: [] } })).status).toBe(400);
+
+    const archive = await download(folder.body.token);
+    expect(archive.headers.get('content-type')).toBe('application/zip');
+    const zip = new AdmZip(Buffer.from(await archive.arrayBuffer()));
+    expect(zip.getEntries().map((entry) => entry.entryName.replace(/^\d+-/, '')).sort()).toEqual([
+      'first.png',
+      'second.png'
+    ]);
+
+    await galleryShareRevokeDELETE(
+      new NextRequest(`http://localhost/api/shares/galleries/${folder.body.share.id}`, { method: 'DELETE' }),
+      routeParams({ id: folder.body.share.id })
+    );
+    expect((await download(folder.body.token)).status).toBe(410);
+    expect((await download(`${folder.body.token}x`)).status).toBe(404);
+  });
+
+  it('keeps collections ordered and drops purged images from them', async () => {
+    const ids: string[] = [];
+    for (const [index, name] of ['one.png', 'two.png', 'three.png'].entries()) {
+      ids.push((await uploadFile(await createPng(12, 12, 80 + index * 10), name)).body.id);
+    }
+    const created = await collectionsPOST(
+      new NextRequest('http://localhost/api/collections', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Portfolio', description: 'Best of' })
+      })
+    );
+    expect(created.status).toBe(201);
+    const { collection } = await created.json();
+    const target = routeParams({ id: collection.id });
+    const add = (body: unknown) =>
+      collectionImagesPOST(
+        new NextRequest(`http://localhost/api/collections/${collection.id}/images`, {
+          method: 'POST',
+          body: JSON.stringify(body)
+        }),
+        target
+      );
+    const patch = (body: unknown) =>
+      collectionPATCH(
+        new NextRequest(`http://localhost/api/collections/${collection.id}`, { method: 'PATCH', body: JSON.stringify(body) }),
+        target
+      );
+    const read = async () =>
+      (await collectionGET(new NextRequest(`http://localhost/api/collections/${collection.id}`), target)).json();
+
+    expect((await add({ ids: [ids[0], 'missing'] })).status).toBe(404);
+    expect(await (await add({ ids: [ids[0], ids[1], ids[0]] })).json()).toMatchObject({ added: 2 });
+    expect(await (await add({ ids: [ids[1], ids[2]] })).json()).toMatchObject({ added: 1 });
+
+    expect((await patch({ coverImageId: 'missing' })).status).toBe(400);
+    await patch({ imageIds: [ids[2], ids[0], ids[1]], coverImageId: ids[0] });
+    const reordered = await read();
+    expect(reordered.images.map((image: { id: string }) => image.id)).toEqual([ids[2], ids[0], ids[1]]);
+    expect(reordered.collection).toMatchObject({ title: 'Portfolio', coverId: ids[0] });
+
+    await imageDELETE(new NextRequest(`http://localhost/api/images/${ids[0]}`, { method: 'DELETE' }), routeParams({ id: ids[0] }));
+    expect((await read()).missingIds).toEqual([ids[0]]);
+    await trashItemDELETE(new NextRequest(`http://localhost/api/trash/${ids[0]}`, { method: 'DELETE' }), routeParams({ id: ids[0] }));
+    const afterPurge = await read();
+    expect(afterPurge.collection.imageIds).toEqual([ids[2], ids[1]]);
+    expect(afterPurge.collection.coverId).toBe(ids[2]);
+  });
+
+  it('merges tags across images and matches synonyms and child tags', async () => {
+    const first = await uploadFile(await createPng(12, 12, 140), 'first.png', { tags: 'automobile, red' });
+    const second = await uploadFile(await createPng(12, 12, 150), 'second.png', { tags: 'Car' });
+    const third = await uploadFile(await createPng(12, 12, 160), 'third.png', { tags: 'auto, car' });
+    const sedan = await uploadFile(await createPng(12, 12, 170), 'sedan.png', { tags: 'sedan' });
+
+    const merged = await tagMergePOST(
+      new NextRequest('http://localhost/api/tags/merge', {
+        method: 'POST',
+        body: JSON.stringify({ tags: ['automobile', 'auto'], into: 'car', keepAsSynonyms: true })
+      })
+    );
+    expect(merged.status).toBe(202);
+    const job = await waitForJob((await merged.json()).jobId);
+    expect(job).toMatchObject({ status: 'succeeded', result: { updated: 2 } });
+    expect(running.emulator.getImage(first.body.id)?.meta.tags).toEqual(['car', 'red']);
+    // The existing `car` tag absorbs the merged one instead of appearing twice
+    expect(running.emulator.getImage(third.body.id)?.meta.tags).toEqual(['car']);
+
+    const parented = await tagPATCH(
+      new NextRequest('http://localhost/api/tags/sedan', { method: 'PATCH', body: JSON.stringify({ parent: 'car' }) }),
+      routeParams({ tag: 'sedan' })
+    );
+    expect(parented.status).toBe(200);
+    const cycle = await tagPATCH(
+      new NextRequest('http://localhost/api/tags/car', { method: 'PATCH', body: JSON.stringify({ parent: 'sedan' }) }),
+      routeParams({ tag: 'car' })
+    );
+    expect(cycle.status).toBe(400);
+
+    const query = async (params: string) =>
+      (await (await queryGET(new NextRequest(`http://localhost/api/images/query?${params}`))).json()).images
+        .map((image: { id: string }) => image.id)
+        .sort();
+    const cars = [first.body.id, second.body.id, third.body.id, sedan.body.id].sort();
+    expect(await query('tag=car')).toEqual(cars);
+    expect(await query('search=automobile')).toEqual(cars);
+    expect(await query('tag=sedan')).toEqual([sedan.body.id]);
+
+    const catalog = await (await tagsGET(new NextRequest('http://localhost/api/tags'))).json();
+    expect(catalog.tags.find((entry: { key: string }) => entry.key === 'car')).toMatchObject({
+      count: 3,
+      total: 4,
+      children: ['sedan'],
+      aliases: ['auto', 'automobile']
+    });
+  });
+
+  it('applies ingest rules to uploads and previews them against the library', async () => {
+    const saveRules = (rules: unknown[]) =>
+      ingestRulesPUT(new NextRequest('http://localhost/api/ingest-rules', { method: 'PUT', body: JSON.stringify({ rules }) }));
+    const saved = await saveRules([
+      { name: 'Screens', match: { filename: 'screen*.png', minWidth: 30 }, actions: { folder: 'screens/wide', tags: ['screenshot'], displayName: '{name} ({width}x{height})' } },
+      { name: 'PNG', match: { mimeType: 'image/png' }, actions: { folder: 'png', tags: ['png'] } }
+    ]);
+    expect(saved.status).toBe(200);
+
+    try {
+      const wide = await uploadFile(await createPng(40, 20, 60), 'screen-1.png', { tags: 'ui' });
+      const narrow = await uploadFile(await createPng(20, 20, 70), 'screen-2.png');
+      const chosen = await uploadFile(await createPng(40, 20, 80), 'screen-3.png', { folder: 'mine' });
+
+      expect(running.emulator.getImage(wide.body.id)?.meta).toMatchObject({
+        folder: 'screens/wide',
+        tags: ['ui', 'screenshot', 'png'],
+        displayName: 'screen-1 (40x20)'
+      });
+      expect(running.emulator.getImage(narrow.body.id)?.meta).toMatchObject({ folder: 'png', tags: ['png'] });
+      expect(running.emulator.getImage(chosen.body.id)?.meta.folder).toBe('mine');
+
+      const preview = await ingestPreviewPOST(
+        new NextRequest('http://localhost/api/ingest-rules/preview', {
+          method: 'POST',
+          body: JSON.stringify({ rules: [{ match: { filename: 'screen-2*' }, actions: { tags: ['second'] } }] })
+        })
+      );
+      const body = await preview.json();
+      expect(body).toMatchObject({ checked: 3, total: 1 });
+      expect(body.matches[0]).toMatchObject({ id: narrow.body.id, result: { tags: ['second'] } });
+
+      const invalid = await saveRules([{ match: {}, actions: { tags: ['x'] } }]);
+      expect(invalid.status).toBe(400);
+    } finally {
+      await saveRules([]);
+    }
+  });
+
+  it('generates missing captions in a batch and writes them only once approved', async () => {
+    const chair = await uploadFile(await createPng(12, 12, 90), 'red_chair.png', { folder: 'furniture' });
+    const lamp = await uploadFile(await createPng(12, 12, 100), 'lamp.png', { folder: 'furniture' });
+    await uploadFile(await createPng(12, 12, 110), 'elsewhere.png', { folder: 'misc' });
+    const described = await updatePATCH(
+      new NextRequest(`http://localhost/api/images/${lamp.body.id}/update`, {
+        method: 'PATCH',
+        body: JSON.stringify({ description: 'A brass lamp' })
+      }),
+      routeParams({ id: lamp.body.id })
+    );
+    expect(described.status).toBe(200);
+
+    const batch = (body: Record<string, unknown>) =>
+      captionBatchPOST(
+        new NextRequest('http://localhost/api/captions/batch', { method: 'POST', body: JSON.stringify(body) })
+      );
+    const estimate = await (await batch({ folder: 'furniture', dryRun: true })).json();
+    expect(estimate).toMatchObject({
+      counts: { alt: 2, description: 1 },
+      images: 2,
+      estimate: { provider: 'stub', requests: 3, usd: 0 }
+    });
+
+    const started = await batch({ folder: 'furniture', ratePerMinute: 600 });
+    expect(started.status).toBe(202);
+    const job = await waitForJob((await started.json()).jobId);
+    expect(job).toMatchObject({ status: 'succeeded', result: { generated: 3, failed: [] } });
+    // Nothing is written until a reviewer approves it
+    expect(running.emulator.getImage(chair.body.id)?.meta.altTag).toBeUndefined();
+    // Pending suggestions are not generated twice
+    expect((await (await batch({ folder: 'furniture', dryRun: true })).json()).counts).toEqual({ alt: 0, description: 0 });
+
+    const { suggestions } = await (await captionReviewGET()).json();
+    expect(suggestions).toHaveLength(3);
+    const find = (imageId: string, kind: string) =>
+      suggestions.find((entry: { imageId: string; kind: string }) => entry.imageId === imageId && entry.kind === kind);
+    expect(find(chair.body.id, 'alt').text).toBe('Image of red chair');
+
+    const review = (id: string, body: Record<string, unknown>) =>
+      captionReviewPOST(
+        new NextRequest(`http://localhost/api/captions/review/${id}`, { method: 'POST', body: JSON.stringify(body) }),
+        routeParams({ id })
+      );
+    expect((await review(find(chair.body.id, 'alt').id, { action: 'approve', text: 'Red wooden chair' })).status).toBe(200);
+    expect((await review(find(chair.body.id, 'description').id, { action: 'reject' })).status).toBe(200);
+    expect((await review(find(lamp.body.id, 'alt').id, { action: 'approve' })).status).toBe(200);
+    expect((await review('missing', { action: 'approve' })).status).toBe(404);
+
+    expect(running.emulator.getImage(chair.body.id)?.meta).toMatchObject({ altTag: 'Red wooden chair' });
+    expect(running.emulator.getImage(chair.body.id)?.meta.description).toBeUndefined();
+    expect(running.emulator.getImage(lamp.body.id)?.meta).toMatchObject({ altTag: 'Image of lamp', description: 'A brass lamp' });
+    expect((await (await captionReviewGET()).json()).suggestions).toEqual([]);
+
+    const history = await (await historyGET(
+      new NextRequest(`http://localhost/api/images/${chair.body.id}/history`),
+      routeParams({ id: chair.body.id })
+    )).json();
+    expect(history.entries[0]).toMatchObject({ source: 'caption-review' });
+  });
+
+  it('generates responsive derivatives linked to the original, on demand and on upload', async () => {
+    await writeFile(
+      process.env.DERIVATIVE_PROFILES_PATH!,
+      JSON.stringify({
+        profiles: [
+          { id: 'responsive', formats: ['avif', 'jpeg'], widths: [16, 32, 128] },
+          { id: 'square', formats: ['webp'], widths: [24], aspectRatio: '1:1' }
+        ]
+      })
+    );
+    const original = await uploadFile(await createPng(64, 32, 120), 'banner.png', {
+      folder: 'site',
+      description: 'Site banner'
+    });
+    const generate = (id: string, body: Record<string, unknown> = {}) =>
+      derivativesPOST(
+        new NextRequest(`http://localhost/api/images/${id}/derivatives`, { method: 'POST', body: JSON.stringify(body) }),
+        routeParams({ id })
+      );
+    const list = async (id: string) =>
+      (await derivativesGET(new NextRequest(`http://localhost/api/images/${id}/derivatives`), routeParams({ id }))).json();
+
+    expect((await generate(original.body.id, { profiles: ['missing'] })).status).toBe(400);
+    const started = await generate(original.body.id);
+    expect(started.status).toBe(202);
+    const job = await waitForJob((await started.json()).jobId);
+    // 128w is wider than the source, so it is skipped rather than upscaled
+    expect(job).toMatchObject({ status: 'succeeded', result: { created: 5, skipped: 0, failed: [] } });
+
+    const { derivatives } = await list(original.body.id);
+    expect(derivatives.map((entry: { profile: string; format: string; width: number; height: number }) =>
+      `${entry.profile} ${entry.format} ${entry.width}x${entry.height}`
+    )).toEqual([
+      'responsive avif 16x8',
+      'responsive avif 32x16',
+      'responsive jpeg 16x8',
+      'responsive jpeg 32x16',
+      'square webp 24x24'
+    ]);
+    const square = running.emulator.getImage(derivatives[4].id);
+    expect(square).toMatchObject({ contentType: 'image/webp', filename: 'banner-square-24w.webp' });
+    expect(square?.meta).toMatchObject({ folder: 'site', variationParentId: original.body.id });
+    // The <picture> snippet reads the original's text, so none is copied that could go stale
+    expect(square?.meta.description).toBeUndefined();
+    expect(await sharp(square!.bytes).metadata()).toMatchObject({ format: 'webp', width: 24, height: 24 });
+    // Derivatives are not captioned on their own
+    const captions = await captionBatchPOST(
+      new NextRequest('http://localhost/api/captions/batch', {
+        method: 'POST',
+        body: JSON.stringify({ folder: 'site', kinds: ['alt'], dryRun: true })
+      })
+    );
+    expect(await captions.json()).toMatchObject({ counts: { alt: 1 }, images: 1 });
+
+    // Existing copies are kept unless forced, and forced copies replace the old ones
+    const again = await waitForJob((await (await generate(original.body.id, { profiles: ['square'] })).json()).jobId);
+    expect(again?.result).toMatchObject({ created: 0, skipped: 1 });
+    const forced = await waitForJob(
+      (await (await generate(original.body.id, { profiles: ['square'], force: true })).json()).jobId
+    );
+    expect(forced?.result).toMatchObject({ created: 1, removed: 1 });
+    expect(running.emulator.getImage(derivatives[4].id)).toBeUndefined();
+    expect((await generate(derivatives[0].id)).status).toBe(400);
+
+    process.env.DERIVATIVES_ON_UPLOAD = 'square';
+    try {
+      const uploaded = await uploadFile(await createPng(40, 40, 130), 'tile.png');
+      const [queued] = await listJobs({ type: 'derivatives', limit: 1 });
+      expect(queued.input).toMatchObject({ imageIds: [uploaded.body.id], profiles: ['square'] });
+      await waitForJob(queued.id);
+      expect((await list(uploaded.body.id)).derivatives).toMatchObject([{ profile: 'square', width: 24 }]);
+    } finally {
+      delete process.env.DERIVATIVES_ON_UPLOAD;
+    }
+  });
+
+  it('trashes, restores and purges derivatives along with their original', async () => {
+    await writeFile(
+      process.env.DERIVATIVE_PROFILES_PATH!,
+      JSON.stringify({ profiles: [{ id: 'responsive', formats: ['webp'], widths: [16, 32] }] })
+    );
+    const { body: original } = await uploadFile(await createPng(40, 20, 140), 'hero.png');
+    const started = await derivativesPOST(
+      new NextRequest(`http://localhost/api/images/${original.id}/derivatives`, { method: 'POST', body: '{}' }),
+      routeParams({ id: original.id })
+    );
+    await waitForJob((await started.json()).jobId);
+    const derivativeIds = (
+      await (
+        await derivativesGET(
+          new NextRequest(`http://localhost/api/images/${original.id}/derivatives`),
+          routeParams({ id: original.id })
+        )
+      ).json()
+    ).derivatives.map((entry: { id: string }) => entry.id);
+    expect(derivativeIds).toHaveLength(2);
+    const trashedIds = async () =>
+      (await (await trashGET()).json()).images.map((image: { id: string }) => image.id).sort();
+
+    const remove = () =>
+      imageDELETE(
+        new NextRequest(`http://localhost/api/images/${original.id}`, { method: 'DELETE' }),
+        routeParams({ id: original.id })
+      );
+    expect((await remove()).status).toBe(200);
+    expect(await trashedIds()).toEqual([original.id, ...derivativeIds].sort());
+
+    const restored = await restorePOST(
+      new NextRequest(`http://localhost/api/images/${original.id}/restore`, { method: 'POST' }),
+      routeParams({ id: original.id })
+    );
+    expect(restored.status).toBe(200);
+    expect(await trashedIds()).toEqual([]);
+
+    await remove();
+    const job = await waitForJob((await (await trashDELETE()).json()).jobId);
+    expect(job?.result).toEqual({ purged: 1, failed: [] });
+    [original.id, ...derivativeIds].forEach((id) => expect(running.emulator.getImage(id)).toBeUndefined());
+  });
+
+  it('deletes derivatives along with their original when deleting permanently', async () => {
+    await writeFile(
+      process.env.DERIVATIVE_PROFILES_PATH!,
+      JSON.stringify({ profiles: [{ id: 'responsive', formats: ['webp'], widths: [16] }] })
+    );
+    const { body: original } = await uploadFile(await createPng(40, 20, 150), 'banner.png');
+    const started = await derivativesPOST(
+      new NextRequest(`http://localhost/api/images/${original.id}/derivatives`, { method: 'POST', body: '{}' }),
+      routeParams({ id: original.id })
+    );
+    await waitForJob((await started.json()).jobId);
+    expect(running.emulator.listImages().filter((image) => image.meta.variationParentId === original.id)).toHaveLength(1);
+
+    const response = await imageDELETE(
+      new NextRequest(`http://localhost/api/images/${original.id}?permanent=1`, { method: 'DELETE' }),
+      routeParams({ id: original.id })
+    );
+    expect(await response.json()).toEqual({ success: true, permanent: true });
+    expect(running.emulator.listImages()).toEqual([]);
+  });
+
+  it('rotates an image into a new upload', async () => {
+    const { body: uploaded } = await uploadFile(await createPng(60, 20), 'wide.png', { folder: 'rotations' });
+
+    const response = await rotatePOST(
+      new NextRequest(`http://localhost/api/images/${uploaded.id}/rotate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ direction: 'right' })
+      }),
+      routeParams({ id: uploaded.id })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.id).not.toBe(uploaded.id);
+    const rotated = running.emulator.getImage(body.id);
+    expect(rotated?.meta).toMatchObject({ rotatedFromId: uploaded.id, folder: 'rotations' });
+    const info = await sharp(rotated!.bytes).metadata();
+    expect({ width: info.width, height: info.height }).toEqual({ width: 20, height: 60 });
+  });
+
+  it('animates a selection of uploads into a webp', async () => {
+    const first = await uploadFile(await createPng(30, 30, 10), 'frame-1.png');
+    const second = await uploadFile(await createPng(30, 30, 240), 'frame-2.png');
+
+    const response = await animateSelectionPOST(
+      new NextRequest('http://localhost/api/animate/selection', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [first.body.id, second.body.id], fps: 4, filename: 'loop' })
+      })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    const animation = running.emulator.getImage(body.id);
+    expect(animation?.filename).toBe('loop.webp');
+    const info = await sharp(animation!.bytes, { animated: true }).metadata();
+    expect(info.pages).toBe(2);
+  });
+
+  it('renames a folder across every image in it', async () => {
+    const inFolder = await uploadFile(await createPng(10, 10, 1), 'a.png', { folder: 'drafts' });
+    const other = await uploadFile(await createPng(10, 10, 2), 'b.png', { folder: 'final' });
+
+    const response = await folderPATCH(
+      new NextRequest('http://localhost/api/folders/drafts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newName: 'published' })
+      }),
+      routeParams({ name: 'drafts' })
+    );
+
+    const body = await response.json();
+    expect(response.status).toBe(202);
+    const job = await waitForJob(body.jobId);
+    expect(job).toMatchObject({ status: 'succeeded', result: { updated: 1 }, progress: { completed: 1, total: 1 } });
+    expect(running.emulator.getImage(inFolder.body.id)?.meta.folder).toBe('published');
+    expect(running.emulator.getImage(other.body.id)?.meta.folder).toBe('final');
+  });
+
+  it('moves a nested folder subtree and rebases every image below it', async () => {
+    const top = await uploadFile(await createPng(10, 10, 5), 'top.png', { folder: 'clients/acme' });
+    const nested = await uploadFile(await createPng(10, 10, 6), 'nested.png', { folder: 'clients/acme/2025' });
+    const sibling = await uploadFile(await createPng(10, 10, 7), 'sibling.png', { folder: 'clients/acme-old' });
+
+    const response = await folderPATCH(
+      new NextRequest('http://localhost/api/folders/clients%2Facme', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newName: 'archive/acme' })
+      }),
+      routeParams({ name: 'clients/acme' })
+    );
+
+    const body = await response.json();
+    expect(response.status).toBe(202);
+    const job = await waitForJob(body.jobId);
+    expect(job).toMatchObject({ status: 'succeeded', result: { updated: 2 } });
+    expect(running.emulator.getImage(top.body.id)?.meta.folder).toBe('archive/acme');
+    expect(running.emulator.getImage(nested.body.id)?.meta.folder).toBe('archive/acme/2025');
+    expect(running.emulator.getImage(sibling.body.id)?.meta.folder).toBe('clients/acme-old');
+
+    const moved = await (
+      await queryGET(new NextRequest('http://localhost/api/images/query?folder=archive%2Facme'))
+    ).json();
+    expect(moved.images.map((image: { id: string }) => image.id).sort()).toEqual([top.body.id, nested.body.id].sort());
+
+    const intoItself = await folderPATCH(
+      new NextRequest('http://localhost/api/folders/archive', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newName: 'archive/old' })
+      }),
+      routeParams({ name: 'archive' })
+    );
+    expect(intoItself.status).toBe(400);
+  });
+
+  it('reports images whose delivery URL is gone in the audit', async () => {
+    const kept = await uploadFile(await createPng(10, 10, 3), 'kept.png');
+    const lost = await uploadFile(await createPng(10, 10, 4), 'lost.png');
+    // Simulate an image removed on Cloudflare's side while still cached locally
+    running.emulator.deleteImage(lost.body.id);
+
+    const response = await auditGET(new NextRequest('http://localhost/api/images/audit'));
+    const body = await response.json();
+
+    expect(body.checked).toBe(2);
+    expect(body.broken.map((entry: { id: string }) => entry.id)).not.toContain(kept.body.id);
+    expect(body.broken).toEqual([
+      expect.objectContaining({ id: lost.body.id, reason: 'not-found', status: 404 })
+    ]);
+  });
+
+  it('runs the full audit as a background job', async () => {
+    await uploadFile(await createPng(10, 10, 5), 'kept.png');
+    const lost = await uploadFile(await createPng(10, 10, 6), 'lost.png');
+    running.emulator.deleteImage(lost.body.id);
+
+    const response = await auditPOST(
+      new NextRequest('http://localhost/api/images/audit', { method: 'POST', body: JSON.stringify({}) })
+    );
+    const { jobId } = await response.json();
+    expect(response.status).toBe(202);
+    await waitForJob(jobId);
+
+    const status = await jobGET(new NextRequest(`http://localhost/api/jobs/${jobId}`), routeParams({ id: jobId }));
+    const job = await status.json();
+    expect(job).toMatchObject({ status: 'succeeded', progress: { completed: 2, total: 2 } });
+    expect(job.result.broken).toEqual([expect.objectContaining({ id: lost.body.id, reason: 'not-found' })]);
+  });
+});
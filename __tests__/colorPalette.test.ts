@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { extractDominantColors } from '@/server/colorPalette';
+import { deltaE2000, hexToLab, matchesDominantColor, nearestColorName } from '@/utils/colorPalette';
+
+// Left 70% blue, right 30% orange
+const createSplit = async () => {
+  const width = 100;
+  const height = 40;
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const color = x < 70 ? [30, 90, 220] : [245, 130, 10];
+      pixels.set(color, (y * width + x) * 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+};
+
+describe('color palette', () => {
+  it('extracts the main colors ordered by coverage', async () => {
+    const colors = await extractDominantColors(await createSplit());
+    expect(colors).toHaveLength(2);
+    expect(nearestColorName(colors[0].hex)).toBe('blue');
+    expect(colors[0].share).toBeCloseTo(0.7, 1);
+    expect(nearestColorName(colors[1].hex)).toBe('orange');
+  });
+
+  it('measures perceptual distance', () => {
+    expect(deltaE2000(hexToLab('#336699'), hexToLab('#336699'))).toBe(0);
+    // Reference pair from Sharma et al.'s CIEDE2000 test data
+    expect(deltaE2000([50, 2.6772, -79.7751], [50, 0, -82.7485])).toBeCloseTo(2.0425, 3);
+    expect(deltaE2000(hexToLab('#1e5adc'), hexToLab('#2060e0'))).toBeLessThan(3);
+    expect(deltaE2000(hexToLab('#1e5adc'), hexToLab('#f5820a'))).toBeGreaterThan(40);
+  });
+
+  it('matches names, aliases and hex values against sizeable palette colors', () => {
+    const palette = [
+      { hex: '#8a8c8e', share: 0.9 },
+      { hex: '#1e5adc', share: 0.08 },
+      { hex: '#d62828', share: 0.02 }
+    ];
+    expect(matchesDominantColor(palette, 'blue')).toBe(true);
+    expect(matchesDominantColor(palette, 'grey')).toBe(true);
+    expect(matchesDominantColor(palette, '#2060e0')).toBe(true);
+    expect(matchesDominantColor(palette, 'red')).toBe(false); // below the minimum share
+    expect(matchesDominantColor(palette, '#f5820a')).toBe(false);
+    expect(matchesDominantColor(palette, 'chartreuse')).toBe(false);
+    expect(matchesDominantColor(undefined, 'blue')).toBe(false);
+  });
+});
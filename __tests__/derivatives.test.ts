@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DerivativeError,
+  planDerivatives,
+  sanitizeDerivativeProfiles,
+  type DerivativeProfile
+} from '@/server/derivatives';
+import { buildPictureSnippet, parseDerivativeInfo, type PictureSource } from '@/utils/responsiveImages';
+
+const profile = (overrides: Partial<DerivativeProfile> = {}): DerivativeProfile => ({
+  id: 'responsive',
+  name: 'Responsive',
+  formats: ['webp'],
+  widths: [480, 960, 1600],
+  ...overrides
+});
+
+describe('derivative profiles', () => {
+  it('validates ids, formats, widths, aspect ratios and quality', () => {
+    expect(
+      sanitizeDerivativeProfiles([{ id: 'hero', formats: ['jpeg', 'avif', 'jpeg'], widths: [1920, 960], aspectRatio: '21:9' }])
+    ).toEqual([{ id: 'hero', name: 'hero', formats: ['jpeg', 'avif'], widths: [960, 1920], aspectRatio: '21:9' }]);
+
+    expect(() => sanitizeDerivativeProfiles([{ id: 'Hero!', formats: ['webp'], widths: [100] }])).toThrow(DerivativeError);
+    expect(() => sanitizeDerivativeProfiles([{ id: 'a', formats: ['png'], widths: [100] }])).toThrow(/formats/);
+    expect(() => sanitizeDerivativeProfiles([{ id: 'a', formats: ['webp'], widths: [0] }])).toThrow(/widths/);
+    expect(() => sanitizeDerivativeProfiles([{ id: 'a', formats: ['webp'], widths: [100], aspectRatio: '7:5' }])).toThrow(
+      /aspectRatio/
+    );
+    expect(() =>
+      sanitizeDerivativeProfiles([
+        { id: 'a', formats: ['webp'], widths: [100] },
+        { id: 'a', formats: ['jpeg'], widths: [100] }
+      ])
+    ).toThrow(/twice/);
+  });
+
+  it('plans widths that fit the source and keeps its shape', () => {
+    expect(planDerivatives(profile({ formats: ['avif', 'jpeg'] }), { width: 1200, height: 800 })).toEqual([
+      { format: 'avif', width: 480, height: 320 },
+      { format: 'avif', width: 960, height: 640 },
+      { format: 'jpeg', width: 480, height: 320 },
+      { format: 'jpeg', width: 960, height: 640 }
+    ]);
+    // Smaller than every configured width: one copy at the source width
+    expect(planDerivatives(profile(), { width: 300, height: 200 })).toEqual([{ format: 'webp', width: 300, height: 200 }]);
+  });
+
+  it('limits cropped widths to what the crop leaves of the source', () => {
+    // A 1:1 crop of 2000x1000 is at most 1000 wide
+    expect(planDerivatives(profile({ aspectRatio: '1:1' }), { width: 2000, height: 1000 })).toEqual([
+      { format: 'webp', width: 480, height: 480 },
+      { format: 'webp', width: 960, height: 960 }
+    ]);
+    expect(planDerivatives(profile({ aspectRatio: '16:9', widths: [1600] }), { width: 1000, height: 1000 })).toEqual([
+      { format: 'webp', width: 1000, height: 563 }
+    ]);
+  });
+});
+
+describe('picture snippet', () => {
+  const source = (format: PictureSource['format'], width: number): PictureSource => ({
+    profile: 'responsive',
+    format,
+    width,
+    height: width / 2,
+    url: `https://cdn.example/${format}-${width}`
+  });
+
+  it('lists modern formats as sources and falls back to the most compatible one', () => {
+    const snippet = buildPictureSnippet(
+      [source('jpeg', 960), source('webp', 480), source('avif', 960), source('jpeg', 480), source('webp', 960)],
+      { alt: 'A "red" chair', sizes: '(min-width: 800px) 50vw, 100vw' }
+    );
+    expect(snippet.split('\n')).toEqual([
+      '<picture>',
+      '  <source type="image/avif" srcset="https://cdn.example/avif-960 960w" sizes="(min-width: 800px) 50vw, 100vw">',
+      '  <source type="image/webp" srcset="https://cdn.example/webp-480 480w, https://cdn.example/webp-960 960w" sizes="(min-width: 800px) 50vw, 100vw">',
+      '  <img src="https://cdn.example/jpeg-960" srcset="https://cdn.example/jpeg-480 480w, https://cdn.example/jpeg-960 960w" sizes="(min-width: 800px) 50vw, 100vw" width="960" height="480" alt="A &quot;red&quot; chair" loading="lazy" decoding="async">',
+      '</picture>'
+    ]);
+    expect(buildPictureSnippet([])).toBe('');
+  });
+
+  it('reads derivative metadata and ignores anything malformed', () => {
+    expect(parseDerivativeInfo({ profile: 'square', format: 'webp', width: 320, height: 320, aspectRatio: '1:1' })).toEqual({
+      profile: 'square',
+      format: 'webp',
+      width: 320,
+      height: 320,
+      aspectRatio: '1:1'
+    });
+    expect(parseDerivativeInfo({ profile: 'square', format: 'png', width: 320, height: 320 })).toBeUndefined();
+    expect(parseDerivativeInfo('square')).toBeUndefined();
+  });
+});
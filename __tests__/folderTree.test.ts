@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFolderTree,
+  countImagesByFolder,
+  flattenFolderTree,
+  getFolderAncestors,
+  isInFolderSubtree,
+  normalizeFolderPath,
+  rebaseFolderPath
+} from '@/utils/folderTree';
+
+describe('folder paths', () => {
+  it('normalises separators and whitespace', () => {
+    expect(normalizeFolderPath(' clients // acme / 2025/ ')).toBe('clients/acme/2025');
+    expect(normalizeFolderPath(undefined)).toBe('');
+  });
+
+  it('lists ancestors from the root down', () => {
+    expect(getFolderAncestors('clients/acme/2025')).toEqual(['clients', 'clients/acme', 'clients/acme/2025']);
+  });
+
+  it('matches a subtree without matching folders that only share a prefix', () => {
+    expect(isInFolderSubtree('clients/acme', 'clients')).toBe(true);
+    expect(isInFolderSubtree('clients', 'clients')).toBe(true);
+    expect(isInFolderSubtree('clients-old', 'clients')).toBe(false);
+    expect(isInFolderSubtree(undefined, 'clients')).toBe(false);
+  });
+
+  it('rebases folders inside the moved subtree only', () => {
+    expect(rebaseFolderPath('clients/acme/2025', 'clients/acme', 'archive/acme')).toBe('archive/acme/2025');
+    expect(rebaseFolderPath('clients/other', 'clients/acme', 'archive/acme')).toBe('clients/other');
+    expect(rebaseFolderPath('clients/acme/2025', 'clients/acme')).toBeUndefined();
+  });
+});
+
+describe('buildFolderTree', () => {
+  it('fills in parents and counts descendants in each total', () => {
+    const counts = countImagesByFolder([
+      { folder: 'clients/acme' },
+      { folder: 'clients/acme/2025' },
+      { folder: 'clients/acme/2025' },
+      { folder: 'logos' },
+      {}
+    ]);
+    const tree = buildFolderTree(['logos', 'clients/acme/2025'], counts);
+
+    expect(tree.map((node) => node.path)).toEqual(['clients', 'logos']);
+    const [clients] = tree;
+    expect(clients).toMatchObject({ name: 'clients', count: 0, total: 3 });
+    expect(clients.children[0]).toMatchObject({ path: 'clients/acme', count: 1, total: 3 });
+    expect(flattenFolderTree(tree).map((node) => [node.path, node.depth])).toEqual([
+      ['clients', 0],
+      ['clients/acme', 1],
+      ['clients/acme/2025', 2],
+      ['logos', 0]
+    ]);
+  });
+});
@@ -83,4 +83,21 @@ describe('filterImagesForGallery', () => {
 
     expect(result.map(img => img.id)).toContain('4');
   });
+
+  it('includes nested folders when filtering by a parent folder', () => {
+    const nested = [
+      makeImage({ id: 'n1', folder: 'clients/acme' }),
+      makeImage({ id: 'n2', folder: 'clients/acme/2025' }),
+      makeImage({ id: 'n3', folder: 'clients-old' })
+    ];
+
+    const result = filterImagesForGallery(nested, {
+      selectedFolder: 'clients/acme',
+      selectedTag: '',
+      searchTerm: '',
+      onlyCanonical: false
+    });
+
+    expect(result.map(img => img.id)).toEqual(['n1', 'n2']);
+  });
 });
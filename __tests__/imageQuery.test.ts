@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { CachedCloudflareImage } from '@/server/cloudflareImageCache';
+import { ImageQueryError, parseImageQuery, queryImages } from '@/server/imageQuery';
+
+const makeImage = (overrides: Partial<CachedCloudflareImage> & { id: string }): CachedCloudflareImage => ({
+  filename: `${overrides.id}.png`,
+  uploaded: '2025-01-01T00:00:00.000Z',
+  variants: [],
+  tags: [],
+  ...overrides
+});
+
+const images: CachedCloudflareImage[] = [
+  makeImage({ id: 'a', folder: 'clients', tags: ['hero', 'red'], uploaded: '2025-01-05T00:00:00.000Z' }),
+  makeImage({ id: 'b', folder: 'clients', tags: ['hero'], uploaded: '2025-02-10T00:00:00.000Z' }),
+  makeImage({ id: 'c', folder: 'internal', tags: ['sketch'], uploaded: '2025-02-20T00:00:00.000Z' }),
+  makeImage({ id: 'd', tags: ['hero'], parentId: 'a', uploaded: '2025-03-01T00:00:00.000Z' }),
+  makeImage({ id: 'e', folder: 'clients', namespace: 'other', uploaded: '2025-03-02T00:00:00.000Z' })
+];
+
+const run = (query: string) => queryImages(images, parseImageQuery(new URLSearchParams(query)));
+
+describe('queryImages', () => {
+  it('filters by folder and tags and sorts newest first by default', () => {
+    const result = run('folder=clients&tag=hero');
+    expect(result.images.map((image) => image.id)).toEqual(['b', 'a']);
+    expect(result.total).toBe(2);
+  });
+
+  it('counts each facet without its own filter applied', () => {
+    const { facets } = run('folder=clients&tag=hero');
+    expect(facets.folders).toEqual([
+      { value: 'clients', count: 2 },
+      { value: 'no-folder', count: 1 }
+    ]);
+    expect(facets.tags).toEqual([
+      { value: 'hero', count: 2 },
+      { value: 'red', count: 1 }
+    ]);
+    expect(facets.months).toEqual([
+      { value: '2025-01', count: 1 },
+      { value: '2025-02', count: 1 }
+    ]);
+  });
+
+  it('applies date range, canonical-only, hidden filters and namespace', () => {
+    expect(run('from=2025-02-01&to=2025-02-28').images.map((image) => image.id)).toEqual(['c', 'b']);
+    expect(run('canonical=1&hiddenFolders=internal').images.map((image) => image.id)).toEqual(['b', 'a']);
+    expect(run('namespace=other').images.map((image) => image.id)).toEqual(['e']);
+    expect(run('namespace=__all__&hiddenTags=hero').images.map((image) => image.id)).toEqual(['e', 'c']);
+  });
+
+  it('pages through results with an opaque cursor', () => {
+    const first = run('limit=2&sort=name-asc');
+    expect(first.images.map((image) => image.id)).toEqual(['a', 'b']);
+    expect(first.nextCursor).toBeTruthy();
+
+    const second = run(`limit=2&sort=name-asc&cursor=${first.nextCursor}`);
+    expect(second.images.map((image) => image.id)).toEqual(['c', 'd']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('rejects invalid parameters', () => {
+    expect(() => parseImageQuery(new URLSearchParams('sort=random'))).toThrow(ImageQueryError);
+    expect(() => parseImageQuery(new URLSearchParams('limit=0'))).toThrow(ImageQueryError);
+    expect(() => parseImageQuery(new URLSearchParams('cursor=nope'))).toThrow(ImageQueryError);
+    expect(() => parseImageQuery(new URLSearchParams('from=2025-03-01&to=2025-01-01'))).toThrow(ImageQueryError);
+  });
+});
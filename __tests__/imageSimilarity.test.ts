@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import type { CachedCloudflareImage } from '@/server/cloudflareImageCache';
+import {
+  computeColorHistogram,
+  computeImageFeatures,
+  findSimilarImages,
+  recordImageFeatures,
+  scoreFeatures
+} from '@/server/imageSimilarity';
+
+const createSplit = (left: string, right: string, width = 80, height = 60) =>
+  sharp({ create: { width, height, channels: 3, background: left } })
+    .composite([
+      {
+        input: { create: { width: width / 2, height, channels: 3, background: right } },
+        left: width / 2,
+        top: 0
+      }
+    ])
+    .png()
+    .toBuffer();
+
+const makeImage = (id: string): CachedCloudflareImage => ({
+  id,
+  filename: `${id}.png`,
+  uploaded: '2025-01-01T00:00:00.000Z',
+  variants: [],
+  tags: []
+});
+
+describe('image similarity', () => {
+  it('builds a normalized 64-bin color histogram', async () => {
+    const histogram = await computeColorHistogram(await createSplit('#ff0000', '#0000ff'));
+    expect(histogram).toHaveLength(64);
+    expect(histogram.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 2);
+    expect(histogram[48]).toBeCloseTo(0.5, 1); // pure red bin
+    expect(histogram[3]).toBeCloseTo(0.5, 1); // pure blue bin
+  });
+
+  it('scores a resized copy above a differently colored image', async () => {
+    const original = await computeImageFeatures(await createSplit('#ff0000', '#0000ff'));
+    const resized = await computeImageFeatures(await createSplit('#ff0000', '#0000ff', 40, 30));
+    const other = await computeImageFeatures(await createSplit('#00ff00', '#ffff00'));
+
+    expect(scoreFeatures(original, resized)).toBeGreaterThan(0.95);
+    expect(scoreFeatures(original, other)).toBeLessThan(scoreFeatures(original, resized));
+  });
+
+  it('ranks stored candidates and skips ones without features', async () => {
+    await recordImageFeatures('sim-target', await createSplit('#ff0000', '#0000ff'));
+    await recordImageFeatures('sim-close', await createSplit('#ee0000', '#0000ee'));
+    await recordImageFeatures('sim-far', await createSplit('#00ff00', '#ffffff'));
+
+    const candidates = ['sim-target', 'sim-close', 'sim-far', 'sim-unindexed'].map(makeImage);
+    const { matches, indexed } = await findSimilarImages(makeImage('sim-target'), candidates, 5);
+
+    expect(indexed).toBe(2);
+    expect(matches.map((match) => match.image.id)).toEqual(['sim-close', 'sim-far']);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  IngestRuleError,
+  evaluateIngestRules,
+  sanitizeIngestRules,
+  type IngestFacts,
+  type IngestRule
+} from '@/server/ingestRules';
+
+const rule = (id: string, match: IngestRule['match'], actions: IngestRule['actions'], extra: Partial<IngestRule> = {}): IngestRule => ({
+  id,
+  name: id,
+  enabled: true,
+  match,
+  actions,
+  ...extra
+});
+
+const facts = (overrides: Partial<IngestFacts> = {}): IngestFacts => ({
+  filename: 'IMG_0042.JPG',
+  mimeType: 'image/jpeg',
+  exif: { make: 'FUJIFILM', model: 'X100V', lens: '23mm f/2' },
+  width: 6000,
+  height: 4000,
+  tags: [],
+  ...overrides
+});
+
+const now = new Date('2025-03-04T10:00:00.000Z');
+
+describe('ingest rules', () => {
+  it('ANDs conditions and matches globs without regard to case', () => {
+    const rules = [rule('fuji', { filename: 'img_*.jpg', camera: '*x100*', minWidth: 4000 }, { folder: 'photos/fuji' })];
+
+    expect(evaluateIngestRules(rules, facts()).folder).toBe('photos/fuji');
+    expect(evaluateIngestRules(rules, facts({ width: 1200 })).matchedRuleIds).toEqual([]);
+    expect(evaluateIngestRules(rules, facts({ width: undefined })).matchedRuleIds).toEqual([]);
+    expect(evaluateIngestRules(rules, facts({ filename: 'DSC_1.jpg' })).matchedRuleIds).toEqual([]);
+  });
+
+  it('accumulates tags while the first folder, name and namespace win', () => {
+    const rules = [
+      rule('first', { mimeType: 'image/*' }, { folder: 'inbox', tags: ['raw'] }),
+      rule('off', { mimeType: 'image/*' }, { tags: ['never'] }, { enabled: false }),
+      rule('second', { camera: 'FUJIFILM*' }, { folder: 'fuji', tags: ['Fuji', 'RAW'], displayName: '{date} {camera} {name}' }),
+      rule('third', { lens: '23mm*' }, { displayName: 'ignored', namespace: 'photos' })
+    ];
+
+    const result = evaluateIngestRules(rules, facts({ tags: ['client'] }), { now });
+
+    expect(result).toEqual({
+      folder: 'inbox',
+      tags: ['client', 'raw', 'Fuji'],
+      displayName: '2025-03-04 FUJIFILM X100V IMG_0042',
+      namespace: 'photos',
+      matchedRuleIds: ['first', 'second', 'third']
+    });
+  });
+
+  it('stops at a rule marked stop', () => {
+    const rules = [
+      rule('svg', { mimeType: 'image/svg*' }, { folder: 'vectors' }, { stop: true }),
+      rule('all', { filename: '*' }, { tags: ['upload'] })
+    ];
+
+    expect(evaluateIngestRules(rules, facts({ filename: 'logo.svg', mimeType: 'image/svg+xml' })).tags).toEqual([]);
+    expect(evaluateIngestRules(rules, facts()).tags).toEqual(['upload']);
+  });
+
+  it('never overrides what the caller chose', () => {
+    const rules = [rule('web', { sourceHost: '*.dribbble.com' }, { folder: 'inspiration', namespace: 'moodboards' })];
+    const fromDribbble = facts({ originalUrl: 'https://cdn.dribbble.com/shot.png', folder: 'mine', namespace: 'team' });
+
+    expect(evaluateIngestRules(rules, fromDribbble, { folderLocked: true, namespaceLocked: true })).toMatchObject({
+      folder: 'mine',
+      namespace: 'team',
+      matchedRuleIds: ['web']
+    });
+    expect(evaluateIngestRules(rules, fromDribbble, { allowedNamespaces: ['team'] }).namespace).toBe('team');
+    expect(evaluateIngestRules(rules, fromDribbble).namespace).toBe('moodboards');
+  });
+
+  it('matches images without a namespace as `none`', () => {
+    const rules = [rule('unsorted', { namespace: 'none' }, { tags: ['unsorted'] })];
+
+    expect(evaluateIngestRules(rules, facts()).tags).toEqual(['unsorted']);
+    expect(evaluateIngestRules(rules, facts({ namespace: 'team' })).tags).toEqual([]);
+  });
+
+  it('validates rules from the editor', () => {
+    const [saved] = sanitizeIngestRules([
+      { name: ' Fuji ', match: { camera: ' *X100* ', minWidth: '2000', lens: '' }, actions: { folder: '/photos//fuji/', tags: ['a', 'a', ' '] } }
+    ]);
+
+    expect(saved).toMatchObject({
+      name: 'Fuji',
+      enabled: true,
+      match: { camera: '*X100*', minWidth: 2000 },
+      actions: { folder: 'photos/fuji', tags: ['a'] }
+    });
+    expect(saved.id).toMatch(/^[0-9a-f]{12}$/);
+    expect(() => sanitizeIngestRules([{ match: {}, actions: { tags: ['x'] } }])).toThrow(IngestRuleError);
+    expect(() => sanitizeIngestRules([{ match: { filename: '*' }, actions: {} }])).toThrow('add at least one action');
+    expect(() => sanitizeIngestRules([{ match: { minWidth: -1 }, actions: { tags: ['x'] } }])).toThrow('minWidth');
+  });
+});
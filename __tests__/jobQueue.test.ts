@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  cancelJob,
+  enqueueJob,
+  getJob,
+  JobError,
+  registerJobHandler,
+  toJobSummary,
+  waitForJob
+} from '@/server/jobQueue';
+
+describe('job queue', () => {
+  beforeEach(() => {
+    vi.stubEnv('JOB_RETRY_DELAY_MS', '0');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('runs a job and records progress and result', async () => {
+    registerJobHandler<{ count: number }, { doubled: number }>('test-double', async (job) => {
+      for (let index = 1; index <= job.input.count; index += 1) {
+        await job.reportProgress(index, job.input.count);
+      }
+      return { doubled: job.input.count * 2 };
+    });
+
+    const queued = await enqueueJob('test-double', { count: 3 });
+    const finished = await waitForJob(queued.id);
+
+    expect(finished).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+      progress: { completed: 3, total: 3 },
+      result: { doubled: 6 }
+    });
+  });
+
+  it('retries failures and resumes from the saved checkpoint', async () => {
+    const seen: number[] = [];
+    registerJobHandler<{ items: number[] }, number[], { done: number[] }>('test-flaky', async (job) => {
+      const done = [...(job.checkpoint?.done ?? [])];
+      for (const item of job.input.items) {
+        if (done.includes(item)) continue;
+        if (item === 2 && job.attempt === 1) throw new Error('temporary failure');
+        seen.push(item);
+        done.push(item);
+        await job.saveCheckpoint({ done });
+      }
+      return done;
+    });
+
+    const queued = await enqueueJob('test-flaky', { items: [1, 2, 3] });
+    const finished = await waitForJob(queued.id);
+
+    expect(finished).toMatchObject({ status: 'succeeded', attempts: 2, result: [1, 2, 3] });
+    expect(seen).toEqual([1, 2, 3]);
+  });
+
+  it('marks a job failed once its attempts are used up', async () => {
+    registerJobHandler('test-broken', async () => {
+      throw new Error('always broken');
+    });
+
+    const queued = await enqueueJob('test-broken', {}, { maxAttempts: 2 });
+    const finished = await waitForJob(queued.id);
+
+    expect(finished).toMatchObject({ status: 'failed', attempts: 2, error: 'always broken' });
+    await expect(cancelJob(queued.id)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('stops a running job at its next cancellation check', async () => {
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    registerJobHandler('test-cancel', async (job) => {
+      await job.reportProgress(1, 2);
+      await gate;
+      job.throwIfCancelled();
+      await job.reportProgress(2, 2);
+      return 'finished';
+    });
+
+    const queued = await enqueueJob('test-cancel', {});
+    await vi.waitFor(async () => expect((await getJob(queued.id))?.status).toBe('running'));
+    await cancelJob(queued.id);
+    release();
+    const finished = await waitForJob(queued.id);
+
+    expect(finished).toMatchObject({ status: 'cancelled', progress: { completed: 1, total: 2 } });
+    expect(finished && 'checkpoint' in toJobSummary(finished)).toBe(false);
+  });
+
+  it('rejects unknown job types', async () => {
+    await expect(enqueueJob('test-missing', {})).rejects.toBeInstanceOf(JobError);
+  });
+});
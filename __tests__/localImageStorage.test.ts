@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { ImageStorageError } from '@/server/imageStorage';
+import { LocalImageStorage } from '@/server/localImageStorage';
+
+const createPng = () =>
+  sharp({ create: { width: 40, height: 20, channels: 3, background: { r: 200, g: 20, b: 20 } } })
+    .png()
+    .toBuffer();
+
+describe('LocalImageStorage', () => {
+  let rootDir: string;
+  let storage: LocalImageStorage;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), 'local-images-'));
+    storage = new LocalImageStorage(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('uploads, reads back and lists images with imagedelivery-style variant URLs', async () => {
+    const buffer = await createPng();
+    const stored = await storage.upload({
+      buffer,
+      filename: 'red.png',
+      contentType: 'image/png',
+      metadata: { folder: 'tests' }
+    });
+
+    expect(stored.variants).toContain(`/api/local-images/local/${stored.id}/public`);
+    const fetched = await storage.get(stored.id);
+    expect(fetched.meta).toEqual({ folder: 'tests' });
+    expect(await storage.listPage(1, 10)).toHaveLength(1);
+    expect(await storage.listPage(2, 10)).toHaveLength(0);
+  });
+
+  it('replaces metadata and renders resized variants', async () => {
+    const stored = await storage.upload({
+      buffer: await createPng(),
+      filename: 'red.png',
+      contentType: 'image/png',
+      metadata: { folder: 'tests', tags: ['a'] }
+    });
+
+    await storage.patchMetadata(stored.id, { folder: 'moved' });
+    expect((await storage.get(stored.id)).meta).toEqual({ folder: 'moved' });
+
+    const variant = await storage.fetchVariant(stored, 'w=10,format=webp');
+    expect(variant.contentType).toBe('image/webp');
+    const info = await sharp(variant.buffer).metadata();
+    expect(info.width).toBe(10);
+  });
+
+  it('raises a 404 storage error after delete', async () => {
+    const stored = await storage.upload({
+      buffer: await createPng(),
+      filename: 'red.png',
+      contentType: 'image/png',
+      metadata: {}
+    });
+
+    await storage.delete(stored.id);
+    await expect(storage.get(stored.id)).rejects.toBeInstanceOf(ImageStorageError);
+    await expect(storage.get(stored.id)).rejects.toMatchObject({ status: 404 });
+  });
+});
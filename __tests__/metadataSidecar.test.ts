@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { ImageStorageProvider, StoredImage } from '@/server/imageStorage';
+import {
+  MetadataSidecarStorage,
+  mergeSidecarMetadata,
+  saveSidecarMetadata,
+  toCompactCloudflareMetadata
+} from '@/server/metadataSidecar';
+import { transformApiImageToCached } from '@/server/cloudflareImageCache';
+
+const ORIGINAL_DIR = process.env.METADATA_SIDECAR_DIR;
+
+const oversizedMetadata = () => ({
+  folder: 'campaigns',
+  tags: ['hero', 'launch', 'spring'],
+  description: 'A long description '.repeat(80),
+  displayName: 'Hero shot',
+  exif: { Make: 'Canon', Model: 'EOS R5', LensModel: 'RF 24-70mm F2.8 L IS USM', ISO: 200 }
+});
+
+// Minimal in-memory provider that only stores what a size-limited backend would receive
+const createInnerProvider = () => {
+  const stored = new Map<string, StoredImage>();
+  let counter = 0;
+  const provider: ImageStorageProvider = {
+    kind: 'cloudflare',
+    getConfigurationError: () => undefined,
+    upload: async ({ filename, metadata }) => {
+      const image = { id: `img-${++counter}`, filename, uploaded: new Date().toISOString(), variants: [], meta: metadata };
+      stored.set(image.id, image);
+      return image;
+    },
+    get: async (imageId) => stored.get(imageId)!,
+    listPage: async () => Array.from(stored.values()),
+    patchMetadata: async (imageId, metadata) => {
+      stored.set(imageId, { ...stored.get(imageId)!, meta: metadata });
+    },
+    delete: async (imageId) => {
+      stored.delete(imageId);
+    },
+    getVariantUrl: () => undefined,
+    fetchVariant: async () => ({ buffer: Buffer.alloc(0), contentType: 'image/png' })
+  };
+  return { provider, stored };
+};
+
+describe('metadata sidecar', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'metadata-sidecar-'));
+    process.env.METADATA_SIDECAR_DIR = dir;
+  });
+
+  afterEach(async () => {
+    process.env.METADATA_SIDECAR_DIR = ORIGINAL_DIR;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the Cloudflare copy under 1024 bytes with a digest pointer', () => {
+    const { metadata, dropped } = toCompactCloudflareMetadata(oversizedMetadata());
+    expect(Buffer.byteLength(JSON.stringify(metadata), 'utf8')).toBeLessThanOrEqual(1024);
+    expect(metadata.metadataDigest).toMatch(/^[0-9a-f]{16}$/);
+    expect(dropped).toContain('description');
+    expect(metadata.folder).toBe('campaigns');
+  });
+
+  it('merges the sidecar only when the digest matches', async () => {
+    const full = oversizedMetadata();
+    const { metadata: compact } = toCompactCloudflareMetadata(full);
+    await saveSidecarMetadata('abc', full);
+
+    expect(mergeSidecarMetadata('abc', JSON.stringify(compact))).toMatchObject(full);
+    // Edited on Cloudflare directly: the stale sidecar must not override it
+    const edited = { ...compact, metadataDigest: 'changed', folder: 'other' };
+    expect(mergeSidecarMetadata('abc', edited)).toEqual(edited);
+  });
+
+  it('lets fields edited on Cloudflare win even when the digest was kept', async () => {
+    const full = oversizedMetadata();
+    const { metadata: compact } = toCompactCloudflareMetadata(full);
+    await saveSidecarMetadata('abc', full);
+
+    // e.g. a script writing `{ ...existing, namespace }` back
+    const merged = mergeSidecarMetadata('abc', { ...compact, folder: 'other', namespace: 'site' });
+    expect(merged).toMatchObject({ folder: 'other', namespace: 'site', description: full.description });
+
+    const withoutFolder: Record<string, unknown> = { ...compact };
+    delete withoutFolder.folder;
+    const removed = mergeSidecarMetadata('abc', withoutFolder);
+    expect(removed).not.toHaveProperty('folder');
+    expect(removed.description).toBe(full.description);
+  });
+
+  it('round-trips full metadata through a size-limited provider', async () => {
+    const { provider, stored } = createInnerProvider();
+    const storage = new MetadataSidecarStorage(provider);
+    const full = oversizedMetadata();
+
+    const uploaded = await storage.upload({
+      buffer: Buffer.from('x'),
+      filename: 'hero.png',
+      contentType: 'image/png',
+      metadata: full
+    });
+    expect(JSON.stringify(stored.get(uploaded.id)?.meta).length).toBeLessThanOrEqual(1024);
+
+    const cached = transformApiImageToCached(stored.get(uploaded.id)!);
+    expect(cached.description).toBe(full.description);
+    expect(cached.exif).toEqual(full.exif);
+
+    await storage.patchMetadata(uploaded.id, { ...full, altTag: 'Hero' });
+    const fetched = await storage.get(uploaded.id);
+    expect(fetched.meta).toMatchObject({ ...full, altTag: 'Hero' });
+  });
+});
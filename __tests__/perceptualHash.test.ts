@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { computePerceptualHash } from '@/server/perceptualHash';
+import { clusterByPerceptualHash, hammingDistance } from '@/utils/perceptualHash';
+
+// Horizontal or vertical gradients with a bright block, so the dHash has structure
+const createPattern = async (width: number, height: number, flip = false) => {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const position = flip ? y / height : x / width;
+      const inBlock = x > width * 0.3 && x < width * 0.6 && y > height * 0.2 && y < height * 0.5;
+      const value = inBlock ? 255 : Math.round(position * 200);
+      pixels.fill(value, (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+};
+
+describe('perceptual hash', () => {
+  it('keeps resized and re-encoded copies within a few bits', async () => {
+    const original = await createPattern(200, 120);
+    const resizedJpeg = await sharp(original).resize(90).jpeg({ quality: 60 }).toBuffer();
+    const different = await createPattern(200, 120, true);
+
+    const hash = await computePerceptualHash(original);
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(hash, await computePerceptualHash(resizedJpeg))).toBeLessThanOrEqual(4);
+    expect(hammingDistance(hash, await computePerceptualHash(different))).toBeGreaterThan(10);
+  });
+
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    expect(hammingDistance('8000000000000001', '0000000000000000')).toBe(2);
+  });
+
+  it('clusters items transitively and skips singletons', () => {
+    const clusters = clusterByPerceptualHash(
+      [
+        { id: 'a', perceptualHash: 'ff00ff00ff00ff00' },
+        { id: 'b', perceptualHash: 'ff00ff00ff00ff07' }, // 3 bits from a
+        { id: 'c', perceptualHash: 'ff00ff00ff00ff3f' }, // 3 bits from b, 6 from a
+        { id: 'd', perceptualHash: '00ff00ff00ff00ff' },
+        { id: 'e' }
+      ],
+      3
+    );
+    expect(clusters.map((cluster) => cluster.map((item) => item.id).sort())).toEqual([['a', 'b', 'c']]);
+  });
+});
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { CachedCloudflareImage } from '@/server/cloudflareImageCache';
+import {
+  rebuildSearchIndex,
+  removeFromSearchIndex,
+  searchImages,
+  stemTerm,
+  updateSearchIndex
+} from '@/server/searchIndex';
+
+const makeImage = (overrides: Partial<CachedCloudflareImage> & { id: string }): CachedCloudflareImage => ({
+  filename: `${overrides.id}.png`,
+  uploaded: '2025-01-01T00:00:00.000Z',
+  variants: [],
+  tags: [],
+  ...overrides
+});
+
+const images: CachedCloudflareImage[] = [
+  makeImage({ id: 'logo', displayName: 'Company logo', tags: ['branding'], folder: 'logos' }),
+  makeImage({
+    id: 'runner',
+    filename: 'track-day.jpg',
+    description: 'Two athletes running along the coastal track at sunrise, with the city behind them',
+    exif: { make: 'Canon', model: 'EOS R5' }
+  }),
+  makeImage({ id: 'footer', filename: 'footer-bg.png', altTag: 'Footer background with faint logo watermark' })
+];
+
+const ids = (query: string) => searchImages(images, query).hits.map((hit) => hit.image.id);
+
+describe('searchIndex', () => {
+  beforeEach(() => {
+    rebuildSearchIndex(images);
+  });
+
+  it('stems common English suffixes', () => {
+    expect(stemTerm('logos')).toBe('logo');
+    expect(stemTerm('running')).toBe('run');
+    expect(stemTerm('galleries')).toBe('gallery');
+    expect(stemTerm('glass')).toBe('glass');
+  });
+
+  it('ranks stronger field matches first', () => {
+    expect(ids('logo')).toEqual(['logo', 'footer']);
+  });
+
+  it('matches stems, prefixes, typos and EXIF camera fields', () => {
+    expect(ids('runs')).toEqual(['runner']);
+    expect(ids('coast')).toEqual(['runner']);
+    expect(ids('sunrsie')).toEqual(['runner']);
+    expect(ids('canon r5')).toEqual(['runner']);
+    expect(ids('canon logo')).toEqual([]);
+  });
+
+  it('returns highlighted snippets around the match', () => {
+    const [hit] = searchImages(images, 'sunrise').hits;
+    const snippet = hit.snippets.find((entry) => entry.field === 'description')!;
+    const [start, end] = snippet.highlights[0];
+    expect(snippet.text.slice(start, end)).toBe('sunrise');
+  });
+
+  it('updates incrementally as images change', () => {
+    updateSearchIndex(makeImage({ id: 'new', description: 'Harbour at dusk' }));
+    expect(ids('harbour')).toEqual(['new']);
+    removeFromSearchIndex('logo');
+    expect(ids('logo')).toEqual(['footer']);
+  });
+});
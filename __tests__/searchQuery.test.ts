@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import type { GalleryImage } from '@/utils/galleryFilter';
+import { filterImagesForGallery } from '@/utils/galleryFilter';
+import { buildSearchContext, evaluateSearchQuery, parseSearchQuery } from '@/utils/searchQuery';
+
+const makeImage = (overrides: Partial<GalleryImage> & { id: string }): GalleryImage => ({
+  filename: `${overrides.id}.png`,
+  uploaded: '2025-01-15T00:00:00.000Z',
+  variants: [],
+  ...overrides
+});
+
+const images: GalleryImage[] = [
+  makeImage({ id: 'logo-red', folder: 'logos', tags: ['red'], altTag: 'Red logo', uploaded: '2025-02-03T00:00:00.000Z' }),
+  makeImage({ id: 'logo-draft', folder: 'logos', tags: ['red', 'draft'], namespace: 'app' }),
+  makeImage({ id: 'hero', folder: 'campaigns', tags: ['blue'], description: 'Spring launch hero shot' }),
+  makeImage({ id: 'hero-crop', folder: 'campaigns', parentId: 'hero', uploaded: '2024-12-31T23:00:00.000Z' })
+];
+
+const search = (query: string) => {
+  const node = parseSearchQuery(query);
+  const context = buildSearchContext(images);
+  return images.filter((image) => evaluateSearchQuery(node, image, context)).map((image) => image.id);
+};
+
+describe('parseSearchQuery', () => {
+  it('parses fields, negation, phrases and boolean operators', () => {
+    expect(parseSearchQuery('folder:logos -tag:draft "exact phrase" (a OR b)')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'field', field: 'folder', value: 'logos' },
+        { type: 'not', child: { type: 'field', field: 'tag', value: 'draft' } },
+        { type: 'text', value: 'exact phrase' },
+        {
+          type: 'or',
+          children: [
+            { type: 'text', value: 'a' },
+            { type: 'text', value: 'b' }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('binds AND tighter than OR and tolerates malformed input', () => {
+    expect(parseSearchQuery('a b OR c')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'and', children: [{ type: 'text', value: 'a' }, { type: 'text', value: 'b' }] },
+        { type: 'text', value: 'c' }
+      ]
+    });
+    expect(parseSearchQuery('  ')).toBeNull();
+    expect(parseSearchQuery('(tag:red OR')).toEqual({ type: 'field', field: 'tag', value: 'red' });
+    expect(parseSearchQuery('https://example.com/a.png')).toEqual({ type: 'text', value: 'https://example.com/a.png' });
+  });
+});
+
+describe('evaluateSearchQuery', () => {
+  it('filters by folder and tags with negation', () => {
+    expect(search('folder:logos tag:red -tag:draft')).toEqual(['logo-red']);
+    expect(search('folder:LOGOS NOT tag:red')).toEqual([]);
+    expect(search('tag:dr*')).toEqual(['logo-draft']);
+  });
+
+  it('matches a folder together with its subfolders', () => {
+    const nested = [
+      makeImage({ id: 'root', folder: 'clients' }),
+      makeImage({ id: 'deep', folder: 'clients/acme/2025' }),
+      makeImage({ id: 'sibling', folder: 'clients-old' }),
+      makeImage({ id: 'unfiled' })
+    ];
+    const match = (query: string) =>
+      nested.filter((image) => evaluateSearchQuery(parseSearchQuery(query), image)).map((image) => image.id);
+
+    expect(match('folder:clients')).toEqual(['root', 'deep']);
+    expect(match('folder:Clients/ACME/')).toEqual(['deep']);
+    expect(match('folder:clients*')).toEqual(['root', 'deep', 'sibling']);
+    expect(match('-folder:clients/acme')).toEqual(['root', 'sibling', 'unfiled']);
+  });
+
+  it('supports OR, grouping and phrase search', () => {
+    expect(search('tag:blue OR has:alt')).toEqual(['logo-red', 'hero']);
+    expect(search('folder:campaigns (is:parent OR "launch hero")')).toEqual(['hero']);
+    expect(search('"hero shot"')).toEqual(['hero']);
+  });
+
+  it('compares upload dates by year, month or day', () => {
+    expect(search('uploaded:>2025-01')).toEqual(['logo-red']);
+    expect(search('uploaded:2025-01')).toEqual(['logo-draft', 'hero']);
+    expect(search('uploaded:<2025')).toEqual(['hero-crop']);
+    expect(search('uploaded:<=2025-01-15')).toEqual(['logo-draft', 'hero', 'hero-crop']);
+  });
+
+  it('evaluates has:, is: and namespace: filters', () => {
+    expect(search('is:parent')).toEqual(['hero']);
+    expect(search('is:child')).toEqual(['hero-crop']);
+    expect(search('namespace:app')).toEqual(['logo-draft']);
+    expect(search('namespace:none has:description')).toEqual(['hero']);
+  });
+
+  it('drives the gallery filter, including is:parent', () => {
+    const result = filterImagesForGallery(images, {
+      selectedFolder: 'all',
+      selectedTag: '',
+      searchTerm: 'is:parent OR tag:draft',
+      onlyCanonical: false
+    });
+    expect(result.map((image) => image.id)).toEqual(['logo-draft', 'hero']);
+  });
+});
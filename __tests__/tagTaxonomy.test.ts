@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { expandTag, getTagAncestors, tagsMatch, type TagTaxonomy } from '@/utils/tagTaxonomy';
+import { filterImagesForGallery, type GalleryImage } from '@/utils/galleryFilter';
+
+const taxonomy: TagTaxonomy = {
+  synonyms: { automobile: 'car', auto: 'car', coupe: 'sports car' },
+  parents: { sedan: 'car', 'sports car': 'car', vehicle: 'transport', car: 'vehicle' }
+};
+
+const makeImage = (id: string, tags: string[]): GalleryImage => ({
+  id,
+  filename: `${id}.png`,
+  uploaded: '2025-01-01T00:00:00.000Z',
+  variants: [],
+  tags
+});
+
+describe('tag taxonomy', () => {
+  it('expands a tag to its aliases and everything below it', () => {
+    expect(Array.from(expandTag(taxonomy, 'Automobile')).sort()).toEqual(
+      ['auto', 'automobile', 'car', 'coupe', 'sedan', 'sports car'].sort()
+    );
+    expect(getTagAncestors(taxonomy, 'sedan')).toEqual(['car', 'vehicle', 'transport']);
+  });
+
+  it('keeps the exact match for tags the taxonomy does not mention', () => {
+    expect(tagsMatch(['Red'], 'Red', taxonomy)).toBe(true);
+    expect(tagsMatch(['Red'], 'red', taxonomy)).toBe(false);
+    expect(tagsMatch(['Sedan'], 'car', taxonomy)).toBe(true);
+    expect(tagsMatch(['sedan'], 'car')).toBe(false);
+  });
+
+  it('applies synonyms and child tags to the gallery tag filter and search', () => {
+    const images = [makeImage('a', ['car']), makeImage('b', ['coupe']), makeImage('c', ['boat'])];
+    const run = (selectedTag: string, searchTerm: string) =>
+      filterImagesForGallery(images, {
+        selectedFolder: 'all',
+        selectedTag,
+        searchTerm,
+        onlyCanonical: false,
+        tagTaxonomy: taxonomy
+      }).map((image) => image.id);
+
+    expect(run('car', '')).toEqual(['a', 'b']);
+    expect(run('', 'automobile')).toEqual(['a', 'b']);
+    expect(run('', 'tag:vehicle')).toEqual(['a', 'b']);
+    expect(run('', 'tag:car*')).toEqual(['a']);
+  });
+});
@@ -1,5 +1,10 @@
-import { afterEach, afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
 import { NextRequest } from 'next/server';
+import { startCloudflareEmulator, type RunningCloudflareEmulator } from '@/server/cloudflareEmulator';
+import { clearAllCaches } from '@/server/cloudflareImageCache';
 import { PATCH } from '@/app/api/images/[id]/update/route';
 
 const ORIGINAL_ENV = { ...process.env };
@@ -14,50 +19,50 @@ function createRequest(body: Record<string, unknown>) {
 }
 
 describe('PATCH /api/images/:id/update', () => {
-  beforeEach(() => {
-    vi.restoreAllMocks();
-    process.env = { ...ORIGINAL_ENV };
-    process.env.CLOUDFLARE_ACCOUNT_ID = 'acct';
-    process.env.CLOUDFLARE_API_TOKEN = 'token';
+  let running: RunningCloudflareEmulator;
+  let dataDir: string;
+
+  const seedChild = (meta: Record<string, unknown>) =>
+    running.emulator.addImage({
+      id: 'child',
+      filename: 'child.png',
+      contentType: 'image/png',
+      bytes: Buffer.alloc(0),
+      meta,
+    });
+
+  beforeAll(async () => {
+    running = await startCloudflareEmulator();
+    dataDir = await mkdtemp(path.join(tmpdir(), 'photarium-update-'));
+    process.env = {
+      ...ORIGINAL_ENV,
+      ...running.env,
+      CACHE_STORAGE_DIR: dataDir,
+      CHANGE_LOG_DIR: path.join(dataDir, 'change-log'),
+    };
+    delete process.env.IMAGE_STORAGE_PROVIDER;
+    delete process.env.IMAGE_NAMESPACE;
+    delete process.env.NEXT_PUBLIC_IMAGE_NAMESPACE;
   });
 
-  afterEach(() => {
-    vi.clearAllMocks();
+  beforeEach(async () => {
+    running.emulator.reset();
+    await clearAllCaches();
   });
 
-  afterAll(() => {
+  afterAll(async () => {
+    await running.stop();
+    await rm(dataDir, { recursive: true, force: true, maxRetries: 3 });
     process.env = ORIGINAL_ENV;
   });
 
   it('merges existing metadata and honors optional fields', async () => {
-    const mockFetch = vi.spyOn(globalThis, 'fetch');
-
     const existingMeta = {
       tags: ['hero'],
       variationParentId: 'parent-old',
       folder: 'campaigns',
     };
-
-    mockFetch
-      .mockResolvedValueOnce(
-        new Response(
-          JSON.stringify({
-            result: {
-              id: 'child',
-              meta: JSON.stringify(existingMeta),
-            },
-          }),
-          { status: 200 }
-        )
-      )
-      .mockResolvedValueOnce(
-        new Response(
-          JSON.stringify({
-            result: {},
-          }),
-          { status: 200 }
-        )
-      );
+    seedChild(existingMeta);
 
     const request = createRequest({ folder: 'new-folder', parentId: 'new-parent' });
     const response = await PATCH(request, { params: Promise.resolve({ id: 'child' }) });
@@ -67,41 +72,14 @@ describe('PATCH /api/images/:id/update', () => {
     expect(payload.parentId).toBe('new-parent');
     expect(payload.tags).toEqual(existingMeta.tags);
 
-    const patchCall = mockFetch.mock.calls[1];
-    const submittedBody = patchCall?.[1]?.body;
-    const parsed = JSON.parse(String(submittedBody));
-    expect(parsed.metadata.folder).toBe('new-folder');
-    expect(parsed.metadata.tags).toEqual(existingMeta.tags);
-    expect(parsed.metadata.variationParentId).toBe('new-parent');
+    const stored = running.emulator.getImage('child')?.meta;
+    expect(stored?.folder).toBe('new-folder');
+    expect(stored?.tags).toEqual(existingMeta.tags);
+    expect(stored?.variationParentId).toBe('new-parent');
   });
 
   it('detaches the child from its parent when empty parentId provided', async () => {
-    const mockFetch = vi.spyOn(globalThis, 'fetch');
-
-    const existingMeta = {
-      variationParentId: 'parent-old',
-    };
-
-    mockFetch
-      .mockResolvedValueOnce(
-        new Response(
-          JSON.stringify({
-            result: {
-              id: 'child',
-              meta: JSON.stringify(existingMeta),
-            },
-          }),
-          { status: 200 }
-        )
-      )
-      .mockResolvedValueOnce(
-        new Response(
-          JSON.stringify({
-            result: {},
-          }),
-          { status: 200 }
-        )
-      );
+    seedChild({ variationParentId: 'parent-old' });
 
     const request = createRequest({ parentId: '' });
     const response = await PATCH(request, { params: Promise.resolve({ id: 'child' }) });
@@ -110,10 +88,8 @@ describe('PATCH /api/images/:id/update', () => {
     expect(response.status).toBe(200);
     expect(payload.parentId).toBeUndefined();
 
-    const patchCall = mockFetch.mock.calls[1];
-    const submittedBody = patchCall?.[1]?.body;
-    const parsed = JSON.parse(String(submittedBody));
-    expect(parsed.metadata.variationParentId).toBeUndefined();
+    const stored = running.emulator.getImage('child')?.meta;
+    expect(stored?.variationParentId).toBeUndefined();
     expect(payload.folder).toBeUndefined();
     expect(payload.tags).toEqual([]);
   });
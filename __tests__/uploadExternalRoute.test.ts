@@ -1,10 +1,19 @@
-import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
 import { NextRequest } from 'next/server';
+import sharp from 'sharp';
+import { startCloudflareEmulator, type RunningCloudflareEmulator } from '@/server/cloudflareEmulator';
+import { clearAllCaches } from '@/server/cloudflareImageCache';
 import { POST } from '@/app/api/upload/external/route';
 
 const TEST_URL = 'http://localhost/api/upload/external';
 const ORIGINAL_ENV = { ...process.env };
 
+const SVG_SOURCE =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><rect width="10" height="10" fill="red"/></svg>';
+
 function createRequest(formData: FormData) {
   const baseRequest = new Request(TEST_URL, {
     method: 'POST',
@@ -14,23 +23,39 @@ function createRequest(formData: FormData) {
 }
 
 describe('POST /api/upload/external', () => {
-  beforeEach(() => {
-    vi.restoreAllMocks();
-    process.env = { ...ORIGINAL_ENV };
+  let running: RunningCloudflareEmulator;
+  let dataDir: string;
+  let testEnv: NodeJS.ProcessEnv;
+
+  beforeAll(async () => {
+    running = await startCloudflareEmulator();
+    dataDir = await mkdtemp(path.join(tmpdir(), 'photarium-upload-external-'));
+    testEnv = {
+      ...ORIGINAL_ENV,
+      ...running.env,
+      CACHE_STORAGE_DIR: dataDir,
+      INGEST_RULES_PATH: path.join(dataDir, 'ingest-rules.json'),
+      CHANGE_LOG_DIR: path.join(dataDir, 'change-log'),
+      DERIVATIVE_PROFILES_PATH: path.join(dataDir, 'derivative-profiles.json'),
+    };
+    delete testEnv.IMAGE_STORAGE_PROVIDER;
+    delete testEnv.IMAGE_NAMESPACE;
+    delete testEnv.NEXT_PUBLIC_IMAGE_NAMESPACE;
   });
 
-  afterEach(() => {
-    vi.clearAllMocks();
+  beforeEach(async () => {
+    process.env = { ...testEnv };
+    running.emulator.reset();
+    await clearAllCaches();
   });
 
-  afterAll(() => {
+  afterAll(async () => {
+    await running.stop();
+    await rm(dataDir, { recursive: true, force: true, maxRetries: 3 });
     process.env = ORIGINAL_ENV;
   });
 
   it('returns 400 when no file is provided', async () => {
-    process.env.CLOUDFLARE_ACCOUNT_ID = 'acct';
-    process.env.CLOUDFLARE_API_TOKEN = 'token';
-
     const formData = new FormData();
     const request = createRequest(formData);
 
@@ -56,28 +81,14 @@ describe('POST /api/upload/external', () => {
 
     expect(response.status).toBe(500);
     expect(payload.error).toMatch(/Cloudflare credentials not configured/i);
+    expect(running.emulator.listImages()).toHaveLength(0);
   });
 
   it('uploads successfully and returns Cloudflare metadata', async () => {
-    process.env.CLOUDFLARE_ACCOUNT_ID = 'acct';
-    process.env.CLOUDFLARE_API_TOKEN = 'token';
-
-    const mockFetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
-      new Response(
-        JSON.stringify({
-          result: {
-            id: 'abc123',
-            variants: [
-              'https://imagedelivery.net/hash/abc123/public',
-              'https://imagedelivery.net/hash/abc123/thumb',
-            ],
-          },
-        }),
-        { status: 200 }
-      ) as Response
-    );
-
-    const file = new File(['hello world'], 'photo.png', { type: 'image/png' });
+    const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#3366cc' } })
+      .png()
+      .toBuffer();
+    const file = new File([new Uint8Array(png)], 'photo.png', { type: 'image/png' });
     const formData = new FormData();
     formData.append('file', file);
     formData.append('folder', 'astro-uploads');
@@ -88,42 +99,16 @@ describe('POST /api/upload/external', () => {
     const payload = await response.json();
 
     expect(response.status).toBe(200);
-    expect(payload.id).toBe('abc123');
     expect(payload.url).toContain('public');
     expect(payload.folder).toBe('astro-uploads');
-    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(running.emulator.getImage(payload.id)?.meta).toMatchObject({
+      folder: 'astro-uploads',
+      tags: ['astro', 'cloudflare'],
+    });
   });
 
   it('creates a webp variant when uploading an SVG', async () => {
-    process.env.CLOUDFLARE_ACCOUNT_ID = 'acct';
-    process.env.CLOUDFLARE_API_TOKEN = 'token';
-
-    const mockFetch = vi.spyOn(globalThis, 'fetch');
-    mockFetch.mockResolvedValueOnce(
-      new Response(
-        JSON.stringify({
-          result: {
-            id: 'svg123',
-            variants: ['https://example.com/svg123/public']
-          }
-        }),
-        { status: 200 }
-      ) as Response
-    );
-    mockFetch.mockResolvedValueOnce(
-      new Response(
-        JSON.stringify({
-          result: {
-            id: 'webp789',
-            variants: ['https://example.com/webp789/public']
-          }
-        }),
-        { status: 200 }
-      ) as Response
-    );
-    mockFetch.mockResolvedValueOnce(new Response(null, { status: 200 }) as Response);
-
-    const file = new File(['<svg></svg>'], 'vector.svg', { type: 'image/svg+xml' });
+    const file = new File([SVG_SOURCE], 'vector.svg', { type: 'image/svg+xml' });
     const formData = new FormData();
     formData.append('file', file);
     formData.append('folder', 'icons');
@@ -133,8 +118,14 @@ describe('POST /api/upload/external', () => {
     const payload = await response.json();
 
     expect(response.status).toBe(200);
-    expect(payload.id).toBe('svg123');
-    expect(payload.webpVariantId).toBe('webp789');
-    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(payload.webpVariantId).toBeTruthy();
+    expect(payload.webpVariantId).not.toBe(payload.id);
+
+    const primary = running.emulator.getImage(payload.id);
+    const variant = running.emulator.getImage(payload.webpVariantId);
+    expect(primary?.contentType).toBe('image/svg+xml');
+    expect(primary?.meta).toMatchObject({ folder: 'icons', linkedAssetId: payload.webpVariantId });
+    expect(variant?.contentType).toBe('image/webp');
+    expect(variant?.meta).toMatchObject({ folder: 'icons', linkedAssetId: payload.id });
   });
 });
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { openZipFile, zipChunks } from '@/server/zipStream';
+
+describe('zip file reader', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'zip-stream-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads entries written by zipChunks one at a time', async () => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of zipChunks([
+      { name: 'images/a/photo.png', data: Buffer.from('not really a png') },
+      { name: 'manifest.json', data: Buffer.from(JSON.stringify({ images: ['a'] }).repeat(20)), compress: true }
+    ])) {
+      chunks.push(chunk);
+    }
+    const filePath = path.join(dir, 'ours.zip');
+    await writeFile(filePath, Buffer.concat(chunks));
+
+    const zip = await openZipFile(filePath);
+    try {
+      expect(Array.from(zip.entries.keys())).toEqual(['images/a/photo.png', 'manifest.json']);
+      expect((await zip.read('images/a/photo.png'))?.toString()).toBe('not really a png');
+      expect((await zip.read('manifest.json'))?.toString()).toBe(JSON.stringify({ images: ['a'] }).repeat(20));
+      expect(await zip.read('missing')).toBeUndefined();
+    } finally {
+      await zip.close();
+    }
+  });
+
+  it('reads archives from other tools and rejects files that are not ZIPs', async () => {
+    const other = new AdmZip();
+    other.addFile('notes/readme.txt', Buffer.from('hello '.repeat(100)));
+    other.addZipComment('made elsewhere');
+    const filePath = path.join(dir, 'theirs.zip');
+    other.writeZip(filePath);
+
+    const zip = await openZipFile(filePath);
+    try {
+      expect((await zip.read('notes/readme.txt'))?.toString()).toBe('hello '.repeat(100));
+    } finally {
+      await zip.close();
+    }
+
+    const notZip = path.join(dir, 'plain.txt');
+    await writeFile(notZip, 'just text');
+    await expect(openZipFile(notZip)).rejects.toThrow(/central directory/);
+  });
+});
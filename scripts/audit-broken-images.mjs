@@ -13,25 +13,53 @@ const VARIANT = process.env.AUDIT_VARIANT ?? 'public';
 const LIMIT = process.env.AUDIT_LIMIT;
 const OFFSET = process.env.AUDIT_OFFSET;
 const CONCURRENCY = process.env.AUDIT_CONCURRENCY;
+// Needs the read and edit scopes when the server has AUTH_ENABLED=true
+const AUTH_HEADERS = process.env.PHOTARIUM_API_KEY
+  ? { Authorization: `Bearer ${process.env.PHOTARIUM_API_KEY}` }
+  : {};
 
-const buildAuditUrl = () => {
-  const url = new URL('/api/images/audit', API_BASE);
-  url.searchParams.set('variant', VARIANT);
-  if (FORCE_REFRESH) url.searchParams.set('refresh', '1');
-  if (LIMIT) url.searchParams.set('limit', LIMIT);
-  if (OFFSET) url.searchParams.set('offset', OFFSET);
-  if (CONCURRENCY) url.searchParams.set('concurrency', CONCURRENCY);
-  return url;
+const POLL_INTERVAL_MS = 2000;
+
+const buildAuditBody = () => ({
+  variant: VARIANT,
+  refresh: FORCE_REFRESH,
+  ...(LIMIT ? { limit: Number(LIMIT) } : {}),
+  ...(OFFSET ? { offset: Number(OFFSET) } : {}),
+  ...(CONCURRENCY ? { concurrency: Number(CONCURRENCY) } : {})
+});
+
+// The audit runs as a background job on the server; poll until it finishes
+const waitForJob = async (jobId) => {
+  while (true) {
+    const resp = await fetch(new URL(`/api/jobs/${jobId}`, API_BASE), { headers: AUTH_HEADERS });
+    const job = await resp.json();
+    if (!resp.ok) {
+      throw new Error(`Job status failed: ${resp.status} ${job.error ?? ''}`);
+    }
+    if (job.status === 'succeeded') return job.result;
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(`Audit job ${job.status}: ${job.error ?? 'unknown error'}`);
+    }
+    if (job.progress?.total) {
+      process.stdout.write(`\rChecked ${job.progress.completed}/${job.progress.total}...`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
 };
 
 const main = async () => {
-  const url = buildAuditUrl();
-  const resp = await fetch(url);
+  const resp = await fetch(new URL('/api/images/audit', API_BASE), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...AUTH_HEADERS },
+    body: JSON.stringify(buildAuditBody())
+  });
   if (!resp.ok) {
     const text = await resp.text();
     throw new Error(`Audit failed: ${resp.status} ${text}`);
   }
-  const payload = await resp.json();
+  const { jobId } = await resp.json();
+  const payload = await waitForJob(jobId);
+  process.stdout.write('\n');
   const broken = Array.isArray(payload.broken) ? payload.broken : [];
   const errors = Array.isArray(payload.errors) ? payload.errors : [];
 
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { cloudflareApiBaseUrl } from './lib/cloudflare-api.mjs';
 
 const DEFAULT_PAGE_SIZE = 100;
 const METADATA_LIMIT_BYTES = 1024;
@@ -143,7 +144,7 @@ const fetchImagesPage = async (accountId, apiToken, page, perPage) => {
     per_page: String(perPage)
   });
   const response = await fetch(
-    `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1?${params.toString()}`,
+    `${cloudflareApiBaseUrl()}/accounts/${accountId}/images/v1?${params.toString()}`,
     {
       headers: { Authorization: `Bearer ${apiToken}` }
     }
@@ -157,7 +158,7 @@ const fetchImagesPage = async (accountId, apiToken, page, perPage) => {
 
 const patchMetadata = async (accountId, apiToken, id, metadata) => {
   const response = await fetch(
-    `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1/${id}`,
+    `${cloudflareApiBaseUrl()}/accounts/${accountId}/images/v1/${id}`,
     {
       method: 'PATCH',
       headers: {
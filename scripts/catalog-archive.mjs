@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+/**
+ * Catalog backup/restore: downloads the whole library as a ZIP archive, or
+ * uploads one into another Photarium instance (new ids, variation links kept).
+ *
+ * Usage:
+ *   node scripts/catalog-archive.mjs export backup.zip [namespace]
+ *   node scripts/catalog-archive.mjs import backup.zip
+ *   CATALOG_API_BASE=https://your-host CATALOG_SKIP_EXISTING=0 node scripts/catalog-archive.mjs import backup.zip
+ */
+
+import { createWriteStream } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+const API_BASE = process.env.CATALOG_API_BASE ?? 'http://localhost:3000';
+const SKIP_EXISTING = process.env.CATALOG_SKIP_EXISTING !== '0';
+// Needs the admin scope when the server has AUTH_ENABLED=true
+const AUTH_HEADERS = process.env.PHOTARIUM_API_KEY
+  ? { Authorization: `Bearer ${process.env.PHOTARIUM_API_KEY}` }
+  : {};
+
+const POLL_INTERVAL_MS = 2000;
+
+const waitForJob = async (jobId) => {
+  while (true) {
+    const resp = await fetch(new URL(`/api/jobs/${jobId}`, API_BASE), { headers: AUTH_HEADERS });
+    const job = await resp.json();
+    if (!resp.ok) {
+      throw new Error(`Job status failed: ${resp.status} ${job.error ?? ''}`);
+    }
+    if (job.status === 'succeeded') return job.result;
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(`Import job ${job.status}: ${job.error ?? 'unknown error'}`);
+    }
+    if (job.progress?.total) {
+      process.stdout.write(`\rImported ${job.progress.completed}/${job.progress.total}...`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+};
+
+const exportCatalog = async (file, namespace) => {
+  const url = new URL('/api/export', API_BASE);
+  if (namespace) url.searchParams.set('namespace', namespace);
+  const resp = await fetch(url, { headers: AUTH_HEADERS });
+  if (!resp.ok || !resp.body) {
+    const text = await resp.text();
+    throw new Error(`Export failed: ${resp.status} ${text}`);
+  }
+  await pipeline(Readable.fromWeb(resp.body), createWriteStream(file));
+  console.log(`Saved catalog to ${file}`);
+};
+
+const importCatalog = async (file) => {
+  const url = new URL('/api/import/archive', API_BASE);
+  if (!SKIP_EXISTING) url.searchParams.set('skipExisting', '0');
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/zip', ...AUTH_HEADERS },
+    body: await readFile(file)
+  });
+  const payload = await resp.json();
+  if (!resp.ok) {
+    throw new Error(`Import failed: ${resp.status} ${payload.error ?? ''}`);
+  }
+  console.log(`Importing ${payload.images} images (job ${payload.jobId})`);
+  const result = await waitForJob(payload.jobId);
+  process.stdout.write('\n');
+  console.log(`Imported: ${result.imported} | Skipped (already here): ${result.skipped} | Links restored: ${result.linked}`);
+  if (result.failed.length) {
+    console.log('\nFailed images:');
+    result.failed.forEach((entry) => console.log(`- id=${entry.id} ${entry.error}`));
+  }
+};
+
+const main = async () => {
+  const [command, file, namespace] = process.argv.slice(2);
+  if (!file || (command !== 'export' && command !== 'import')) {
+    throw new Error('Usage: catalog-archive.mjs <export|import> <file.zip> [namespace]');
+  }
+  if (command === 'export') {
+    await exportCatalog(file, namespace);
+  } else {
+    await importCatalog(file);
+  }
+};
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
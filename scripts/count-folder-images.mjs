@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import process from 'node:process';
+import { cloudflareApiBaseUrl } from './lib/cloudflare-api.mjs';
 
 const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
 const apiToken = process.env.CLOUDFLARE_API_TOKEN;
@@ -27,7 +28,7 @@ const normalizeFolder = (value) => (typeof value === 'string' ? value.trim() : u
 const fetchPage = async (page) => {
   const params = new URLSearchParams({ per_page: String(perPage), page: String(page) });
 
-  const response = await fetch(`https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1?${params.toString()}`, {
+  const response = await fetch(`${cloudflareApiBaseUrl()}/accounts/${accountId}/images/v1?${params.toString()}`, {
     headers: {
       Authorization: `Bearer ${apiToken}`
     }
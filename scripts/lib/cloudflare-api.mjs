@@ -0,0 +1,4 @@
+// Shared by the scripts that call the Cloudflare Images API directly.
+// CLOUDFLARE_API_BASE_URL points them at the local emulator instead.
+export const cloudflareApiBaseUrl = () =>
+  (process.env.CLOUDFLARE_API_BASE_URL || 'https://api.cloudflare.com/client/v4').replace(/\/+$/, '');
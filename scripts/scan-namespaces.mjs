@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { cloudflareApiBaseUrl } from './lib/cloudflare-api.mjs';
 
 const DEFAULT_PAGE_SIZE = 100;
 
@@ -77,7 +78,7 @@ const fetchImagesPage = async (accountId, apiToken, page, perPage) => {
     per_page: String(perPage)
   });
   const response = await fetch(
-    `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1?${params.toString()}`,
+    `${cloudflareApiBaseUrl()}/accounts/${accountId}/images/v1?${params.toString()}`,
     {
       headers: { Authorization: `Bearer ${apiToken}` }
     }
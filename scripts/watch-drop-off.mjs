@@ -9,6 +9,10 @@ const DROP_OFF_TAGS = process.env.DROP_OFF_TAGS || 'found';
 const STATE_FILE =
   process.env.DROP_OFF_STATE_FILE || path.join(DROP_OFF_DIR, '.watcher-state.json');
 const PROCESS_EXISTING = process.env.DROP_OFF_PROCESS_EXISTING !== 'false';
+// Needs the upload and edit scopes when the server has AUTH_ENABLED=true
+const AUTH_HEADERS = process.env.PHOTARIUM_API_KEY
+  ? { Authorization: `Bearer ${process.env.PHOTARIUM_API_KEY}` }
+  : {};
 
 const ALLOWED_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg']);
 const MIME_BY_EXTENSION = {
@@ -109,6 +113,7 @@ const uploadImage = async (filePath) => {
   formData.append('tags', DROP_OFF_TAGS);
   const response = await fetch(`${BASE_URL}/api/upload`, {
     method: 'POST',
+    headers: AUTH_HEADERS,
     body: formData
   });
   const payload = await response.json().catch(() => ({}));
@@ -119,7 +124,10 @@ const uploadImage = async (filePath) => {
 };
 
 const generateAltTag = async (imageId) => {
-  const response = await fetch(`${BASE_URL}/api/images/${imageId}/alt`, { method: 'POST' });
+  const response = await fetch(`${BASE_URL}/api/images/${imageId}/alt`, {
+    method: 'POST',
+    headers: AUTH_HEADERS
+  });
   const payload = await response.json().catch(() => ({}));
   if (!response.ok) {
     return { ok: false, error: payload?.error || 'ALT generation failed', status: response.status };
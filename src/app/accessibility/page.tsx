@@ -0,0 +1,358 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useToast } from '@/components/Toast';
+import { getCloudflareImageUrl } from '@/utils/imageUtils';
+
+type AltTextIssue = 'missing' | 'filename' | 'too-long' | 'duplicate';
+
+interface ReportImage {
+  id: string;
+  filename: string;
+  displayName?: string;
+  altTag?: string;
+  issues: AltTextIssue[];
+  duplicateOf?: string[];
+}
+
+interface ReportGroup {
+  namespace?: string;
+  folder?: string;
+  total: number;
+  images: ReportImage[];
+}
+
+interface Report {
+  checkedAt: string;
+  maxLength: number;
+  total: number;
+  withIssues: number;
+  counts: Record<AltTextIssue, number>;
+  groups: ReportGroup[];
+}
+
+const ISSUE_LABELS: Record<AltTextIssue, string> = {
+  missing: 'Missing',
+  filename: 'Repeats filename',
+  'too-long': 'Too long',
+  duplicate: 'Duplicated'
+};
+
+const ISSUES = Object.keys(ISSUE_LABELS) as AltTextIssue[];
+
+const inputClass = 'mt-1 border border-stone-300 rounded px-2 py-1 text-sm';
+const smallButtonClass = 'px-2 py-1 rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50';
+
+export default function AccessibilityPage() {
+  const toast = useToast();
+  const [namespace, setNamespace] = useState('');
+  const [folder, setFolder] = useState('');
+  const [issues, setIssues] = useState<AltTextIssue[]>(ISSUES);
+  const [maxLength, setMaxLength] = useState('');
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState<Record<string, boolean>>({});
+  const [editing, setEditing] = useState<Record<string, string>>({});
+
+  const load = useCallback(async (refresh = false) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (namespace.trim()) params.set('namespace', namespace.trim());
+      if (folder.trim()) params.set('folder', folder.trim());
+      if (issues.length < ISSUES.length) params.set('issues', issues.join(','));
+      if (maxLength) params.set('maxLength', maxLength);
+      if (refresh) params.set('refresh', '1');
+      const response = await fetch(`/api/images/accessibility?${params.toString()}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load the report');
+      }
+      setReport(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the report');
+    } finally {
+      setLoading(false);
+    }
+  }, [namespace, folder, issues, maxLength]);
+
+  useEffect(() => {
+    void load();
+    // Filters apply when the form is submitted, not on every keystroke
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const withWorking = async (key: string, action: () => Promise<void>) => {
+    setWorking((prev) => ({ ...prev, [key]: true }));
+    try {
+      await action();
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Fix failed');
+    } finally {
+      setWorking((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }
+  };
+
+  const generate = (image: ReportImage) =>
+    withWorking(image.id, async () => {
+      const response = await fetch(`/api/images/${image.id}/alt`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate ALT text');
+      }
+      toast.push(`ALT text generated for ${image.filename}`);
+      await load();
+    });
+
+  const saveEdit = (image: ReportImage) =>
+    withWorking(image.id, async () => {
+      const response = await fetch(`/api/images/${image.id}/update`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ altTag: editing[image.id] ?? '' })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save ALT text');
+      }
+      setEditing((prev) => {
+        const next = { ...prev };
+        delete next[image.id];
+        return next;
+      });
+      toast.push('ALT text saved');
+      await load();
+    });
+
+  // Regenerated text goes through the caption review queue before it is written
+  const sendToReview = (group: ReportGroup, key: string) =>
+    withWorking(key, async () => {
+      const response = await fetch('/api/captions/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: group.images.map((image) => image.id), kinds: ['alt'], overwrite: true })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to queue ALT text generation');
+      }
+      toast.push(
+        data.jobId
+          ? `Generating ALT text for ${data.counts.alt} image(s); review it on the Captions page`
+          : 'Every image in this group already has a suggestion waiting for review'
+      );
+    });
+
+  const toggleIssue = (issue: AltTextIssue) =>
+    setIssues((prev) => (prev.includes(issue) ? prev.filter((entry) => entry !== issue) : [...prev, issue]));
+
+  const filenameFor = (id: string) =>
+    report?.groups.flatMap((group) => group.images).find((image) => image.id === id)?.filename ?? id;
+
+  return (
+    <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-stone-900">Accessibility</h1>
+          <p className="text-sm text-stone-500">
+            ALT text that is missing, only repeats the filename, runs too long for screen readers or is shared by unrelated
+            images.
+          </p>
+        </div>
+        <Link href="/" className="text-sm text-stone-600 hover:text-stone-900">
+          ← Back to gallery
+        </Link>
+      </div>
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          void load(true);
+        }}
+        className="flex flex-wrap items-end gap-3 border border-stone-200 rounded-md bg-white p-3"
+      >
+        <label className="flex flex-col text-xs text-stone-600">
+          Namespace
+          <input value={namespace} onChange={(event) => setNamespace(event.target.value)} placeholder="All" className={inputClass} />
+        </label>
+        <label className="flex flex-col text-xs text-stone-600">
+          Folder
+          <input value={folder} onChange={(event) => setFolder(event.target.value)} placeholder="All" className={inputClass} />
+        </label>
+        <label className="flex flex-col text-xs text-stone-600">
+          Max length
+          <input
+            type="number"
+            min={1}
+            value={maxLength}
+            onChange={(event) => setMaxLength(event.target.value)}
+            placeholder={report ? String(report.maxLength) : ''}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        {ISSUES.map((issue) => (
+          <label key={issue} className="flex items-center gap-1 text-xs text-stone-600">
+            <input type="checkbox" checked={issues.includes(issue)} onChange={() => toggleIssue(issue)} />
+            {ISSUE_LABELS[issue]}
+          </label>
+        ))}
+        <button
+          type="submit"
+          disabled={loading || !issues.length}
+          className="px-3 py-1 text-sm rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+        >
+          Run report
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {report && (
+        <p className="text-sm text-stone-600">
+          {report.withIssues} of {report.total} images need attention:{' '}
+          {ISSUES.map((issue) => `${report.counts[issue]} ${ISSUE_LABELS[issue].toLowerCase()}`).join(', ')}.
+        </p>
+      )}
+      {loading && !report ? (
+        <p className="text-sm text-stone-500">Loading…</p>
+      ) : report && report.groups.length === 0 ? (
+        <p className="text-sm text-stone-500">No ALT text problems found.</p>
+      ) : (
+        report?.groups.map((group) => {
+          const key = `${group.namespace ?? ''}/${group.folder ?? ''}`;
+          return (
+            <section key={key} className="space-y-2">
+              <div className="flex items-center justify-between border-b border-stone-200 pb-1">
+                <h2 className="text-sm font-semibold text-stone-900">
+                  {group.namespace && <span className="text-stone-500">{group.namespace} · </span>}
+                  {group.folder || '[no folder]'}
+                  <span className="ml-2 font-normal text-stone-500">
+                    {group.images.length} of {group.total}
+                  </span>
+                </h2>
+                <button
+                  type="button"
+                  onClick={() => sendToReview(group, key)}
+                  disabled={working[key]}
+                  className={`${smallButtonClass} text-xs`}
+                  title="Generate new ALT text for every image listed here and queue it for review"
+                >
+                  {working[key] ? 'Queuing…' : 'Regenerate for review'}
+                </button>
+              </div>
+              <ul className="divide-y divide-stone-100">
+                {group.images.map((image) => (
+                  <li key={image.id} className="flex gap-3 py-2">
+                    <div className="relative w-16 h-16 flex-shrink-0 rounded overflow-hidden bg-stone-100">
+                      <Image
+                        src={getCloudflareImageUrl(image.id, 'w=300')}
+                        alt={image.altTag ?? ''}
+                        fill
+                        className="object-cover"
+                        sizes="64px"
+                        unoptimized
+                      />
+                    </div>
+                    <div className="flex-1 min-w-0 space-y-1 text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Link href={`/images/${image.id}`} className="font-mono text-xs text-stone-900 hover:underline truncate">
+                          {image.displayName || image.filename}
+                        </Link>
+                        {image.issues.map((issue) => (
+                          <span key={issue} className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-800 text-[0.7rem]">
+                            {ISSUE_LABELS[issue]}
+                          </span>
+                        ))}
+                      </div>
+                      {editing[image.id] !== undefined ? (
+                        <div className="flex gap-2">
+                          <input
+                            value={editing[image.id]}
+                            onChange={(event) => setEditing((prev) => ({ ...prev, [image.id]: event.target.value }))}
+                            className="flex-1 border border-stone-300 rounded px-2 py-1 text-sm"
+                            aria-label={`ALT text for ${image.filename}`}
+                            autoFocus
+                          />
+                          <span className="self-center text-xs text-stone-400">
+                            {editing[image.id].length}/{report.maxLength}
+                          </span>
+                        </div>
+                      ) : (
+                        <p className={image.altTag ? 'text-stone-700' : 'text-stone-400 italic'}>
+                          {image.altTag ?? 'No ALT text'}
+                        </p>
+                      )}
+                      {image.duplicateOf && (
+                        <p className="text-xs text-stone-500">
+                          Same as{' '}
+                          {image.duplicateOf.map((id, index) => (
+                            <span key={id}>
+                              {index > 0 && ', '}
+                              <Link href={`/images/${id}`} className="underline">
+                                {filenameFor(id)}
+                              </Link>
+                            </span>
+                          ))}
+                        </p>
+                      )}
+                      <div className="flex gap-2 text-xs">
+                        <button
+                          type="button"
+                          onClick={() => generate(image)}
+                          disabled={working[image.id]}
+                          className={smallButtonClass}
+                        >
+                          {working[image.id] ? 'Working…' : 'Generate'}
+                        </button>
+                        {editing[image.id] !== undefined ? (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => saveEdit(image)}
+                              disabled={working[image.id] || !editing[image.id].trim()}
+                              className="px-2 py-1 rounded bg-stone-900 text-white disabled:opacity-50"
+                            >
+                              Save
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setEditing((prev) => {
+                                  const next = { ...prev };
+                                  delete next[image.id];
+                                  return next;
+                                })
+                              }
+                              className={smallButtonClass}
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => setEditing((prev) => ({ ...prev, [image.id]: image.altTag ?? '' }))}
+                            className={smallButtonClass}
+                          >
+                            Edit
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          );
+        })
+      )}
+    </main>
+  );
+}
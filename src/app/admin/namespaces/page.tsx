@@ -0,0 +1,220 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useToast } from '@/components/Toast';
+
+interface NamespaceUsage {
+  namespace: string;
+  images: number;
+  bytes: number;
+  quota?: { maxImages?: number; maxBytes?: number };
+}
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  scopes: string[];
+  namespaces?: string[];
+  prefix: string;
+  revokedAt?: string;
+}
+
+type QuotaDraft = { maxImages: string; maxMegabytes: string };
+
+const MB = 1024 * 1024;
+
+const formatMegabytes = (bytes: number) => `${(bytes / MB).toFixed(bytes >= 10 * MB ? 0 : 2)} MB`;
+
+const toDraft = (usage: NamespaceUsage): QuotaDraft => ({
+  maxImages: usage.quota?.maxImages !== undefined ? String(usage.quota.maxImages) : '',
+  maxMegabytes: usage.quota?.maxBytes !== undefined ? String(Math.round((usage.quota.maxBytes / MB) * 100) / 100) : ''
+});
+
+const UsageBar = ({ used, limit }: { used: number; limit?: number }) => {
+  if (!limit) return null;
+  const ratio = Math.min(used / limit, 1);
+  return (
+    <div className="h-1.5 w-full bg-stone-100 rounded overflow-hidden mt-1">
+      <div
+        className={`h-full ${ratio >= 0.9 ? 'bg-red-500' : ratio >= 0.7 ? 'bg-amber-500' : 'bg-stone-700'}`}
+        style={{ width: `${ratio * 100}%` }}
+      />
+    </div>
+  );
+};
+
+export default function NamespaceAdminPage() {
+  const toast = useToast();
+  const [usage, setUsage] = useState<NamespaceUsage[]>([]);
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, QuotaDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingNamespace, setSavingNamespace] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [usageResponse, keysResponse] = await Promise.all([
+        fetch('/api/namespaces/usage', { cache: 'no-store' }),
+        fetch('/api/auth/keys', { cache: 'no-store' })
+      ]);
+      const usageData = await usageResponse.json();
+      if (!usageResponse.ok) {
+        throw new Error(usageData.error || 'Failed to load namespace usage');
+      }
+      const namespaces = usageData.namespaces as NamespaceUsage[];
+      setUsage(namespaces);
+      setDrafts(Object.fromEntries(namespaces.map((entry) => [entry.namespace, toDraft(entry)])));
+      // Key listing is best-effort; usage is what this page is for
+      if (keysResponse.ok) {
+        const keysData = await keysResponse.json();
+        setKeys(keysData.keys ?? []);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load namespace usage');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const saveQuota = async (namespace: string) => {
+    const draft = drafts[namespace];
+    if (!draft) return;
+    setSavingNamespace(namespace);
+    try {
+      const response = await fetch(`/api/namespaces/${encodeURIComponent(namespace)}/quota`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          maxImages: draft.maxImages.trim() ? Number(draft.maxImages) : null,
+          maxBytes: draft.maxMegabytes.trim() ? Math.round(Number(draft.maxMegabytes) * MB) : null
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save quota');
+      }
+      setUsage((prev) =>
+        prev.map((entry) => (entry.namespace === namespace ? { ...entry, quota: data.quota ?? undefined } : entry))
+      );
+      toast.push(`Saved quota for ${namespace}`);
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to save quota');
+    } finally {
+      setSavingNamespace(null);
+    }
+  };
+
+  const keysFor = (namespace: string) =>
+    keys.filter((key) => !key.revokedAt && key.namespaces?.includes(namespace));
+
+  return (
+    <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-stone-900">Namespaces</h1>
+          <p className="text-sm text-stone-500">Usage, quotas and the API keys limited to each namespace.</p>
+        </div>
+        <Link href="/" className="text-sm text-stone-600 hover:text-stone-900">
+          ← Back to gallery
+        </Link>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-stone-500">Loading…</p>
+      ) : (
+        <table className="w-full text-sm border border-stone-200 bg-white">
+          <thead className="bg-stone-50 text-left text-xs uppercase tracking-wide text-stone-500">
+            <tr>
+              <th className="px-3 py-2">Namespace</th>
+              <th className="px-3 py-2">Images</th>
+              <th className="px-3 py-2">Storage</th>
+              <th className="px-3 py-2">Max images</th>
+              <th className="px-3 py-2">Max MB</th>
+              <th className="px-3 py-2">Keys</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {usage.map((entry) => {
+              const draft = drafts[entry.namespace] ?? toDraft(entry);
+              const editable = entry.namespace !== '';
+              const namespaceKeys = keysFor(entry.namespace);
+              return (
+                <tr key={entry.namespace || '__none__'} className="border-t border-stone-100 align-top">
+                  <td className="px-3 py-2 font-mono">{entry.namespace || <span className="text-stone-400">(none)</span>}</td>
+                  <td className="px-3 py-2">
+                    {entry.images}
+                    {entry.quota?.maxImages !== undefined && ` / ${entry.quota.maxImages}`}
+                    <UsageBar used={entry.images} limit={entry.quota?.maxImages} />
+                  </td>
+                  <td className="px-3 py-2">
+                    {formatMegabytes(entry.bytes)}
+                    {entry.quota?.maxBytes !== undefined && ` / ${formatMegabytes(entry.quota.maxBytes)}`}
+                    <UsageBar used={entry.bytes} limit={entry.quota?.maxBytes} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      disabled={!editable}
+                      value={draft.maxImages}
+                      placeholder="∞"
+                      onChange={(event) =>
+                        setDrafts((prev) => ({ ...prev, [entry.namespace]: { ...draft, maxImages: event.target.value } }))
+                      }
+                      className="w-24 border border-stone-300 rounded px-2 py-1 disabled:bg-stone-50"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      disabled={!editable}
+                      value={draft.maxMegabytes}
+                      placeholder="∞"
+                      onChange={(event) =>
+                        setDrafts((prev) => ({ ...prev, [entry.namespace]: { ...draft, maxMegabytes: event.target.value } }))
+                      }
+                      className="w-24 border border-stone-300 rounded px-2 py-1 disabled:bg-stone-50"
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-xs text-stone-600">
+                    {namespaceKeys.length
+                      ? namespaceKeys.map((key) => (
+                          <div key={key.id} title={key.scopes.join(', ')}>
+                            {key.name} <span className="font-mono text-stone-400">{key.prefix}…</span>
+                          </div>
+                        ))
+                      : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {editable && (
+                      <button
+                        type="button"
+                        onClick={() => saveQuota(entry.namespace)}
+                        disabled={savingNamespace === entry.namespace}
+                        className="px-2 py-1 text-xs rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+                      >
+                        {savingNamespace === entry.namespace ? 'Saving…' : 'Save'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
@@ -5,6 +5,7 @@ import { tmpdir } from 'os';
 import { join } from 'path';
 import { writeFile, readFile, unlink, mkdir } from 'fs/promises';
 import { randomUUID } from 'crypto';
+import { getImageStorage } from '@/server/imageStorage';
 import { uploadImageBuffer } from '@/server/uploadService';
 
 type AnimationItem =
@@ -59,14 +60,9 @@ const normalizeFilename = (value: string) => value.replace(/[^a-zA-Z0-9-_\.]/g,
 
 export async function POST(request: NextRequest) {
   try {
-    const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-    const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-
-    if (!accountId || !apiToken) {
-      return NextResponse.json(
-        { error: 'Cloudflare credentials not configured. Please set CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN environment variables.' },
-        { status: 500 }
-      );
+    const configError = getImageStorage().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
     const formData = await request.formData();
@@ -230,8 +226,6 @@ export async function POST(request: NextRequest) {
       fileType: 'image/webp',
       fileSize: animatedBuffer.byteLength,
       context: {
-        accountId,
-        apiToken,
         folder: folder && folder.trim() ? folder.trim() : undefined,
         tags: cleanTags,
         description: description && description.trim() ? description.trim() : undefined,
@@ -1,20 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import sharp from 'sharp';
-import { getUploadDownloadInfo } from '@/server/cloudflareUploadsService';
+import { fetchUploadBytes } from '@/server/cloudflareUploadsService';
+import { getImageStorage, ImageStorageError } from '@/server/imageStorage';
 import { uploadImageBuffer } from '@/server/uploadService';
 
 const normalizeFilename = (value: string) => value.replace(/[^a-zA-Z0-9-_\.]/g, '_');
 
 export async function POST(request: NextRequest) {
   try {
-    const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-    const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-
-    if (!accountId || !apiToken) {
-      return NextResponse.json(
-        { error: 'Cloudflare credentials not configured. Please set CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN environment variables.' },
-        { status: 500 }
-      );
+    const configError = getImageStorage().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
     const body = await request.json();
@@ -35,13 +31,15 @@ export async function POST(request: NextRequest) {
 
     const frames: Buffer[] = [];
     for (const id of ids) {
-      const { url } = await getUploadDownloadInfo(id);
-      const response = await fetch(url, { cache: 'no-store' });
-      if (!response.ok) {
-        return NextResponse.json({ error: `Failed to download image ${id}` }, { status: 502 });
+      try {
+        const { buffer } = await fetchUploadBytes(id);
+        frames.push(buffer);
+      } catch (error) {
+        if (error instanceof ImageStorageError) {
+          return NextResponse.json({ error: `Failed to download image ${id}` }, { status: 502 });
+        }
+        throw error;
       }
-      const buffer = Buffer.from(await response.arrayBuffer());
-      frames.push(buffer);
     }
 
     const metas = await Promise.all(frames.map((frame) => sharp(frame).metadata()));
@@ -86,8 +84,6 @@ export async function POST(request: NextRequest) {
       fileType: 'image/webp',
       fileSize: animatedBuffer.byteLength,
       context: {
-        accountId,
-        apiToken,
         tags: [],
         namespace: namespace && namespace !== '__all__' ? namespace : undefined
       }
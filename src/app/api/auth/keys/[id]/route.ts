@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyError, revokeApiKey, toApiKeySummary } from '@/server/apiKeys';
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const record = await revokeApiKey(id);
+    return NextResponse.json({ apiKey: toApiKeySummary(record) });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Revoke API key error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
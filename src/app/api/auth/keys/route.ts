@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ApiKeyError,
+  createApiKey,
+  listApiKeys,
+  normalizeKeyNamespaces,
+  normalizeScopes,
+  toApiKeySummary
+} from '@/server/apiKeys';
+
+export async function GET() {
+  try {
+    const keys = await listApiKeys();
+    return NextResponse.json({ keys: keys.map(toApiKeySummary) });
+  } catch (error) {
+    console.error('List API keys error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// The plaintext key is only ever returned here
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { key, record } = await createApiKey({
+      name: typeof body?.name === 'string' ? body.name : '',
+      scopes: normalizeScopes(body?.scopes),
+      namespaces: normalizeKeyNamespaces(body?.namespaces),
+      expiresAt: typeof body?.expiresAt === 'string' && body.expiresAt ? body.expiresAt : undefined
+    });
+    return NextResponse.json({ key, apiKey: toApiKeySummary(record) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Create API key error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
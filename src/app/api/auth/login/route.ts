@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateApiKey,
+  createSessionToken,
+  getAuthConfigurationError,
+  getSessionTtlMs,
+  isAuthEnabled,
+  SESSION_COOKIE,
+  verifyAdminPassword,
+  type AuthActor
+} from '@/server/auth';
+
+// Web UI login: the admin password, or an API key whose scopes the session inherits
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthEnabled()) {
+      return NextResponse.json({ error: 'Authentication is not enabled' }, { status: 400 });
+    }
+    const configurationError = getAuthConfigurationError();
+    if (configurationError) {
+      return NextResponse.json({ error: configurationError }, { status: 500 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const password = typeof body?.password === 'string' ? body.password : '';
+    const apiKey = typeof body?.apiKey === 'string' ? body.apiKey.trim() : '';
+    let actor: AuthActor | undefined;
+    if (password && verifyAdminPassword(password)) {
+      actor = { type: 'admin', id: 'admin', name: 'Administrator', scopes: ['admin'] };
+    } else if (apiKey) {
+      actor = await authenticateApiKey(apiKey);
+    }
+    if (!actor) {
+      return NextResponse.json({ error: 'Invalid password or API key' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ authenticated: true, actor });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(actor), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/',
+      maxAge: Math.floor(getSessionTtlMs() / 1000)
+    });
+    return response;
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
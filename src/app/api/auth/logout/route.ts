@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/server/auth';
+
+export async function POST() {
+  const response = NextResponse.json({ authenticated: false });
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+  return response;
+}
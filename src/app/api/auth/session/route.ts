@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isAuthEnabled } from '@/server/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthEnabled()) {
+      return NextResponse.json({ authEnabled: false, authenticated: true, actor: null });
+    }
+    const actor = await authenticateRequest(request);
+    return NextResponse.json({ authEnabled: true, authenticated: Boolean(actor), actor: actor ?? null });
+  } catch (error) {
+    console.error('Session lookup error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { estimateCaptionCost, getCaptionProvider } from '@/server/captioning';
+import {
+  CaptionReviewError,
+  getCaptionBatchRate,
+  parseCaptionKinds,
+  selectCaptionTargets
+} from '@/server/captionReview';
+import { enqueueCaptionBatch } from '@/server/jobHandlers';
+import { toJobSummary } from '@/server/jobQueue';
+
+const readString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+/**
+ * Body: `{ folder?, tag?, ids?, kinds?: ('alt' | 'description')[], language?,
+ * ratePerMinute?, overwrite?, dryRun? }`. Finds the images in scope that are
+ * missing each kind of text (with `overwrite`, all of them) and, unless
+ * `dryRun`, queues a `caption-batch` job that generates it into the review
+ * queue. Both return the target count and a cost estimate.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const kinds = parseCaptionKinds(body.kinds);
+    const ids: string[] = Array.isArray(body.ids)
+      ? body.ids.filter((id: unknown): id is string => typeof id === 'string' && Boolean(id.trim()))
+      : [];
+    const targets = await selectCaptionTargets(
+      { folder: readString(body.folder), tag: readString(body.tag), ids, overwrite: body.overwrite === true },
+      kinds
+    );
+    const counts = {
+      alt: targets.filter((target) => target.kind === 'alt').length,
+      description: targets.filter((target) => target.kind === 'description').length
+    };
+    const estimate = estimateCaptionCost(counts);
+    const ratePerMinute = getCaptionBatchRate(body.ratePerMinute);
+    const summary = {
+      counts,
+      images: new Set(targets.map((target) => target.imageId)).size,
+      estimate,
+      ratePerMinute,
+      estimatedMinutes: Math.ceil(targets.length / ratePerMinute)
+    };
+
+    if (body.dryRun === true || !targets.length) {
+      return NextResponse.json(summary);
+    }
+
+    const configError = getCaptionProvider().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
+    }
+    const job = await enqueueCaptionBatch({ targets, language: readString(body.language), ratePerMinute });
+    return NextResponse.json({ ...summary, jobId: job.id, job: toJobSummary(job) }, { status: 202 });
+  } catch (error) {
+    if (error instanceof CaptionReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Caption batch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
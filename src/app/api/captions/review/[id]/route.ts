@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestActor } from '@/server/auth';
+import { CaptionReviewError, reviewCaptionSuggestion } from '@/server/captionReview';
+import { toChangeActor } from '@/server/changeLog';
+import { ImageStorageError } from '@/server/imageStorage';
+
+/**
+ * Body: `{ action: 'approve' | 'reject', text? }`. Approving writes `text`
+ * (or the suggestion as generated) to the image; either way the suggestion
+ * leaves the queue.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const suggestion = await reviewCaptionSuggestion(id, {
+      action: body.action,
+      text: body.text,
+      actor: toChangeActor(getRequestActor(request))
+    });
+    return NextResponse.json({ suggestion });
+  } catch (error) {
+    if (error instanceof CaptionReviewError || error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Review caption error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
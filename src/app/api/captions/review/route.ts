@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { listCaptionSuggestions } from '@/server/captionReview';
+
+/** Suggestions waiting for review, oldest first. */
+export async function GET() {
+  try {
+    return NextResponse.json({ suggestions: await listCaptionSuggestions() });
+  } catch (error) {
+    console.error('List caption suggestions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSharedCloudflareEmulator } from '@/server/cloudflareEmulator';
+
+// Mounts the Cloudflare Images emulator for offline development (CLOUDFLARE_EMULATOR=true).
+const handle = async (request: NextRequest) => {
+  if (process.env.CLOUDFLARE_EMULATOR !== 'true') {
+    return NextResponse.json({ error: 'Cloudflare emulator is not enabled' }, { status: 404 });
+  }
+  const deliveryBaseUrl = `${request.nextUrl.origin}/api/cloudflare-emulator/delivery`;
+  return getSharedCloudflareEmulator(deliveryBaseUrl).handle(request);
+};
+
+export const GET = handle;
+export const HEAD = handle;
+export const POST = handle;
+export const PATCH = handle;
+export const DELETE = handle;
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImage } from '@/server/cloudflareImageCache';
+import {
+  addImagesToCollection,
+  CollectionError,
+  removeImagesFromCollection
+} from '@/server/collections';
+
+const readIds = async (request: NextRequest) => {
+  const body = await request.json().catch(() => ({}));
+  if (!Array.isArray(body.ids) || !body.ids.length) {
+    throw new CollectionError('ids must list at least one image');
+  }
+  return body.ids as string[];
+};
+
+/** Appends `{ ids }` to the end of the collection; ids already in it are skipped. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const ids = await readIds(request);
+    const unknownIds: string[] = [];
+    for (const imageId of ids) {
+      if (!(await getCachedImage(imageId))) unknownIds.push(imageId);
+    }
+    if (unknownIds.length) {
+      return NextResponse.json({ error: `Unknown image ids: ${unknownIds.join(', ')}` }, { status: 404 });
+    }
+    const { collection, added } = await addImagesToCollection(id, ids);
+    return NextResponse.json({ collection, added });
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Add to collection error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Removes `{ ids }` from the collection. */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { collection, removed } = await removeImagesFromCollection(id, await readIds(request));
+    return NextResponse.json({ collection, removed });
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Remove from collection error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImages } from '@/server/cloudflareImageCache';
+import {
+  CollectionError,
+  deleteCollection,
+  getCollection,
+  getCollectionCoverId,
+  updateCollection
+} from '@/server/collections';
+
+/**
+ * The collection with its images in collection order. Ids whose image is in
+ * the trash or gone are listed in `missingIds` instead.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const collection = await getCollection(id);
+    const byId = new Map((await getCachedImages()).map((image) => [image.id, image]));
+    return NextResponse.json({
+      collection: { ...collection, coverId: getCollectionCoverId(collection) },
+      images: collection.imageIds.flatMap((imageId) => byId.get(imageId) ?? []),
+      missingIds: collection.imageIds.filter((imageId) => !byId.has(imageId))
+    });
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Get collection error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Body: any of `{ title, description, coverImageId, imageIds }`. Sending the
+ * full `imageIds` list in a new order reorders the collection; `null` clears
+ * the description or cover.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const collection = await updateCollection(id, {
+      title: body.title,
+      description: body.description,
+      coverImageId: body.coverImageId,
+      imageIds: body.imageIds
+    });
+    return NextResponse.json({ collection: { ...collection, coverId: getCollectionCoverId(collection) } });
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Update collection error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Deletes the collection only; its images stay where they are
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await deleteCollection(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Delete collection error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CollectionError,
+  createCollection,
+  getCollectionCoverId,
+  listCollections
+} from '@/server/collections';
+
+export async function GET() {
+  try {
+    const collections = await listCollections();
+    return NextResponse.json({
+      collections: collections.map((collection) => ({ ...collection, coverId: getCollectionCoverId(collection) }))
+    });
+  } catch (error) {
+    console.error('List collections error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Body: `{ title, description?, coverImageId?, imageIds? }` */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const collection = await createCollection({
+      title: body.title,
+      description: body.description,
+      coverImageId: body.coverImageId,
+      imageIds: body.imageIds
+    });
+    return NextResponse.json({ collection }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Create collection error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,45 +1,29 @@
 import { NextResponse } from 'next/server';
+import { getImageStorage, ImageStorageError } from '@/server/imageStorage';
 
 export async function GET() {
   try {
-    // Check for required environment variables
-    const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-    const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-    
-    if (!accountId || !apiToken) {
-      return NextResponse.json(
-        { error: 'Cloudflare credentials not configured' },
-        { status: 500 }
-      );
+    // Check that the storage backend is configured
+    const storage = getImageStorage();
+    const configError = storage.getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
-    // Fetch images from Cloudflare
-    const response = await fetch(
-      `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1`,
-      {
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-        },
-      }
-    );
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      console.error('Cloudflare API error:', result);
-      return NextResponse.json(
-        { error: result.errors?.[0]?.message || 'Failed to fetch images from Cloudflare' },
-        { status: response.status }
-      );
-    }
+    // Fetch the first page of images from the storage backend
+    const images = await storage.listPage(1, 100);
 
     // Return the raw data for debugging
     return NextResponse.json({ 
-      raw: result,
-      count: result.result?.images?.length || 0 
+      provider: storage.kind,
+      raw: { result: { images } },
+      count: images.length 
     });
 
   } catch (error) {
+    if (error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Debug endpoint error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { catalogArchiveEntries } from '@/server/catalogArchive';
+import { getImageStorage } from '@/server/imageStorage';
+import { createZipStream } from '@/server/zipStream';
+
+/**
+ * Streams the whole library as a catalog archive (see `catalogArchive.ts`).
+ * `?namespace=` limits it to one namespace; `?includeTrashed=0` leaves out
+ * images in the trash.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const configError = getImageStorage().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
+    }
+
+    const namespaceParam = request.nextUrl.searchParams.get('namespace');
+    const namespace = namespaceParam && namespaceParam !== '__all__' ? namespaceParam : undefined;
+    const includeTrashed = request.nextUrl.searchParams.get('includeTrashed') !== '0';
+    const stream = createZipStream(catalogArchiveEntries({ namespace, includeTrashed }));
+    const filename = `photarium-export-${new Date().toISOString().slice(0, 10)}.zip`;
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Catalog export error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
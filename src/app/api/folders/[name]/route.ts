@@ -1,16 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchCloudflareImages, updateImageFolder } from '@/utils/cloudflareClient';
 import { removeFolder, renameFolder } from '@/utils/folderStore';
-import { cleanString } from '@/utils/cloudflareMetadata';
-
-async function updateAllImages(oldName: string, newName?: string) {
-  const images = await fetchCloudflareImages();
-  const targets = images.filter((img) => img.folder === oldName);
-  for (const image of targets) {
-    await updateImageFolder(image.id, newName);
-  }
-}
+import { isInFolderSubtree, normalizeFolderPath } from '@/utils/folderTree';
+import { enqueueFolderRename } from '@/server/jobHandlers';
+import { getRequestActor } from '@/server/auth';
+import { toChangeActor } from '@/server/changeLog';
 
+// Renaming to another path (`clients/acme` → `archive/acme`) moves the whole subtree.
+// Moving the images runs as a `folder-rename` job; poll `GET /api/jobs/:id` for progress
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ name: string }> }
@@ -18,24 +14,32 @@ export async function PATCH(
   try {
     const { name } = await params;
     const body = await request.json();
-    const newName = cleanString(typeof body?.newName === 'string' ? body.newName : undefined);
+    const newName = normalizeFolderPath(typeof body?.newName === 'string' ? body.newName : undefined);
     if (!name) {
       return NextResponse.json({ error: 'Folder name is required' }, { status: 400 });
     }
     if (!newName) {
       return NextResponse.json({ error: 'New folder name is required' }, { status: 400 });
     }
+    if (newName !== name && isInFolderSubtree(newName, name)) {
+      return NextResponse.json({ error: 'A folder cannot be moved into its own subfolder' }, { status: 400 });
+    }
     await renameFolder(name, newName);
-    await updateAllImages(name, newName);
-    return NextResponse.json({ success: true, name: newName });
+    const job = await enqueueFolderRename({
+      from: name,
+      to: newName,
+      actor: toChangeActor(getRequestActor(request))
+    });
+    return NextResponse.json({ success: true, name: newName, jobId: job.id }, { status: 202 });
   } catch (error) {
     console.error('Rename folder error', error);
     return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to rename folder' }, { status: 500 });
   }
 }
 
+// Deletes the folder and its subfolders; their images move to [none]
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ name: string }> }
 ) {
   try {
@@ -44,8 +48,8 @@ export async function DELETE(
       return NextResponse.json({ error: 'Folder name is required' }, { status: 400 });
     }
     await removeFolder(name);
-    await updateAllImages(name, undefined);
-    return NextResponse.json({ success: true });
+    const job = await enqueueFolderRename({ from: name, actor: toChangeActor(getRequestActor(request)) });
+    return NextResponse.json({ success: true, jobId: job.id }, { status: 202 });
   } catch (error) {
     console.error('Delete folder error', error);
     return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to delete folder' }, { status: 500 });
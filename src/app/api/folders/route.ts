@@ -1,15 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchCloudflareImages } from '@/utils/cloudflareClient';
 import { addFolder, listStoredFolders } from '@/utils/folderStore';
+import { buildFolderTree, countImagesByFolder, flattenFolderTree, normalizeFolderPath } from '@/utils/folderTree';
+import { getCachedImages } from '@/server/cloudflareImageCache';
 
+/**
+ * `folders` lists every folder path, including parents of nested folders;
+ * `tree` nests them with image counts (`total` includes subfolders).
+ */
 export async function GET() {
   try {
-    const [cloudflareImages, storedFolders] = await Promise.all([
+    const [cloudflareImages, storedFolders, cachedImages] = await Promise.all([
       fetchCloudflareImages().catch((err) => {
         console.error('Failed to fetch Cloudflare images for folder list', err);
         return [];
       }),
-      listStoredFolders()
+      listStoredFolders(),
+      getCachedImages().catch((err) => {
+        console.error('Failed to read cached images for folder counts', err);
+        return [];
+      })
     ]);
 
     const derivedFolders = Array.from(
@@ -20,9 +30,12 @@ export async function GET() {
       )
     );
 
-    const allFolders = Array.from(new Set([...storedFolders, ...derivedFolders])).sort((a, b) => a.localeCompare(b));
+    const tree = buildFolderTree([...storedFolders, ...derivedFolders], countImagesByFolder(cachedImages));
+    const allFolders = flattenFolderTree(tree)
+      .map((node) => node.path)
+      .sort((a, b) => a.localeCompare(b));
 
-    return NextResponse.json({ folders: allFolders });
+    return NextResponse.json({ folders: allFolders, tree });
   } catch (error) {
     console.error('List folders error', error);
     return NextResponse.json({ error: 'Failed to load folders' }, { status: 500 });
@@ -32,7 +45,7 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    const name = normalizeFolderPath(typeof body?.name === 'string' ? body.name : undefined);
     if (!name) {
       return NextResponse.json({ error: 'Folder name is required' }, { status: 400 });
     }
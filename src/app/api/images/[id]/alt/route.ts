@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { transformApiImageToCached, upsertCachedImage } from '@/server/cloudflareImageCache';
-
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
+import { getExternallyReadableImageUrl, getImageStorage, ImageStorageError } from '@/server/imageStorage';
+import { getRequestActor } from '@/server/auth';
+import { tryRecordMetadataChange } from '@/server/changeLog';
+import { CaptionError, generateCaption, getCaptionProvider } from '@/server/captioning';
 
 type CloudflareMetadata = Record<string, unknown>;
 
@@ -18,34 +20,21 @@ function parseMetadata(rawMeta: unknown): CloudflareMetadata {
   }
 }
 
-function sanitizeString(value?: string | null) {
-  if (!value) return undefined;
-  const trimmed = value.trim();
-  if (!trimmed || trimmed === 'undefined') return undefined;
-  return trimmed;
-}
-
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-    const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-    const openAiKey = process.env.OPENAI_API_KEY;
+    const storage = getImageStorage();
+    const configError = storage.getConfigurationError();
+    const captionConfigError = getCaptionProvider().getConfigurationError();
 
-    if (!accountId || !apiToken) {
-      return NextResponse.json(
-        { error: 'Cloudflare credentials not configured' },
-        { status: 500 }
-      );
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
-    if (!openAiKey) {
-      return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
-        { status: 500 }
-      );
+    if (captionConfigError) {
+      return NextResponse.json({ error: captionConfigError }, { status: 500 });
     }
 
     const { id: imageId } = await params;
@@ -53,113 +42,40 @@ export async function POST(
       return NextResponse.json({ error: 'Image ID is required' }, { status: 400 });
     }
 
-    const imageResponse = await fetch(
-      `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1/${imageId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${apiToken}`,
-        },
-      }
-    );
-
-    const imageResult = await imageResponse.json();
-    if (!imageResponse.ok) {
-      console.error('Cloudflare API error (fetch image):', imageResult);
-      return NextResponse.json(
-        { error: imageResult.errors?.[0]?.message || 'Failed to fetch image from Cloudflare' },
-        { status: imageResponse.status }
-      );
-    }
-
-    const image = imageResult.result;
-    const imageUrl: string | undefined = image.variants?.find((variant: string) => variant.includes('public')) || image.variants?.[0];
+    const image = await storage.get(imageId);
+    const imageUrl = await getExternallyReadableImageUrl(storage, image);
 
     if (!imageUrl) {
       return NextResponse.json({ error: 'No accessible image variant found' }, { status: 422 });
     }
 
-    const prompt = 'You are an accessibility assistant. Provide a concise, objective alt text (max 120 characters) that describes the main subject and context of the image.';
-
-    const openAiResponse = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${openAiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        temperature: 0.2,
-        max_tokens: 150,
-        messages: [
-          { role: 'system', content: prompt },
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: 'Describe this image for use as an HTML alt attribute.' },
-              { type: 'image_url', image_url: { url: imageUrl } }
-            ]
-          }
-        ]
-      })
+    // Optional body: { language }
+    const body = request.headers.get('content-type')?.includes('application/json')
+      ? await request.json().catch(() => ({}))
+      : {};
+    const existingMeta = parseMetadata(image.meta);
+    const { text: altText } = await generateCaption({
+      kind: 'alt',
+      imageUrl,
+      namespace: typeof existingMeta.namespace === 'string' ? existingMeta.namespace : undefined,
+      language: typeof body?.language === 'string' ? body.language : undefined,
+      context: { filename: image.filename }
     });
 
-    const openAiPayload = await openAiResponse.json();
-    if (!openAiResponse.ok) {
-      console.error('OpenAI API error:', openAiPayload);
-      return NextResponse.json(
-        { error: openAiPayload.error?.message || 'Failed to generate ALT text' },
-        { status: openAiResponse.status }
-      );
-    }
-
-    const messageContent = openAiPayload?.choices?.[0]?.message?.content;
-    let altTextRaw: string | undefined;
-
-    if (typeof messageContent === 'string') {
-      altTextRaw = messageContent;
-    } else if (Array.isArray(messageContent)) {
-      altTextRaw = messageContent
-        .map((chunk: { text?: string }) => chunk?.text || '')
-        .join(' ')
-        .trim();
-    }
-
-    const altText = sanitizeString(altTextRaw);
-
-    if (!altText) {
-      return NextResponse.json(
-        { error: 'OpenAI response did not contain ALT text' },
-        { status: 422 }
-      );
-    }
-
-    const existingMeta = parseMetadata(image.meta);
     const updatedMeta = {
       ...existingMeta,
       altTag: altText,
       updatedAt: new Date().toISOString()
     };
 
-    const updateResponse = await fetch(
-      `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1/${imageId}`,
-      {
-        method: 'PATCH',
-        headers: {
-          Authorization: `Bearer ${apiToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ metadata: updatedMeta })
-      }
-    );
-
-    const updatePayload = await updateResponse.json();
-    if (!updateResponse.ok) {
-      console.error('Cloudflare API error (update alt):', updatePayload);
-      return NextResponse.json(
-        { error: updatePayload.errors?.[0]?.message || 'Failed to save ALT text' },
-        { status: updateResponse.status }
-      );
-    }
+    await storage.patchMetadata(imageId, updatedMeta);
+    await tryRecordMetadataChange({
+      imageId,
+      before: existingMeta,
+      after: updatedMeta,
+      actor: getRequestActor(request),
+      source: 'alt'
+    });
 
     upsertCachedImage(
       transformApiImageToCached({
@@ -173,6 +89,9 @@ export async function POST(
 
     return NextResponse.json({ altTag: altText });
   } catch (error) {
+    if (error instanceof ImageStorageError || error instanceof CaptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('ALT tag generation error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
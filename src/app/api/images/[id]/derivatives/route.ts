@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImage, getCachedImages } from '@/server/cloudflareImageCache';
+import {
+  DerivativeError,
+  getDerivativeProfiles,
+  listDerivatives,
+  resolveDerivativeProfiles
+} from '@/server/derivatives';
+import { enqueueDerivatives } from '@/server/jobHandlers';
+import { toJobSummary } from '@/server/jobQueue';
+
+/** Configured profiles and the derivatives this image already has. */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!(await getCachedImage(id))) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+    const [profiles, images] = await Promise.all([getDerivativeProfiles(), getCachedImages()]);
+    const derivatives = listDerivatives(images, id).map((image) => ({
+      id: image.id,
+      filename: image.filename,
+      ...image.derivative
+    }));
+    return NextResponse.json({ id, profiles, derivatives });
+  } catch (error) {
+    console.error('Derivatives list error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Body: `{ profiles?: string[], force? }`. Queues a `derivatives` job for the
+ * named profiles (all of them by default); `force` replaces existing copies.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const image = await getCachedImage(id);
+    if (!image) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+    if (image.derivative) {
+      return NextResponse.json(
+        { error: 'Derivatives are generated from the original, not from another derivative' },
+        { status: 400 }
+      );
+    }
+    const profiles = await resolveDerivativeProfiles(body.profiles);
+    const job = await enqueueDerivatives({
+      imageIds: [id],
+      profiles: profiles.map((profile) => profile.id),
+      force: body.force === true
+    });
+    return NextResponse.json({ jobId: job.id, job: toJobSummary(job) }, { status: 202 });
+  } catch (error) {
+    if (error instanceof DerivativeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Derivatives error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImageHistory } from '@/server/changeLog';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const entries = await getImageHistory(id);
+    return NextResponse.json({ id, entries });
+  } catch (error) {
+    console.error('Image history error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
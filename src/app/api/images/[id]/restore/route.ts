@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestActor } from '@/server/auth';
+import { getImageStorage, ImageStorageError } from '@/server/imageStorage';
+import { restoreImage, TrashError } from '@/server/trash';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const configError = getImageStorage().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
+    }
+
+    const { id } = await params;
+    const image = await restoreImage(id, getRequestActor(request));
+    return NextResponse.json({ success: true, image });
+  } catch (error) {
+    if (error instanceof TrashError || error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Restore image error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestActor } from '@/server/auth';
+import { ChangeLogError, revertImageMetadata } from '@/server/changeLog';
+import { getImageStorage, ImageStorageError } from '@/server/imageStorage';
+
+// Body: { changeId, state?: 'before' | 'after' } — restores the version before (default) or after that change
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const configError = getImageStorage().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const changeId = typeof body?.changeId === 'string' ? body.changeId.trim() : '';
+    if (!changeId) {
+      return NextResponse.json({ error: 'changeId is required' }, { status: 400 });
+    }
+    if (body?.state !== undefined && body.state !== 'before' && body.state !== 'after') {
+      return NextResponse.json({ error: "state must be 'before' or 'after'" }, { status: 400 });
+    }
+
+    const { entry, metadata } = await revertImageMetadata(id, changeId, {
+      state: body?.state,
+      actor: getRequestActor(request)
+    });
+    return NextResponse.json({ reverted: Boolean(entry), entry, metadata });
+  } catch (error) {
+    if (error instanceof ChangeLogError || error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Revert image error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import sharp from 'sharp';
 import { parseCloudflareMetadata } from '@/utils/cloudflareMetadata';
 import { transformApiImageToCached, upsertCachedImage } from '@/server/cloudflareImageCache';
-import { fetchCloudflareImage, getCloudflareCredentials } from '@/server/cloudflareClient';
+import { getImageStorage, ImageStorageError } from '@/server/imageStorage';
+import { getRequestActor } from '@/server/auth';
+import { tryRecordMetadataChange } from '@/server/changeLog';
 
 const FORMAT_TO_MIME: Record<string, string> = {
   jpeg: 'image/jpeg',
@@ -22,13 +24,6 @@ const EXTENSION_TO_FORMAT: Record<string, string> = {
   tiff: 'tiff'
 };
 
-const selectVariantUrl = (variants: string[]) => {
-  if (!variants.length) {
-    return undefined;
-  }
-  return variants.find((variant) => variant.includes('/public')) ?? variants[0];
-};
-
 const getRotationDegrees = (body: unknown) => {
   if (typeof body !== 'object' || body === null) {
     return { auto: true, degrees: undefined };
@@ -67,22 +62,18 @@ export async function POST(
     }
     const { auto, degrees } = getRotationDegrees(requestBody);
 
-    const { accountId, apiToken } = getCloudflareCredentials();
-    const image = await fetchCloudflareImage(imageId, { accountId, apiToken });
-    const variantUrl = selectVariantUrl(image.variants);
-    if (!variantUrl) {
-      return NextResponse.json({ error: 'No available image variant to rotate' }, { status: 400 });
+    const storage = getImageStorage();
+    const configError = storage.getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
-    const variantResponse = await fetch(variantUrl);
-    if (!variantResponse.ok) {
-      return NextResponse.json(
-        { error: 'Failed to download image variant for rotation' },
-        { status: variantResponse.status }
-      );
+    const image = await storage.get(imageId);
+    if (!storage.getVariantUrl(image)) {
+      return NextResponse.json({ error: 'No available image variant to rotate' }, { status: 400 });
     }
 
-    const variantBuffer = Buffer.from(await variantResponse.arrayBuffer());
+    const { buffer: variantBuffer } = await storage.fetchVariant(image);
     let transformer = sharp(variantBuffer);
     if (auto) {
       transformer = transformer.rotate();
@@ -111,31 +102,12 @@ export async function POST(
       rotatedAt: new Date().toISOString()
     };
 
-    const uploadFormData = new FormData();
-    uploadFormData.append('file', new Blob([rotatedBuffer], { type: contentType }), image.filename);
-    uploadFormData.append('metadata', JSON.stringify(rotatedMetadata));
-
-    const uploadResponse = await fetch(
-      `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1`,
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${apiToken}`
-        },
-        body: uploadFormData
-      }
-    );
-
-    const uploadResult = await uploadResponse.json();
-    if (!uploadResponse.ok) {
-      console.error('Cloudflare rotation upload error:', uploadResult);
-      return NextResponse.json(
-        { error: uploadResult.errors?.[0]?.message || 'Failed to upload rotated image' },
-        { status: uploadResponse.status }
-      );
-    }
-
-    const newImage = uploadResult.result;
+    const newImage = await storage.upload({
+      buffer: rotatedBuffer,
+      filename: image.filename ?? `${image.id}.${safeFormat}`,
+      contentType,
+      metadata: rotatedMetadata
+    });
     upsertCachedImage(
       transformApiImageToCached({
         id: newImage.id,
@@ -146,7 +118,16 @@ export async function POST(
       })
     );
 
-    const publicUrl = newImage.variants.find((variant: string) => variant.includes('/public')) ?? newImage.variants[0];
+    // The rotated copy starts its history with the metadata carried over
+    await tryRecordMetadataChange({
+      imageId: newImage.id,
+      before: {},
+      after: rotatedMetadata,
+      actor: getRequestActor(request),
+      source: 'rotate'
+    });
+
+    const publicUrl = storage.getVariantUrl(newImage);
 
     return NextResponse.json({
       rotatedFromId: imageId,
@@ -158,6 +139,9 @@ export async function POST(
       message: 'Image rotated and re-uploaded; update any existing references to the new URL.'
     });
   } catch (error) {
+    if (error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Rotate image error:', error);
     return NextResponse.json(
       { error: (error as Error).message || 'Internal server error' },
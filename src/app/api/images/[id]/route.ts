@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getCachedImage,
-  removeCachedImage,
   transformApiImageToCached,
   upsertCachedImage
 } from '@/server/cloudflareImageCache';
-import { fetchCloudflareImage, getCloudflareCredentials } from '@/server/cloudflareClient';
+import { getImageStorage, ImageStorageError } from '@/server/imageStorage';
+import { getRequestActor } from '@/server/auth';
+import { deleteImageWithDerivatives, getPurgeAt, trashImage } from '@/server/trash';
 
 export async function DELETE(
   request: NextRequest,
@@ -21,34 +22,30 @@ export async function DELETE(
       );
     }
 
-    const { accountId, apiToken } = getCloudflareCredentials();
-
-    // Delete image from Cloudflare
-    const response = await fetch(
-      `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1/${imageId}`,
-      {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-        },
-      }
-    );
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      console.error('Cloudflare API error:', result);
-      return NextResponse.json(
-        { error: result.errors?.[0]?.message || 'Failed to delete image from Cloudflare' },
-        { status: response.status }
-      );
+    const storage = getImageStorage();
+    const configError = storage.getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
-    removeCachedImage(imageId);
+    // `?permanent=1` skips the trash and deletes the image and its derivatives right away
+    if (request.nextUrl.searchParams.get('permanent') === '1') {
+      await deleteImageWithDerivatives(imageId);
+      return NextResponse.json({ success: true, permanent: true });
+    }
 
-    return NextResponse.json({ success: true });
+    const trashed = await trashImage(imageId, getRequestActor(request));
+    return NextResponse.json({
+      success: true,
+      trashed: true,
+      deletedAt: trashed.deletedAt,
+      purgeAt: trashed.deletedAt ? getPurgeAt(trashed.deletedAt) : undefined
+    });
 
   } catch (error) {
+    if (error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Delete image error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -67,17 +64,20 @@ export async function GET(
       return NextResponse.json({ error: 'Image ID is required' }, { status: 400 });
     }
 
-    const cached = await getCachedImage(imageId);
+    const cached = await getCachedImage(imageId, { includeTrashed: true });
     if (cached) {
       return NextResponse.json({ image: cached });
     }
 
-    const image = await fetchCloudflareImage(imageId);
+    const image = await getImageStorage().get(imageId);
     const cachedImage = transformApiImageToCached(image);
     upsertCachedImage(cachedImage);
 
     return NextResponse.json({ image: cachedImage });
   } catch (error) {
+    if (error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Fetch single image error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
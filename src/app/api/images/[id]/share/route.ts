@@ -1,20 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getCloudflareImageUrl } from '@/utils/imageUtils';
+import { getRequestActor } from '@/server/auth';
+import { getCachedImage } from '@/server/cloudflareImageCache';
+import { createShareLink, ShareLinkError, toShareLinkSummary } from '@/server/shareLinks';
 
-export async function GET(
+const optionalNumber = (value: unknown) =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+/**
+ * Creates a signed share link. Body: `{ variant?, expiresInHours?,
+ * maxDownloads?, password? }`. The response holds the only copy of the URL.
+ */
+export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const { id } = await params;
-  if (!id) {
-    return NextResponse.json({ error: 'Image ID is required' }, { status: 400 });
-  }
-
-  const variant = request.nextUrl.searchParams.get('variant') || 'large';
   try {
-    const url = getCloudflareImageUrl(id, variant);
-    return NextResponse.redirect(url, 307);
+    const { id } = await params;
+    const image = await getCachedImage(id);
+    if (!image) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { record, token } = await createShareLink({
+      imageId: id,
+      variant: typeof body.variant === 'string' ? body.variant : undefined,
+      expiresInHours: optionalNumber(body.expiresInHours),
+      maxDownloads: optionalNumber(body.maxDownloads),
+      password: typeof body.password === 'string' && body.password ? body.password : undefined,
+      actor: getRequestActor(request)
+    });
+
+    return NextResponse.json(
+      {
+        link: toShareLinkSummary(record),
+        token,
+        url: new URL(`/api/share/${token}`, request.nextUrl.origin).toString()
+      },
+      { status: 201 }
+    );
   } catch (error) {
-    return NextResponse.json({ error: 'Failed to build share URL' }, { status: 500 });
+    if (error instanceof ShareLinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Create share link error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
   }
 }
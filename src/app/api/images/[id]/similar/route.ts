@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImage, getCachedImages } from '@/server/cloudflareImageCache';
+import { findSimilarImages } from '@/server/imageSimilarity';
+import { matchesNamespaceFilter, resolveNamespaceParam } from '@/server/imageQuery';
+import { getImageStorage, ImageStorageError } from '@/server/imageStorage';
+import { canAccessNamespace, getRequestActor } from '@/server/auth';
+
+const DEFAULT_LIMIT = 12;
+const MAX_LIMIT = 50;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const configError = getImageStorage().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
+    }
+
+    const { id } = await params;
+    const image = await getCachedImage(id);
+    if (!image) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const limitParam = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
+    // Default to the image's own namespace rather than the app default
+    const namespace = searchParams.has('namespace')
+      ? resolveNamespaceParam(searchParams.get('namespace'))
+      : image.namespace ?? '';
+
+    const actor = getRequestActor(request);
+    const candidates = (await getCachedImages()).filter(
+      (candidate) => matchesNamespaceFilter(candidate, namespace) && canAccessNamespace(actor, candidate.namespace)
+    );
+    const { matches, indexed } = await findSimilarImages(image, candidates, limit);
+    return NextResponse.json({
+      id,
+      matches: matches.map(({ image: match, score }) => ({ ...match, score })),
+      indexed,
+      total: candidates.length - 1
+    });
+  } catch (error) {
+    if (error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Similar images error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cleanString, parseCloudflareMetadata, pickCloudflareMetadata } from '@/utils/cloudflareMetadata';
+import { cleanString, parseCloudflareMetadata } from '@/utils/cloudflareMetadata';
 import { normalizeOriginalUrl } from '@/utils/urlNormalization';
 import { transformApiImageToCached, upsertCachedImage } from '@/server/cloudflareImageCache';
+import { getImageStorage, ImageStorageError } from '@/server/imageStorage';
+import { getRequestActor } from '@/server/auth';
+import { tryRecordMetadataChange } from '@/server/changeLog';
 
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Check for required environment variables
-    const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-    const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-    
-    if (!accountId || !apiToken) {
-      return NextResponse.json(
-        { error: 'Cloudflare credentials not configured' },
-        { status: 500 }
-      );
+    // Check that the storage backend is configured
+    const storage = getImageStorage();
+    const configError = storage.getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
     const { id: imageId } = await params;
@@ -75,26 +74,9 @@ export async function PATCH(
       return [];
     })();
 
-    const fetchedImageResponse = await fetch(
-      `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1/${imageId}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-        },
-      }
-    );
-
-    const fetchedImageResult = await fetchedImageResponse.json();
-
-    if (!fetchedImageResponse.ok) {
-      console.error('Cloudflare API error (fetch existing image):', fetchedImageResult);
-      return NextResponse.json(
-        { error: fetchedImageResult.errors?.[0]?.message || 'Failed to fetch existing image metadata' },
-        { status: fetchedImageResponse.status }
-      );
-    }
+    const existingImage = await storage.get(imageId);
 
-    const existingMeta = parseCloudflareMetadata(fetchedImageResult.result?.meta);
+    const existingMeta = parseCloudflareMetadata(existingImage.meta);
     const parentProvided = Object.prototype.hasOwnProperty.call(body, 'parentId');
     const cleanParentId = cleanString(typeof parentId === 'string' ? parentId : '');
 
@@ -141,51 +123,37 @@ export async function PATCH(
       metadata.variationSort = cleanVariationSort;
     }
 
-    const metadataPayload = pickCloudflareMetadata(metadata);
-
-    // Update image metadata in Cloudflare using JSON body
-    const response = await fetch(
-      `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1/${imageId}`,
-      {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ metadata: metadataPayload }),
-      }
-    );
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      console.error('Cloudflare API error:', result);
-      return NextResponse.json(
-        { error: result.errors?.[0]?.message || 'Failed to update image metadata' },
-        { status: response.status }
-      );
-    }
+    // Replace the stored metadata with the merged payload; every existing field is kept
+    // and the storage layer compacts what Cloudflare can hold
+    await storage.patchMetadata(imageId, metadata);
+    await tryRecordMetadataChange({
+      imageId,
+      before: existingMeta,
+      after: metadata,
+      actor: getRequestActor(request),
+      source: 'update'
+    });
 
-    const finalParentId = metadataPayload.variationParentId as string | undefined;
+    const finalParentId = metadata.variationParentId as string | undefined;
 
-    const finalFolder = metadataPayload.folder as string | undefined;
-    const finalTags = Array.isArray(metadataPayload.tags) ? metadataPayload.tags : [];
-    const finalDescription = metadataPayload.description as string | undefined;
-    const finalOriginalUrl = metadataPayload.originalUrl as string | undefined;
-    const finalSourceUrl = metadataPayload.sourceUrl as string | undefined;
+    const finalFolder = metadata.folder as string | undefined;
+    const finalTags = Array.isArray(metadata.tags) ? metadata.tags : [];
+    const finalDescription = metadata.description as string | undefined;
+    const finalOriginalUrl = metadata.originalUrl as string | undefined;
+    const finalSourceUrl = metadata.sourceUrl as string | undefined;
     const finalDisplayName =
-      (metadataPayload.displayName as string | undefined) ?? fetchedImageResult.result.filename;
-    const finalAltTag = metadataPayload.altTag as string | undefined;
+      (metadata.displayName as string | undefined) ?? existingImage.filename;
+    const finalAltTag = metadata.altTag as string | undefined;
     const finalVariationSort =
-      typeof metadataPayload.variationSort === 'number' ? metadataPayload.variationSort : undefined;
+      typeof metadata.variationSort === 'number' ? metadata.variationSort : undefined;
 
     upsertCachedImage(
       transformApiImageToCached({
-        id: fetchedImageResult.result.id,
-        filename: fetchedImageResult.result.filename,
-        uploaded: fetchedImageResult.result.uploaded,
-        variants: fetchedImageResult.result.variants,
-        meta: metadataPayload
+        id: existingImage.id,
+        filename: existingImage.filename,
+        uploaded: existingImage.uploaded,
+        variants: existingImage.variants,
+        meta: metadata
       })
     );
 
@@ -203,6 +171,9 @@ export async function PATCH(
     });
 
   } catch (error) {
+    if (error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Update image error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImages } from '@/server/cloudflareImageCache';
+import { ALT_TEXT_ISSUES, buildAccessibilityReport, type AltTextIssue } from '@/server/accessibilityReport';
+
+/**
+ * ALT text report. Query: `namespace` (`__none__` for images without one),
+ * `folder` (includes subfolders), `issues` (comma-separated subset of
+ * missing, filename, too-long, duplicate), `maxLength`, `refresh=1`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const namespaceParam = searchParams.get('namespace');
+    const issues = (searchParams.get('issues') ?? '')
+      .split(',')
+      .map((issue) => issue.trim())
+      .filter(Boolean);
+    const unknown = issues.filter((issue) => !ALT_TEXT_ISSUES.includes(issue as AltTextIssue));
+    if (unknown.length) {
+      return NextResponse.json(
+        { error: `Unknown issue(s): ${unknown.join(', ')}. Use ${ALT_TEXT_ISSUES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const maxLengthParam = Number(searchParams.get('maxLength'));
+
+    const images = await getCachedImages(searchParams.get('refresh') === '1');
+    const report = buildAccessibilityReport(images, {
+      namespace: namespaceParam === null ? undefined : namespaceParam === '__none__' ? '' : namespaceParam,
+      folder: searchParams.get('folder') || undefined,
+      issues: issues as AltTextIssue[],
+      maxLength: Number.isInteger(maxLengthParam) && maxLengthParam > 0 ? maxLengthParam : undefined
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Accessibility report error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
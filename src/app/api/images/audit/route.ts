@@ -1,45 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCachedImages } from '@/server/cloudflareImageCache';
-import { getCloudflareImageUrl } from '@/utils/imageUtils';
+import { runImageAudit } from '@/server/imageAudit';
+import { enqueueImageAudit } from '@/server/jobHandlers';
+import { JobError, toJobSummary } from '@/server/jobQueue';
 
-type AuditEntry = {
-  id: string;
-  filename?: string;
-  url?: string;
-  status?: number;
-  reason?: string;
-};
-
-const parseNumber = (value: string | null, fallback: number) => {
-  if (!value) return fallback;
+const parseNumber = (value: unknown, fallback: number) => {
+  if (value === null || value === undefined || value === '') return fallback;
   const parsed = Number(value);
   return Number.isFinite(parsed) ? parsed : fallback;
 };
 
-const buildUrlForImage = (image: { id: string; variants: string[] }, variant: string) => {
-  try {
-    return getCloudflareImageUrl(image.id, variant);
-  } catch {
-    if (!Array.isArray(image.variants) || image.variants.length === 0) {
-      return undefined;
-    }
-    const variantMatch = image.variants.find((url) => url.includes(`/${variant}`));
-    return variantMatch ?? image.variants[0];
-  }
-};
-
-const fetchWithFallback = async (url: string) => {
-  const head = await fetch(url, { method: 'HEAD', cache: 'no-store' });
-  if (head.status !== 405 && head.status !== 501) {
-    return head;
-  }
-  return fetch(url, {
-    method: 'GET',
-    headers: { Range: 'bytes=0-0' },
-    cache: 'no-store'
-  });
-};
-
+/**
+ * Synchronous audit of one slice (`offset` / `limit`). Auditing the whole
+ * catalog inside a request can outlive the client, so prefer `POST`, which
+ * runs it as a background job.
+ */
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const refresh = searchParams.get('refresh') === '1';
@@ -54,66 +29,48 @@ export async function GET(request: NextRequest) {
   const sliceEnd = limit > 0 ? offset + limit : undefined;
   const targets = images.slice(sliceStart, sliceEnd);
 
-  const broken: AuditEntry[] = [];
-  const errors: AuditEntry[] = [];
-  const results: AuditEntry[] = [];
-  let index = 0;
-
-  const worker = async () => {
-    while (index < targets.length) {
-      const current = targets[index++];
-      const url = buildUrlForImage(current, variant);
-      const filename = current.filename;
-      if (!url) {
-        const entry = { id: current.id, filename, reason: 'missing-url' };
-        broken.push(entry);
-        if (verbose) {
-          results.push(entry);
-        }
-        continue;
-      }
-      try {
-        const response = await fetchWithFallback(url);
-        if (response.status === 404 || response.status === 410) {
-          const entry = { id: current.id, filename, url, status: response.status, reason: 'not-found' };
-          broken.push(entry);
-          if (verbose) {
-            results.push(entry);
-          }
-        } else if (!response.ok) {
-          const entry = { id: current.id, filename, url, status: response.status, reason: 'request-failed' };
-          errors.push(entry);
-          if (verbose) {
-            results.push(entry);
-          }
-        } else if (verbose) {
-          results.push({ id: current.id, filename, url, status: response.status, reason: 'ok' });
-        }
-      } catch (error) {
-        const entry = {
-          id: current.id,
-          filename,
-          url,
-          reason: error instanceof Error ? error.message : 'request-error'
-        };
-        errors.push(entry);
-        if (verbose) {
-          results.push(entry);
-        }
-      }
-    }
-  };
-
-  await Promise.all(Array.from({ length: Math.min(concurrency, targets.length) }, () => worker()));
+  const { checked, broken, errors, results } = await runImageAudit(targets, {
+    variant,
+    concurrency,
+    verbose,
+    baseUrl: request.url
+  });
 
   return NextResponse.json({
     totalImages: images.length,
-    checked: targets.length,
+    checked,
     broken,
     errors,
-    results: verbose ? results : undefined,
+    results,
     variant,
     offset: sliceStart,
     checkedAt: new Date().toISOString()
   });
 }
+
+/**
+ * Queue an `image-audit` job over the catalog (or an `offset` / `limit`
+ * slice). Poll `GET /api/jobs/:id`; the finished job's `result` has the same
+ * shape as the `GET` response.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const job = await enqueueImageAudit({
+      variant: typeof body.variant === 'string' && body.variant ? body.variant : 'public',
+      refresh: body.refresh === true,
+      offset: Math.max(0, parseNumber(body.offset, 0)),
+      limit: Math.max(0, parseNumber(body.limit, 0)),
+      concurrency: Math.max(1, parseNumber(body.concurrency, 8)),
+      verbose: body.verbose === true,
+      baseUrl: request.url
+    });
+    return NextResponse.json({ jobId: job.id, job: toJobSummary(job) }, { status: 202 });
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Audit enqueue error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImages } from '@/server/cloudflareImageCache';
+import { backfillImageFeatures } from '@/server/imageSimilarity';
+import { getImageStorage } from '@/server/imageStorage';
+
+const DEFAULT_BATCH = 25;
+const MAX_BATCH = 200;
+
+/**
+ * Compute similarity features for a batch of images that have none yet
+ * (uploads from before the similarity index existed). Call repeatedly until
+ * `remaining` reaches 0.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const configError = getImageStorage().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
+    }
+    const body = await request.json().catch(() => ({}));
+    const requested = Number((body as { limit?: unknown }).limit ?? DEFAULT_BATCH);
+    const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_BATCH) : DEFAULT_BATCH;
+
+    const images = await getCachedImages();
+    const result = await backfillImageFeatures(images, limit);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Feature backfill error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
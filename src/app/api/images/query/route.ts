@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImages, getCacheStats } from '@/server/cloudflareImageCache';
+import { ImageQueryError, parseImageQuery, queryImages } from '@/server/imageQuery';
+import { canAccessNamespace, getRequestActor } from '@/server/auth';
+import { getTagTaxonomy } from '@/server/tagTaxonomy';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const query = parseImageQuery(params);
+    const actor = getRequestActor(request);
+    const images = (await getCachedImages(params.get('refresh') === '1')).filter((image) =>
+      canAccessNamespace(actor, image.namespace)
+    );
+    const result = queryImages(images, query, await getTagTaxonomy());
+    return NextResponse.json({
+      ...result,
+      namespace: query.namespace,
+      cache: getCacheStats()
+    });
+  } catch (error) {
+    if (error instanceof ImageQueryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Query images error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
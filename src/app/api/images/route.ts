@@ -1,25 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCachedImages, getCacheStats } from '@/server/cloudflareImageCache';
+import { matchesNamespaceFilter, resolveNamespaceParam } from '@/server/imageQuery';
+import { canAccessNamespace, getRequestActor } from '@/server/auth';
 
 export async function GET(request: NextRequest) {
   try {
     const forceRefresh = request.nextUrl.searchParams.get('refresh') === '1';
     const namespaceParam = request.nextUrl.searchParams.get('namespace');
-    const defaultNamespace = process.env.IMAGE_NAMESPACE || process.env.NEXT_PUBLIC_IMAGE_NAMESPACE || '';
-    const namespace =
-      namespaceParam === '__none__'
-        ? ''
-        : namespaceParam === '__all__'
-          ? null
-          : namespaceParam !== null
-            ? namespaceParam.trim()
-            : defaultNamespace;
+    const namespace = resolveNamespaceParam(namespaceParam);
     const images = await getCachedImages(forceRefresh);
-    const filtered = namespace === null
-      ? images
-      : namespace === ''
-        ? images.filter((image) => !image.namespace)
-        : images.filter((image) => image.namespace === namespace);
+    const actor = getRequestActor(request);
+    const filtered = images.filter(
+      (image) => matchesNamespaceFilter(image, namespace) && canAccessNamespace(actor, image.namespace)
+    );
     const cache = getCacheStats();
     return NextResponse.json({ images: filtered, cache, namespace: namespace ?? null });
   } catch (error) {
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImages } from '@/server/cloudflareImageCache';
+import { matchesNamespaceFilter, resolveNamespaceParam } from '@/server/imageQuery';
+import { searchImages } from '@/server/searchIndex';
+import { canAccessNamespace, getRequestActor } from '@/server/auth';
+import { getTagTaxonomy } from '@/server/tagTaxonomy';
+import { expandTag } from '@/utils/tagTaxonomy';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q')?.trim() ?? '';
+    if (!query) {
+      return NextResponse.json({ error: 'q is required' }, { status: 400 });
+    }
+    const limitParam = Number(params.get('limit') ?? DEFAULT_LIMIT);
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
+    const namespace = resolveNamespaceParam(params.get('namespace'));
+
+    const actor = getRequestActor(request);
+    const [images, taxonomy] = await Promise.all([getCachedImages(), getTagTaxonomy()]);
+    const { hits, total } = searchImages(images, query, {
+      limit,
+      synonyms: (word) => Array.from(expandTag(taxonomy, word)),
+      filter: (image) => matchesNamespaceFilter(image, namespace) && canAccessNamespace(actor, image.namespace)
+    });
+    return NextResponse.json({ query, total, results: hits, namespace });
+  } catch (error) {
+    console.error('Search images error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
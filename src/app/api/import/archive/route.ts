@@ -0,0 +1,69 @@
+import { randomUUID } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { NextRequest, NextResponse } from 'next/server';
+import { CatalogArchiveError, readCatalogManifest } from '@/server/catalogArchive';
+import { getImageStorage } from '@/server/imageStorage';
+import { enqueueCatalogImport } from '@/server/jobHandlers';
+import { toJobSummary } from '@/server/jobQueue';
+
+// Archives wait here until the import job has finished with them
+const getImportDir = () => process.env.CATALOG_IMPORT_DIR || path.join(tmpdir(), 'photarium-imports');
+
+/**
+ * Accepts a catalog archive from `GET /api/export`, either as a multipart
+ * `file` field or as a raw `application/zip` body, and queues the import.
+ * `?skipExisting=0` uploads images even when the same content is already here.
+ */
+export async function POST(request: NextRequest) {
+  const archivePath = path.join(getImportDir(), `${randomUUID()}.zip`);
+  try {
+    const configError = getImageStorage().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
+    }
+
+    await mkdir(getImportDir(), { recursive: true });
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'An archive file is required' }, { status: 400 });
+      }
+      await writeFile(archivePath, Buffer.from(await file.arrayBuffer()));
+    } else if (request.body) {
+      await pipeline(
+        Readable.fromWeb(request.body as unknown as NodeReadableStream<Uint8Array>),
+        createWriteStream(archivePath)
+      );
+    } else {
+      return NextResponse.json({ error: 'An archive file is required' }, { status: 400 });
+    }
+
+    const manifest = await readCatalogManifest(archivePath);
+    const job = await enqueueCatalogImport(
+      { archivePath, skipExisting: request.nextUrl.searchParams.get('skipExisting') !== '0' },
+      manifest.images.length
+    );
+    return NextResponse.json(
+      { jobId: job.id, job: toJobSummary(job), images: manifest.images.length },
+      { status: 202 }
+    );
+  } catch (error) {
+    await rm(archivePath, { force: true });
+    if (error instanceof CatalogArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Catalog import error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
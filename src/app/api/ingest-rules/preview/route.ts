@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImages } from '@/server/cloudflareImageCache';
+import {
+  IngestRuleError,
+  evaluateIngestRules,
+  factsFromCachedImage,
+  listIngestRules,
+  sanitizeIngestRules,
+  type IngestFacts
+} from '@/server/ingestRules';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const readString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+const readNumber = (value: unknown) => {
+  const number = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(number) ? number : undefined;
+};
+
+const sampleFacts = (sample: Record<string, unknown>): IngestFacts => {
+  const camera = readString(sample.camera);
+  const lens = readString(sample.lens);
+  return {
+    filename: readString(sample.filename) ?? 'upload.jpg',
+    mimeType: readString(sample.mimeType),
+    originalUrl: readString(sample.originalUrl),
+    sourceUrl: readString(sample.sourceUrl),
+    exif: camera || lens ? { ...(camera ? { model: camera } : {}), ...(lens ? { lens } : {}) } : undefined,
+    width: readNumber(sample.width),
+    height: readNumber(sample.height),
+    namespace: readString(sample.namespace),
+    folder: readString(sample.folder),
+    tags: typeof sample.tags === 'string' ? sample.tags.split(',').map((tag) => tag.trim()).filter(Boolean) : []
+  };
+};
+
+/**
+ * Dry run; nothing is written. Body: `{ rules?, sample?, limit? }`.
+ * `rules` tests an unsaved list (defaults to the saved one). With `sample`
+ * (filename, mimeType, originalUrl, sourceUrl, camera, lens, width, height,
+ * namespace, folder, tags) the result for that hypothetical upload is
+ * returned; otherwise the rules run over the library and report which
+ * images they would match and what they would assign.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const rules = body.rules === undefined ? await listIngestRules() : sanitizeIngestRules(body.rules);
+
+    if (body.sample && typeof body.sample === 'object') {
+      const facts = sampleFacts(body.sample);
+      const result = evaluateIngestRules(rules, facts, {
+        folderLocked: Boolean(facts.folder),
+        namespaceLocked: false
+      });
+      return NextResponse.json({ facts, result });
+    }
+
+    const limitParam = Number(body.limit ?? DEFAULT_LIMIT);
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
+    const images = await getCachedImages();
+    const matches = images.flatMap((image) => {
+      const result = evaluateIngestRules(rules, factsFromCachedImage(image), { now: new Date(image.uploaded) });
+      if (!result.matchedRuleIds.length) return [];
+      return [
+        {
+          id: image.id,
+          filename: image.filename,
+          current: {
+            folder: image.folder,
+            tags: image.tags,
+            displayName: image.displayName,
+            namespace: image.namespace
+          },
+          result
+        }
+      ];
+    });
+    return NextResponse.json({ checked: images.length, total: matches.length, matches: matches.slice(0, limit) });
+  } catch (error) {
+    if (error instanceof IngestRuleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Preview ingest rules error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IngestRuleError, listIngestRules, saveIngestRules } from '@/server/ingestRules';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ rules: await listIngestRules() });
+  } catch (error) {
+    console.error('List ingest rules error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Body: `{ rules: IngestRule[] }`, the full list in evaluation order. */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const rules = await saveIngestRules(body.rules);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    if (error instanceof IngestRuleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Save ingest rules error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import '@/server/jobHandlers';
+import { cancelJob, JobError, toJobSummary } from '@/server/jobQueue';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await cancelJob(id);
+    return NextResponse.json(toJobSummary(job));
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Cancel job error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
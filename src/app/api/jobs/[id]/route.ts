@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import '@/server/jobHandlers';
+import { getJob, toJobSummary } from '@/server/jobQueue';
+
+/** Status, progress and (once finished) result of a background job. */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = id ? await getJob(id) : undefined;
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json(toJobSummary(job));
+  } catch (error) {
+    console.error('Get job error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
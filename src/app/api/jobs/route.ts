@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import '@/server/jobHandlers';
+import { listJobs, toJobSummary, type JobStatus } from '@/server/jobQueue';
+
+const STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+/** Recent jobs, newest first; filter with `type` and `status`. */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    if (status && !STATUSES.includes(status as JobStatus)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+    const requestedLimit = Number(searchParams.get('limit') ?? 50);
+    const limit = Number.isInteger(requestedLimit) && requestedLimit > 0 ? Math.min(requestedLimit, 200) : 50;
+
+    const jobs = await listJobs({
+      type: searchParams.get('type') || undefined,
+      status: (status as JobStatus | null) ?? undefined,
+      limit
+    });
+    return NextResponse.json({ jobs: jobs.map(toJobSummary) });
+  } catch (error) {
+    console.error('List jobs error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImageStorage, ImageStorageError } from '@/server/imageStorage';
+import { LocalImageStorage } from '@/server/localImageStorage';
+import { renderVariant } from '@/server/variantRenderer';
+
+// Serves image bytes for IMAGE_STORAGE_PROVIDER=local using the imagedelivery.net URL layout.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ hash: string; id: string; variant: string }> }
+) {
+  const storage = getImageStorage();
+  if (!(storage instanceof LocalImageStorage)) {
+    return NextResponse.json({ error: 'Local image storage is not enabled' }, { status: 404 });
+  }
+
+  try {
+    const { id, variant } = await params;
+    const original = await storage.readOriginal(id);
+    const rendered = await renderVariant(original, variant, request.nextUrl.searchParams.get('format'));
+    return new NextResponse(new Uint8Array(rendered.buffer), {
+      headers: {
+        'Content-Type': rendered.contentType,
+        'Content-Length': rendered.buffer.byteLength.toString(),
+        'Cache-Control': 'public, max-age=3600'
+      }
+    });
+  } catch (error) {
+    if (error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Local image delivery error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
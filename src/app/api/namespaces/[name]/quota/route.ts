@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setNamespaceQuota } from '@/server/namespaceRegistry';
+
+// `null` (or omitted) clears a limit
+const parseLimit = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return { value: undefined };
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? { value: parsed } : { error: true };
+};
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const namespace = decodeURIComponent(name).trim();
+    if (!namespace || namespace === '__none__' || namespace === '__all__') {
+      return NextResponse.json({ error: 'A namespace is required' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const maxImages = parseLimit(body?.maxImages);
+    const maxBytes = parseLimit(body?.maxBytes);
+    if (maxImages.error || maxBytes.error) {
+      return NextResponse.json(
+        { error: 'maxImages and maxBytes must be non-negative integers or null' },
+        { status: 400 }
+      );
+    }
+
+    const quota = await setNamespaceQuota(namespace, { maxImages: maxImages.value, maxBytes: maxBytes.value });
+    return NextResponse.json({ namespace, quota: quota ?? null });
+  } catch (error) {
+    console.error('Update namespace quota error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
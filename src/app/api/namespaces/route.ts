@@ -1,9 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { listRegistryNamespaces } from '@/server/namespaceRegistry';
+import { canAccessNamespace, getRequestActor } from '@/server/auth';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const namespaces = await listRegistryNamespaces();
+    const actor = getRequestActor(request);
+    const namespaces = (await listRegistryNamespaces()).filter((namespace) =>
+      canAccessNamespace(actor, namespace)
+    );
     return NextResponse.json({ namespaces });
   } catch (error) {
     console.error('Fetch namespaces error:', error);
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { listNamespaceUsage } from '@/server/namespaceUsage';
+
+export async function GET() {
+  try {
+    const namespaces = await listNamespaceUsage();
+    return NextResponse.json({ namespaces });
+  } catch (error) {
+    console.error('Namespace usage error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageStorageError } from '@/server/imageStorage';
+import { downloadSharedImage, ShareLinkError } from '@/server/shareLinks';
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Browsers opening a password-protected link get a form that posts back here
+const passwordForm = (message: string) =>
+  new NextResponse(
+    `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Shared image</title></head>` +
+      `<body style="font-family:ui-monospace,monospace;display:flex;min-height:100vh;align-items:center;justify-content:center;margin:0">` +
+      `<form method="post" style="display:flex;flex-direction:column;gap:8px;width:260px">` +
+      `<label for="password" style="font-size:13px">${escapeHtml(message)}</label>` +
+      `<input id="password" name="password" type="password" autofocus required style="padding:6px;border:1px solid #ccc;border-radius:4px">` +
+      `<button type="submit" style="padding:6px;border-radius:4px;border:1px solid #333;background:#111;color:#fff">View image</button>` +
+      `</form></body></html>`,
+    { status: 401, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } }
+  );
+
+const serve = async (request: NextRequest, token: string, password?: string) => {
+  try {
+    const { buffer, contentType, filename } = await downloadSharedImage(token, password);
+    const disposition = request.nextUrl.searchParams.get('download') === '1' ? 'attachment' : 'inline';
+    const headers = new Headers();
+    headers.set('Content-Type', contentType);
+    headers.set('Content-Length', buffer.byteLength.toString());
+    headers.set('Content-Disposition', `${disposition}; filename="${filename.replace(/"/g, '')}"`);
+    headers.set('Cache-Control', 'private, no-store');
+    return new NextResponse(new Uint8Array(buffer), { headers });
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      if (error.status === 401 && (request.headers.get('accept') ?? '').includes('text/html')) {
+        return passwordForm(error.message);
+      }
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Shared image error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+};
+
+/** Serves the shared variant; API clients send the password in `X-Share-Password`. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  return serve(request, token, request.headers.get('x-share-password') ?? undefined);
+}
+
+// Password form submissions
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const formData = await request.formData().catch(() => undefined);
+  const password = formData?.get('password');
+  return serve(request, token, typeof password === 'string' ? password : undefined);
+}
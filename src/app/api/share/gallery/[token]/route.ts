@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryShareArchiveEntries, GalleryShareError, resolveGalleryShare } from '@/server/galleryShares';
+import { ShareLinkError } from '@/server/shareLinks';
+import { createZipStream } from '@/server/zipStream';
+
+const archiveFilename = (title: string) =>
+  `${title.replace(/[^a-z0-9._-]+/gi, '-').replace(/^-+|-+$/g, '') || 'gallery'}.zip`;
+
+/** Download-all for a shared gallery: a ZIP of the originals, when the share allows it. */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const record = await resolveGalleryShare(token);
+    if (!record.allowDownload) {
+      return NextResponse.json({ error: 'Downloads are not enabled for this gallery' }, { status: 403 });
+    }
+    return new NextResponse(createZipStream(galleryShareArchiveEntries(record)), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${archiveFilename(record.title)}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof GalleryShareError || error instanceof ShareLinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Shared gallery download error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeShareLink, ShareLinkError, toShareLinkSummary } from '@/server/shareLinks';
+
+// Revokes the link; the record stays listed so its downloads remain visible
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const record = await revokeShareLink(id);
+    return NextResponse.json({ link: toShareLinkSummary(record) });
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Revoke share link error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
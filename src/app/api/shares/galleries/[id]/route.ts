@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GalleryShareError, revokeGalleryShare, toGalleryShareSummary } from '@/server/galleryShares';
+
+// Revokes the gallery link; the record stays listed until it is pruned
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const record = await revokeGalleryShare(id);
+    return NextResponse.json({ share: toGalleryShareSummary(record) });
+  } catch (error) {
+    if (error instanceof GalleryShareError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Revoke gallery share error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestActor } from '@/server/auth';
+import {
+  createGalleryShare,
+  GalleryShareError,
+  listGalleryShares,
+  parseGallerySource,
+  toGalleryShareSummary
+} from '@/server/galleryShares';
+import { resolveNamespaceParam } from '@/server/imageQuery';
+import { ShareLinkError } from '@/server/shareLinks';
+
+export async function GET() {
+  try {
+    const shares = await listGalleryShares();
+    const now = Date.now();
+    return NextResponse.json({ shares: shares.map((record) => toGalleryShareSummary(record, now)) });
+  } catch (error) {
+    console.error('List gallery shares error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Creates a gallery share. Body: `{ source: { kind: 'folder', folder } |
+ * { kind: 'tag', tag } | { kind: 'search', query } | { kind: 'ids', ids },
+ * title?, namespace?, allowDownload?, expiresInHours? }`. `namespace` takes
+ * the same values as `GET /api/images` (`__none__`, `__all__`, or unset for
+ * the server default).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const hours = body.expiresInHours;
+    const { record, token } = await createGalleryShare({
+      source: parseGallerySource(body.source),
+      title: typeof body.title === 'string' ? body.title : undefined,
+      namespace: resolveNamespaceParam(typeof body.namespace === 'string' ? body.namespace : null),
+      allowDownload: body.allowDownload === true,
+      expiresInHours: hours === undefined || hours === null || hours === '' ? undefined : Number(hours),
+      actor: getRequestActor(request)
+    });
+
+    return NextResponse.json(
+      {
+        share: toGalleryShareSummary(record),
+        token,
+        url: new URL(`/shared/${token}`, request.nextUrl.origin).toString()
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof GalleryShareError || error instanceof ShareLinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Create gallery share error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
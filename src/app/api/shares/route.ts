@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listShareLinks, toShareLinkSummary } from '@/server/shareLinks';
+
+export async function GET(request: NextRequest) {
+  try {
+    const imageId = request.nextUrl.searchParams.get('imageId') || undefined;
+    const links = await listShareLinks({ imageId });
+    const now = Date.now();
+    return NextResponse.json({ links: links.map((record) => toShareLinkSummary(record, now)) });
+  } catch (error) {
+    console.error('List share links error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestActor } from '@/server/auth';
+import { toChangeActor } from '@/server/changeLog';
+import { enqueueTagRename } from '@/server/jobHandlers';
+import { toJobSummary } from '@/server/jobQueue';
+import {
+  TagTaxonomyError,
+  getTagTaxonomy,
+  renameTaxonomyTags,
+  setTagParent,
+  setTagSynonyms
+} from '@/server/tagTaxonomy';
+
+/**
+ * Body: `{ parent?: string | null, synonyms?: string[], newName?: string }`.
+ * Parent and synonym edits apply at once. `newName` rewrites every image
+ * carrying the tag in a `tag-rename` job (renaming onto an existing tag
+ * merges the two); poll `GET /api/jobs/:id` for progress.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ tag: string }> }
+) {
+  try {
+    const { tag } = await params;
+    const body = await request.json().catch(() => ({}));
+    if (body.synonyms !== undefined) {
+      await setTagSynonyms(tag, body.synonyms);
+    }
+    if (body.parent !== undefined) {
+      await setTagParent(tag, body.parent);
+    }
+
+    const newName = typeof body.newName === 'string' ? body.newName.trim() : '';
+    if (!newName || newName === tag.trim()) {
+      return NextResponse.json({ taxonomy: await getTagTaxonomy() });
+    }
+    const taxonomy = await renameTaxonomyTags([tag], newName);
+    const job = await enqueueTagRename({
+      from: [tag],
+      to: newName,
+      actor: toChangeActor(getRequestActor(request))
+    });
+    return NextResponse.json({ taxonomy, jobId: job.id, job: toJobSummary(job) }, { status: 202 });
+  } catch (error) {
+    if (error instanceof TagTaxonomyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Update tag error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestActor } from '@/server/auth';
+import { toChangeActor } from '@/server/changeLog';
+import { enqueueTagRename } from '@/server/jobHandlers';
+import { toJobSummary } from '@/server/jobQueue';
+import { renameTaxonomyTags, TagTaxonomyError } from '@/server/tagTaxonomy';
+
+/**
+ * Body: `{ tags: string[], into: string, keepAsSynonyms?: boolean }`.
+ * Replaces every tag in `tags` with `into` on all images as a `tag-rename`
+ * job. With `keepAsSynonyms` the merged names stay searchable as aliases.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const into = typeof body.into === 'string' ? body.into.trim() : '';
+    const tags: string[] = Array.isArray(body.tags)
+      ? body.tags.filter((tag: unknown): tag is string => typeof tag === 'string' && Boolean(tag.trim()))
+      : [];
+    if (!into) {
+      return NextResponse.json({ error: 'into is required' }, { status: 400 });
+    }
+    if (!tags.length) {
+      return NextResponse.json({ error: 'tags must list at least one tag to merge' }, { status: 400 });
+    }
+
+    const taxonomy = await renameTaxonomyTags(tags, into, { keepAsSynonyms: body.keepAsSynonyms === true });
+    const job = await enqueueTagRename({
+      from: tags,
+      to: into,
+      actor: toChangeActor(getRequestActor(request))
+    });
+    return NextResponse.json({ taxonomy, jobId: job.id, job: toJobSummary(job) }, { status: 202 });
+  } catch (error) {
+    if (error instanceof TagTaxonomyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Merge tags error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImages } from '@/server/cloudflareImageCache';
+import { buildTagCatalog, getTagTaxonomy } from '@/server/tagTaxonomy';
+
+/** Tag catalog with counts, plus the raw synonym/parent maps for client-side filtering. */
+export async function GET(request: NextRequest) {
+  try {
+    const [images, taxonomy] = await Promise.all([
+      getCachedImages(request.nextUrl.searchParams.get('refresh') === '1'),
+      getTagTaxonomy()
+    ]);
+    return NextResponse.json({ tags: buildTagCatalog(images, taxonomy), taxonomy });
+  } catch (error) {
+    console.error('List tags error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
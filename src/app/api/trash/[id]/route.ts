@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImageStorage, ImageStorageError } from '@/server/imageStorage';
+import { purgeImage, TrashError } from '@/server/trash';
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const configError = getImageStorage().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
+    }
+
+    const { id } = await params;
+    await purgeImage(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof TrashError || error instanceof ImageStorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Purge image error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
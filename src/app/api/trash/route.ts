@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getTrashedImages } from '@/server/cloudflareImageCache';
+import { enqueueTrashPurge } from '@/server/jobHandlers';
+import { toJobSummary } from '@/server/jobQueue';
+import { getPurgeAt, getTrashRetentionDays } from '@/server/trash';
+
+export async function GET() {
+  try {
+    const images = await getTrashedImages();
+    return NextResponse.json({
+      images: images.map((image) => ({
+        ...image,
+        purgeAt: image.deletedAt ? getPurgeAt(image.deletedAt) : undefined
+      })),
+      retentionDays: getTrashRetentionDays()
+    });
+  } catch (error) {
+    console.error('List trash error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Empties the trash as a `trash-purge` job; poll `GET /api/jobs/:id` for progress
+export async function DELETE() {
+  try {
+    const job = await enqueueTrashPurge({ all: true });
+    return NextResponse.json({ jobId: job.id, job: toJobSummary(job) }, { status: 202 });
+  } catch (error) {
+    console.error('Empty trash error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import AdmZip from 'adm-zip';
 import { toDuplicateSummary } from '@/server/duplicateDetector';
+import { getImageStorage } from '@/server/imageStorage';
+import { getRequestActor, resolveActorNamespace } from '@/server/auth';
 import { upsertRegistryNamespace } from '@/server/namespaceRegistry';
 import { SUPPORTED_IMAGE_TYPES, uploadImageBuffer } from '@/server/uploadService';
 import type { UploadFailure, UploadSuccess } from '@/server/uploadService';
@@ -35,15 +37,10 @@ const normalizeFilename = (filename: string) => {
 
 export async function POST(request: NextRequest) {
   try {
-    // Check for required environment variables
-    const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-    const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-    
-    if (!accountId || !apiToken) {
-      return NextResponse.json(
-        { error: 'Cloudflare credentials not configured. Please set CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN environment variables.' },
-        { status: 500 }
-      );
+    // Check that the storage backend is configured
+    const configError = getImageStorage().getConfigurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
     const formData = await request.formData();
@@ -65,6 +62,7 @@ export async function POST(request: NextRequest) {
     const sourceUrl = formData.get('sourceUrl') as string;
     const namespace = formData.get('namespace') as string;
     const parentIdRaw = formData.get('parentId');
+    const nearDuplicatesRaw = formData.get('nearDuplicates');
     
     // Clean up values - handle empty strings and "undefined" strings
     const cleanFolder = folder && folder.trim() && folder !== 'undefined' ? folder.trim() : undefined;
@@ -78,20 +76,28 @@ export async function POST(request: NextRequest) {
         ? rawNamespace
         : undefined;
     const defaultNamespace = process.env.IMAGE_NAMESPACE || process.env.NEXT_PUBLIC_IMAGE_NAMESPACE || undefined;
-    const effectiveNamespace = cleanNamespace || defaultNamespace;
+    const namespaceAccess = resolveActorNamespace(request, cleanNamespace, defaultNamespace);
+    if (!namespaceAccess.allowed) {
+      return NextResponse.json({ error: namespaceAccess.error }, { status: 403 });
+    }
+    const effectiveNamespace = namespaceAccess.namespace;
     const parentIdValue = typeof parentIdRaw === 'string' ? parentIdRaw.trim() : '';
     const cleanParentId = parentIdValue && parentIdValue !== 'undefined' ? parentIdValue : undefined;
 
     const uploadContext = {
-      accountId,
-      apiToken,
       folder: cleanFolder,
       tags: cleanTags,
       description: cleanDescription,
       originalUrl: cleanOriginalUrl,
       sourceUrl: cleanSourceUrl,
       namespace: effectiveNamespace,
-      parentId: cleanParentId
+      namespaceRequested: Boolean(cleanNamespace),
+      allowedNamespaces: getRequestActor(request)?.namespaces,
+      parentId: cleanParentId,
+      nearDuplicateMode:
+        nearDuplicatesRaw === 'reject' || nearDuplicatesRaw === 'off'
+          ? (nearDuplicatesRaw as 'reject' | 'off')
+          : undefined
     };
 
     if (isZipFile(file)) {
@@ -149,8 +155,9 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      if (results.length > 0) {
-        await upsertRegistryNamespace(effectiveNamespace);
+      // Ingest rules may have routed some entries to another namespace
+      for (const namespace of new Set(results.map((result) => result.namespace))) {
+        await upsertRegistryNamespace(namespace);
       }
 
       return NextResponse.json({
@@ -176,10 +183,11 @@ export async function POST(request: NextRequest) {
     });
 
     if (!outcome.ok) {
-      if (outcome.reason === 'duplicate') {
+      if (outcome.reason === 'duplicate' || outcome.reason === 'near-duplicate') {
         return NextResponse.json(
           {
             error: outcome.error,
+            reason: outcome.reason,
             duplicates: outcome.duplicates ? outcome.duplicates.map(toDuplicateSummary) : []
           },
           { status: outcome.status }
@@ -191,7 +199,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    await upsertRegistryNamespace(effectiveNamespace);
+    await upsertRegistryNamespace(outcome.data.namespace);
 
     return NextResponse.json(outcome.data);
 
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUploadDownloadInfo } from '@/server/cloudflareUploadsService';
+import { fetchUploadBytes } from '@/server/cloudflareUploadsService';
+import { ImageStorageError } from '@/server/imageStorage';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type'
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key'
 };
 
 const withCors = (response: NextResponse) => {
@@ -26,30 +27,21 @@ export async function GET(
       return withCors(NextResponse.json({ error: 'Upload ID is required' }, { status: 400 }));
     }
 
-    const { url, filename, contentType, size } = await getUploadDownloadInfo(id);
-    const response = await fetch(url, { cache: 'no-store' });
-
-    if (!response.ok || !response.body) {
-      return withCors(
-        NextResponse.json({ error: 'Failed to download asset from Cloudflare' }, { status: 502 })
-      );
-    }
+    const { buffer, filename, contentType } = await fetchUploadBytes(id);
 
     const headers = new Headers();
     headers.set('Content-Type', contentType);
     headers.set('Content-Disposition', `attachment; filename="${filename}"`);
-    if (size) {
-      headers.set('Content-Length', size.toString());
-    }
+    headers.set('Content-Length', buffer.byteLength.toString());
 
-    return withCors(new NextResponse(response.body, { headers }));
+    return withCors(new NextResponse(new Uint8Array(buffer), { headers }));
   } catch (error) {
     console.error('Failed to download upload:', error);
     const message = error instanceof Error ? error.message : 'Internal server error';
     return withCors(
       NextResponse.json(
         { error: message },
-        { status: message === 'Cloudflare credentials not configured' ? 500 : 502 }
+        { status: error instanceof ImageStorageError ? error.status : 502 }
       )
     );
   }
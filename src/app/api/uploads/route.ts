@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { listUploads } from '@/server/cloudflareUploadsService';
+import { ImageStorageError } from '@/server/imageStorage';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type'
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key'
 };
 
 const withCors = (response: NextResponse) => {
@@ -36,7 +37,7 @@ export async function GET(request: NextRequest) {
     return withCors(
       NextResponse.json(
         { error: message },
-        { status: message === 'Cloudflare credentials not configured' ? 500 : 502 }
+        { status: error instanceof ImageStorageError ? error.status : 502 }
       )
     );
   }
@@ -0,0 +1,354 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useToast } from '@/components/Toast';
+import { getCloudflareImageUrl } from '@/utils/imageUtils';
+import { waitForJobCompletion, type JobSnapshot } from '@/utils/jobPolling';
+
+type CaptionKind = 'alt' | 'description';
+
+interface CaptionSuggestion {
+  id: string;
+  imageId: string;
+  filename: string;
+  kind: CaptionKind;
+  text: string;
+  previous?: string;
+  provider: string;
+  model: string;
+  language: string;
+  createdAt: string;
+}
+
+interface BatchSummary {
+  counts: Record<CaptionKind, number>;
+  images: number;
+  estimate: { provider: string; model: string; requests: number; inputTokens: number; outputTokens: number; usd?: number };
+  ratePerMinute: number;
+  estimatedMinutes: number;
+}
+
+interface BatchResult {
+  generated: number;
+  failed: { imageId: string; kind: CaptionKind; error: string }[];
+}
+
+const KIND_LABELS: Record<CaptionKind, string> = { alt: 'ALT text', description: 'Description' };
+
+const inputClass = 'mt-1 border border-stone-300 rounded px-2 py-1 text-sm';
+const buttonClass = 'px-3 py-1 text-sm rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50';
+
+export default function CaptionsPage() {
+  const toast = useToast();
+  const [folder, setFolder] = useState('');
+  const [tag, setTag] = useState('');
+  const [ids, setIds] = useState<string[]>([]);
+  const [kinds, setKinds] = useState<CaptionKind[]>(['alt', 'description']);
+  const [language, setLanguage] = useState('');
+  const [ratePerMinute, setRatePerMinute] = useState('');
+  const [summary, setSummary] = useState<BatchSummary | null>(null);
+  const [progress, setProgress] = useState<JobSnapshot<BatchResult> | null>(null);
+  const [suggestions, setSuggestions] = useState<CaptionSuggestion[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // The gallery links here with ?ids=… for a selection, or ?folder= / ?tag=
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setFolder(params.get('folder') ?? '');
+    setTag(params.get('tag') ?? '');
+    setIds((params.get('ids') ?? '').split(',').filter(Boolean));
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/captions/review', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load the review queue');
+      }
+      setSuggestions(data.suggestions ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const requestBatch = async (dryRun: boolean) => {
+    const response = await fetch('/api/captions/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        folder: folder.trim() || undefined,
+        tag: tag.trim() || undefined,
+        ids: ids.length ? ids : undefined,
+        kinds,
+        language: language.trim() || undefined,
+        ratePerMinute: ratePerMinute ? Number(ratePerMinute) : undefined,
+        dryRun
+      })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to start captioning');
+    }
+    return data;
+  };
+
+  const estimate = async () => {
+    setBusy(true);
+    try {
+      setSummary(await requestBatch(true));
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to estimate');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const start = async () => {
+    if (summary && !confirm(`Generate ${summary.estimate.requests} text(s) for ${summary.images} image(s)?`)) return;
+    setBusy(true);
+    try {
+      const data = await requestBatch(false);
+      setSummary(data);
+      if (!data.jobId) {
+        toast.push('Nothing to generate: every image in scope has text or a pending suggestion');
+        return;
+      }
+      const job = await waitForJobCompletion<BatchResult>(data.jobId, {
+        intervalMs: 2000,
+        onProgress: (snapshot) => {
+          setProgress(snapshot);
+          // Show suggestions as they arrive
+          void load();
+        }
+      });
+      const failed = job.result?.failed.length ?? 0;
+      toast.push(`Generated ${job.result?.generated ?? 0} suggestion(s)${failed ? `, ${failed} failed` : ''}`);
+      await load();
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Captioning failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const review = async (suggestion: CaptionSuggestion, action: 'approve' | 'reject') => {
+    const draft = drafts[suggestion.id];
+    const response = await fetch(`/api/captions/review/${suggestion.id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, ...(action === 'approve' && draft !== undefined ? { text: draft } : {}) })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to review suggestion');
+    }
+    setSuggestions((prev) => prev.filter((entry) => entry.id !== suggestion.id));
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[suggestion.id];
+      return next;
+    });
+  };
+
+  const reviewOne = async (suggestion: CaptionSuggestion, action: 'approve' | 'reject') => {
+    try {
+      await review(suggestion, action);
+      toast.push(action === 'approve' ? `${KIND_LABELS[suggestion.kind]} saved` : 'Suggestion rejected');
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to review suggestion');
+    }
+  };
+
+  const approveAll = async () => {
+    if (!confirm(`Write all ${suggestions.length} suggestion(s), including your edits, to their images?`)) return;
+    setBusy(true);
+    let approved = 0;
+    try {
+      for (const suggestion of suggestions) {
+        await review(suggestion, 'approve');
+        approved += 1;
+      }
+      toast.push(`Approved ${approved} suggestion(s)`);
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to approve suggestions');
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleKind = (kind: CaptionKind) =>
+    setKinds((prev) => (prev.includes(kind) ? prev.filter((entry) => entry !== kind) : [...prev, kind]));
+
+  return (
+    <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-stone-900">Captions</h1>
+          <p className="text-sm text-stone-500">
+            Generate missing ALT text and descriptions in bulk, then approve, edit or reject each one before it is saved.
+          </p>
+        </div>
+        <Link href="/" className="text-sm text-stone-600 hover:text-stone-900">
+          ← Back to gallery
+        </Link>
+      </div>
+
+      <section className="border border-stone-200 rounded-md bg-white p-3 space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col text-xs text-stone-600">
+            Folder
+            <input value={folder} onChange={(event) => setFolder(event.target.value)} placeholder="All" className={inputClass} />
+          </label>
+          <label className="flex flex-col text-xs text-stone-600">
+            Tag
+            <input value={tag} onChange={(event) => setTag(event.target.value)} placeholder="Any" className={inputClass} />
+          </label>
+          {ids.length > 0 && (
+            <div className="flex flex-col text-xs text-stone-600">
+              Selection
+              <span className="mt-1 text-sm text-stone-900">
+                {ids.length} image(s){' '}
+                <button type="button" onClick={() => setIds([])} className="text-xs text-stone-500 underline">
+                  clear
+                </button>
+              </span>
+            </div>
+          )}
+          <label className="flex flex-col text-xs text-stone-600">
+            Language
+            <input value={language} onChange={(event) => setLanguage(event.target.value)} placeholder="Default" className={inputClass} />
+          </label>
+          <label className="flex flex-col text-xs text-stone-600">
+            Requests / minute
+            <input
+              type="number"
+              min={1}
+              value={ratePerMinute}
+              onChange={(event) => setRatePerMinute(event.target.value)}
+              placeholder="Default"
+              className={`${inputClass} w-28`}
+            />
+          </label>
+          {(Object.keys(KIND_LABELS) as CaptionKind[]).map((kind) => (
+            <label key={kind} className="flex items-center gap-1 text-xs text-stone-600">
+              <input type="checkbox" checked={kinds.includes(kind)} onChange={() => toggleKind(kind)} />
+              {KIND_LABELS[kind]}
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={estimate} disabled={busy || !kinds.length} className={buttonClass}>
+            Estimate
+          </button>
+          <button
+            type="button"
+            onClick={start}
+            disabled={busy || !kinds.length}
+            className="px-3 py-1 text-sm rounded bg-stone-900 text-white disabled:opacity-50"
+          >
+            Generate
+          </button>
+          {progress && busy && (
+            <span className="text-xs text-stone-500">
+              {progress.progress.completed} / {progress.progress.total} done
+            </span>
+          )}
+        </div>
+        {summary && (
+          <p className="text-sm text-stone-600">
+            {summary.counts.alt} ALT text(s) and {summary.counts.description} description(s) for {summary.images} image(s)
+            with {summary.estimate.provider} ({summary.estimate.model}). About {summary.estimatedMinutes} minute(s) at{' '}
+            {summary.ratePerMinute} per minute;{' '}
+            {summary.estimate.usd === undefined
+              ? 'cost unknown for this model'
+              : `at most about $${summary.estimate.usd.toFixed(4)}`}
+            .
+          </p>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-stone-900">Review queue ({suggestions.length})</h2>
+          <button type="button" onClick={approveAll} disabled={busy || !suggestions.length} className={buttonClass}>
+            Approve all
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {loading && !suggestions.length ? (
+          <p className="text-sm text-stone-500">Loading…</p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-stone-500">Nothing waiting for review.</p>
+        ) : (
+          <ul className="space-y-3">
+            {suggestions.map((suggestion) => (
+              <li key={suggestion.id} className="border border-stone-200 rounded-md bg-white p-3 flex gap-3">
+                <div className="relative w-24 h-24 flex-shrink-0 rounded overflow-hidden bg-stone-100">
+                  <Image
+                    src={getCloudflareImageUrl(suggestion.imageId, 'w=300')}
+                    alt={suggestion.filename}
+                    fill
+                    className="object-cover"
+                    sizes="96px"
+                    unoptimized
+                  />
+                </div>
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center gap-2 text-xs text-stone-500">
+                    <Link href={`/images/${suggestion.imageId}`} className="font-mono text-stone-900 hover:underline truncate">
+                      {suggestion.filename}
+                    </Link>
+                    <span>· {KIND_LABELS[suggestion.kind]}</span>
+                    <span>· {suggestion.language}</span>
+                  </div>
+                  {suggestion.previous && (
+                    <p className="text-xs text-stone-400">Current: {suggestion.previous}</p>
+                  )}
+                  <textarea
+                    value={drafts[suggestion.id] ?? suggestion.text}
+                    onChange={(event) => setDrafts((prev) => ({ ...prev, [suggestion.id]: event.target.value }))}
+                    rows={suggestion.kind === 'alt' ? 2 : 4}
+                    className="w-full border border-stone-300 rounded px-2 py-1 text-sm"
+                  />
+                  <div className="flex gap-2 text-xs">
+                    <button
+                      type="button"
+                      onClick={() => reviewOne(suggestion, 'approve')}
+                      disabled={busy}
+                      className="px-2 py-1 rounded bg-stone-900 text-white disabled:opacity-50"
+                    >
+                      {drafts[suggestion.id] !== undefined && drafts[suggestion.id] !== suggestion.text ? 'Save edit' : 'Approve'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => reviewOne(suggestion, 'reject')}
+                      disabled={busy}
+                      className="px-2 py-1 rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </main>
+  );
+}
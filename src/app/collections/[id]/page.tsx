@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useToast } from '@/components/Toast';
+import { getCloudflareImageUrl } from '@/utils/imageUtils';
+
+interface CollectionDetail {
+  id: string;
+  title: string;
+  description?: string;
+  coverImageId?: string;
+  coverId?: string;
+  imageIds: string[];
+}
+
+interface CollectionImage {
+  id: string;
+  filename: string;
+  displayName?: string;
+  altTag?: string;
+}
+
+const moveItem = <T,>(items: T[], from: number, to: number) => {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export default function CollectionPage() {
+  const params = useParams();
+  const id = typeof params?.id === 'string' ? params.id : '';
+  const toast = useToast();
+  const [collection, setCollection] = useState<CollectionDetail | null>(null);
+  const [images, setImages] = useState<CollectionImage[]>([]);
+  const [missingIds, setMissingIds] = useState<string[]>([]);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [orderChanged, setOrderChanged] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/collections/${id}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load collection');
+      }
+      setCollection(data.collection);
+      setImages(data.images ?? []);
+      setMissingIds(data.missingIds ?? []);
+      setTitle(data.collection.title);
+      setDescription(data.collection.description ?? '');
+      setOrderChanged(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load collection');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const patch = async (body: Record<string, unknown>, message: string) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/collections/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save collection');
+      }
+      setCollection(data.collection);
+      toast.push(message);
+      return true;
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to save collection');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDetails = async (event: React.FormEvent) => {
+    event.preventDefault();
+    await patch({ title, description: description || null }, 'Collection saved');
+  };
+
+  // Missing ids stay at the end so a temporarily unavailable image keeps its membership
+  const saveOrder = async () => {
+    if (await patch({ imageIds: [...images.map((image) => image.id), ...missingIds] }, 'Order saved')) {
+      setOrderChanged(false);
+    }
+  };
+
+  const removeImage = async (image: CollectionImage) => {
+    try {
+      const response = await fetch(`/api/collections/${id}/images`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [image.id] })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove image');
+      }
+      setCollection((prev) => (prev ? { ...prev, ...data.collection } : prev));
+      setImages((prev) => prev.filter((entry) => entry.id !== image.id));
+      toast.push(`Removed ${image.displayName || image.filename}`);
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to remove image');
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex === null || dragIndex === index) return;
+    setImages((prev) => moveItem(prev, dragIndex, index));
+    setDragIndex(null);
+    setOrderChanged(true);
+  };
+
+  const coverId = collection?.coverImageId ?? images[0]?.id;
+
+  return (
+    <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-xl font-semibold text-stone-900">{collection?.title ?? 'Collection'}</h1>
+        <Link href="/collections" className="text-sm text-stone-600 hover:text-stone-900">
+          ← All collections
+        </Link>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-stone-500">Loading…</p>
+      ) : collection && (
+        <>
+          <form onSubmit={saveDetails} className="flex flex-wrap items-end gap-3 border border-stone-200 rounded-md bg-white p-3">
+            <label className="flex flex-col text-xs text-stone-600">
+              Title
+              <input
+                value={title}
+                onChange={(event) => setTitle(event.target.value)}
+                required
+                className="mt-1 border border-stone-300 rounded px-2 py-1 text-sm"
+              />
+            </label>
+            <label className="flex flex-col flex-1 min-w-[16rem] text-xs text-stone-600">
+              Description
+              <textarea
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+                rows={2}
+                className="mt-1 border border-stone-300 rounded px-2 py-1 text-sm"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={saving || !title.trim()}
+              className="px-3 py-1 text-sm rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </form>
+
+          <div className="flex items-center justify-between text-sm text-stone-500">
+            <span>
+              {images.length} image{images.length === 1 ? '' : 's'} · drag to reorder
+              {missingIds.length > 0 && ` · ${missingIds.length} in the trash or deleted`}
+            </span>
+            <div className="flex gap-2">
+              {orderChanged && (
+                <button type="button" onClick={() => void load()} className="px-3 py-1 rounded border border-stone-300">
+                  Undo
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={saveOrder}
+                disabled={!orderChanged || saving}
+                className="px-3 py-1 rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+              >
+                Save order
+              </button>
+            </div>
+          </div>
+
+          {images.length === 0 ? (
+            <p className="text-sm text-stone-500">
+              This collection is empty. In the gallery, choose Select images and then Add to collection.
+            </p>
+          ) : (
+            <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+              {images.map((image, index) => (
+                <li
+                  key={image.id}
+                  draggable
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={(event) => event.preventDefault()}
+                  onDrop={() => handleDrop(index)}
+                  onDragEnd={() => setDragIndex(null)}
+                  className={`border rounded-md bg-white overflow-hidden cursor-move ${
+                    dragIndex === index ? 'opacity-50 border-stone-500' : 'border-stone-200'
+                  }`}
+                >
+                  <div className="relative w-full aspect-square bg-stone-100">
+                    <Image
+                      src={getCloudflareImageUrl(image.id, 'w=300')}
+                      alt={image.altTag || image.displayName || image.filename}
+                      fill
+                      draggable={false}
+                      className="object-cover"
+                      sizes="240px"
+                      unoptimized
+                    />
+                    {coverId === image.id && (
+                      <span className="absolute top-1 left-1 px-1.5 py-0.5 text-[10px] rounded bg-stone-900 text-white">Cover</span>
+                    )}
+                  </div>
+                  <div className="p-2 space-y-1 text-xs">
+                    <Link href={`/images/${image.id}`} className="block font-mono text-stone-800 truncate hover:underline">
+                      {index + 1}. {image.displayName || image.filename}
+                    </Link>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => patch({ coverImageId: image.id }, 'Cover updated')}
+                        disabled={saving || coverId === image.id}
+                        className="px-2 py-1 rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+                      >
+                        Make cover
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeImage(image)}
+                        className="px-2 py-1 rounded border border-red-200 text-red-700 hover:border-red-500"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useToast } from '@/components/Toast';
+import { getCloudflareImageUrl } from '@/utils/imageUtils';
+
+interface CollectionSummary {
+  id: string;
+  title: string;
+  description?: string;
+  coverId?: string;
+  imageIds: string[];
+  updatedAt: string;
+}
+
+export default function CollectionsPage() {
+  const toast = useToast();
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/collections', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load collections');
+      }
+      setCollections(data.collections ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load collections');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const create = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setCreating(true);
+    try {
+      const response = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, description })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create collection');
+      }
+      setTitle('');
+      setDescription('');
+      toast.push(`Created ${data.collection.title}`);
+      await load();
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to create collection');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const remove = async (collection: CollectionSummary) => {
+    if (!confirm(`Delete the collection "${collection.title}"? Its images are not deleted.`)) return;
+    try {
+      const response = await fetch(`/api/collections/${collection.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete collection');
+      }
+      setCollections((prev) => prev.filter((entry) => entry.id !== collection.id));
+      toast.push('Collection deleted');
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to delete collection');
+    }
+  };
+
+  return (
+    <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-stone-900">Collections</h1>
+          <p className="text-sm text-stone-500">
+            Ordered sets of images. An image can be in any number of collections; add images from the gallery with Select images.
+          </p>
+        </div>
+        <Link href="/" className="text-sm text-stone-600 hover:text-stone-900">
+          ← Back to gallery
+        </Link>
+      </div>
+
+      <form onSubmit={create} className="flex flex-wrap items-end gap-3 border border-stone-200 rounded-md bg-white p-3">
+        <label className="flex flex-col text-xs text-stone-600">
+          Title
+          <input
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            required
+            className="mt-1 border border-stone-300 rounded px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex flex-col flex-1 min-w-[16rem] text-xs text-stone-600">
+          Description
+          <input
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            className="mt-1 border border-stone-300 rounded px-2 py-1 text-sm"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={creating || !title.trim()}
+          className="px-3 py-1 text-sm rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+        >
+          {creating ? 'Creating…' : 'New collection'}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-stone-500">Loading…</p>
+      ) : collections.length === 0 ? (
+        <p className="text-sm text-stone-500">No collections yet.</p>
+      ) : (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {collections.map((collection) => (
+            <li key={collection.id} className="border border-stone-200 rounded-md bg-white overflow-hidden">
+              <Link href={`/collections/${collection.id}`} className="block relative w-full aspect-square bg-stone-100">
+                {collection.coverId && (
+                  <Image
+                    src={getCloudflareImageUrl(collection.coverId, 'w=300')}
+                    alt={collection.title}
+                    fill
+                    className="object-cover"
+                    sizes="240px"
+                    unoptimized
+                  />
+                )}
+              </Link>
+              <div className="p-2 space-y-1 text-xs">
+                <Link href={`/collections/${collection.id}`} className="block font-medium text-stone-900 hover:underline truncate">
+                  {collection.title}
+                </Link>
+                <p className="text-stone-500">
+                  {collection.imageIds.length} image{collection.imageIds.length === 1 ? '' : 's'}
+                </p>
+                {collection.description && <p className="text-stone-500 line-clamp-2">{collection.description}</p>}
+                <button
+                  type="button"
+                  onClick={() => remove(collection)}
+                  className="px-2 py-1 rounded border border-red-200 text-red-700 hover:border-red-500"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  );
+}
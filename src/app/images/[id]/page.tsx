@@ -7,6 +7,10 @@ import { getMultipleImageUrls, getCloudflareImageUrl, getCloudflareDownloadUrl,
 import { useToast } from '@/components/Toast';
 import { Sparkles, RotateCcw, RotateCw, ChevronUp, ChevronDown, GripVertical, ExternalLink } from 'lucide-react';
 import FolderManagerButton from '@/components/FolderManagerButton';
+import SimilarImagesStrip from '@/components/SimilarImagesStrip';
+import ImageHistoryPanel from '@/components/ImageHistoryPanel';
+import DerivativesPanel from '@/components/DerivativesPanel';
+import { nearestColorName, type DominantColor } from '@/utils/colorPalette';
 import MonoSelect from '@/components/MonoSelect';
 import { cleanString, pickCloudflareMetadata } from '@/utils/cloudflareMetadata';
 import { normalizeOriginalUrl } from '@/utils/urlNormalization';
@@ -47,6 +51,7 @@ interface CloudflareImage {
   contentHash?: string;
   altTag?: string;
   exif?: Record<string, string | number>;
+  dominantColors?: DominantColor[];
   parentId?: string;
   linkedAssetId?: string;
   variationSort?: number;
@@ -174,6 +179,11 @@ export default function ImageDetailPage() {
   const [shareBaseUrl, setShareBaseUrl] = useState('');
   const [shareVariant, setShareVariant] = useState('large');
   const [shareQrDataUrl, setShareQrDataUrl] = useState('');
+  const [signedShareHours, setSignedShareHours] = useState('168');
+  const [signedShareMaxDownloads, setSignedShareMaxDownloads] = useState('');
+  const [signedSharePassword, setSignedSharePassword] = useState('');
+  const [signedShareUrl, setSignedShareUrl] = useState('');
+  const [signedShareCreating, setSignedShareCreating] = useState(false);
   const [namespace, setNamespace] = useState('');
   const [saving, setSaving] = useState(false);
   const [uniqueFolders, setUniqueFolders] = useState<string[]>([]);
@@ -461,27 +471,16 @@ export default function ImageDetailPage() {
     [id]
   );
 
-  const shareUrl = useMemo(() => {
-    if (!id) return '';
-    if (!shareBaseUrl.trim()) return '';
-    try {
-      const url = new URL(`/api/images/${id}/share`, shareBaseUrl.trim());
-      if (shareVariant) {
-        url.searchParams.set('variant', shareVariant);
-      }
-      return url.toString();
-    } catch {
-      return '';
-    }
-  }, [id, shareBaseUrl, shareVariant]);
+  // The QR code points at the most recently created signed link
+  const qrTargetUrl = signedShareUrl;
 
   useEffect(() => {
-    if (!shareUrl) {
+    if (!qrTargetUrl) {
       setShareQrDataUrl('');
       return;
     }
     let cancelled = false;
-    QRCode.toDataURL(shareUrl, { margin: 1, width: 220 })
+    QRCode.toDataURL(qrTargetUrl, { margin: 1, width: 220 })
       .then((dataUrl) => {
         if (!cancelled) {
           setShareQrDataUrl(dataUrl);
@@ -495,7 +494,45 @@ export default function ImageDetailPage() {
     return () => {
       cancelled = true;
     };
-  }, [shareUrl]);
+  }, [qrTargetUrl]);
+
+  useEffect(() => {
+    setSignedShareUrl('');
+  }, [id, shareVariant]);
+
+  const createSignedShareLink = async () => {
+    if (!id) return;
+    setSignedShareCreating(true);
+    try {
+      const response = await fetch(`/api/images/${id}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          variant: shareVariant,
+          expiresInHours: Number(signedShareHours) || undefined,
+          maxDownloads: signedShareMaxDownloads.trim() ? Number(signedShareMaxDownloads) : undefined,
+          password: signedSharePassword || undefined
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create share link');
+      }
+      let url = data.url as string;
+      try {
+        url = new URL(`/api/share/${data.token}`, shareBaseUrl.trim() || window.location.origin).toString();
+      } catch {
+        // Keep the server's URL when the base URL is not valid
+      }
+      setSignedShareUrl(url);
+      setSignedSharePassword('');
+      await copyToClipboard(url, 'Signed link');
+    } catch (error) {
+      toast.push(error instanceof Error ? error.message : 'Failed to create share link');
+    } finally {
+      setSignedShareCreating(false);
+    }
+  };
 
   const heroRotationStyle = useMemo<CSSProperties>(
     () => ({
@@ -1233,14 +1270,14 @@ export default function ImageDetailPage() {
   );
 
   const handleDeleteChild = useCallback(async (childId: string) => {
-    if (!confirm('Delete this variation permanently?')) return;
+    if (!confirm('Move this variation to the trash?')) return;
     try {
       const response = await fetch(`/api/images/${childId}`, { method: 'DELETE' });
       if (!response.ok) {
         const payload = await response.json();
         throw new Error(payload.error || 'Failed to delete image');
       }
-      toast.push('Image deleted');
+      toast.push('Moved to trash');
       setAllImages(prev => prev.filter(img => img.id !== childId));
       setVariationPage(1);
     } catch (error) {
@@ -1251,14 +1288,14 @@ export default function ImageDetailPage() {
 
   const handleDeleteParent = useCallback(async () => {
     if (!image) return;
-    if (!confirm('Delete this image permanently? All variations will be detached.')) return;
+    if (!confirm('Move this image to the trash? All variations will be detached.')) return;
     try {
       const response = await fetch(`/api/images/${image.id}`, { method: 'DELETE' });
       if (!response.ok) {
         const payload = await response.json();
         throw new Error(payload.error || 'Failed to delete image');
       }
-      toast.push('Image deleted');
+      toast.push('Moved to trash');
       window.location.href = '/';
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to delete image';
@@ -1269,8 +1306,8 @@ export default function ImageDetailPage() {
   const handleDeleteCurrent = useCallback(async () => {
     if (!image) return;
     const prompt = isChildImage
-      ? 'Delete this image variation permanently?'
-      : 'Delete this image permanently? All variations will be detached.';
+      ? 'Move this image variation to the trash?'
+      : 'Move this image to the trash? All variations will be detached.';
     if (!confirm(prompt)) return;
     try {
       const response = await fetch(`/api/images/${image.id}`, { method: 'DELETE' });
@@ -1278,7 +1315,7 @@ export default function ImageDetailPage() {
         const payload = await response.json();
         throw new Error(payload.error || 'Failed to delete image');
       }
-      toast.push('Image deleted');
+      toast.push('Moved to trash');
       window.location.href = '/';
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to delete image';
@@ -2212,24 +2249,65 @@ export default function ImageDetailPage() {
                       className="w-40 text-[11px]"
                     />
                   </div>
-                  <div className="flex items-center gap-2">
-                    <input
-                      value={shareUrl}
-                      readOnly
-                      className="flex-1 border border-gray-200 rounded-md px-3 py-2 text-xs bg-gray-50 text-gray-600"
-                      placeholder="Share URL"
-                    />
-                    <button
-                      onClick={async () => { if (shareUrl) await copyToClipboard(shareUrl, 'Share'); }}
-                      className="px-3 py-1 bg-blue-600 text-white rounded text-xs cursor-pointer transition transform hover:scale-105 active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-300"
-                      disabled={!shareUrl}
-                    >
-                      Copy
-                    </button>
-                  </div>
                   <p className="text-[10px] text-gray-500">
                     Use your network URL (from `next dev`) so your phone can reach it.
                   </p>
+                  <div id="signed-share-link" className="space-y-2 border-t border-gray-100 pt-2">
+                    <div className="flex items-center justify-between">
+                      <p className="text-[11px] text-gray-600">Signed link (expires, can be revoked)</p>
+                      <Link href={`/shares?imageId=${id}`} className="text-[11px] text-blue-600 hover:text-blue-800">
+                        Manage links
+                      </Link>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <label className="text-[10px] text-gray-500">
+                        Hours
+                        <input
+                          type="number"
+                          min={1}
+                          value={signedShareHours}
+                          onChange={(e) => setSignedShareHours(e.target.value)}
+                          className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1 text-xs"
+                        />
+                      </label>
+                      <label className="text-[10px] text-gray-500">
+                        Max downloads
+                        <input
+                          type="number"
+                          min={1}
+                          value={signedShareMaxDownloads}
+                          onChange={(e) => setSignedShareMaxDownloads(e.target.value)}
+                          placeholder="∞"
+                          className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1 text-xs"
+                        />
+                      </label>
+                      <label className="text-[10px] text-gray-500">
+                        Password
+                        <input
+                          type="password"
+                          value={signedSharePassword}
+                          onChange={(e) => setSignedSharePassword(e.target.value)}
+                          placeholder="optional"
+                          className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1 text-xs"
+                        />
+                      </label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <input
+                        value={signedShareUrl}
+                        readOnly
+                        className="flex-1 border border-gray-200 rounded-md px-3 py-2 text-xs bg-gray-50 text-gray-600"
+                        placeholder="Signed link appears here"
+                      />
+                      <button
+                        onClick={createSignedShareLink}
+                        disabled={signedShareCreating}
+                        className="px-3 py-1 bg-blue-600 text-white rounded text-xs cursor-pointer disabled:opacity-50"
+                      >
+                        {signedShareCreating ? 'Creating…' : 'Create'}
+                      </button>
+                    </div>
+                  </div>
                 </div>
                 <div className="flex items-center justify-center w-full sm:w-auto">
                   {shareQrDataUrl ? (
@@ -2247,6 +2325,34 @@ export default function ImageDetailPage() {
               </div>
             </div>
 
+            {image.dominantColors && image.dominantColors.length > 0 && (
+              <div id="colors-section">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-mono font-medum text-gray-700">Colors</p>
+                  <p className="text-[10px] text-gray-500">search with color:{nearestColorName(image.dominantColors[0].hex)}</p>
+                </div>
+                <div className="mt-2 flex h-6 w-full overflow-hidden rounded border">
+                  {image.dominantColors.map((color) => (
+                    <div key={color.hex} style={{ backgroundColor: color.hex, flexGrow: color.share }} />
+                  ))}
+                </div>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {image.dominantColors.map((color) => (
+                    <button
+                      key={color.hex}
+                      type="button"
+                      onClick={() => copyToClipboard(color.hex, undefined, `Copied ${color.hex}`)}
+                      title={`${nearestColorName(color.hex)} · ${Math.round(color.share * 100)}% of the image`}
+                      className="flex items-center gap-1 border rounded px-2 py-1 text-[11px] font-mono text-gray-700 hover:bg-gray-50"
+                    >
+                      <span className="inline-block h-3 w-3 rounded-sm border" style={{ backgroundColor: color.hex }} />
+                      {color.hex}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {exifEntries.length > 0 && (
               <div id="exif-section">
                 <div className="flex items-center justify-between">
@@ -2372,6 +2478,14 @@ export default function ImageDetailPage() {
                 </div>
               )}
 
+              <SimilarImagesStrip imageId={image.id} />
+
+              <ImageHistoryPanel imageId={image.id} onReverted={refreshImageList} />
+
+              {!isChildImage && (
+                <DerivativesPanel imageId={image.id} altText={image.altTag} onGenerated={refreshImageList} />
+              )}
+
               <div id="variations-section" className="space-y-3">
                   <div className="flex items-center justify-between">
                     <p className="text-xs font-mono font-medum text-gray-700">
@@ -0,0 +1,413 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useToast } from '@/components/Toast';
+
+interface IngestRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  stop?: boolean;
+  match: Record<string, string | number | undefined>;
+  actions: { folder?: string; tags?: string[]; displayName?: string; namespace?: string };
+}
+
+interface IngestResult {
+  folder?: string;
+  tags: string[];
+  displayName?: string;
+  namespace?: string;
+  matchedRuleIds: string[];
+}
+
+interface PreviewMatch {
+  id: string;
+  filename: string;
+  current: { folder?: string; tags?: string[]; displayName?: string; namespace?: string };
+  result: IngestResult;
+}
+
+const MATCH_FIELDS: Array<{ key: string; label: string; placeholder: string; numeric?: boolean }> = [
+  { key: 'filename', label: 'Filename', placeholder: 'IMG_*.jpg' },
+  { key: 'sourceHost', label: 'Source host', placeholder: '*.dribbble.com' },
+  { key: 'camera', label: 'Camera', placeholder: '*X100*' },
+  { key: 'lens', label: 'Lens', placeholder: '*35mm*' },
+  { key: 'mimeType', label: 'MIME type', placeholder: 'image/svg*' },
+  { key: 'namespace', label: 'Namespace', placeholder: 'none' },
+  { key: 'minWidth', label: 'Min width', placeholder: '', numeric: true },
+  { key: 'maxWidth', label: 'Max width', placeholder: '', numeric: true },
+  { key: 'minHeight', label: 'Min height', placeholder: '', numeric: true },
+  { key: 'maxHeight', label: 'Max height', placeholder: '', numeric: true }
+];
+
+const SAMPLE_FIELDS = ['filename', 'mimeType', 'originalUrl', 'camera', 'lens', 'width', 'height', 'namespace', 'folder', 'tags'];
+
+const createRule = (): IngestRule => ({
+  id: '',
+  name: '',
+  enabled: true,
+  match: {},
+  actions: {}
+});
+
+const inputClass = 'mt-1 border border-stone-300 rounded px-2 py-1 text-sm';
+const buttonClass = 'px-2 py-1 text-xs rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50';
+
+export default function IngestRulesPage() {
+  const toast = useToast();
+  const [rules, setRules] = useState<IngestRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [sample, setSample] = useState<Record<string, string>>({ filename: 'IMG_0001.jpg', mimeType: 'image/jpeg' });
+  const [sampleResult, setSampleResult] = useState<IngestResult | null>(null);
+  const [preview, setPreview] = useState<{ checked: number; total: number; matches: PreviewMatch[] } | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/ingest-rules', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load ingest rules');
+      }
+      setRules(data.rules ?? []);
+      setDirty(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load ingest rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const updateRule = (index: number, change: (rule: IngestRule) => IngestRule) => {
+    setRules((prev) => prev.map((rule, position) => (position === index ? change(rule) : rule)));
+    setDirty(true);
+  };
+
+  const setMatch = (index: number, key: string, value: string) =>
+    updateRule(index, (rule) => ({ ...rule, match: { ...rule.match, [key]: value || undefined } }));
+
+  const setAction = (index: number, key: 'folder' | 'displayName' | 'namespace', value: string) =>
+    updateRule(index, (rule) => ({ ...rule, actions: { ...rule.actions, [key]: value || undefined } }));
+
+  const setTags = (index: number, value: string) =>
+    updateRule(index, (rule) => ({
+      ...rule,
+      actions: { ...rule.actions, tags: value.split(',').map((tag) => tag.trim()).filter(Boolean) }
+    }));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    setRules((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setDirty(true);
+  };
+
+  const remove = (index: number) => {
+    setRules((prev) => prev.filter((_, position) => position !== index));
+    setDirty(true);
+  };
+
+  const save = async () => {
+    setBusy(true);
+    try {
+      const response = await fetch('/api/ingest-rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save ingest rules');
+      }
+      setRules(data.rules ?? []);
+      setDirty(false);
+      toast.push('Ingest rules saved');
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to save ingest rules');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Dry runs use the rules as edited, saved or not
+  const runPreview = async (body: Record<string, unknown>) => {
+    setBusy(true);
+    try {
+      const response = await fetch('/api/ingest-rules/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules, ...body })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Preview failed');
+      }
+      return data;
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Preview failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const testSample = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const data = await runPreview({ sample });
+    if (data) setSampleResult(data.result);
+  };
+
+  const previewLibrary = async () => {
+    const data = await runPreview({});
+    if (data) setPreview(data);
+  };
+
+  const ruleName = (id: string) => rules.find((rule) => rule.id === id)?.name || 'Unsaved rule';
+
+  return (
+    <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-stone-900">Ingest rules</h1>
+          <p className="text-sm text-stone-500">
+            Set folder, tags, display name and namespace on new uploads. Conditions in a rule must all match; every
+            matching rule adds its tags and the first one to set a folder, name or namespace wins.
+          </p>
+        </div>
+        <Link href="/" className="text-sm text-stone-600 hover:text-stone-900">
+          ← Back to gallery
+        </Link>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-stone-500">Loading…</p>
+      ) : (
+        <section className="space-y-3">
+          {rules.length === 0 && <p className="text-sm text-stone-500">No rules yet; uploads keep what they were sent with.</p>}
+          {rules.map((rule, index) => (
+            <div key={rule.id || `new-${index}`} className="border border-stone-200 rounded-md bg-white p-3 space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-xs text-stone-400 font-mono">{index + 1}</span>
+                <input
+                  value={rule.name}
+                  onChange={(event) => updateRule(index, (current) => ({ ...current, name: event.target.value }))}
+                  placeholder={`Rule ${index + 1}`}
+                  className="flex-1 border border-stone-300 rounded px-2 py-1 text-sm"
+                  aria-label="Rule name"
+                />
+                <label className="flex items-center gap-1 text-xs text-stone-600">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(event) => updateRule(index, (current) => ({ ...current, enabled: event.target.checked }))}
+                  />
+                  Enabled
+                </label>
+                <label className="flex items-center gap-1 text-xs text-stone-600" title="Skip the rules below when this one matches">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(rule.stop)}
+                    onChange={(event) => updateRule(index, (current) => ({ ...current, stop: event.target.checked }))}
+                  />
+                  Stop here
+                </label>
+                <div className="flex gap-1">
+                  <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className={buttonClass}>
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, 1)}
+                    disabled={index === rules.length - 1}
+                    className={buttonClass}
+                  >
+                    ↓
+                  </button>
+                  <button type="button" onClick={() => remove(index)} className={buttonClass}>
+                    Remove
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                {MATCH_FIELDS.map((field) => (
+                  <label key={field.key} className="flex flex-col text-xs text-stone-600">
+                    {field.label}
+                    <input
+                      type={field.numeric ? 'number' : 'text'}
+                      min={field.numeric ? 0 : undefined}
+                      value={rule.match[field.key] ?? ''}
+                      onChange={(event) => setMatch(index, field.key, event.target.value)}
+                      placeholder={field.placeholder}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 border-t border-stone-100 pt-2">
+                <label className="flex flex-col text-xs text-stone-600">
+                  Folder
+                  <input
+                    value={rule.actions.folder ?? ''}
+                    onChange={(event) => setAction(index, 'folder', event.target.value)}
+                    placeholder="photos/x100"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col text-xs text-stone-600">
+                  Add tags
+                  <input
+                    value={(rule.actions.tags ?? []).join(', ')}
+                    onChange={(event) => setTags(index, event.target.value)}
+                    placeholder="fuji, street"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col text-xs text-stone-600">
+                  Display name
+                  <input
+                    value={rule.actions.displayName ?? ''}
+                    onChange={(event) => setAction(index, 'displayName', event.target.value)}
+                    placeholder="{date} {camera} {name}"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col text-xs text-stone-600">
+                  Namespace
+                  <input
+                    value={rule.actions.namespace ?? ''}
+                    onChange={(event) => setAction(index, 'namespace', event.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setRules((prev) => [...prev, createRule()]);
+                setDirty(true);
+              }}
+              className="px-3 py-1 text-sm rounded border border-stone-300 hover:border-stone-600"
+            >
+              Add rule
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              disabled={busy || !dirty}
+              className="px-3 py-1 text-sm rounded bg-stone-900 text-white disabled:opacity-50"
+            >
+              Save rules
+            </button>
+            {dirty && <span className="text-xs text-amber-700">Unsaved changes</span>}
+          </div>
+          <p className="text-xs text-stone-500">
+            Globs use <code>*</code> and <code>?</code> and ignore case. Display names accept {'{name}'}, {'{ext}'},{' '}
+            {'{filename}'}, {'{date}'}, {'{camera}'}, {'{lens}'}, {'{width}'}, {'{height}'}, {'{host}'} and {'{folder}'}.
+          </p>
+        </section>
+      )}
+
+      <form onSubmit={testSample} className="border border-stone-200 rounded-md bg-white p-3 space-y-3">
+        <h2 className="text-sm font-semibold text-stone-900">Test an upload</h2>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          {SAMPLE_FIELDS.map((field) => (
+            <label key={field} className="flex flex-col text-xs text-stone-600">
+              {field}
+              <input
+                value={sample[field] ?? ''}
+                onChange={(event) => setSample((prev) => ({ ...prev, [field]: event.target.value }))}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+        <button type="submit" disabled={busy} className={buttonClass}>
+          Dry run
+        </button>
+        {sampleResult && (
+          <dl className="grid grid-cols-[8rem_1fr] gap-1 text-sm">
+            <dt className="text-stone-500">Matched</dt>
+            <dd>{sampleResult.matchedRuleIds.map(ruleName).join(', ') || 'No rules'}</dd>
+            <dt className="text-stone-500">Folder</dt>
+            <dd>{sampleResult.folder || '—'}</dd>
+            <dt className="text-stone-500">Tags</dt>
+            <dd>{sampleResult.tags.join(', ') || '—'}</dd>
+            <dt className="text-stone-500">Display name</dt>
+            <dd>{sampleResult.displayName || '—'}</dd>
+            <dt className="text-stone-500">Namespace</dt>
+            <dd>{sampleResult.namespace || '—'}</dd>
+          </dl>
+        )}
+      </form>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-semibold text-stone-900">Preview against the library</h2>
+            <p className="text-xs text-stone-500">
+              Shows what the rules would assign if each image were uploaded again. Existing images are not changed, and
+              size conditions never match here because dimensions are not stored.
+            </p>
+          </div>
+          <button type="button" onClick={previewLibrary} disabled={busy} className={buttonClass}>
+            Run preview
+          </button>
+        </div>
+        {preview && (
+          <>
+            <p className="text-xs text-stone-500">
+              {preview.total} of {preview.checked} images match
+              {preview.total > preview.matches.length ? `; showing the first ${preview.matches.length}` : ''}.
+            </p>
+            {preview.matches.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-stone-500 border-b border-stone-200">
+                    <th className="py-2">Image</th>
+                    <th className="py-2">Rules</th>
+                    <th className="py-2">Folder</th>
+                    <th className="py-2">Tags</th>
+                    <th className="py-2">Name / namespace</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.matches.map((match) => (
+                    <tr key={match.id} className="border-b border-stone-100 align-top">
+                      <td className="py-2 font-mono text-xs text-stone-900 break-all">{match.filename}</td>
+                      <td className="py-2 text-stone-600">{match.result.matchedRuleIds.map(ruleName).join(', ')}</td>
+                      <td className="py-2">
+                        <span className="text-stone-400">{match.current.folder || '—'}</span> → {match.result.folder || '—'}
+                      </td>
+                      <td className="py-2 text-stone-600">{match.result.tags.join(', ') || '—'}</td>
+                      <td className="py-2 text-stone-600">
+                        {match.result.displayName || '—'}
+                        {match.result.namespace && <span className="text-stone-400"> · {match.result.namespace}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+
+type LoginMode = 'password' | 'apiKey';
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<LoginMode>('password');
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'password' ? { password: secret } : { apiKey: secret })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Login failed');
+      }
+      // Only follow same-site paths
+      const next = new URLSearchParams(window.location.search).get('next') ?? '/';
+      window.location.assign(next.startsWith('/') && !next.startsWith('//') ? next : '/');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="min-h-[70vh] flex items-center justify-center px-6">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 border border-stone-200 bg-white rounded-lg p-6 shadow-sm"
+      >
+        <h1 className="text-lg font-semibold text-stone-900">Sign in</h1>
+        <div className="flex gap-2 text-xs font-mono">
+          {(['password', 'apiKey'] as LoginMode[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={`px-2 py-1 rounded border ${
+                mode === option
+                  ? 'border-stone-900 bg-stone-900 text-white'
+                  : 'border-stone-300 text-stone-600 hover:border-stone-500'
+              }`}
+            >
+              {option === 'password' ? 'Admin password' : 'API key'}
+            </button>
+          ))}
+        </div>
+        <input
+          type="password"
+          value={secret}
+          onChange={(event) => setSecret(event.target.value)}
+          placeholder={mode === 'password' ? 'Password' : 'pk_…'}
+          autoFocus
+          className="w-full border border-stone-300 rounded px-3 py-2 text-sm font-mono focus:outline-none focus:border-stone-600"
+        />
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={submitting || !secret}
+          className="w-full px-3 py-2 rounded bg-stone-900 text-white text-sm disabled:opacity-50"
+        >
+          {submitting ? 'Signing in…' : 'Sign in'}
+        </button>
+      </form>
+    </main>
+  );
+}
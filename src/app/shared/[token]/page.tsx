@@ -0,0 +1,92 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import {
+  GalleryShareError,
+  resolveGalleryShare,
+  selectGalleryShareImages,
+  type GalleryShareRecord
+} from '@/server/galleryShares';
+import { ShareLinkError } from '@/server/shareLinks';
+import { getCloudflareImageUrl } from '@/utils/imageUtils';
+
+// Resolved on every request so expiry, revocation and new uploads apply at once
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Shared gallery · Photarium',
+  robots: { index: false, follow: false }
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export default async function SharedGalleryPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  let record: GalleryShareRecord;
+  try {
+    record = await resolveGalleryShare(token);
+  } catch (error) {
+    if (error instanceof GalleryShareError || error instanceof ShareLinkError) {
+      return (
+        <main className="max-w-xl mx-auto px-6 py-16 text-center">
+          <p className="text-sm font-mono text-stone-600">{error.message}</p>
+        </main>
+      );
+    }
+    throw error;
+  }
+  const images = await selectGalleryShareImages(record);
+
+  return (
+    <main className="max-w-6xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-stone-900">{record.title}</h1>
+          <p className="text-xs font-mono text-stone-500">
+            {images.length} image{images.length === 1 ? '' : 's'} · available until {formatDate(record.expiresAt)}
+          </p>
+        </div>
+        {record.allowDownload && images.length > 0 && (
+          <a
+            href={`/api/share/gallery/${token}`}
+            className="px-3 py-1 text-sm font-mono rounded border border-stone-300 hover:border-stone-600"
+          >
+            Download all (ZIP)
+          </a>
+        )}
+      </div>
+
+      {images.length === 0 ? (
+        <p className="text-sm text-stone-500">This gallery is empty.</p>
+      ) : (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {images.map((image) => {
+            const caption = image.description || image.altTag;
+            return (
+              <li key={image.id}>
+                <figure className="space-y-2">
+                  <a
+                    href={getCloudflareImageUrl(image.id, 'xlarge')}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="block relative w-full aspect-[4/3] bg-stone-100"
+                  >
+                    <Image
+                      src={getCloudflareImageUrl(image.id, 'medium')}
+                      alt={image.altTag || image.displayName || image.filename}
+                      fill
+                      className="object-contain"
+                      sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                      unoptimized
+                    />
+                  </a>
+                  {caption && <figcaption className="text-sm text-stone-700">{caption}</figcaption>}
+                </figure>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </main>
+  );
+}
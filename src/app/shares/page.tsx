@@ -0,0 +1,270 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useToast } from '@/components/Toast';
+
+interface ShareLinkSummary {
+  id: string;
+  imageId: string;
+  variant: string;
+  createdAt: string;
+  expiresAt: string;
+  createdBy: { name: string };
+  maxDownloads?: number;
+  downloads: number;
+  lastDownloadedAt?: string;
+  hasPassword: boolean;
+  status: 'active' | 'expired' | 'exhausted' | 'revoked';
+}
+
+interface GalleryShareSummary {
+  id: string;
+  title: string;
+  source:
+    | { kind: 'folder'; folder: string }
+    | { kind: 'tag'; tag: string }
+    | { kind: 'search'; query: string }
+    | { kind: 'ids'; ids: string[] };
+  allowDownload: boolean;
+  createdAt: string;
+  expiresAt: string;
+  createdBy: { name: string };
+  status: 'active' | 'expired' | 'revoked';
+}
+
+const STATUS_STYLES: Record<ShareLinkSummary['status'], string> = {
+  active: 'text-green-700',
+  expired: 'text-stone-400',
+  exhausted: 'text-amber-600',
+  revoked: 'text-red-600'
+};
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+const describeSource = (source: GalleryShareSummary['source']) => {
+  switch (source.kind) {
+    case 'folder':
+      return `Folder ${source.folder}`;
+    case 'tag':
+      return `Tag ${source.tag}`;
+    case 'search':
+      return `Search ${decodeURIComponent(source.query.replace(/\+/g, ' '))}`;
+    case 'ids':
+      return `${source.ids.length} picked image${source.ids.length === 1 ? '' : 's'}`;
+  }
+};
+
+export default function ShareLinksPage() {
+  const toast = useToast();
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [galleries, setGalleries] = useState<GalleryShareSummary[]>([]);
+  const [imageId, setImageId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setImageId(new URLSearchParams(window.location.search).get('imageId'));
+  }, []);
+
+  const load = useCallback(async (filter: string | null) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = filter ? `?imageId=${encodeURIComponent(filter)}` : '';
+      const [response, galleryResponse] = await Promise.all([
+        fetch(`/api/shares${query}`, { cache: 'no-store' }),
+        fetch('/api/shares/galleries', { cache: 'no-store' })
+      ]);
+      const data = await response.json();
+      const galleryData = await galleryResponse.json();
+      if (!response.ok || !galleryResponse.ok) {
+        throw new Error(data.error || galleryData.error || 'Failed to load share links');
+      }
+      setLinks(data.links ?? []);
+      setGalleries(galleryData.shares ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load share links');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load(imageId);
+  }, [imageId, load]);
+
+  const revoke = async (link: ShareLinkSummary) => {
+    if (!confirm('Revoke this link? Anyone holding it will no longer be able to open the image.')) return;
+    setRevokingId(link.id);
+    try {
+      const response = await fetch(`/api/shares/${link.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke link');
+      }
+      setLinks((prev) => prev.map((entry) => (entry.id === link.id ? data.link : entry)));
+      toast.push('Link revoked');
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to revoke link');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const revokeGallery = async (share: GalleryShareSummary) => {
+    if (!confirm(`Revoke the gallery "${share.title}"? Its page will stop working.`)) return;
+    setRevokingId(share.id);
+    try {
+      const response = await fetch(`/api/shares/galleries/${share.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke gallery');
+      }
+      setGalleries((prev) => prev.map((entry) => (entry.id === share.id ? data.share : entry)));
+      toast.push('Gallery revoked');
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to revoke gallery');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-stone-900">Share links</h1>
+          <p className="text-sm text-stone-500">
+            {imageId ? (
+              <>
+                Links for image <span className="font-mono">{imageId}</span> ·{' '}
+                <button type="button" onClick={() => setImageId(null)} className="underline">
+                  show all
+                </button>
+              </>
+            ) : (
+              'Signed links created from image pages. Revoked and expired links are kept for 30 days.'
+            )}
+          </p>
+        </div>
+        <Link href="/" className="text-sm text-stone-600 hover:text-stone-900">
+          ← Back to gallery
+        </Link>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-stone-500">Loading…</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-stone-500">No share links yet.</p>
+      ) : (
+        <table className="w-full text-sm border border-stone-200 bg-white">
+          <thead className="bg-stone-50 text-left text-xs uppercase tracking-wide text-stone-500">
+            <tr>
+              <th className="px-3 py-2">Image</th>
+              <th className="px-3 py-2">Variant</th>
+              <th className="px-3 py-2">Created</th>
+              <th className="px-3 py-2">Expires</th>
+              <th className="px-3 py-2">Downloads</th>
+              <th className="px-3 py-2">Status</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {links.map((link) => (
+              <tr key={link.id} className="border-t border-stone-100 align-top">
+                <td className="px-3 py-2 font-mono text-xs">
+                  <Link href={`/images/${link.imageId}`} className="text-blue-700 hover:underline">
+                    {link.imageId}
+                  </Link>
+                  {link.hasPassword && <span className="ml-1 text-stone-400" title="Password protected">🔒</span>}
+                </td>
+                <td className="px-3 py-2 font-mono text-xs">{link.variant}</td>
+                <td className="px-3 py-2 text-xs text-stone-600">
+                  {formatDate(link.createdAt)}
+                  <div className="text-stone-400">{link.createdBy.name}</div>
+                </td>
+                <td className="px-3 py-2 text-xs text-stone-600">{formatDate(link.expiresAt)}</td>
+                <td className="px-3 py-2 text-xs text-stone-600">
+                  {link.downloads}
+                  {link.maxDownloads !== undefined && ` / ${link.maxDownloads}`}
+                  {link.lastDownloadedAt && <div className="text-stone-400">last {formatDate(link.lastDownloadedAt)}</div>}
+                </td>
+                <td className={`px-3 py-2 text-xs ${STATUS_STYLES[link.status]}`}>{link.status}</td>
+                <td className="px-3 py-2 text-right">
+                  {link.status !== 'revoked' && (
+                    <button
+                      type="button"
+                      onClick={() => revoke(link)}
+                      disabled={revokingId === link.id}
+                      className="px-2 py-1 text-xs rounded border border-red-200 text-red-700 hover:border-red-500 disabled:opacity-50"
+                    >
+                      {revokingId === link.id ? 'Revoking…' : 'Revoke'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {!loading && !imageId && (
+        <section className="space-y-3">
+          <div>
+            <h2 className="text-lg font-semibold text-stone-900">Gallery links</h2>
+            <p className="text-sm text-stone-500">
+              Read-only pages for a folder, tag, search or picked images, created with Share gallery in the gallery.
+            </p>
+          </div>
+          {galleries.length === 0 ? (
+            <p className="text-sm text-stone-500">No gallery links yet.</p>
+          ) : (
+            <table className="w-full text-sm border border-stone-200 bg-white">
+              <thead className="bg-stone-50 text-left text-xs uppercase tracking-wide text-stone-500">
+                <tr>
+                  <th className="px-3 py-2">Title</th>
+                  <th className="px-3 py-2">Images</th>
+                  <th className="px-3 py-2">Created</th>
+                  <th className="px-3 py-2">Expires</th>
+                  <th className="px-3 py-2">Download</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {galleries.map((share) => (
+                  <tr key={share.id} className="border-t border-stone-100 align-top">
+                    <td className="px-3 py-2 text-stone-800">{share.title}</td>
+                    <td className="px-3 py-2 text-xs text-stone-600">{describeSource(share.source)}</td>
+                    <td className="px-3 py-2 text-xs text-stone-600">
+                      {formatDate(share.createdAt)}
+                      <div className="text-stone-400">{share.createdBy.name}</div>
+                    </td>
+                    <td className="px-3 py-2 text-xs text-stone-600">{formatDate(share.expiresAt)}</td>
+                    <td className="px-3 py-2 text-xs text-stone-600">{share.allowDownload ? 'ZIP' : '—'}</td>
+                    <td className={`px-3 py-2 text-xs ${STATUS_STYLES[share.status]}`}>{share.status}</td>
+                    <td className="px-3 py-2 text-right">
+                      {share.status !== 'revoked' && (
+                        <button
+                          type="button"
+                          onClick={() => revokeGallery(share)}
+                          disabled={revokingId === share.id}
+                          className="px-2 py-1 text-xs rounded border border-red-200 text-red-700 hover:border-red-500 disabled:opacity-50"
+                        >
+                          {revokingId === share.id ? 'Revoking…' : 'Revoke'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
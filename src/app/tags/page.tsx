@@ -0,0 +1,269 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useToast } from '@/components/Toast';
+import { waitForJobCompletion } from '@/utils/jobPolling';
+
+interface TagEntry {
+  tag: string;
+  key: string;
+  count: number;
+  total: number;
+  parent?: string;
+  children: string[];
+  synonymOf?: string;
+  aliases: string[];
+}
+
+// Parents before children, depth-first; aliases are listed on their canonical tag instead
+const flattenCatalog = (tags: TagEntry[]) => {
+  const byKey = new Map(tags.map((entry) => [entry.key, entry]));
+  const rows: Array<{ entry: TagEntry; depth: number }> = [];
+  const visit = (entry: TagEntry, depth: number, seen: Set<string>) => {
+    if (seen.has(entry.key)) return;
+    seen.add(entry.key);
+    rows.push({ entry, depth });
+    entry.children.forEach((child) => {
+      const childEntry = byKey.get(child);
+      if (childEntry) visit(childEntry, depth + 1, seen);
+    });
+  };
+  const seen = new Set<string>();
+  tags
+    .filter((entry) => !entry.synonymOf && (!entry.parent || !byKey.has(entry.parent)))
+    .forEach((entry) => visit(entry, 0, seen));
+  // Anything left is part of a parent cycle; show it flat rather than hide it
+  tags.filter((entry) => !entry.synonymOf && !seen.has(entry.key)).forEach((entry) => visit(entry, 0, seen));
+  return rows;
+};
+
+export default function TagsPage() {
+  const toast = useToast();
+  const [tags, setTags] = useState<TagEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeInto, setMergeInto] = useState('');
+  const [keepAsSynonyms, setKeepAsSynonyms] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/tags', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load tags');
+      }
+      setTags(data.tags ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tags');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const rows = useMemo(() => {
+    const all = flattenCatalog(tags);
+    const term = filter.trim().toLowerCase();
+    if (!term) return all;
+    return all.filter(
+      ({ entry }) => entry.key.includes(term) || entry.aliases.some((alias) => alias.includes(term))
+    );
+  }, [tags, filter]);
+
+  // Shared by every edit: applies the change, waits for any rename job, then reloads
+  const submit = async (url: string, init: RequestInit, message: string) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update tags');
+      }
+      if (data.jobId) {
+        await waitForJobCompletion(data.jobId);
+      }
+      toast.push(message);
+      await load();
+      return true;
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to update tags');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const patchTag = (entry: TagEntry, body: Record<string, unknown>, message: string) =>
+    submit(`/api/tags/${encodeURIComponent(entry.tag)}`, { method: 'PATCH', body: JSON.stringify(body) }, message);
+
+  const rename = async (entry: TagEntry) => {
+    const newName = prompt(`Rename "${entry.tag}" on ${entry.count} image(s) to:`, entry.tag)?.trim();
+    if (!newName || newName === entry.tag) return;
+    await patchTag(entry, { newName }, `Renamed ${entry.tag} to ${newName}`);
+  };
+
+  const editParent = async (entry: TagEntry) => {
+    const parent = prompt(`Parent tag for "${entry.tag}" (leave empty for none):`, entry.parent ?? '');
+    if (parent === null) return;
+    await patchTag(entry, { parent: parent.trim() || null }, 'Parent updated');
+  };
+
+  const editSynonyms = async (entry: TagEntry) => {
+    const value = prompt(`Synonyms for "${entry.tag}", comma-separated:`, entry.aliases.join(', '));
+    if (value === null) return;
+    const synonyms = value.split(',').map((alias) => alias.trim()).filter(Boolean);
+    await patchTag(entry, { synonyms }, 'Synonyms updated');
+  };
+
+  const merge = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const into = mergeInto.trim();
+    if (!into || selected.length === 0) return;
+    if (!confirm(`Replace ${selected.join(', ')} with "${into}" on every image?`)) return;
+    const done = await submit(
+      '/api/tags/merge',
+      { method: 'POST', body: JSON.stringify({ tags: selected, into, keepAsSynonyms }) },
+      `Merged ${selected.length} tag(s) into ${into}`
+    );
+    if (done) {
+      setSelected([]);
+      setMergeInto('');
+    }
+  };
+
+  const toggleSelected = (tag: string) =>
+    setSelected((prev) => (prev.includes(tag) ? prev.filter((entry) => entry !== tag) : [...prev, tag]));
+
+  return (
+    <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-stone-900">Tags</h1>
+          <p className="text-sm text-stone-500">
+            Rename or merge tags across the library, group them under parent tags and add synonyms that search also matches.
+          </p>
+        </div>
+        <Link href="/" className="text-sm text-stone-600 hover:text-stone-900">
+          ← Back to gallery
+        </Link>
+      </div>
+
+      <form onSubmit={merge} className="flex flex-wrap items-end gap-3 border border-stone-200 rounded-md bg-white p-3">
+        <div className="flex flex-col text-xs text-stone-600">
+          Selected
+          <span className="mt-1 text-sm text-stone-900">{selected.length ? selected.join(', ') : 'Tick tags below'}</span>
+        </div>
+        <label className="flex flex-col text-xs text-stone-600">
+          Merge into
+          <input
+            value={mergeInto}
+            onChange={(event) => setMergeInto(event.target.value)}
+            list="tag-catalog-list"
+            className="mt-1 border border-stone-300 rounded px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-stone-600">
+          <input type="checkbox" checked={keepAsSynonyms} onChange={(event) => setKeepAsSynonyms(event.target.checked)} />
+          Keep old names as synonyms
+        </label>
+        <button
+          type="submit"
+          disabled={busy || !selected.length || !mergeInto.trim()}
+          className="px-3 py-1 text-sm rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+        >
+          Merge
+        </button>
+        <datalist id="tag-catalog-list">
+          {tags.map((entry) => (
+            <option key={entry.key} value={entry.tag} />
+          ))}
+        </datalist>
+      </form>
+
+      <input
+        value={filter}
+        onChange={(event) => setFilter(event.target.value)}
+        placeholder="Filter tags…"
+        className="w-full border border-stone-300 rounded px-3 py-2 text-sm"
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-stone-500">Loading…</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-stone-500">No tags yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-stone-500 border-b border-stone-200">
+              <th className="py-2 w-8" />
+              <th className="py-2">Tag</th>
+              <th className="py-2 text-right">Images</th>
+              <th className="py-2 text-right" title="Including synonyms and child tags">Matches</th>
+              <th className="py-2">Synonyms</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ entry, depth }) => (
+              <tr key={entry.key} className="border-b border-stone-100 align-top">
+                <td className="py-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(entry.tag)}
+                    onChange={() => toggleSelected(entry.tag)}
+                    aria-label={`Select ${entry.tag}`}
+                  />
+                </td>
+                <td className="py-2 font-mono text-stone-900" style={{ paddingLeft: `${depth * 16}px` }}>
+                  {depth > 0 && <span className="text-stone-400">└ </span>}
+                  {entry.tag}
+                </td>
+                <td className="py-2 text-right text-stone-600">{entry.count}</td>
+                <td className="py-2 text-right text-stone-600">{entry.total}</td>
+                <td className="py-2 text-stone-500">{entry.aliases.join(', ')}</td>
+                <td className="py-2">
+                  <div className="flex justify-end gap-2 text-xs">
+                    <button
+                      type="button"
+                      onClick={() => rename(entry)}
+                      disabled={busy}
+                      className="px-2 py-1 rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => editParent(entry)}
+                      disabled={busy}
+                      className="px-2 py-1 rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+                    >
+                      Parent
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => editSynonyms(entry)}
+                      disabled={busy}
+                      className="px-2 py-1 rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+                    >
+                      Synonyms
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useToast } from '@/components/Toast';
+import { getCloudflareImageUrl } from '@/utils/imageUtils';
+import { waitForJobCompletion } from '@/utils/jobPolling';
+
+interface TrashedImage {
+  id: string;
+  filename: string;
+  displayName?: string;
+  folder?: string;
+  namespace?: string;
+  deletedAt?: string;
+  purgeAt?: string;
+}
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+export default function TrashPage() {
+  const toast = useToast();
+  const [images, setImages] = useState<TrashedImage[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [emptying, setEmptying] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/trash', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load the trash');
+      }
+      setImages(data.images ?? []);
+      setRetentionDays(typeof data.retentionDays === 'number' ? data.retentionDays : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the trash');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const restore = async (image: TrashedImage) => {
+    setBusyId(image.id);
+    try {
+      const response = await fetch(`/api/images/${image.id}/restore`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore image');
+      }
+      setImages((prev) => prev.filter((entry) => entry.id !== image.id));
+      toast.push(`Restored ${image.displayName || image.filename}`);
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to restore image');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const purge = async (image: TrashedImage) => {
+    if (!confirm(`Delete ${image.displayName || image.filename} permanently? This cannot be undone.`)) return;
+    setBusyId(image.id);
+    try {
+      const response = await fetch(`/api/trash/${image.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete image');
+      }
+      setImages((prev) => prev.filter((entry) => entry.id !== image.id));
+      toast.push('Image deleted permanently');
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to delete image');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const emptyTrash = async () => {
+    if (!confirm(`Delete all ${images.length} images in the trash permanently? This cannot be undone.`)) return;
+    setEmptying(true);
+    try {
+      const response = await fetch('/api/trash', { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to empty the trash');
+      }
+      const job = await waitForJobCompletion<{ purged: number; failed: { id: string; error: string }[] }>(data.jobId);
+      const failed = job.result?.failed.length ?? 0;
+      toast.push(
+        failed
+          ? `Deleted ${job.result?.purged ?? 0} images; ${failed} could not be deleted`
+          : `Deleted ${job.result?.purged ?? 0} images`
+      );
+      await load();
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to empty the trash');
+    } finally {
+      setEmptying(false);
+    }
+  };
+
+  return (
+    <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-stone-900">Trash</h1>
+          <p className="text-sm text-stone-500">
+            {retentionDays
+              ? `Images are deleted permanently ${retentionDays} day${retentionDays === 1 ? '' : 's'} after they were moved here.`
+              : 'Images stay here until they are deleted by hand.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={emptyTrash}
+            disabled={emptying || images.length === 0}
+            className="px-3 py-1 text-sm rounded border border-red-300 text-red-700 hover:border-red-600 disabled:opacity-50"
+          >
+            {emptying ? 'Emptying…' : 'Empty trash'}
+          </button>
+          <Link href="/" className="text-sm text-stone-600 hover:text-stone-900">
+            ← Back to gallery
+          </Link>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-stone-500">Loading…</p>
+      ) : images.length === 0 ? (
+        <p className="text-sm text-stone-500">The trash is empty.</p>
+      ) : (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {images.map((image) => (
+            <li key={image.id} className="border border-stone-200 rounded-md bg-white overflow-hidden">
+              <div className="relative w-full aspect-square bg-stone-100">
+                <Image
+                  src={getCloudflareImageUrl(image.id, 'w=300')}
+                  alt={image.displayName || image.filename}
+                  fill
+                  className="object-cover opacity-80"
+                  sizes="240px"
+                  unoptimized
+                />
+              </div>
+              <div className="p-2 space-y-1 text-xs">
+                <p className="font-mono text-stone-800 truncate" title={image.filename}>
+                  {image.displayName || image.filename}
+                </p>
+                <p className="text-stone-500">
+                  {[image.namespace, image.folder].filter(Boolean).join(' / ') || '—'}
+                </p>
+                <p className="text-stone-500">Deleted {formatDate(image.deletedAt)}</p>
+                {image.purgeAt && <p className="text-stone-400">Purged after {formatDate(image.purgeAt)}</p>}
+                <div className="flex gap-2 pt-1">
+                  <button
+                    type="button"
+                    onClick={() => restore(image)}
+                    disabled={busyId === image.id || emptying}
+                    className="px-2 py-1 rounded border border-stone-300 hover:border-stone-600 disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => purge(image)}
+                    disabled={busyId === image.id || emptying}
+                    className="px-2 py-1 rounded border border-red-200 text-red-700 hover:border-red-500 disabled:opacity-50"
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  );
+}
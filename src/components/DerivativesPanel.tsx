@@ -0,0 +1,269 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useToast } from '@/components/Toast';
+import { getCloudflareImageUrl } from '@/utils/imageUtils';
+import { waitForJobCompletion } from '@/utils/jobPolling';
+import { buildPictureSnippet, type DerivativeInfo } from '@/utils/responsiveImages';
+
+/**
+ * DerivativesPanel - responsive copies on the image detail page
+ *
+ * Collapsed by default; when opened it fetches `/api/images/:id/derivatives`
+ * and lists each profile with the derivatives it has produced. "Generate"
+ * queues a `derivatives` job for one profile (or all of them), waits for it
+ * and calls `onGenerated` so the page picks up the new variations. The
+ * snippet box builds a `<picture>` element from one profile's derivatives,
+ * with the original's current ALT text.
+ *
+ * HTML Structure IDs:
+ * - #image-derivatives-section - outer wrapper
+ */
+
+interface DerivativeProfile {
+  id: string;
+  name: string;
+  formats: string[];
+  widths: number[];
+  aspectRatio?: string;
+}
+
+interface Derivative extends DerivativeInfo {
+  id: string;
+  filename: string;
+}
+
+interface DerivativesResult {
+  created: number;
+  skipped: number;
+  removed: number;
+  failed: { imageId: string; error: string }[];
+}
+
+interface DerivativesPanelProps {
+  imageId: string;
+  altText?: string;
+  onGenerated?: () => void | Promise<void>;
+}
+
+export default function DerivativesPanel({ imageId, altText, onGenerated }: DerivativesPanelProps) {
+  const toast = useToast();
+  const [open, setOpen] = useState(false);
+  const [profiles, setProfiles] = useState<DerivativeProfile[]>([]);
+  const [derivatives, setDerivatives] = useState<Derivative[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [generating, setGenerating] = useState<string | null>(null);
+  const [snippetProfile, setSnippetProfile] = useState('');
+  const [sizes, setSizes] = useState('100vw');
+
+  const loadDerivatives = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/images/${imageId}/derivatives`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load derivatives');
+      }
+      setProfiles(Array.isArray(data.profiles) ? data.profiles : []);
+      setDerivatives(Array.isArray(data.derivatives) ? data.derivatives : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load derivatives');
+    } finally {
+      setLoading(false);
+    }
+  }, [imageId]);
+
+  useEffect(() => {
+    if (open) {
+      void loadDerivatives();
+    }
+  }, [open, loadDerivatives]);
+
+  const byProfile = useMemo(() => {
+    const map = new Map<string, Derivative[]>();
+    derivatives.forEach((derivative) => {
+      map.set(derivative.profile, [...(map.get(derivative.profile) ?? []), derivative]);
+    });
+    return map;
+  }, [derivatives]);
+
+  const activeSnippetProfile = byProfile.has(snippetProfile) ? snippetProfile : Array.from(byProfile.keys())[0] ?? '';
+
+  const snippet = useMemo(
+    () =>
+      buildPictureSnippet(
+        (byProfile.get(activeSnippetProfile) ?? []).map((derivative) => ({
+          ...derivative,
+          url: getCloudflareImageUrl(derivative.id, `public?format=${derivative.format}`)
+        })),
+        { alt: altText, sizes }
+      ),
+    [byProfile, activeSnippetProfile, altText, sizes]
+  );
+
+  const handleGenerate = async (profileIds: string[] | undefined, key: string, force = false) => {
+    setGenerating(key);
+    try {
+      const response = await fetch(`/api/images/${imageId}/derivatives`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profiles: profileIds, force })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to queue derivatives');
+      }
+      const job = await waitForJobCompletion<DerivativesResult>(data.jobId);
+      const failure = job.result?.failed[0]?.error;
+      if (failure) {
+        throw new Error(failure);
+      }
+      toast.push(
+        `Created ${job.result?.created ?? 0} derivative(s)${job.result?.skipped ? `, ${job.result.skipped} already existed` : ''}`
+      );
+      await loadDerivatives();
+      await onGenerated?.();
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to generate derivatives');
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const copySnippet = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      toast.push('Copied <picture> snippet');
+    } catch {
+      toast.push('Failed to copy snippet');
+    }
+  };
+
+  return (
+    <div id="image-derivatives-section" className="space-y-2">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        className="text-xs font-mono font-medum text-gray-700 hover:text-gray-900"
+      >
+        {open ? '▾' : '▸'} Responsive derivatives
+      </button>
+      {open &&
+        (loading && profiles.length === 0 ? (
+          <p className="text-xs text-gray-500">Loading derivatives…</p>
+        ) : error ? (
+          <p className="text-xs text-red-600">{error}</p>
+        ) : (
+          <div className="space-y-3">
+            <ul className="space-y-2">
+              {profiles.map((profile) => {
+                const existing = byProfile.get(profile.id) ?? [];
+                return (
+                  <li key={profile.id} className="border border-gray-200 rounded-md p-2 text-[11px] font-mono">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-gray-700">
+                        {profile.name}
+                        <span className="text-gray-400">
+                          {' '}
+                          · {profile.formats.join('/')} · {profile.widths.join(', ')}w
+                          {profile.aspectRatio ? ` · ${profile.aspectRatio}` : ''}
+                        </span>
+                      </span>
+                      <span className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => handleGenerate([profile.id], profile.id)}
+                          disabled={generating !== null}
+                          className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          {generating === profile.id ? 'Generating…' : 'Generate'}
+                        </button>
+                        {existing.length > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => handleGenerate([profile.id], `${profile.id}:force`, true)}
+                            disabled={generating !== null}
+                            className="text-gray-500 hover:text-gray-800 disabled:opacity-50"
+                            title="Render every derivative of this profile again and delete the old copies"
+                          >
+                            {generating === `${profile.id}:force` ? 'Regenerating…' : 'Regenerate'}
+                          </button>
+                        )}
+                      </span>
+                    </div>
+                    {existing.length > 0 ? (
+                      <ul className="mt-1 flex flex-wrap gap-x-3 gap-y-0.5 text-gray-600">
+                        {existing.map((derivative) => (
+                          <li key={derivative.id}>
+                            <a
+                              href={getCloudflareImageUrl(derivative.id, `public?format=${derivative.format}`)}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="hover:text-gray-900 underline"
+                            >
+                              {derivative.format} {derivative.width}×{derivative.height}
+                            </a>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-1 text-gray-400">Not generated yet.</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            <button
+              type="button"
+              onClick={() => handleGenerate(undefined, 'all')}
+              disabled={generating !== null || profiles.length === 0}
+              className="px-3 py-1 text-[11px] font-mono border border-gray-200 rounded-md hover:bg-gray-100 disabled:opacity-50"
+            >
+              {generating === 'all' ? 'Generating…' : 'Generate all profiles'}
+            </button>
+
+            {byProfile.size > 0 && (
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-[11px] font-mono text-gray-600">
+                  <label className="flex items-center gap-1">
+                    Profile
+                    <select
+                      value={activeSnippetProfile}
+                      onChange={(event) => setSnippetProfile(event.target.value)}
+                      className="border border-gray-200 rounded px-1 py-0.5"
+                    >
+                      {Array.from(byProfile.keys()).map((profileId) => (
+                        <option key={profileId} value={profileId}>
+                          {profiles.find((profile) => profile.id === profileId)?.name ?? profileId}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    sizes
+                    <input
+                      value={sizes}
+                      onChange={(event) => setSizes(event.target.value)}
+                      className="border border-gray-200 rounded px-1 py-0.5 w-48"
+                    />
+                  </label>
+                  <button type="button" onClick={copySnippet} className="text-blue-600 hover:text-blue-800">
+                    Copy
+                  </button>
+                </div>
+                <textarea
+                  readOnly
+                  value={snippet}
+                  rows={Math.min(8, snippet.split('\n').length)}
+                  className="w-full border border-gray-200 rounded-md p-2 text-[11px] font-mono text-gray-700 bg-gray-50"
+                  aria-label="<picture> snippet"
+                />
+              </div>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -2,6 +2,9 @@
 
 import { useEffect, useState } from 'react';
 import { useToast } from './Toast';
+import FolderTree from './FolderTree';
+import { waitForJobCompletion } from '@/utils/jobPolling';
+import type { FolderTreeNode } from '@/utils/folderTree';
 
 interface FolderManagerButtonProps {
   onFoldersChanged?: () => Promise<void> | void;
@@ -12,6 +15,7 @@ interface FolderManagerButtonProps {
 
 interface FolderResponse {
   folders: string[];
+  tree?: FolderTreeNode[];
 }
 
 export default function FolderManagerButton({
@@ -23,6 +27,7 @@ export default function FolderManagerButton({
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [folders, setFolders] = useState<string[]>([]);
+  const [tree, setTree] = useState<FolderTreeNode[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [newFolderName, setNewFolderName] = useState('');
   const [editingFolder, setEditingFolder] = useState<string | null>(null);
@@ -49,6 +54,7 @@ export default function FolderManagerButton({
       }
       const data = (await resp.json()) as FolderResponse;
       setFolders(data.folders || []);
+      setTree(data.tree || []);
     } catch (err) {
       console.error('Load folders error', err);
       setError(err instanceof Error ? err.message : 'Failed to load folders');
@@ -110,10 +116,13 @@ export default function FolderManagerButton({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ newName: renameValue.trim() })
       });
+      const body = await resp.json();
       if (!resp.ok) {
-        const body = await resp.json();
         throw new Error(body.error || 'Failed to rename folder');
       }
+      if (body.jobId) {
+        await waitForJobCompletion(body.jobId);
+      }
       cancelRename();
       await afterMutation('Folder renamed');
     } catch (err) {
@@ -125,7 +134,7 @@ export default function FolderManagerButton({
   };
 
   const deleteFolder = async (folder: string) => {
-    if (!confirm(`Delete folder "${folder}"? Images will be set to [none].`)) {
+    if (!confirm(`Delete folder "${folder}" and its subfolders? Images will be set to [none].`)) {
       return;
     }
     try {
@@ -133,10 +142,13 @@ export default function FolderManagerButton({
       const resp = await fetch(`/api/folders/${encodeURIComponent(folder)}`, {
         method: 'DELETE'
       });
+      const body = await resp.json();
       if (!resp.ok) {
-        const body = await resp.json();
         throw new Error(body.error || 'Failed to delete folder');
       }
+      if (body.jobId) {
+        await waitForJobCompletion(body.jobId);
+      }
       await afterMutation('Folder deleted');
     } catch (err) {
       console.error('Delete folder failed', err);
@@ -174,13 +186,14 @@ export default function FolderManagerButton({
             <div className="p-4 space-y-3 max-h-[70vh] overflow-auto">
               <div className="space-y-2">
                 <label className="text-[11px] font-mono uppercase tracking-wide text-gray-500">Create folder</label>
+                <p className="text-[11px] text-gray-500">Use / to nest folders. Renaming to a new path moves the folder and everything below it.</p>
                 <div className="flex gap-2">
                   <input
                     type="text"
                     value={newFolderName}
                     onChange={(e) => setNewFolderName(e.target.value)}
                     className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-[0.7em] font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder="marketing-assets"
+                    placeholder="clients/acme/2025"
                   />
                   <button
                     onClick={createFolder}
@@ -199,49 +212,52 @@ export default function FolderManagerButton({
                 ) : folders.length === 0 ? (
                   <p className="text-[0.7em] font-mono text-gray-500">No folders yet</p>
                 ) : (
-                  <div className="space-y-2">
-                    {folders.map((folder) => (
-                      <div key={folder} className="flex items-center gap-2 border border-gray-200 rounded-md px-3 py-2">
-                        {editingFolder === folder ? (
-                          <>
-                            <input
-                              value={renameValue}
-                              onChange={(e) => setRenameValue(e.target.value)}
-                              className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-[0.7em] font-mono"
-                            />
-                            <button
-                              onClick={() => submitRename(folder)}
-                              className="px-2 py-1 text-[0.7em] font-mono bg-blue-600 text-white rounded-md"
-                            >
-                              Save
-                            </button>
-                            <button
-                              onClick={cancelRename}
-                              className="px-2 py-1 text-[0.7em] font-mono border border-gray-300 rounded-md"
-                            >
-                              Cancel
-                            </button>
-                          </>
-                        ) : (
-                          <>
-                            <span className="flex-1 text-[0.7em] font-mono font-mono">{folder}</span>
-                            <button
-                              onClick={() => startRename(folder)}
-                              className="px-2 py-1 text-[11px] border border-gray-300 rounded-md"
-                            >
-                              Rename
-                            </button>
-                            <button
-                              onClick={() => deleteFolder(folder)}
-                              className="px-2 py-1 text-[11px] border border-red-400 text-red-600 rounded-md"
-                            >
-                              Delete
-                            </button>
-                          </>
-                        )}
-                      </div>
-                    ))}
-                  </div>
+                  <FolderTree
+                    nodes={tree}
+                    defaultExpanded
+                    renderLabel={(node) =>
+                      editingFolder === node.path ? (
+                        <>
+                          <input
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-[0.7em] font-mono"
+                            autoFocus
+                          />
+                          <button
+                            onClick={() => submitRename(node.path)}
+                            className="px-2 py-1 text-[0.7em] font-mono bg-blue-600 text-white rounded-md"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={cancelRename}
+                            className="px-2 py-1 text-[0.7em] font-mono border border-gray-300 rounded-md"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      ) : null
+                    }
+                    renderActions={(node) =>
+                      editingFolder === node.path ? null : (
+                        <>
+                          <button
+                            onClick={() => startRename(node.path)}
+                            className="px-2 py-1 text-[11px] border border-gray-300 rounded-md"
+                          >
+                            Rename
+                          </button>
+                          <button
+                            onClick={() => deleteFolder(node.path)}
+                            className="px-2 py-1 text-[11px] border border-red-400 text-red-600 rounded-md"
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )
+                    }
+                  />
                 )}
               </div>
             </div>
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import type { FolderTreeNode } from '@/utils/folderTree';
+
+interface FolderTreeProps {
+  nodes: FolderTreeNode[];
+  selectedPath?: string;
+  onSelect?: (path: string) => void;
+  /** Extra controls rendered at the end of each row (rename, delete, …) */
+  renderActions?: (node: FolderTreeNode) => ReactNode;
+  /** Replaces the row label, e.g. with an inline rename input */
+  renderLabel?: (node: FolderTreeNode) => ReactNode | null;
+  defaultExpanded?: boolean;
+  className?: string;
+}
+
+export default function FolderTree({
+  nodes,
+  selectedPath,
+  onSelect,
+  renderActions,
+  renderLabel,
+  defaultExpanded = false,
+  className = ''
+}: FolderTreeProps) {
+  // Tracks the nodes toggled away from the default, so new folders follow defaultExpanded
+  const [toggled, setToggled] = useState<Set<string>>(() => new Set());
+
+  const isExpanded = (path: string) => (toggled.has(path) ? !defaultExpanded : defaultExpanded);
+  const toggle = (path: string) => {
+    setToggled((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const renderNodes = (list: FolderTreeNode[], depth: number): ReactNode => (
+    <ul role={depth === 0 ? 'tree' : 'group'} className="space-y-0.5">
+      {list.map((node) => {
+        const expanded = isExpanded(node.path);
+        const hasChildren = node.children.length > 0;
+        const label = renderLabel?.(node);
+        return (
+          <li
+            key={node.path}
+            role="treeitem"
+            aria-expanded={hasChildren ? expanded : undefined}
+            aria-selected={selectedPath === node.path}
+          >
+            <div
+              className={`flex items-center gap-1 rounded px-1 py-0.5 ${
+                selectedPath === node.path ? 'bg-blue-50 text-blue-800' : 'hover:bg-gray-50'
+              }`}
+              style={{ paddingLeft: `${depth * 12 + 4}px` }}
+            >
+              <button
+                type="button"
+                onClick={() => toggle(node.path)}
+                disabled={!hasChildren}
+                className="w-4 text-gray-500 disabled:invisible"
+                aria-label={expanded ? `Collapse ${node.path}` : `Expand ${node.path}`}
+              >
+                {expanded ? '▾' : '▸'}
+              </button>
+              {label ?? (
+                <button
+                  type="button"
+                  onClick={() => (onSelect ? onSelect(node.path) : toggle(node.path))}
+                  className="flex-1 min-w-0 text-left truncate"
+                  title={node.path}
+                >
+                  {node.name}
+                  <span className="ml-1 text-gray-400">
+                    ({node.total}
+                    {hasChildren && node.count !== node.total ? ` · ${node.count} here` : ''})
+                  </span>
+                </button>
+              )}
+              {renderActions?.(node)}
+            </div>
+            {hasChildren && expanded && renderNodes(node.children, depth + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return <div className={className}>{renderNodes(nodes, 0)}</div>;
+}
@@ -7,6 +7,7 @@ import Link from 'next/link';
 import MonoSelect from './MonoSelect';
 import GalleryCommandBar from './GalleryCommandBar';
 import FolderManagerButton from './FolderManagerButton';
+import FolderTree from './FolderTree';
 import DateNavigator, { DateFilter } from './DateNavigator';
 import { getCloudflareImageUrl, getMultipleImageUrls, getCloudflareDownloadUrl, IMAGE_VARIANTS } from '@/utils/imageUtils';
 import { useToast } from './Toast';
@@ -14,6 +15,11 @@ import { useImageAspectRatio } from '@/hooks/useImageAspectRatio';
 import HoverPreview from './HoverPreview';
 import { downloadImageToFile, formatDownloadFileName } from '@/utils/downloadUtils';
 import { filterImagesForGallery } from '@/utils/galleryFilter';
+import { buildFolderTree, countImagesByFolder, flattenFolderTree, getFolderAncestors } from '@/utils/folderTree';
+import type { TagTaxonomy } from '@/utils/tagTaxonomy';
+import { waitForJobCompletion } from '@/utils/jobPolling';
+import { clusterByPerceptualHash } from '@/utils/perceptualHash';
+import type { DominantColor } from '@/utils/colorPalette';
 
 const handleImageDragStart = (e: React.DragEvent, image: CloudflareImage) => {
   e.stopPropagation();
@@ -50,9 +56,17 @@ interface CloudflareImage {
   sourceUrl?: string;
   sourceUrlNormalized?: string;
   contentHash?: string;
+  perceptualHash?: string;
+  dominantColors?: DominantColor[];
   namespace?: string;
 }
 
+interface CollectionOption {
+  id: string;
+  title: string;
+  imageIds: string[];
+}
+
 interface ImageGalleryProps {
   refreshTrigger?: number;
   namespace?: string;
@@ -200,6 +214,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
         bulkFolderInput: '',
         bulkFolderMode: 'existing' as 'existing' | 'new',
         showDuplicatesOnly: false,
+        showSimilarOnly: false,
         showBrokenOnly: false,
         pageSize: DEFAULT_PAGE_SIZE,
         dateFilter: null as DateFilter | null,
@@ -220,6 +235,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
           viewMode?: 'grid' | 'list';
           filtersCollapsed?: boolean;
           showDuplicatesOnly?: boolean;
+          showSimilarOnly?: boolean;
           showBrokenOnly?: boolean;
           pageSize?: number;
           dateFilter?: { year: number; month: number } | null;
@@ -257,6 +273,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
           bulkFolderInput: typeof parsed.bulkFolderInput === 'string' ? parsed.bulkFolderInput : '',
           bulkFolderMode: parsed.bulkFolderMode === 'new' ? 'new' : 'existing',
           showDuplicatesOnly: Boolean(parsed.showDuplicatesOnly),
+          showSimilarOnly: Boolean(parsed.showSimilarOnly),
           showBrokenOnly: Boolean(parsed.showBrokenOnly),
           pageSize: normalizedPageSize,
           dateFilter: normalizedDateFilter,
@@ -279,6 +296,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
       bulkFolderInput: '',
       bulkFolderMode: 'existing',
       showDuplicatesOnly: false,
+      showSimilarOnly: false,
       showBrokenOnly: false,
       pageSize: DEFAULT_PAGE_SIZE,
       dateFilter: null as DateFilter | null,
@@ -303,6 +321,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
   const [hiddenFolders, setHiddenFolders] = useState<string[]>(() => loadHiddenFoldersFromStorage());
   const [hiddenTags, setHiddenTags] = useState<string[]>(() => loadHiddenTagsFromStorage());
   const [filtersCollapsed, setFiltersCollapsed] = useState(storedPreferencesRef.current.filtersCollapsed ?? false);
+  const [showFolderTree, setShowFolderTree] = useState(false);
   const [bulkSelectionMode, setBulkSelectionMode] = useState(false);
   const [selectedImageIds, setSelectedImageIds] = useState<Set<string>>(() => new Set());
   const [bulkEditOpen, setBulkEditOpen] = useState(false);
@@ -320,7 +339,13 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
   const [bulkAnimateFilename, setBulkAnimateFilename] = useState('');
   const [bulkAnimateLoading, setBulkAnimateLoading] = useState(false);
   const [bulkAnimateError, setBulkAnimateError] = useState<string | null>(null);
+  const [sharingGallery, setSharingGallery] = useState(false);
+  const [tagTaxonomy, setTagTaxonomy] = useState<TagTaxonomy | undefined>(undefined);
+  const [collections, setCollections] = useState<CollectionOption[]>([]);
+  const [selectedCollection, setSelectedCollection] = useState('');
+  const [addingToCollection, setAddingToCollection] = useState(false);
   const [showDuplicatesOnly, setShowDuplicatesOnly] = useState<boolean>(storedPreferencesRef.current.showDuplicatesOnly ?? false);
+  const [showSimilarOnly, setShowSimilarOnly] = useState<boolean>(storedPreferencesRef.current.showSimilarOnly ?? false);
   const [showBrokenOnly, setShowBrokenOnly] = useState<boolean>(storedPreferencesRef.current.showBrokenOnly ?? false);
   const [dateFilter, setDateFilter] = useState<DateFilter | null>(storedPreferencesRef.current.dateFilter ?? null);
   const [pageSize, setPageSize] = useState<number>(storedPreferencesRef.current.pageSize ?? DEFAULT_PAGE_SIZE);
@@ -359,6 +384,38 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
     };
   }, []);
 
+  const loadCollections = useCallback(async () => {
+    try {
+      const response = await fetch('/api/collections', { cache: 'no-store' });
+      const data = await response.json();
+      if (response.ok) {
+        setCollections(Array.isArray(data?.collections) ? data.collections : []);
+      }
+    } catch (error) {
+      console.warn('Failed to load collections', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadCollections();
+  }, [loadCollections]);
+
+  // Synonyms and child tags, so the tag filter and search match what the API returns
+  useEffect(() => {
+    let active = true;
+    fetch('/api/tags', { cache: 'no-store' })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (active && data?.taxonomy) setTagTaxonomy(data.taxonomy);
+      })
+      .catch((error) => {
+        console.warn('Failed to load tag taxonomy', error);
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
   const namespaceOptions = useMemo(() => {
     const rawSeen = new Set(images.map((image) => image.namespace).filter(Boolean));
     const envDefault = process.env.NEXT_PUBLIC_IMAGE_NAMESPACE || '';
@@ -444,6 +501,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
         bulkFolderInput,
         bulkFolderMode,
         showDuplicatesOnly,
+        showSimilarOnly,
         showBrokenOnly,
         pageSize,
         dateFilter,
@@ -452,7 +510,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
     } catch (error) {
       console.warn('Failed to save gallery prefs', error);
     }
-  }, [onlyCanonical, respectAspectRatio, selectedVariant, onlyWithVariants, selectedFolder, selectedTag, searchTerm, viewMode, filtersCollapsed, bulkFolderInput, bulkFolderMode, showDuplicatesOnly, showBrokenOnly, pageSize, dateFilter, currentPage]);
+  }, [onlyCanonical, respectAspectRatio, selectedVariant, onlyWithVariants, selectedFolder, selectedTag, searchTerm, viewMode, filtersCollapsed, bulkFolderInput, bulkFolderMode, showDuplicatesOnly, showSimilarOnly, showBrokenOnly, pageSize, dateFilter, currentPage]);
   useEffect(() => {
     persistHiddenFolders(hiddenFolders);
   }, [hiddenFolders]);
@@ -721,40 +779,23 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
     setAuditEntries([]);
     setAuditProgress({ checked: 0, total: images.length });
     try {
-      const chunkSize = 50;
-      const total = images.length;
-      const brokenIds = new Set<string>();
-      let offset = 0;
-      while (offset < total) {
-        const url = new URL('/api/images/audit', window.location.origin);
-        url.searchParams.set('variant', selectedVariant);
-        url.searchParams.set('offset', String(offset));
-        url.searchParams.set('limit', String(chunkSize));
-        url.searchParams.set('verbose', '1');
-        const response = await fetch(url.toString());
-        if (!response.ok) {
-          const message = await response.text();
-          throw new Error(message || 'Audit request failed');
-        }
-        const payload = await response.json();
-        const results = Array.isArray(payload.results) ? payload.results : [];
-        const batchBroken = Array.isArray(payload.broken) ? payload.broken : [];
-        batchBroken.forEach((entry: { id?: string }) => {
-          if (entry?.id) {
-            brokenIds.add(entry.id);
-          }
-        });
-        setAuditEntries(prev => {
-          const combined = [...prev, ...results];
-          return combined.length > AUDIT_LOG_LIMIT
-            ? combined.slice(combined.length - AUDIT_LOG_LIMIT)
-            : combined;
-        });
-        const checkedCount = Number.isFinite(payload.checked) ? payload.checked : results.length || chunkSize;
-        const nextChecked = Math.min(total, offset + checkedCount);
-        setAuditProgress({ checked: nextChecked, total });
-        offset += chunkSize;
+      const response = await fetch('/api/images/audit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ variant: selectedVariant })
+      });
+      const queued = await response.json();
+      if (!response.ok) {
+        throw new Error(queued.error || 'Audit request failed');
       }
+      const job = await waitForJobCompletion<{ broken?: AuditLogEntry[]; errors?: AuditLogEntry[] }>(queued.jobId, {
+        onProgress: ({ progress }) =>
+          setAuditProgress({ checked: progress.completed, total: progress.total || images.length })
+      });
+      const broken = Array.isArray(job.result?.broken) ? job.result.broken : [];
+      const failed = Array.isArray(job.result?.errors) ? job.result.errors : [];
+      const brokenIds = new Set(broken.map((entry) => entry.id).filter(Boolean));
+      setAuditEntries([...broken, ...failed].slice(-AUDIT_LOG_LIMIT));
       setBrokenAudit({
         checkedAt: new Date().toISOString(),
         ids: Array.from(brokenIds)
@@ -1162,7 +1203,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
       typeof window === 'undefined'
         ? true
         : window.confirm(
-            `Delete ${selectedCount} image${selectedCount === 1 ? '' : 's'}? This cannot be undone.`
+            `Move ${selectedCount} image${selectedCount === 1 ? '' : 's'} to the trash? They can be restored from the Trash page.`
           );
     if (!confirmed) {
       return;
@@ -1177,7 +1218,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
         )
       );
       setImages(prev => prev.filter(img => !selectedImageIds.has(img.id)));
-      toast.push('Images deleted');
+      toast.push('Images moved to trash');
       clearSelection();
       setBulkSelectionMode(false);
     } catch (error) {
@@ -1188,6 +1229,110 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
     }
   }, [selectedCount, selectedImageIds, toast, clearSelection]);
 
+  const addSelectionToCollection = async (collectionId: string) => {
+    if (!selectedCount) {
+      toast.push('Select images to add');
+      return;
+    }
+    let targetId = collectionId;
+    setAddingToCollection(true);
+    try {
+      if (targetId === '__create__') {
+        const title = window.prompt('Name for the new collection');
+        if (!title?.trim()) {
+          return;
+        }
+        const created = await fetch('/api/collections', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ title })
+        });
+        const createdData = await created.json();
+        if (!created.ok) {
+          throw new Error(createdData.error || 'Failed to create collection');
+        }
+        targetId = createdData.collection.id;
+      }
+      const response = await fetch(`/api/collections/${targetId}/images`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: Array.from(selectedImageIds) })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add images to collection');
+      }
+      toast.push(`Added ${data.added} image${data.added === 1 ? '' : 's'} to ${data.collection.title}`);
+      await loadCollections();
+    } catch (error) {
+      console.error('Add to collection failed', error);
+      toast.push(error instanceof Error ? error.message : 'Failed to add images to collection');
+    } finally {
+      setAddingToCollection(false);
+    }
+  };
+
+  // Shares the selection, or else the current folder / tag / search, as a read-only page
+  const shareGallery = async (useSelection: boolean) => {
+    const search = searchTerm.trim();
+    let source: Record<string, unknown>;
+    let defaultTitle: string;
+    const collection = collections.find(entry => entry.id === selectedCollection);
+    if (useSelection) {
+      source = { kind: 'ids', ids: Array.from(selectedImageIds) };
+      defaultTitle = `${selectedCount} image${selectedCount === 1 ? '' : 's'}`;
+    } else if (collection) {
+      // A collection is shared as the images it shows now, in collection order
+      source = { kind: 'ids', ids: baseFilteredImages.map(img => img.id) };
+      defaultTitle = collection.title;
+    } else if (!search && !onlyCanonical && !selectedTag && selectedFolder !== 'all') {
+      source = { kind: 'folder', folder: selectedFolder };
+      defaultTitle = selectedFolder === 'no-folder' ? 'Unfiled images' : selectedFolder;
+    } else if (!search && !onlyCanonical && selectedTag && selectedFolder === 'all') {
+      source = { kind: 'tag', tag: selectedTag };
+      defaultTitle = `#${selectedTag}`;
+    } else if (search || selectedTag || selectedFolder !== 'all') {
+      const query = new URLSearchParams();
+      if (selectedFolder !== 'all') query.set('folder', selectedFolder);
+      if (selectedTag) query.set('tag', selectedTag);
+      if (search) query.set('search', search);
+      if (onlyCanonical) query.set('canonical', '1');
+      source = { kind: 'search', query: query.toString() };
+      defaultTitle = search || 'Search results';
+    } else {
+      toast.push('Pick a folder, tag or search to share');
+      return;
+    }
+    const title = window.prompt('Title for the shared gallery', defaultTitle);
+    if (title === null) {
+      return;
+    }
+    const allowDownload = window.confirm('Let visitors download all images as a ZIP?');
+    setSharingGallery(true);
+    try {
+      const response = await fetch('/api/shares/galleries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          source,
+          title,
+          allowDownload,
+          namespace: namespace === '' ? '__none__' : namespace || undefined
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to share gallery');
+      }
+      await copyToClipboard(data.url, 'Gallery share');
+    } catch (error) {
+      console.error('Gallery share failed', error);
+      toast.push(error instanceof Error ? error.message : 'Failed to share gallery');
+    } finally {
+      setSharingGallery(false);
+    }
+  };
+
   const getImageUrl = (image: CloudflareImage, variant: string) => {
     // Use the utility function with the variant string directly
     return getCloudflareImageUrl(image.id, variant === 'public' ? 'original' : variant);
@@ -1270,12 +1415,18 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
     return `${width}px`;
   };
 
+  // Includes the parents of nested folders so `clients` can be picked to see all of `clients/*`
   const uniqueFolders = useMemo(() => {
     const folderNames = images
       .map(img => img.folder?.trim())
-      .filter((folder): folder is string => Boolean(folder));
+      .filter((folder): folder is string => Boolean(folder))
+      .flatMap(folder => getFolderAncestors(folder));
     return Array.from(new Set(folderNames)).sort((a, b) => a.localeCompare(b));
   }, [images]);
+  const folderTree = useMemo(
+    () => buildFolderTree(uniqueFolders, countImagesByFolder(images)),
+    [uniqueFolders, images]
+  );
   const visibleFolders = useMemo(
     () => uniqueFolders.filter(folder => !hiddenFolders.includes(folder)),
     [uniqueFolders, hiddenFolders]
@@ -1351,6 +1502,15 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
     return ids;
   }, [duplicateGroups]);
 
+  // Visually similar images (perceptual hashes a few bits apart), in cluster order
+  const similarClusterIndex = useMemo(() => {
+    const index = new Map<string, number>();
+    clusterByPerceptualHash(images).forEach((cluster, clusterIndex) => {
+      cluster.forEach((image) => index.set(image.id, clusterIndex));
+    });
+    return index;
+  }, [images]);
+
   const duplicateGroupCount = duplicateGroups.length;
   const duplicateImageCount = duplicateIds.size;
 
@@ -1417,9 +1577,11 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
     () => [
       { value: 'all', label: 'All folders' },
       { value: 'no-folder', label: 'No folder' },
-      ...visibleFolders.map(folder => ({ value: folder, label: folder as string }))
+      ...flattenFolderTree(folderTree)
+        .filter(node => visibleFolders.includes(node.path))
+        .map(node => ({ value: node.path, label: `${'\u00a0\u00a0'.repeat(node.depth)}${node.name} (${node.total})` }))
     ],
-    [visibleFolders]
+    [folderTree, visibleFolders]
   );
 
   const variantOptions = useMemo(
@@ -1453,16 +1615,37 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
 
   const isSvgImage = (img: CloudflareImage) => img.filename?.toLowerCase().endsWith('.svg') ?? false;
 
+  const collectionOptions = useMemo(
+    () => [
+      { value: '', label: 'All images' },
+      ...collections.map(collection => ({
+        value: collection.id,
+        label: `${collection.title} (${collection.imageIds.length})`
+      }))
+    ],
+    [collections]
+  );
+
   const baseFilteredImages = useMemo(() => {
-    return filterImagesForGallery(images, {
+    const filtered = filterImagesForGallery(images, {
       selectedFolder,
       selectedTag,
       searchTerm,
       onlyCanonical,
       hiddenFolders,
-      hiddenTags
+      hiddenTags,
+      tagTaxonomy
     });
-  }, [images, selectedFolder, selectedTag, searchTerm, onlyCanonical, hiddenFolders, hiddenTags]);
+    const collection = collections.find(entry => entry.id === selectedCollection);
+    if (!collection) {
+      return filtered;
+    }
+    // Inside a collection, show its images in the collection's own order
+    const positions = new Map(collection.imageIds.map((id, index) => [id, index]));
+    return filtered
+      .filter(img => positions.has(img.id))
+      .sort((a, b) => (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0));
+  }, [images, selectedFolder, selectedTag, searchTerm, onlyCanonical, hiddenFolders, hiddenTags, tagTaxonomy, collections, selectedCollection]);
 
   const duplicateFilteredImages = useMemo(() => {
     if (!showDuplicatesOnly) {
@@ -1502,23 +1685,32 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
     return [...filteredWithVariants].sort((a, b) => new Date(b.uploaded).getTime() - new Date(a.uploaded).getTime());
   }, [filteredWithVariants]);
 
+  const similarGroupedImages = useMemo(() => {
+    if (!showSimilarOnly) return sortedImages;
+    return sortedImages
+      .filter((image) => similarClusterIndex.has(image.id))
+      .sort((a, b) => (similarClusterIndex.get(a.id) ?? 0) - (similarClusterIndex.get(b.id) ?? 0));
+  }, [sortedImages, showSimilarOnly, similarClusterIndex]);
+
   // Apply date filter (month) if set
   const dateFilteredImages = useMemo(() => {
-    if (!dateFilter) return sortedImages;
-    return sortedImages.filter((image) => {
+    if (!dateFilter) return similarGroupedImages;
+    return similarGroupedImages.filter((image) => {
       const d = new Date(image.uploaded);
       return d.getFullYear() === dateFilter.year && d.getMonth() === dateFilter.month;
     });
-  }, [sortedImages, dateFilter]);
+  }, [similarGroupedImages, dateFilter]);
 
   const hasActiveFilters = Boolean(
     searchTerm.trim() ||
     selectedFolder !== 'all' ||
     selectedTag ||
+    selectedCollection ||
     onlyCanonical ||
     respectAspectRatio ||
     onlyWithVariants ||
     showDuplicatesOnly ||
+    showSimilarOnly ||
     showBrokenOnly ||
     hiddenFolders.length > 0 ||
     dateFilter !== null
@@ -1528,10 +1720,12 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
     setSearchTerm('');
     setSelectedFolder('all');
     setSelectedTag('');
+    setSelectedCollection('');
     setOnlyCanonical(false);
     setRespectAspectRatio(false);
     setOnlyWithVariants(false);
     setShowDuplicatesOnly(false);
+    setShowSimilarOnly(false);
     setShowBrokenOnly(false);
     setHiddenFolders([]);
     setDateFilter(null);
@@ -1551,7 +1745,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
     }
     setCurrentPage(1);
     scrollGalleryToTop();
-  }, [selectedFolder, selectedTag, searchTerm, onlyWithVariants, showDuplicatesOnly, showBrokenOnly, pageSize, dateFilter, scrollGalleryToTop]);
+  }, [selectedFolder, selectedTag, selectedCollection, searchTerm, onlyWithVariants, showDuplicatesOnly, showSimilarOnly, showBrokenOnly, pageSize, dateFilter, scrollGalleryToTop]);
 
   useEffect(() => {
     if (currentPage > totalPages) {
@@ -1744,6 +1938,56 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
               >
                 Clear filters
               </button>
+              <Link
+                href="/trash"
+                className="px-3 py-1 text-[0.7em] font-mono border border-gray-200 rounded-md hover:bg-gray-100 transition"
+              >
+                Trash
+              </Link>
+              <button
+                onClick={() => shareGallery(false)}
+                disabled={sharingGallery}
+                className="px-3 py-1 text-[0.7em] font-mono border border-gray-200 rounded-md hover:bg-gray-100 transition disabled:opacity-50"
+                title="Create a read-only page for the current folder, tag or search"
+              >
+                Share gallery
+              </button>
+              <Link
+                href="/shares"
+                className="px-3 py-1 text-[0.7em] font-mono border border-gray-200 rounded-md hover:bg-gray-100 transition"
+              >
+                Share links
+              </Link>
+              <Link
+                href="/collections"
+                className="px-3 py-1 text-[0.7em] font-mono border border-gray-200 rounded-md hover:bg-gray-100 transition"
+              >
+                Collections
+              </Link>
+              <Link
+                href="/tags"
+                className="px-3 py-1 text-[0.7em] font-mono border border-gray-200 rounded-md hover:bg-gray-100 transition"
+              >
+                Tags
+              </Link>
+              <Link
+                href="/ingest-rules"
+                className="px-3 py-1 text-[0.7em] font-mono border border-gray-200 rounded-md hover:bg-gray-100 transition"
+              >
+                Ingest rules
+              </Link>
+              <Link
+                href="/captions"
+                className="px-3 py-1 text-[0.7em] font-mono border border-gray-200 rounded-md hover:bg-gray-100 transition"
+              >
+                Captions
+              </Link>
+              <Link
+                href="/accessibility"
+                className="px-3 py-1 text-[0.7em] font-mono border border-gray-200 rounded-md hover:bg-gray-100 transition"
+              >
+                Accessibility
+              </Link>
             </div>
             <div className="flex items-center gap-2">
               <div className="flex items-center gap-1 bg-gray-100/50 rounded-md px-2 py-0.5">
@@ -1810,6 +2054,33 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
             >
               Bulk edit
             </button>
+            <MonoSelect
+              value=""
+              onChange={(value) => void addSelectionToCollection(value)}
+              options={[
+                ...collections.map(collection => ({ value: collection.id, label: collection.title })),
+                { value: '__create__', label: 'New collection...' }
+              ]}
+              placeholder={addingToCollection ? 'Adding…' : 'Add to collection'}
+              disabled={!selectedCount || addingToCollection}
+              className="w-44"
+              size="sm"
+            />
+            <button
+              onClick={() => shareGallery(true)}
+              className="px-2 py-1 border rounded-md hover:bg-gray-100 disabled:opacity-40"
+              disabled={!selectedCount || sharingGallery}
+            >
+              Share selected
+            </button>
+            <Link
+              href={`/captions?ids=${Array.from(selectedImageIds).join(',')}`}
+              className={`px-2 py-1 border rounded-md hover:bg-gray-100 ${selectedCount ? '' : 'pointer-events-none opacity-40'}`}
+              aria-disabled={!selectedCount}
+              title="Generate missing ALT text and descriptions for review"
+            >
+              Caption selected
+            </Link>
             <button
               onClick={deleteSelectedImages}
               className="px-2 py-1 border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-40"
@@ -1871,6 +2142,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
             id="search"
             type="text"
             placeholder="Search files, tags, folders..."
+            title='Plain words match any field. Also: folder:logos tag:red -tag:draft uploaded:>2025-01 has:alt is:parent namespace:app color:blue "exact phrase", with AND / OR / NOT and (parentheses)'
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="w-full border border-gray-300 rounded-md px-3 py-2 text-[0.7em] font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -1882,7 +2154,17 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
             <label htmlFor="folder-filter" className="block text-[0.7em] font-mono font-mono font-medum text-gray-700">
               Folder
             </label>
-            <FolderManagerButton onFoldersChanged={handleFoldersChanged} size="sm" label="Manage" />
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => setShowFolderTree(prev => !prev)}
+                aria-pressed={showFolderTree}
+                className="text-[0.7em] font-mono px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-100"
+              >
+                {showFolderTree ? 'Hide tree' : 'Tree'}
+              </button>
+              <FolderManagerButton onFoldersChanged={handleFoldersChanged} size="sm" label="Manage" />
+            </div>
           </div>
           <MonoSelect
             id="folder-filter"
@@ -1892,6 +2174,14 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
             className="w-full"
             size="sm"
           />
+          {showFolderTree && (
+            <FolderTree
+              nodes={folderTree}
+              selectedPath={selectedFolder}
+              onSelect={path => setSelectedFolder(prev => (prev === path ? 'all' : path))}
+              className="mt-2 max-h-64 overflow-auto border border-gray-200 rounded-md p-1 text-[0.7em] font-mono"
+            />
+          )}
         </div>
         
         <div>
@@ -1912,6 +2202,20 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
             ))}
           </datalist>
         </div>
+
+        <div>
+          <label htmlFor="collection-filter" className="block text-[0.7em] font-mono font-mono font-medum text-gray-700 mb-1">
+            Collection
+          </label>
+          <MonoSelect
+            id="collection-filter"
+            value={selectedCollection}
+            onChange={setSelectedCollection}
+            options={collectionOptions}
+            className="w-full"
+            size="sm"
+          />
+        </div>
         <div>
           <label htmlFor="variant-select" className="block text-[0.7em] font-mono font-mono font-medum text-gray-700 mb-1">
             Image Size
@@ -1967,6 +2271,20 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
             />
             duplicates
           </label>
+          <label
+            htmlFor="similar-filter"
+            className="flex items-center gap-1 font-mono"
+            title="Group visually similar images (resized or re-encoded copies) together"
+          >
+            <input
+              id="similar-filter"
+              type="checkbox"
+              checked={showSimilarOnly}
+              onChange={(e) => setShowSimilarOnly(e.target.checked)}
+              className="h-3 w-3 font-mono text-[0.7em] font-mono text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            similar
+          </label>
           <label htmlFor="broken-filter" className="flex items-center gap-1 font-mono">
             <input
               id="broken-filter"
@@ -2337,7 +2655,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
                               type="button"
                               onClick={(event) => {
                                 event.stopPropagation();
-                                copyToClipboard(image.namespace, 'Namespace');
+                                copyToClipboard(image.namespace ?? '', 'Namespace');
                               }}
                               className="inline-flex items-center text-gray-400 hover:text-gray-600"
                               title="Copy namespace"
@@ -2506,7 +2824,7 @@ const ImageGallery = forwardRef<ImageGalleryRef, ImageGalleryProps>(
                           type="button"
                           onClick={(event) => {
                             event.stopPropagation();
-                            copyToClipboard(image.namespace, 'Namespace');
+                            copyToClipboard(image.namespace ?? '', 'Namespace');
                           }}
                           className="inline-flex items-center text-gray-400 hover:text-gray-600"
                           title="Copy namespace"
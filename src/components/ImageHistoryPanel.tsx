@@ -0,0 +1,155 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useToast } from '@/components/Toast';
+
+/**
+ * ImageHistoryPanel - metadata change log on the image detail page
+ *
+ * Collapsed by default; when opened it fetches `/api/images/:id/history`
+ * and lists each change (who, when, which route, field before → after).
+ * "Restore" posts to `/api/images/:id/revert` with the version from before
+ * that change, then calls `onReverted` so the page reloads its fields.
+ *
+ * HTML Structure IDs:
+ * - #image-history-section - outer wrapper
+ */
+
+interface ChangeEntry {
+  id: string;
+  at: string;
+  actor: { type: string; name: string };
+  source: string;
+  changes: Record<string, { before?: unknown; after?: unknown }>;
+  revertOf?: string;
+}
+
+interface ImageHistoryPanelProps {
+  imageId: string;
+  onReverted?: () => void | Promise<void>;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  update: 'Edited',
+  alt: 'ALT generated',
+  rotate: 'Rotated copy',
+  'folder-rename': 'Folder renamed',
+  'folder-delete': 'Folder deleted',
+  'tag-rename': 'Tags renamed',
+  'caption-review': 'Caption approved',
+  trash: 'Moved to trash',
+  restore: 'Restored from trash',
+  revert: 'Reverted'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '∅';
+  const text = Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+};
+
+export default function ImageHistoryPanel({ imageId, onReverted }: ImageHistoryPanelProps) {
+  const toast = useToast();
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<ChangeEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/images/${imageId}/history`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load history');
+      }
+      setEntries(Array.isArray(data.entries) ? data.entries : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [imageId]);
+
+  useEffect(() => {
+    if (open) {
+      void loadHistory();
+    }
+  }, [open, loadHistory]);
+
+  const handleRevert = async (entry: ChangeEntry) => {
+    setRevertingId(entry.id);
+    try {
+      const response = await fetch(`/api/images/${imageId}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changeId: entry.id, state: 'before' })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revert');
+      }
+      toast.push(data.reverted ? 'Restored the earlier version' : 'Already at that version');
+      await loadHistory();
+      await onReverted?.();
+    } catch (err) {
+      toast.push(err instanceof Error ? err.message : 'Failed to revert');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div id="image-history-section" className="space-y-2">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        className="text-xs font-mono font-medum text-gray-700 hover:text-gray-900"
+      >
+        {open ? '▾' : '▸'} History
+      </button>
+      {open &&
+        (loading && entries.length === 0 ? (
+          <p className="text-xs text-gray-500">Loading history…</p>
+        ) : error ? (
+          <p className="text-xs text-red-600">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-xs text-gray-500">No recorded changes yet.</p>
+        ) : (
+          <ol className="space-y-2">
+            {entries.map((entry) => (
+              <li key={entry.id} className="border border-gray-200 rounded-md p-2 text-[11px] font-mono">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-gray-700">
+                    {SOURCE_LABELS[entry.source] ?? entry.source} · {entry.actor.name}
+                  </span>
+                  <span className="text-gray-400" title={entry.at}>
+                    {new Date(entry.at).toLocaleString()}
+                  </span>
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {Object.entries(entry.changes).map(([field, change]) => (
+                    <li key={field} className="text-gray-600 break-words">
+                      <span className="text-gray-900">{field}</span>: {formatValue(change.before)} →{' '}
+                      {formatValue(change.after)}
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  type="button"
+                  onClick={() => handleRevert(entry)}
+                  disabled={revertingId !== null}
+                  className="mt-1 text-[11px] text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  title="Restore the metadata as it was before this change"
+                >
+                  {revertingId === entry.id ? 'Restoring…' : 'Restore previous version'}
+                </button>
+              </li>
+            ))}
+          </ol>
+        ))}
+    </div>
+  );
+}
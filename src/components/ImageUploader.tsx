@@ -6,6 +6,7 @@ import { Upload, X, CheckCircle, AlertCircle } from "lucide-react";
 import clsx from "clsx";
 import MonoSelect from "./MonoSelect";
 import { normalizeOriginalUrl } from "@/utils/urlNormalization";
+import { waitForJobCompletion } from "@/utils/jobPolling";
 
 interface UploadedImage {
   id: string;
@@ -622,10 +623,23 @@ export default function ImageUploader({ onImageUploaded, namespace }: ImageUploa
           return;
         }
 
-        const resultList = Array.isArray(data?.results) ? data.results : [];
-        const failureList = Array.isArray(data?.failures) ? data.failures : [];
-        const successMap = new Map(resultList.map((item: { clientId: string }) => [item.clientId, item]));
-        const failureMap = new Map(failureList.map((item: { clientId: string }) => [item.clientId, item]));
+        // The server imports in a background job; wait for it to finish
+        const job = await waitForJobCompletion<{
+          results?: Array<{
+            clientId: string;
+            url: string;
+            folder?: string;
+            tags?: string[];
+            description?: string;
+            originalUrl?: string;
+            sourceUrl?: string;
+          }>;
+          failures?: Array<{ clientId: string; error?: string }>;
+        }>(data.jobId);
+        const resultList = Array.isArray(job.result?.results) ? job.result.results : [];
+        const failureList = Array.isArray(job.result?.failures) ? job.result.failures : [];
+        const successMap = new Map(resultList.map((item) => [item.clientId, item]));
+        const failureMap = new Map(failureList.map((item) => [item.clientId, item]));
 
         setUploadedImages((prev) =>
           prev.map((img) => {
@@ -672,7 +686,7 @@ export default function ImageUploader({ onImageUploaded, namespace }: ImageUploa
         setUploadedImages((prev) =>
           prev.map((img) =>
             payloadItems.some((item) => item.clientId === img.id)
-              ? { ...img, status: "error", error: "Network error" }
+              ? { ...img, status: "error", error: error instanceof Error ? error.message : "Network error" }
               : img
           )
         );
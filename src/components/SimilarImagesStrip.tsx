@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { getCloudflareImageUrl } from '@/utils/imageUtils';
+
+/**
+ * SimilarImagesStrip - "More like this" row on the image detail page
+ *
+ * Fetches `/api/images/:id/similar` (color histogram + perceptual hash,
+ * plus an ONNX embedding when configured) and shows the closest matches as
+ * thumbnails linking to their own detail pages.
+ *
+ * HTML Structure IDs:
+ * - #similar-images-section - outer wrapper
+ */
+
+interface SimilarMatch {
+  id: string;
+  filename: string;
+  displayName?: string;
+  altTag?: string;
+  score: number;
+}
+
+interface SimilarImagesStripProps {
+  imageId: string;
+  limit?: number;
+}
+
+export default function SimilarImagesStrip({ imageId, limit = 12 }: SimilarImagesStripProps) {
+  const [matches, setMatches] = useState<SimilarMatch[]>([]);
+  const [indexed, setIndexed] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/images/${imageId}/similar?limit=${limit}`);
+        const data = await response.json();
+        if (!mounted) return;
+        if (!response.ok) {
+          setError(data.error || 'Failed to load similar images');
+          setMatches([]);
+          return;
+        }
+        setMatches(Array.isArray(data.matches) ? data.matches : []);
+        setIndexed(Number(data.indexed) || 0);
+        setTotal(Number(data.total) || 0);
+      } catch (err) {
+        console.error('Failed to load similar images', err);
+        if (mounted) setError('Failed to load similar images');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [imageId, limit]);
+
+  return (
+    <div id="similar-images-section" className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-mono font-medum text-gray-700">More like this</p>
+        {!loading && total > indexed && (
+          <p className="text-[11px] text-gray-500" title="Compute features for older uploads via POST /api/images/features">
+            {indexed} of {total} images indexed
+          </p>
+        )}
+      </div>
+      {loading ? (
+        <p className="text-xs text-gray-500">Finding similar images…</p>
+      ) : error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : matches.length === 0 ? (
+        <p className="text-xs text-gray-500">No similar images found.</p>
+      ) : (
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {matches.map((match) => (
+            <Link
+              key={match.id}
+              href={`/images/${match.id}`}
+              className="flex-shrink-0 w-28 group"
+              title={`${match.displayName || match.filename} — ${Math.round(match.score * 100)}% similar`}
+            >
+              <div className="relative w-28 h-28 rounded-md overflow-hidden border border-gray-200 bg-gray-50 group-hover:border-blue-400">
+                <Image
+                  src={getCloudflareImageUrl(match.id, 'w=300')}
+                  alt={match.altTag || match.displayName || match.filename}
+                  fill
+                  className="object-cover"
+                  sizes="112px"
+                  unoptimized
+                />
+              </div>
+              <p className="mt-1 text-[10px] font-mono text-gray-600 truncate">
+                {match.displayName || match.filename}
+              </p>
+              <p className="text-[10px] font-mono text-gray-400">{Math.round(match.score * 100)}%</p>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
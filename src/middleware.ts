@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  actorHasScope,
+  AUTH_ACTOR_HEADER,
+  authenticateRequest,
+  canAccessNamespace,
+  getAuthConfigurationError,
+  getTargetImageId,
+  isAuthEnabled,
+  isNamespaceAwareRoute,
+  requiredScopeFor
+} from '@/server/auth';
+import { getCachedImage } from '@/server/cloudflareImageCache';
+
+// Runs on Node.js so keys can be checked against the cache storage
+export const config = {
+  runtime: 'nodejs',
+  matcher: ['/((?!_next/|favicon.ico).*)']
+};
+
+const PUBLIC_FILE = /\.[a-zA-Z0-9]+$/;
+
+export async function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers);
+  headers.delete(AUTH_ACTOR_HEADER);
+  if (!isAuthEnabled()) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+  // The login page, shared gallery pages (which check their own token) and
+  // public files (fonts, icons) are always reachable
+  if (!isApi && (pathname === '/login' || pathname.startsWith('/shared/') || PUBLIC_FILE.test(pathname))) {
+    return NextResponse.next({ request: { headers } });
+  }
+  const configurationError = getAuthConfigurationError();
+  if (configurationError) {
+    return NextResponse.json({ error: configurationError }, { status: 500 });
+  }
+
+  const requiredScope = isApi
+    ? requiredScopeFor(request.method, pathname)
+    : pathname.startsWith('/admin')
+      ? 'admin'
+      : 'read';
+  if (requiredScope === null) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const actor = await authenticateRequest(request);
+  if (!actor) {
+    if (!isApi) {
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('next', `${pathname}${request.nextUrl.search}`);
+      return NextResponse.redirect(loginUrl);
+    }
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!actorHasScope(actor, requiredScope)) {
+    return NextResponse.json(
+      { error: `This key is missing the '${requiredScope}' scope` },
+      { status: 403 }
+    );
+  }
+
+  if (actor.namespaces && isApi) {
+    if (!isNamespaceAwareRoute(pathname)) {
+      return NextResponse.json(
+        { error: 'This key is limited to namespaces and cannot use this route' },
+        { status: 403 }
+      );
+    }
+    const imageId = getTargetImageId(pathname);
+    const image = imageId ? await getCachedImage(imageId, { includeTrashed: true }) : undefined;
+    if (image && !canAccessNamespace(actor, image.namespace)) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+  }
+
+  headers.set(AUTH_ACTOR_HEADER, encodeURIComponent(JSON.stringify(actor)));
+  return NextResponse.next({ request: { headers } });
+}
@@ -0,0 +1,171 @@
+/**
+ * Accessibility Report
+ *
+ * Checks ALT text across the library for the problems that fail WCAG 1.1.1
+ * reviews most often:
+ *
+ *   missing    no `altTag` at all
+ *   filename   the ALT text only repeats the file name (`IMG_0042`, `hero-banner`)
+ *   too-long   longer than the limit screen readers handle comfortably
+ *   duplicate  the same ALT text on unrelated images
+ *
+ * Variations of one image (`parentId`) may share ALT text and are not
+ * reported as duplicates of each other. Responsive derivatives are copies of
+ * their original and are left out entirely. Images are grouped by namespace and
+ * folder so a site's pages can be fixed together.
+ *
+ * Configuration:
+ *   ALT_TEXT_MAX_LENGTH=125
+ */
+
+import { isInFolderSubtree } from '@/utils/folderTree';
+import type { CachedCloudflareImage } from './cloudflareImageCache';
+
+export type AltTextIssue = 'missing' | 'filename' | 'too-long' | 'duplicate';
+
+export const ALT_TEXT_ISSUES: AltTextIssue[] = ['missing', 'filename', 'too-long', 'duplicate'];
+
+export interface AccessibilityImage {
+  id: string;
+  filename: string;
+  displayName?: string;
+  altTag?: string;
+  issues: AltTextIssue[];
+  /** Other images with the same ALT text */
+  duplicateOf?: string[];
+}
+
+export interface AccessibilityGroup {
+  namespace?: string;
+  folder?: string;
+  /** Images checked in this group */
+  total: number;
+  images: AccessibilityImage[];
+}
+
+export interface AccessibilityReport {
+  checkedAt: string;
+  maxLength: number;
+  total: number;
+  withIssues: number;
+  counts: Record<AltTextIssue, number>;
+  groups: AccessibilityGroup[];
+}
+
+export interface AccessibilityReportOptions {
+  maxLength?: number;
+  namespace?: string;
+  /** Folder and everything below it */
+  folder?: string;
+  /** Only report these issues */
+  issues?: AltTextIssue[];
+}
+
+const DEFAULT_MAX_LENGTH = 125;
+
+export const getAltTextMaxLength = () => {
+  const configured = Number(process.env.ALT_TEXT_MAX_LENGTH);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_LENGTH;
+};
+
+const normalizeText = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/\.[a-z0-9]{2,5}$/, '')
+    .replace(/[\s\-_.]+/g, ' ')
+    .trim();
+
+/** True when `alt` says nothing beyond the file or display name. */
+export const isFilenameAltText = (alt: string, filename: string, displayName?: string) => {
+  const normalized = normalizeText(alt);
+  if (!normalized) return false;
+  return [filename, displayName]
+    .filter((name): name is string => Boolean(name))
+    .some((name) => normalizeText(name) === normalized);
+};
+
+// Duplicates are compared without case, punctuation spacing or trailing full stops
+const duplicateKey = (alt: string) => alt.toLowerCase().replace(/\s+/g, ' ').replace(/[.!\s]+$/, '').trim();
+
+export const buildAccessibilityReport = (
+  images: CachedCloudflareImage[],
+  options: AccessibilityReportOptions = {}
+): AccessibilityReport => {
+  const maxLength = options.maxLength ?? getAltTextMaxLength();
+  const originals = images.filter((image) => !image.derivative);
+  const wanted = new Set(options.issues?.length ? options.issues : ALT_TEXT_ISSUES);
+  const inScope = originals.filter(
+    (image) =>
+      (options.namespace === undefined || (image.namespace ?? '') === options.namespace) &&
+      (!options.folder || isInFolderSubtree(image.folder, options.folder))
+  );
+
+  // Duplicates are looked for across the whole library, not just the scope
+  const byAlt = new Map<string, CachedCloudflareImage[]>();
+  originals.forEach((image) => {
+    const alt = image.altTag?.trim();
+    if (!alt) return;
+    const key = duplicateKey(alt);
+    byAlt.set(key, [...(byAlt.get(key) ?? []), image]);
+  });
+  const family = (image: CachedCloudflareImage) => image.parentId ?? image.id;
+
+  const counts: Record<AltTextIssue, number> = { missing: 0, filename: 0, 'too-long': 0, duplicate: 0 };
+  const groups = new Map<string, AccessibilityGroup>();
+  let withIssues = 0;
+
+  inScope.forEach((image) => {
+    const groupKey = `${image.namespace ?? ''}\u0000${image.folder ?? ''}`;
+    const group = groups.get(groupKey) ?? {
+      ...(image.namespace ? { namespace: image.namespace } : {}),
+      ...(image.folder ? { folder: image.folder } : {}),
+      total: 0,
+      images: []
+    };
+    group.total += 1;
+    groups.set(groupKey, group);
+
+    const alt = image.altTag?.trim();
+    const issues: AltTextIssue[] = [];
+    let duplicateOf: string[] | undefined;
+    if (!alt) {
+      issues.push('missing');
+    } else {
+      if (isFilenameAltText(alt, image.filename, image.displayName)) issues.push('filename');
+      if (alt.length > maxLength) issues.push('too-long');
+      const others = (byAlt.get(duplicateKey(alt)) ?? []).filter((other) => family(other) !== family(image));
+      if (others.length) {
+        issues.push('duplicate');
+        duplicateOf = others.map((other) => other.id);
+      }
+    }
+    const reported = issues.filter((issue) => wanted.has(issue));
+    if (!reported.length) return;
+    reported.forEach((issue) => {
+      counts[issue] += 1;
+    });
+    withIssues += 1;
+    group.images.push({
+      id: image.id,
+      filename: image.filename,
+      ...(image.displayName ? { displayName: image.displayName } : {}),
+      ...(alt ? { altTag: alt } : {}),
+      issues: reported,
+      ...(duplicateOf && reported.includes('duplicate') ? { duplicateOf } : {})
+    });
+  });
+
+  return {
+    checkedAt: new Date().toISOString(),
+    maxLength,
+    total: inScope.length,
+    withIssues,
+    counts,
+    groups: Array.from(groups.values())
+      .filter((group) => group.images.length)
+      .sort(
+        (a, b) =>
+          (a.namespace ?? '').localeCompare(b.namespace ?? '') || (a.folder ?? '').localeCompare(b.folder ?? '')
+      )
+  };
+};
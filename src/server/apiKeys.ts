@@ -0,0 +1,203 @@
+/**
+ * API Keys
+ *
+ * Keys look like `pk_<id>_<secret>`. Only a SHA-256 hash of the full key is
+ * stored (through `ICacheStorage`, next to the image cache); the plaintext is
+ * returned once, when the key is created. Each key carries scopes:
+ *
+ *   read    list, search and fetch images
+ *   upload  upload and import images
+ *   edit    change metadata, folders, jobs
+ *   delete  delete images and folders
+ *   admin   everything, including key management
+ *
+ * A key may also list `namespaces` it is limited to (`''` stands for images
+ * without a namespace); see `auth.ts` for how that is enforced.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { getCacheStorage } from './cacheStorage';
+
+export type AuthScope = 'read' | 'upload' | 'edit' | 'delete' | 'admin';
+
+export const AUTH_SCOPES: AuthScope[] = ['read', 'upload', 'edit', 'delete', 'admin'];
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  scopes: AuthScope[];
+  /** Limits the key to these namespaces; unset = all */
+  namespaces?: string[];
+  /** First characters of the key, to tell keys apart in listings */
+  prefix: string;
+  hash: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+/** Key record as returned by the admin API (never includes the hash). */
+export type ApiKeySummary = Omit<ApiKeyRecord, 'hash'>;
+
+export class ApiKeyError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+const API_KEYS_CACHE_KEY = 'api-keys';
+const KEY_PATTERN = /^pk_([a-z0-9]+)_([A-Za-z0-9_-]+)$/;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+interface KeyState {
+  loaded: Promise<Map<string, ApiKeyRecord>> | null;
+}
+
+const GLOBAL_KEYS_KEY = Symbol.for('cloudflare.image.apiKeys');
+const globalObject = globalThis as typeof globalThis & {
+  [GLOBAL_KEYS_KEY]?: KeyState;
+};
+const keyState: KeyState = globalObject[GLOBAL_KEYS_KEY] ?? { loaded: null };
+if (!globalObject[GLOBAL_KEYS_KEY]) {
+  globalObject[GLOBAL_KEYS_KEY] = keyState;
+}
+
+const getKeyMap = () => {
+  if (!keyState.loaded) {
+    keyState.loaded = getCacheStorage()
+      .get<ApiKeyRecord[]>(API_KEYS_CACHE_KEY)
+      .then((cached) => new Map((cached?.data ?? []).map((record) => [record.id, record])))
+      .catch((error) => {
+        console.warn('[auth] Failed to load API keys', error);
+        return new Map<string, ApiKeyRecord>();
+      });
+  }
+  return keyState.loaded;
+};
+
+const persistKeys = async (keys: Map<string, ApiKeyRecord>) => {
+  await getCacheStorage().set(API_KEYS_CACHE_KEY, Array.from(keys.values()));
+};
+
+export const hashApiKey = (key: string) => createHash('sha256').update(key, 'utf8').digest('hex');
+
+export const normalizeScopes = (value: unknown): AuthScope[] => {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const scopes = list.map((scope) => String(scope).trim().toLowerCase());
+  const invalid = scopes.filter((scope) => scope && !AUTH_SCOPES.includes(scope as AuthScope));
+  if (invalid.length) {
+    throw new ApiKeyError(`Unknown scope(s): ${invalid.join(', ')}. Use ${AUTH_SCOPES.join(', ')}`);
+  }
+  return Array.from(new Set(scopes.filter(Boolean) as AuthScope[]));
+};
+
+/** Accepts an array or comma list; `__none__` means images without a namespace. */
+export const normalizeKeyNamespaces = (value: unknown): string[] | undefined => {
+  const list = Array.isArray(value) ? value : typeof value === 'string' && value.trim() ? value.split(',') : [];
+  const namespaces = list
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => (entry === '__none__' ? '' : entry));
+  if (namespaces.includes('__all__')) return undefined;
+  return namespaces.length ? Array.from(new Set(namespaces)) : undefined;
+};
+
+/** `admin` grants every scope. */
+export const hasScope = (scopes: AuthScope[], required: AuthScope) =>
+  scopes.includes('admin') || scopes.includes(required);
+
+export const toApiKeySummary = (record: ApiKeyRecord): ApiKeySummary => ({
+  id: record.id,
+  name: record.name,
+  scopes: record.scopes,
+  namespaces: record.namespaces,
+  prefix: record.prefix,
+  createdAt: record.createdAt,
+  lastUsedAt: record.lastUsedAt,
+  expiresAt: record.expiresAt,
+  revokedAt: record.revokedAt
+});
+
+export const createApiKey = async (input: {
+  name: string;
+  scopes: AuthScope[];
+  namespaces?: string[];
+  expiresAt?: string;
+}) => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new ApiKeyError('Key name is required');
+  }
+  if (!input.scopes.length) {
+    throw new ApiKeyError('At least one scope is required');
+  }
+  if (input.namespaces?.length && input.scopes.includes('admin')) {
+    throw new ApiKeyError('Admin keys cannot be limited to namespaces');
+  }
+  if (input.expiresAt && Number.isNaN(Date.parse(input.expiresAt))) {
+    throw new ApiKeyError('expiresAt must be an ISO date');
+  }
+
+  const id = randomBytes(6).toString('hex');
+  const key = `pk_${id}_${randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id,
+    name,
+    scopes: input.scopes,
+    namespaces: input.namespaces?.length ? input.namespaces : undefined,
+    prefix: key.slice(0, 12),
+    hash: hashApiKey(key),
+    createdAt: new Date().toISOString(),
+    expiresAt: input.expiresAt ? new Date(input.expiresAt).toISOString() : undefined
+  };
+  const keys = await getKeyMap();
+  keys.set(id, record);
+  await persistKeys(keys);
+  return { key, record };
+};
+
+export const listApiKeys = async () =>
+  Array.from((await getKeyMap()).values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const getApiKey = async (id: string) => (await getKeyMap()).get(id);
+
+export const revokeApiKey = async (id: string) => {
+  const keys = await getKeyMap();
+  const record = keys.get(id);
+  if (!record) {
+    throw new ApiKeyError('API key not found', 404);
+  }
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    await persistKeys(keys);
+  }
+  return record;
+};
+
+export const isApiKeyActive = (record: ApiKeyRecord | undefined, now = Date.now()): record is ApiKeyRecord =>
+  Boolean(record && !record.revokedAt && (!record.expiresAt || Date.parse(record.expiresAt) > now));
+
+/** Returns the active key record matching `key`, or undefined. */
+export const verifyApiKey = async (key: string) => {
+  const match = KEY_PATTERN.exec(key.trim());
+  if (!match) return undefined;
+  const keys = await getKeyMap();
+  const record = keys.get(match[1]);
+  if (!isApiKeyActive(record)) return undefined;
+
+  const expected = Buffer.from(record.hash, 'hex');
+  const actual = Buffer.from(hashApiKey(key.trim()), 'hex');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+
+  const lastUsed = record.lastUsedAt ? Date.parse(record.lastUsedAt) : 0;
+  if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+    record.lastUsedAt = new Date().toISOString();
+    void persistKeys(keys).catch((error) => console.warn('[auth] Failed to record key usage', error));
+  }
+  return record;
+};
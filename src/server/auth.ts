@@ -0,0 +1,251 @@
+/**
+ * Authentication
+ *
+ * With AUTH_ENABLED=true, `src/middleware.ts` checks every API request and
+ * page before it reaches a route. API clients send a key
+ * (`Authorization: Bearer pk_…` or `X-API-Key`); the web UI signs in at
+ * `/login` and gets an HMAC-signed session cookie. Each API route needs one
+ * scope (see `requiredScopeFor`); delivery URLs and share links stay public.
+ *
+ * Keys can also be limited to namespaces. Such keys only reach the
+ * namespace-aware routes (image listing, search, single images, uploads):
+ * listings are filtered, other namespaces' images answer 404 and uploads
+ * default to the key's first namespace.
+ *
+ * Configuration:
+ *   AUTH_ENABLED=true (default: off, every route stays open)
+ *   AUTH_SECRET=<long random string> (signs session cookies; required when enabled)
+ *   AUTH_ADMIN_PASSWORD=... (web UI login with full access)
+ *   AUTH_ADMIN_API_KEY=... (admin key from the environment, e.g. to create the first stored keys)
+ *   AUTH_SESSION_TTL_HOURS=168
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import {
+  getApiKey,
+  hasScope,
+  isApiKeyActive,
+  verifyApiKey,
+  type ApiKeyRecord,
+  type AuthScope
+} from './apiKeys';
+
+export interface AuthActor {
+  /** `admin` = admin password or AUTH_ADMIN_API_KEY, `api-key` = a stored key */
+  type: 'admin' | 'api-key';
+  id: string;
+  name: string;
+  scopes: AuthScope[];
+  /** Namespaces the caller is limited to; unset = all */
+  namespaces?: string[];
+}
+
+interface SessionPayload {
+  sub: string;
+  name: string;
+  type: AuthActor['type'];
+  scopes: AuthScope[];
+  exp: number;
+}
+
+export const SESSION_COOKIE = 'photarium_session';
+/** Set by the middleware for route handlers; incoming copies are discarded. */
+export const AUTH_ACTOR_HEADER = 'x-photarium-actor';
+
+const ADMIN_ACTOR: AuthActor = { type: 'admin', id: 'admin', name: 'Administrator', scopes: ['admin'] };
+
+export const isAuthEnabled = () => process.env.AUTH_ENABLED === 'true';
+
+export const getAuthConfigurationError = () => {
+  if (!isAuthEnabled()) return undefined;
+  if ((process.env.AUTH_SECRET ?? '').length < 16) {
+    return 'AUTH_SECRET must be set (at least 16 characters) when AUTH_ENABLED=true';
+  }
+  return undefined;
+};
+
+export const getSessionTtlMs = () => {
+  const hours = Number(process.env.AUTH_SESSION_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 168) * 60 * 60 * 1000;
+};
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a, 'utf8');
+  const right = Buffer.from(b, 'utf8');
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const sign = (value: string) =>
+  createHmac('sha256', process.env.AUTH_SECRET ?? '').update(value).digest('base64url');
+
+export const createSessionToken = (actor: AuthActor, now = Date.now()) => {
+  const payload: SessionPayload = {
+    sub: actor.id,
+    name: actor.name,
+    type: actor.type,
+    scopes: actor.scopes,
+    exp: now + getSessionTtlMs()
+  };
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+};
+
+const readSessionToken = (token: string): SessionPayload | undefined => {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature || !safeEqual(signature, sign(encoded))) return undefined;
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as SessionPayload;
+    return payload.exp > Date.now() ? payload : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const toActor = (record: ApiKeyRecord): AuthActor => ({
+  type: 'api-key',
+  id: record.id,
+  name: record.name,
+  scopes: record.scopes,
+  ...(record.namespaces?.length ? { namespaces: record.namespaces } : {})
+});
+
+/** Admin password check for the login route. */
+export const verifyAdminPassword = (password: string) => {
+  const expected = process.env.AUTH_ADMIN_PASSWORD;
+  return Boolean(expected) && safeEqual(password, expected!);
+};
+
+/** Resolve an API key (stored or AUTH_ADMIN_API_KEY) to an actor. */
+export const authenticateApiKey = async (key: string): Promise<AuthActor | undefined> => {
+  const adminKey = process.env.AUTH_ADMIN_API_KEY;
+  if (adminKey && safeEqual(key, adminKey)) {
+    return { ...ADMIN_ACTOR, name: 'Admin API key' };
+  }
+  const record = await verifyApiKey(key);
+  return record ? toActor(record) : undefined;
+};
+
+const readCookie = (cookieHeader: string | null, name: string) =>
+  cookieHeader
+    ?.split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`))
+    ?.slice(name.length + 1);
+
+/**
+ * Identify the caller from an API key header or the session cookie.
+ * Sessions opened with a stored key follow that key: revoking it ends them.
+ */
+export const authenticateRequest = async (request: Request): Promise<AuthActor | undefined> => {
+  const authorization = request.headers.get('authorization');
+  const bearer = authorization?.toLowerCase().startsWith('bearer ') ? authorization.slice(7).trim() : undefined;
+  const key = bearer || request.headers.get('x-api-key')?.trim();
+  if (key) {
+    return authenticateApiKey(key);
+  }
+
+  const token = readCookie(request.headers.get('cookie'), SESSION_COOKIE);
+  const session = token ? readSessionToken(decodeURIComponent(token)) : undefined;
+  if (!session) return undefined;
+  if (session.type === 'admin') {
+    return { ...ADMIN_ACTOR, name: session.name };
+  }
+  const record = await getApiKey(session.sub);
+  return isApiKeyActive(record) ? toActor(record) : undefined;
+};
+
+type AccessRule = { pattern: RegExp; methods?: string[]; scope: AuthScope | null };
+
+// First match wins; `null` means public
+const ACCESS_RULES: AccessRule[] = [
+  { pattern: /^\/api\/auth\/(login|logout|session)$/, scope: null },
+  // Delivery URLs end up in <img> tags and on other sites
+  { pattern: /^\/api\/local-images\//, scope: null },
+  // Signed share links check their own token, expiry, limit and password
+  { pattern: /^\/api\/share\/[^/]+$/, scope: null },
+  { pattern: /^\/api\/share\/gallery\/[^/]+$/, methods: ['GET'], scope: null },
+  // The emulator guards itself (CLOUDFLARE_EMULATOR=true) and mimics Cloudflare's own auth
+  { pattern: /^\/api\/cloudflare-emulator\//, scope: null },
+  { pattern: /^\/api\/auth\//, scope: 'admin' },
+  { pattern: /^\/api\/debug$/, scope: 'admin' },
+  { pattern: /^\/api\/namespaces\/(usage|[^/]+\/quota)$/, scope: 'admin' },
+  // Whole-library backups and restores, including the namespace registry
+  { pattern: /^\/api\/(export|import\/archive)$/, scope: 'admin' },
+  // Ingest rules decide folders and namespaces for every upload
+  { pattern: /^\/api\/ingest-rules$/, methods: ['PUT'], scope: 'admin' },
+  { pattern: /^\/api\/(upload|import|animate)(\/|$)/, methods: ['POST'], scope: 'upload' },
+  { pattern: /^\/api\//, methods: ['GET', 'HEAD'], scope: 'read' },
+  { pattern: /^\/api\//, methods: ['DELETE'], scope: 'delete' },
+  { pattern: /^\/api\//, scope: 'edit' }
+];
+
+/** Scope needed for an API request, or null when the route is public. */
+export const requiredScopeFor = (method: string, pathname: string): AuthScope | null => {
+  const upperMethod = method.toUpperCase();
+  if (upperMethod === 'OPTIONS') return null;
+  const rule = ACCESS_RULES.find(
+    (candidate) => candidate.pattern.test(pathname) && (!candidate.methods || candidate.methods.includes(upperMethod))
+  );
+  return rule ? rule.scope : 'admin';
+};
+
+// Routes under /api/images that are not a single image
+const IMAGE_COLLECTION_ROUTES = new Set(['accessibility', 'audit', 'colors', 'features', 'query', 'search']);
+const SINGLE_IMAGE_PATTERN = /^\/api\/images\/([^/]+)(?:\/(?:alt|description|rotate|update|similar|share|history|revert|restore|derivatives))?$/;
+
+// Routes that honour namespace limits; namespace-limited keys get nothing else
+const NAMESPACE_AWARE_PATTERNS = [
+  /^\/api\/images$/,
+  /^\/api\/images\/(query|search)$/,
+  /^\/api\/upload(\/external)?$/,
+  /^\/api\/namespaces$/,
+  /^\/api\/auth\/session$/
+];
+
+/** Image id targeted by a single-image route such as `/api/images/:id/update`. */
+export const getTargetImageId = (pathname: string) => {
+  const match = SINGLE_IMAGE_PATTERN.exec(pathname);
+  if (!match || IMAGE_COLLECTION_ROUTES.has(match[1])) {
+    return undefined;
+  }
+  return decodeURIComponent(match[1]);
+};
+
+export const isNamespaceAwareRoute = (pathname: string) =>
+  Boolean(getTargetImageId(pathname)) || NAMESPACE_AWARE_PATTERNS.some((pattern) => pattern.test(pathname));
+
+/** `namespace` undefined or '' = images without a namespace. */
+export const canAccessNamespace = (actor: AuthActor | undefined, namespace?: string) =>
+  !actor?.namespaces?.length || actor.namespaces.includes(namespace ?? '');
+
+/**
+ * Namespace for an upload by the current caller: the requested one, else the
+ * server default, else (for namespace-limited keys) the key's first namespace.
+ */
+export const resolveActorNamespace = (
+  request: Request,
+  requested: string | undefined,
+  fallback: string | undefined
+): { allowed: true; namespace: string | undefined } | { allowed: false; error: string } => {
+  const actor = getRequestActor(request);
+  const limited = actor?.namespaces?.length ? actor.namespaces : undefined;
+  const namespace =
+    requested || (limited && !limited.includes(fallback ?? '') ? limited[0] || undefined : fallback);
+  if (!canAccessNamespace(actor, namespace)) {
+    return { allowed: false, error: `This key cannot write to namespace "${namespace ?? ''}"` };
+  }
+  return { allowed: true, namespace };
+};
+
+export const actorHasScope = (actor: AuthActor, scope: AuthScope) => hasScope(actor.scopes, scope);
+
+/** The caller as identified by the middleware; undefined when auth is off. */
+export const getRequestActor = (request: Request): AuthActor | undefined => {
+  const header = request.headers.get(AUTH_ACTOR_HEADER);
+  if (!header) return undefined;
+  try {
+    return JSON.parse(decodeURIComponent(header)) as AuthActor;
+  } catch {
+    return undefined;
+  }
+};
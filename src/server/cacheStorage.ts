@@ -82,18 +82,18 @@ class FileCacheStorage implements ICacheStorage {
 
   async set<T>(key: string, data: T, timestamp?: number): Promise<void> {
     // Queue writes to prevent concurrent writes to the same file
-    const existingWrite = this.writeQueue.get(key);
-    if (existingWrite) {
-      await existingWrite;
-    }
-
-    const writePromise = this.doWrite(key, data, timestamp);
+    const previousWrite = this.writeQueue.get(key) ?? Promise.resolve();
+    const writePromise = previousWrite
+      .catch(() => undefined)
+      .then(() => this.doWrite(key, data, timestamp));
     this.writeQueue.set(key, writePromise);
-    
+
     try {
       await writePromise;
     } finally {
-      this.writeQueue.delete(key);
+      if (this.writeQueue.get(key) === writePromise) {
+        this.writeQueue.delete(key);
+      }
     }
   }
 
@@ -124,6 +124,8 @@ class FileCacheStorage implements ICacheStorage {
   }
 
   async delete(key: string): Promise<void> {
+    // Let queued writes land first so they cannot recreate the file afterwards
+    await this.writeQueue.get(key)?.catch(() => undefined);
     const filePath = this.getFilePath(key);
     try {
       await fs.unlink(filePath);
@@ -0,0 +1,228 @@
+/**
+ * Caption Review Queue
+ *
+ * Batch captioning (the `caption-batch` job) does not write ALT text or
+ * descriptions straight into image metadata. Each generated text becomes a
+ * pending suggestion here; a reviewer approves it (optionally edited), which
+ * writes it to the image and the change log, or rejects it. Suggestions live
+ * in a local JSON file next to the namespace registry and are removed once
+ * reviewed.
+ *
+ * Configuration:
+ *   CAPTION_REVIEW_PATH=./data/caption-review.json
+ *   CAPTION_BATCH_RATE_PER_MINUTE=20 (requests a batch job sends per minute)
+ */
+
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+import { cleanString, parseCloudflareMetadata } from '@/utils/cloudflareMetadata';
+import { isInFolderSubtree } from '@/utils/folderTree';
+import { tagsMatch } from '@/utils/tagTaxonomy';
+import { generateCaption, type CaptionKind } from './captioning';
+import { tryRecordMetadataChange, type ChangeActor } from './changeLog';
+import { getCachedImages, transformApiImageToCached, upsertCachedImage } from './cloudflareImageCache';
+import { getExternallyReadableImageUrl, requireImageStorage } from './imageStorage';
+import { createJsonFileStore } from './jsonFileStore';
+import { getTagTaxonomy } from './tagTaxonomy';
+
+export interface CaptionSuggestion {
+  id: string;
+  imageId: string;
+  filename: string;
+  kind: CaptionKind;
+  text: string;
+  /** What the image had when the text was generated */
+  previous?: string;
+  provider: string;
+  model: string;
+  language: string;
+  jobId?: string;
+  createdAt: string;
+}
+
+/** Which images a batch covers; several fields narrow it further. */
+export interface CaptionBatchScope {
+  folder?: string;
+  tag?: string;
+  ids?: string[];
+  /** Also regenerate text images already have, e.g. ALT text flagged by the accessibility report */
+  overwrite?: boolean;
+}
+
+export interface CaptionTarget {
+  imageId: string;
+  kind: CaptionKind;
+}
+
+export class CaptionReviewError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'CaptionReviewError';
+  }
+}
+
+export const CAPTION_KINDS: CaptionKind[] = ['alt', 'description'];
+const METADATA_FIELDS: Record<CaptionKind, 'altTag' | 'description'> = {
+  alt: 'altTag',
+  description: 'description'
+};
+const MAX_RATE_PER_MINUTE = 600;
+
+/** Requests per minute for batch jobs, from `CAPTION_BATCH_RATE_PER_MINUTE` unless a valid override is given. */
+export const getCaptionBatchRate = (override?: unknown) => {
+  const requested = Number(override);
+  if (override !== undefined && Number.isFinite(requested) && requested > 0) {
+    return Math.min(requested, MAX_RATE_PER_MINUTE);
+  }
+  const configured = Number(process.env.CAPTION_BATCH_RATE_PER_MINUTE);
+  return Number.isFinite(configured) && configured > 0 ? Math.min(configured, MAX_RATE_PER_MINUTE) : 20;
+};
+
+const suggestionsStore = createJsonFileStore<CaptionSuggestion[]>({
+  getPath: () => process.env.CAPTION_REVIEW_PATH || path.join(process.cwd(), 'data', 'caption-review.json'),
+  parse: (data) => {
+    const suggestions = (data as { suggestions?: unknown } | undefined)?.suggestions;
+    return Array.isArray(suggestions) ? (suggestions as CaptionSuggestion[]) : [];
+  },
+  serialize: (suggestions) => ({ suggestions }),
+  label: 'captions'
+});
+const readSuggestions = suggestionsStore.read;
+const mutateSuggestions = suggestionsStore.mutate;
+
+export const listCaptionSuggestions = () => readSuggestions();
+
+export const parseCaptionKinds = (value: unknown): CaptionKind[] => {
+  if (value === undefined) return CAPTION_KINDS;
+  const kinds = Array.isArray(value) ? value : [value];
+  if (!kinds.length || kinds.some((kind) => !CAPTION_KINDS.includes(kind as CaptionKind))) {
+    throw new CaptionReviewError('kinds must contain "alt" and/or "description"');
+  }
+  return Array.from(new Set(kinds as CaptionKind[]));
+};
+
+/**
+ * Image and kind pairs in `scope` that are missing that text (or any, with
+ * `overwrite`) and have no suggestion waiting for review. An empty scope
+ * covers the whole library. Responsive derivatives copy their original's
+ * text and are never captioned themselves.
+ */
+export const selectCaptionTargets = async (scope: CaptionBatchScope, kinds: CaptionKind[]) => {
+  const [images, taxonomy, pending] = await Promise.all([getCachedImages(), getTagTaxonomy(), readSuggestions()]);
+  const ids = scope.ids?.length ? new Set(scope.ids) : undefined;
+  const waiting = new Set(pending.map((entry) => `${entry.imageId}:${entry.kind}`));
+  const targets: CaptionTarget[] = [];
+  images.forEach((image) => {
+    if (image.derivative || (ids && !ids.has(image.id))) return;
+    if (scope.folder && !isInFolderSubtree(image.folder, scope.folder)) return;
+    if (scope.tag && !tagsMatch(image.tags, scope.tag, taxonomy)) return;
+    kinds.forEach((kind) => {
+      const current = kind === 'alt' ? image.altTag : image.description;
+      if ((!scope.overwrite && cleanString(current)) || waiting.has(`${image.id}:${kind}`)) return;
+      targets.push({ imageId: image.id, kind });
+    });
+  });
+  return targets;
+};
+
+/** Generates one text and queues it for review. */
+export const createCaptionSuggestion = async (
+  target: CaptionTarget,
+  options: { language?: string; jobId?: string } = {}
+) => {
+  const storage = requireImageStorage();
+  const image = await storage.get(target.imageId);
+  const imageUrl = await getExternallyReadableImageUrl(storage, image);
+  if (!imageUrl) {
+    throw new CaptionReviewError('No accessible image variant found', 422);
+  }
+  const meta = parseCloudflareMetadata(image.meta);
+  const filename = cleanString(image.filename || (meta.filename as string)) ?? image.id;
+  const previous = cleanString(meta[METADATA_FIELDS[target.kind]] as string);
+  const result = await generateCaption({
+    kind: target.kind,
+    imageUrl,
+    namespace: cleanString(meta.namespace as string),
+    language: options.language,
+    context: {
+      filename,
+      folder: cleanString(meta.folder as string),
+      tags: Array.isArray(meta.tags) ? meta.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      description: target.kind === 'description' ? undefined : cleanString(meta.description as string)
+    }
+  });
+  const suggestion: CaptionSuggestion = {
+    id: randomBytes(6).toString('hex'),
+    imageId: image.id,
+    filename,
+    kind: target.kind,
+    text: result.text,
+    ...(previous ? { previous } : {}),
+    provider: result.provider,
+    model: result.model,
+    language: result.language,
+    ...(options.jobId ? { jobId: options.jobId } : {}),
+    createdAt: new Date().toISOString()
+  };
+  await mutateSuggestions((suggestions) => {
+    suggestions.push(suggestion);
+  });
+  return suggestion;
+};
+
+const writeCaption = async (suggestion: CaptionSuggestion, text: string, actor?: ChangeActor | null) => {
+  const storage = requireImageStorage();
+  const image = await storage.get(suggestion.imageId);
+  const existingMeta = parseCloudflareMetadata(image.meta);
+  const updatedMeta = {
+    ...existingMeta,
+    [METADATA_FIELDS[suggestion.kind]]: text,
+    updatedAt: new Date().toISOString()
+  };
+  await storage.patchMetadata(image.id, updatedMeta);
+  await tryRecordMetadataChange({
+    imageId: image.id,
+    before: existingMeta,
+    after: updatedMeta,
+    actor,
+    source: 'caption-review'
+  });
+  upsertCachedImage(
+    transformApiImageToCached({
+      id: image.id,
+      filename: image.filename,
+      uploaded: image.uploaded,
+      variants: image.variants,
+      meta: updatedMeta
+    })
+  );
+};
+
+/**
+ * Approves (writing `text`, or the suggestion as generated, to the image) or
+ * rejects a suggestion. Either way it leaves the queue.
+ */
+export const reviewCaptionSuggestion = (
+  id: string,
+  input: { action: unknown; text?: unknown; actor?: ChangeActor | null }
+) =>
+  mutateSuggestions(async (suggestions) => {
+    const index = suggestions.findIndex((entry) => entry.id === id);
+    if (index === -1) {
+      throw new CaptionReviewError('Suggestion not found', 404);
+    }
+    const suggestion = suggestions[index];
+    if (input.action !== 'approve' && input.action !== 'reject') {
+      throw new CaptionReviewError('action must be "approve" or "reject"');
+    }
+    if (input.action === 'approve') {
+      const edited = typeof input.text === 'string' ? cleanString(input.text) : undefined;
+      const text = input.text === undefined ? suggestion.text : edited;
+      if (!text) {
+        throw new CaptionReviewError('text cannot be empty');
+      }
+      await writeCaption(suggestion, text, input.actor);
+    }
+    suggestions.splice(index, 1);
+    return { ...suggestion, status: input.action === 'approve' ? 'approved' : 'rejected' } as const;
+  });
@@ -0,0 +1,373 @@
+/**
+ * Captioning Provider Abstraction
+ *
+ * ALT text and description generation go through a CaptionProvider, so the
+ * model behind them is a configuration choice: OpenAI, any OpenAI-compatible
+ * chat endpoint with vision (Ollama, llama.cpp server, vLLM) or a
+ * deterministic stub for tests and offline development.
+ *
+ * Prompts come from built-in defaults, optionally overridden per namespace in
+ * a JSON file keyed by namespace (`*` applies to every namespace without its
+ * own entry):
+ *
+ *   { "*": { "language": "English" },
+ *     "acme": { "alt": "Alt text for Acme's catalogue: …", "language": "German" } }
+ *
+ * Templates accept {filename}, {folder}, {tags}, {description}, {draft},
+ * {context} (all of those as labelled lines) and {language}.
+ *
+ * Configuration:
+ *   CAPTION_PROVIDER=openai|local|stub (default: openai)
+ *   OPENAI_API_KEY=... (openai)
+ *   CAPTION_MODEL=gpt-4o-mini (openai; default gpt-4o-mini)
+ *   CAPTION_LOCAL_URL=http://localhost:11434/v1 (local; OpenAI-compatible base URL)
+ *   CAPTION_LOCAL_MODEL=llava (local; default llava)
+ *   CAPTION_LOCAL_API_KEY=... (local; only if the endpoint wants one)
+ *   CAPTION_LANGUAGE=English (default language)
+ *   CAPTION_PROMPTS_PATH=./data/caption-prompts.json
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export type CaptionKind = 'alt' | 'description';
+export type CaptionProviderKind = 'openai' | 'local' | 'stub';
+
+export interface CaptionContext {
+  filename?: string;
+  folder?: string;
+  tags?: string[];
+  /** Stored description */
+  description?: string;
+  /** Unsaved text from the editor */
+  draft?: string;
+}
+
+export interface CaptionRequest {
+  kind: CaptionKind;
+  /** Public URL or data URL of the image */
+  imageUrl: string;
+  namespace?: string;
+  /** Overrides the namespace and configured language */
+  language?: string;
+  context?: CaptionContext;
+}
+
+export interface CaptionPrompt {
+  system: string;
+  user: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface CaptionResult {
+  text: string;
+  provider: CaptionProviderKind;
+  model: string;
+  language: string;
+}
+
+export interface CaptionProvider {
+  readonly kind: CaptionProviderKind;
+  readonly model: string;
+  /** Returns a human readable error when the provider cannot be used. */
+  getConfigurationError(): string | undefined;
+  /** Raw model output for one prompt. */
+  complete(prompt: CaptionPrompt, imageUrl: string, request: CaptionRequest): Promise<string>;
+}
+
+export interface CaptionCostEstimate {
+  provider: CaptionProviderKind;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  /** Upper bound: every response uses its full token allowance */
+  outputTokens: number;
+  /** Undefined when the model's price is unknown */
+  usd?: number;
+}
+
+interface NamespacePrompts {
+  alt?: string;
+  description?: string;
+  language?: string;
+}
+
+export class CaptionError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+    this.name = 'CaptionError';
+  }
+}
+
+const DEFAULT_LANGUAGE = 'English';
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const DEFAULT_PROMPTS: Record<CaptionKind, CaptionPrompt> = {
+  alt: {
+    system:
+      'You are an accessibility assistant. Provide a concise, objective alt text (max 120 characters) that describes the main subject and context of the image. Write it in {language}.',
+    user: 'Describe this image for use as an HTML alt attribute.',
+    temperature: 0.2,
+    maxTokens: 150
+  },
+  description: {
+    system:
+      'You craft expressive yet concise descriptions for creative project galleries. Stay specific, vivid, and professional. Write in {language}.',
+    user: [
+      'Write a very concise description (1 short paragraphs, fewer than 700 characters) for this image used in a design portfolio CMS. Include relevant details that would help with a search for the image and a description of its content and setting.',
+      'If the image presents a familiar object, scene, setting, or person (type of product, interior, landscape, etc.), describe it or them succintly and clearly but avoid generic phrases.',
+      'Highlight the subject, objects, brands, text, setting, visual style. Avoid lists, hashtags, or referencing accessibility requirements.',
+      'Return only the description text without markdown or labels. Return no more than 700 characters',
+      '{context}'
+    ].join('\n\n'),
+    temperature: 0.5,
+    maxTokens: 400
+  }
+};
+
+// USD per million tokens, and what one 1024px image costs in input tokens
+const MODEL_PRICING: Record<string, { input: number; output: number; imageTokens: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6, imageTokens: 25501 },
+  'gpt-4o': { input: 2.5, output: 10, imageTokens: 765 }
+};
+
+const getPromptsPath = () =>
+  process.env.CAPTION_PROMPTS_PATH || path.join(process.cwd(), 'data', 'caption-prompts.json');
+
+const readNamespacePrompts = async (): Promise<Record<string, NamespacePrompts>> => {
+  try {
+    const raw = await fs.readFile(getPromptsPath(), 'utf8');
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('[captioning] Failed to read caption prompts', error);
+    }
+    return {};
+  }
+};
+
+const formatContext = (context: CaptionContext = {}) => {
+  const lines = [
+    context.filename ? `Filename: ${context.filename}` : null,
+    context.folder ? `Folder: ${context.folder}` : null,
+    context.tags?.length ? `Tags: ${context.tags.join(', ')}` : null,
+    context.description ? `Stored description: ${context.description}` : null,
+    context.draft ? `Current working copy: ${context.draft}` : null
+  ].filter(Boolean);
+  return lines.length ? `Context:\n${lines.join('\n')}` : '';
+};
+
+const renderPrompt = (template: string, request: CaptionRequest, language: string) => {
+  const context = request.context ?? {};
+  const values: Record<string, string> = {
+    filename: context.filename ?? '',
+    folder: context.folder ?? '',
+    tags: context.tags?.join(', ') ?? '',
+    description: context.description ?? '',
+    draft: context.draft ?? '',
+    context: formatContext(context),
+    language
+  };
+  return template.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token).trim();
+};
+
+/**
+ * The prompt and language a request would use. A namespace template replaces
+ * the user prompt; the system prompt keeps the built-in wording, which
+ * already asks for the chosen language.
+ */
+export const resolveCaptionPrompt = async (request: CaptionRequest) => {
+  const prompts = await readNamespacePrompts();
+  const specific = (request.namespace && prompts[request.namespace]) || prompts['*'] || {};
+  const fallback = prompts['*'] ?? {};
+  const language =
+    request.language?.trim() ||
+    specific.language ||
+    fallback.language ||
+    process.env.CAPTION_LANGUAGE?.trim() ||
+    DEFAULT_LANGUAGE;
+  const defaults = DEFAULT_PROMPTS[request.kind];
+  const template = specific[request.kind] ?? fallback[request.kind];
+  const prompt: CaptionPrompt = {
+    system: renderPrompt(defaults.system, request, language),
+    user: renderPrompt(template ?? defaults.user, request, language),
+    temperature: defaults.temperature,
+    maxTokens: defaults.maxTokens
+  };
+  return { prompt, language };
+};
+
+// OpenAI puts text in `content`, either a string or an array of parts
+const readMessageText = (payload: unknown) => {
+  const content = (payload as { choices?: Array<{ message?: { content?: unknown } }> })?.choices?.[0]?.message
+    ?.content;
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((chunk: { text?: string }) => chunk?.text || '')
+      .join(' ')
+      .trim();
+  }
+  return undefined;
+};
+
+// Local servers usually cannot fetch remote URLs, so images are inlined
+const toDataUrl = async (imageUrl: string) => {
+  if (imageUrl.startsWith('data:')) return imageUrl;
+  const response = await fetch(imageUrl, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new CaptionError('Failed to download image for captioning', 422);
+  }
+  const contentType = response.headers.get('content-type') || 'image/jpeg';
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return `data:${contentType};base64,${buffer.toString('base64')}`;
+};
+
+class OpenAiCompatibleCaptioner implements CaptionProvider {
+  constructor(
+    readonly kind: 'openai' | 'local',
+    readonly model: string,
+    private readonly baseUrl: string | undefined,
+    private readonly apiKey: string | undefined
+  ) {}
+
+  getConfigurationError() {
+    if (this.kind === 'openai' && !this.apiKey) return 'OpenAI API key not configured';
+    if (this.kind === 'local' && !this.baseUrl) return 'CAPTION_LOCAL_URL not configured';
+    return undefined;
+  }
+
+  async complete(prompt: CaptionPrompt, imageUrl: string) {
+    const url = this.kind === 'local' ? await toDataUrl(imageUrl) : imageUrl;
+    const response = await fetch(`${(this.baseUrl ?? '').replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: prompt.temperature,
+        max_tokens: prompt.maxTokens,
+        messages: [
+          { role: 'system', content: prompt.system },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt.user },
+              { type: 'image_url', image_url: { url } }
+            ]
+          }
+        ]
+      })
+    });
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      console.error(`[captioning] ${this.kind} API error:`, payload);
+      throw new CaptionError(payload?.error?.message || 'Captioning request failed', response.status);
+    }
+    return readMessageText(payload) ?? '';
+  }
+}
+
+/** Same input, same output; no network. */
+class StubCaptioner implements CaptionProvider {
+  readonly kind = 'stub' as const;
+  readonly model = 'stub';
+
+  getConfigurationError() {
+    return undefined;
+  }
+
+  async complete(_prompt: CaptionPrompt, _imageUrl: string, request: CaptionRequest) {
+    const context = request.context ?? {};
+    const subject = (context.filename ?? 'image').replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ');
+    const prefix = request.language && request.language !== DEFAULT_LANGUAGE ? `[${request.language}] ` : '';
+    if (request.kind === 'alt') {
+      return `${prefix}Image of ${subject}`.slice(0, 120);
+    }
+    const details = [
+      context.folder ? `from ${context.folder}` : null,
+      context.tags?.length ? `tagged ${context.tags.join(', ')}` : null
+    ].filter(Boolean);
+    return `${prefix}A picture of ${subject}${details.length ? `, ${details.join(', ')}` : ''}.`;
+  }
+}
+
+export const getCaptionProviderKind = (): CaptionProviderKind => {
+  const configured = process.env.CAPTION_PROVIDER?.trim().toLowerCase();
+  return configured === 'local' || configured === 'stub' ? configured : 'openai';
+};
+
+/** The configured provider; built per call so configuration changes apply without a restart. */
+export function getCaptionProvider(): CaptionProvider {
+  switch (getCaptionProviderKind()) {
+    case 'stub':
+      return new StubCaptioner();
+    case 'local':
+      return new OpenAiCompatibleCaptioner(
+        'local',
+        process.env.CAPTION_LOCAL_MODEL || 'llava',
+        process.env.CAPTION_LOCAL_URL,
+        process.env.CAPTION_LOCAL_API_KEY
+      );
+    case 'openai':
+    default:
+      return new OpenAiCompatibleCaptioner(
+        'openai',
+        process.env.CAPTION_MODEL || 'gpt-4o-mini',
+        OPENAI_BASE_URL,
+        process.env.OPENAI_API_KEY
+      );
+  }
+}
+
+/** Generates ALT text or a description with the configured provider. */
+export async function generateCaption(request: CaptionRequest): Promise<CaptionResult> {
+  const provider = getCaptionProvider();
+  const configError = provider.getConfigurationError();
+  if (configError) {
+    throw new CaptionError(configError, 500);
+  }
+  const { prompt, language } = await resolveCaptionPrompt(request);
+  const raw = await provider.complete(prompt, request.imageUrl, { ...request, language });
+  const text = raw.trim();
+  if (!text || text === 'undefined') {
+    throw new CaptionError(
+      request.kind === 'alt' ? 'Captioning response did not contain ALT text' : 'Captioning response did not contain description text',
+      422
+    );
+  }
+  return { text, provider: provider.kind, model: provider.model, language };
+}
+
+/**
+ * Rough cost of generating `counts` texts with the configured provider,
+ * using the default prompts. Local and stub providers cost nothing.
+ */
+export function estimateCaptionCost(counts: Partial<Record<CaptionKind, number>>): CaptionCostEstimate {
+  const provider = getCaptionProvider();
+  const pricing = provider.kind === 'openai' ? MODEL_PRICING[provider.model] : undefined;
+  let requests = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  (Object.keys(DEFAULT_PROMPTS) as CaptionKind[]).forEach((kind) => {
+    const count = counts[kind] ?? 0;
+    const prompt = DEFAULT_PROMPTS[kind];
+    // About four characters per token
+    const promptTokens = Math.ceil((prompt.system.length + prompt.user.length) / 4);
+    requests += count;
+    inputTokens += count * (promptTokens + (pricing?.imageTokens ?? 0));
+    outputTokens += count * prompt.maxTokens;
+  });
+  const usd =
+    provider.kind !== 'openai'
+      ? 0
+      : pricing
+        ? Math.round(((inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000) * 10000) / 10000
+        : undefined;
+  return { provider: provider.kind, model: provider.model, requests, inputTokens, outputTokens, ...(usd === undefined ? {} : { usd }) };
+}
@@ -0,0 +1,365 @@
+/**
+ * Catalog Export and Import
+ *
+ * A catalog archive is a ZIP with the original bytes of every image under
+ * `images/<id>/<filename>` and a `manifest.json` holding each image's
+ * metadata, the folder list and the namespace registry (namespaces and
+ * quotas). The export streams one image at a time; the import runs as the
+ * `catalog-import` job, reads the archive from disk one entry at a time and
+ * uploads each image into the active storage provider under a new id.
+ * References between images (`variationParentId`, `linkedAssetId`,
+ * `rotatedFromId`) are rewritten to the new ids once all images are in, so
+ * parent/child variations survive the move.
+ */
+
+import { cleanString, parseCloudflareMetadata, type CloudflareMetadata } from '@/utils/cloudflareMetadata';
+import { addFolder, listStoredFolders } from '@/utils/folderStore';
+import {
+  getCachedImages,
+  getTrashedImages,
+  transformApiImageToCached,
+  upsertCachedImage,
+  type CachedCloudflareImage
+} from './cloudflareImageCache';
+import { recordImageFeatures } from './imageSimilarity';
+import { requireImageStorage } from './imageStorage';
+import {
+  listNamespaceQuotas,
+  listRegistryNamespaces,
+  normalizeNamespace,
+  setNamespaceQuota,
+  upsertRegistryNamespace,
+  type NamespaceQuota
+} from './namespaceRegistry';
+import { openZipFile, type ZipEntry, type ZipFile } from './zipStream';
+
+export const CATALOG_ARCHIVE_FORMAT = 'photarium-catalog';
+export const CATALOG_ARCHIVE_VERSION = 1;
+export const CATALOG_MANIFEST_NAME = 'manifest.json';
+
+// Metadata fields holding another image's id
+const IMAGE_REFERENCE_FIELDS = ['variationParentId', 'linkedAssetId', 'rotatedFromId'] as const;
+
+export interface CatalogManifestImage {
+  id: string;
+  filename: string;
+  uploaded: string;
+  /** Archive path of the original bytes; missing when they could not be read */
+  file?: string;
+  contentType?: string;
+  size?: number;
+  metadata: CloudflareMetadata;
+  error?: string;
+}
+
+export interface CatalogManifest {
+  format: typeof CATALOG_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Set when only one namespace was exported */
+  namespace?: string;
+  images: CatalogManifestImage[];
+  folders: string[];
+  namespaces: {
+    namespaces: string[];
+    quotas: Record<string, NamespaceQuota>;
+  };
+}
+
+export interface CatalogImportResult {
+  imported: number;
+  skipped: number;
+  failed: { id: string; error: string }[];
+  /** Images whose references to other images were rewritten */
+  linked: number;
+  /** Old id → new id, including skipped images that matched an existing one */
+  idMap: Record<string, string>;
+}
+
+export interface CatalogImportCheckpoint {
+  idMap: Record<string, string>;
+  /** Old ids that matched an image already in this library */
+  skippedIds: string[];
+  failed: { id: string; error: string }[];
+}
+
+export class CatalogArchiveError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'CatalogArchiveError';
+  }
+}
+
+const archiveFileName = (image: CachedCloudflareImage) => {
+  const safeName = (image.filename || image.id).replace(/[\\/]/g, '_').replace(/^\.+/, '') || image.id;
+  return `images/${image.id}/${safeName}`;
+};
+
+const selectExportImages = async (options: { namespace?: string; includeTrashed?: boolean }) => {
+  const images = [
+    ...(await getCachedImages()),
+    ...(options.includeTrashed === false ? [] : await getTrashedImages())
+  ];
+  if (options.namespace === undefined) return images;
+  const namespace = normalizeNamespace(options.namespace);
+  return images.filter((image) => (image.namespace ?? '') === namespace);
+};
+
+/**
+ * Archive entries for the export: one per image, then the manifest (last, so
+ * it can list images whose bytes could not be fetched).
+ */
+export async function* catalogArchiveEntries(
+  options: { namespace?: string; includeTrashed?: boolean } = {}
+): AsyncGenerator<ZipEntry> {
+  const storage = requireImageStorage();
+  const images = await selectExportImages(options);
+  const manifestImages: CatalogManifestImage[] = [];
+
+  for (const cached of images) {
+    try {
+      const image = await storage.get(cached.id);
+      const metadata = parseCloudflareMetadata(image.meta);
+      const { buffer, contentType } = await storage.fetchVariant(image, 'public');
+      const file = archiveFileName(cached);
+      manifestImages.push({
+        id: image.id,
+        filename: image.filename || cached.filename,
+        uploaded: image.uploaded,
+        file,
+        contentType: cleanString(metadata.type as string) || contentType,
+        size: buffer.byteLength,
+        metadata
+      });
+      yield { name: file, data: buffer, modifiedAt: new Date(image.uploaded) };
+    } catch (error) {
+      console.warn('[catalog-export] Failed to read image', { id: cached.id, error: String(error) });
+      manifestImages.push({
+        id: cached.id,
+        filename: cached.filename,
+        uploaded: cached.uploaded,
+        metadata: {},
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  const manifest: CatalogManifest = {
+    format: CATALOG_ARCHIVE_FORMAT,
+    version: CATALOG_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(options.namespace !== undefined ? { namespace: normalizeNamespace(options.namespace) } : {}),
+    images: manifestImages,
+    folders: await listStoredFolders(),
+    namespaces: {
+      namespaces: await listRegistryNamespaces(),
+      quotas: await listNamespaceQuotas()
+    }
+  };
+  yield { name: CATALOG_MANIFEST_NAME, data: Buffer.from(JSON.stringify(manifest, null, 2)), compress: true };
+}
+
+const openCatalogZip = async (filePath: string) => {
+  try {
+    return await openZipFile(filePath);
+  } catch {
+    throw new CatalogArchiveError('Archive is not a valid ZIP file');
+  }
+};
+
+const readManifest = async (zip: ZipFile) => {
+  let data: Buffer | undefined;
+  try {
+    data = await zip.read(CATALOG_MANIFEST_NAME);
+  } catch {
+    throw new CatalogArchiveError(`${CATALOG_MANIFEST_NAME} could not be read`);
+  }
+  if (!data) {
+    throw new CatalogArchiveError(`Archive has no ${CATALOG_MANIFEST_NAME}`);
+  }
+  let manifest: CatalogManifest;
+  try {
+    manifest = JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new CatalogArchiveError(`${CATALOG_MANIFEST_NAME} is not valid JSON`);
+  }
+  if (manifest?.format !== CATALOG_ARCHIVE_FORMAT || !Array.isArray(manifest.images)) {
+    throw new CatalogArchiveError('Archive is not a Photarium catalog export');
+  }
+  if (manifest.version > CATALOG_ARCHIVE_VERSION) {
+    throw new CatalogArchiveError(`Unsupported catalog version ${manifest.version}`);
+  }
+  return manifest;
+};
+
+/** Validates an archive on disk and returns its manifest, without reading any image bytes. */
+export const readCatalogManifest = async (filePath: string) => {
+  const zip = await openCatalogZip(filePath);
+  try {
+    return await readManifest(zip);
+  } finally {
+    await zip.close();
+  }
+};
+
+// Folders and namespaces are merged; quotas only fill in namespaces that have none
+const restoreCatalogSettings = async (manifest: CatalogManifest) => {
+  const folders = new Set(await listStoredFolders());
+  for (const folder of manifest.folders ?? []) {
+    if (typeof folder === 'string' && folder.trim() && !folders.has(folder.trim())) {
+      await addFolder(folder);
+      folders.add(folder.trim());
+    }
+  }
+  const existingQuotas = await listNamespaceQuotas();
+  for (const namespace of manifest.namespaces?.namespaces ?? []) {
+    await upsertRegistryNamespace(namespace);
+  }
+  for (const [namespace, quota] of Object.entries(manifest.namespaces?.quotas ?? {})) {
+    if (!existingQuotas[namespace]) {
+      await setNamespaceQuota(namespace, quota);
+    }
+  }
+};
+
+const withoutReferences = (metadata: CloudflareMetadata) => {
+  const next: Record<string, unknown> = { ...metadata };
+  IMAGE_REFERENCE_FIELDS.forEach((field) => delete next[field]);
+  return next;
+};
+
+// References to images outside the archive are dropped
+const remapReferences = (metadata: CloudflareMetadata, idMap: Record<string, string>) => {
+  const references: Record<string, string> = {};
+  IMAGE_REFERENCE_FIELDS.forEach((field) => {
+    const value = cleanString(metadata[field] as string);
+    if (value && idMap[value]) {
+      references[field] = idMap[value];
+    }
+  });
+  return references;
+};
+
+const findExistingCopy = (existing: CachedCloudflareImage[], metadata: CloudflareMetadata) => {
+  const hash = cleanString(metadata.contentHash as string);
+  if (!hash) return undefined;
+  const namespace = normalizeNamespace(metadata.namespace as string);
+  return existing.find((image) => image.contentHash === hash && (image.namespace ?? '') === namespace);
+};
+
+interface CatalogImportOptions {
+  skipExisting?: boolean;
+  checkpoint?: CatalogImportCheckpoint;
+  onProgress?: (checkpoint: CatalogImportCheckpoint, done: number, total: number) => Promise<void>;
+  throwIfCancelled?: () => void;
+}
+
+const importEntries = async (
+  zip: ZipFile,
+  manifest: CatalogManifest,
+  options: CatalogImportOptions
+): Promise<CatalogImportResult> => {
+  const storage = requireImageStorage();
+  const done: CatalogImportCheckpoint = {
+    idMap: { ...(options.checkpoint?.idMap ?? {}) },
+    skippedIds: [...(options.checkpoint?.skippedIds ?? [])],
+    failed: [...(options.checkpoint?.failed ?? [])]
+  };
+  const finished = new Set([...Object.keys(done.idMap), ...done.failed.map((entry) => entry.id)]);
+
+  await restoreCatalogSettings(manifest);
+  const existing = options.skipExisting ? await getCachedImages() : [];
+
+  for (const entry of manifest.images) {
+    if (finished.has(entry.id)) continue;
+    options.throwIfCancelled?.();
+    const copy = options.skipExisting ? findExistingCopy(existing, entry.metadata) : undefined;
+    if (copy) {
+      done.idMap[entry.id] = copy.id;
+      done.skippedIds.push(entry.id);
+    } else {
+      try {
+        const data = entry.file ? await zip.read(entry.file) : undefined;
+        if (!data) {
+          throw new Error(entry.error || 'Image bytes are missing from the archive');
+        }
+        const metadata = withoutReferences(entry.metadata);
+        const stored = await storage.upload({
+          buffer: data,
+          filename: entry.filename,
+          contentType: entry.contentType || 'application/octet-stream',
+          metadata
+        });
+        upsertCachedImage(
+          transformApiImageToCached({
+            id: stored.id,
+            filename: stored.filename,
+            uploaded: stored.uploaded,
+            variants: stored.variants,
+            meta: stored.meta ?? metadata
+          })
+        );
+        try {
+          await recordImageFeatures(stored.id, data, cleanString(metadata.perceptualHash as string));
+        } catch (error) {
+          console.warn('[catalog-import] Failed to compute similarity features', { id: stored.id, error: String(error) });
+        }
+        done.idMap[entry.id] = stored.id;
+      } catch (error) {
+        done.failed.push({ id: entry.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    finished.add(entry.id);
+    await options.onProgress?.(done, finished.size, manifest.images.length);
+  }
+
+  // Second pass: point uploaded images at the new ids of the images they reference
+  const skipped = new Set(done.skippedIds);
+  let linked = 0;
+  for (const entry of manifest.images) {
+    const newId = done.idMap[entry.id];
+    if (!newId || skipped.has(entry.id)) continue;
+    const references = remapReferences(entry.metadata, done.idMap);
+    if (!Object.keys(references).length) continue;
+    options.throwIfCancelled?.();
+    const stored = await storage.get(newId);
+    const metadata = { ...parseCloudflareMetadata(stored.meta), ...references };
+    await storage.patchMetadata(newId, metadata);
+    upsertCachedImage(
+      transformApiImageToCached({
+        id: stored.id,
+        filename: stored.filename,
+        uploaded: stored.uploaded,
+        variants: stored.variants,
+        meta: metadata
+      })
+    );
+    linked += 1;
+  }
+
+  return {
+    imported: Object.keys(done.idMap).length - done.skippedIds.length,
+    skipped: done.skippedIds.length,
+    failed: done.failed,
+    linked,
+    idMap: done.idMap
+  };
+};
+
+/**
+ * Uploads every image in the archive, reading one image's bytes at a time.
+ * Images recorded in `checkpoint` by an earlier attempt are not uploaded
+ * again; `onProgress` receives the updated checkpoint after each image so
+ * callers can persist it.
+ */
+export const importCatalogArchive = async (
+  filePath: string,
+  options: CatalogImportOptions = {}
+): Promise<CatalogImportResult> => {
+  const zip = await openCatalogZip(filePath);
+  try {
+    return await importEntries(zip, await readManifest(zip), options);
+  } finally {
+    await zip.close();
+  }
+};
@@ -0,0 +1,264 @@
+/**
+ * Metadata Change Log
+ *
+ * Append-only history of metadata edits, one JSON Lines file per image in a
+ * local directory (kept apart from the image cache, which can be cleared at any
+ * time). Every entry records who made the change, when, through which route,
+ * and the tracked fields before and after, so any earlier version can be
+ * restored (`revertImageMetadata`), which is itself logged as a new entry.
+ *
+ * Configuration:
+ *   CHANGE_LOG_DIR=./data/change-log
+ */
+
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { CLOUDFLARE_METADATA_FIELDS, parseCloudflareMetadata, type CloudflareMetadata } from '@/utils/cloudflareMetadata';
+import { normalizeOriginalUrl } from '@/utils/urlNormalization';
+import { transformApiImageToCached, upsertCachedImage } from './cloudflareImageCache';
+import { requireImageStorage } from './imageStorage';
+import type { AuthActor } from './auth';
+
+export type ChangeSource =
+  | 'update'
+  | 'alt'
+  | 'rotate'
+  | 'folder-rename'
+  | 'folder-delete'
+  | 'tag-rename'
+  | 'caption-review'
+  | 'trash'
+  | 'restore'
+  | 'revert';
+
+export interface ChangeActor {
+  type: AuthActor['type'] | 'anonymous';
+  id: string;
+  name: string;
+}
+
+export interface FieldChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ChangeLogEntry {
+  id: string;
+  imageId: string;
+  at: string;
+  actor: ChangeActor;
+  source: ChangeSource;
+  changes: Record<string, FieldChange>;
+  /** Tracked fields before and after the change */
+  before: CloudflareMetadata;
+  after: CloudflareMetadata;
+  /** Set on reverts: the entry whose version was restored */
+  revertOf?: string;
+}
+
+export class ChangeLogError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ChangeLogError';
+  }
+}
+
+// Derived or machine-computed fields are not user edits
+const UNTRACKED_FIELDS = new Set([
+  'updatedAt',
+  'originalUrlNormalized',
+  'sourceUrlNormalized',
+  'contentHash',
+  'perceptualHash',
+  'dominantColors',
+  'exif'
+]);
+export const TRACKED_FIELDS = CLOUDFLARE_METADATA_FIELDS.filter((field) => !UNTRACKED_FIELDS.has(field));
+
+const ANONYMOUS_ACTOR: ChangeActor = { type: 'anonymous', id: 'anonymous', name: 'Anonymous' };
+
+const getChangeLogDir = () => process.env.CHANGE_LOG_DIR || path.join(process.cwd(), 'data', 'change-log');
+
+const getHistoryPath = (imageId: string) => {
+  if (!/^[a-zA-Z0-9_-]+$/.test(imageId)) {
+    throw new ChangeLogError(`Invalid image id: ${imageId}`);
+  }
+  return path.join(getChangeLogDir(), `${imageId}.jsonl`);
+};
+
+const GLOBAL_APPENDS_KEY = Symbol.for('cloudflare.image.changeLogAppends');
+const globalObject = globalThis as typeof globalThis & {
+  [GLOBAL_APPENDS_KEY]?: Map<string, Promise<unknown>>;
+};
+// Appends for the same image run one after another
+const pendingAppends = globalObject[GLOBAL_APPENDS_KEY] ?? new Map<string, Promise<unknown>>();
+if (!globalObject[GLOBAL_APPENDS_KEY]) {
+  globalObject[GLOBAL_APPENDS_KEY] = pendingAppends;
+}
+
+// Accepts an `AuthActor`; only who it was is kept, not its scopes
+export const toChangeActor = (actor?: ChangeActor | null): ChangeActor =>
+  actor ? { type: actor.type, id: actor.id, name: actor.name } : ANONYMOUS_ACTOR;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const snapshot = (meta: Record<string, unknown>): CloudflareMetadata => {
+  const tracked: Record<string, unknown> = {};
+  TRACKED_FIELDS.forEach((field) => {
+    if (!isEmpty(meta[field])) {
+      tracked[field] = meta[field];
+    }
+  });
+  return tracked as CloudflareMetadata;
+};
+
+/** Field-by-field differences; unset, null, '' and [] count as the same. */
+export const diffMetadata = (before: Record<string, unknown>, after: Record<string, unknown>) => {
+  const changes: Record<string, FieldChange> = {};
+  TRACKED_FIELDS.forEach((field) => {
+    const previous = isEmpty(before[field]) ? undefined : before[field];
+    const next = isEmpty(after[field]) ? undefined : after[field];
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  });
+  return changes;
+};
+
+/** Newest first. A line cut short by a crash mid-append is skipped. */
+export const getImageHistory = async (imageId: string): Promise<ChangeLogEntry[]> => {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getHistoryPath(imageId), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof ChangeLogError) {
+      return [];
+    }
+    throw error;
+  }
+  const entries: ChangeLogEntry[] = [];
+  raw.split('\n').forEach((line) => {
+    if (!line.trim()) return;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      console.warn('[change-log] Skipping unreadable entry', { imageId });
+    }
+  });
+  return entries.reverse();
+};
+
+/**
+ * Appends an entry when `before` and `after` differ in a tracked field.
+ * Returns the entry, or null when nothing changed.
+ */
+export const recordMetadataChange = async (input: {
+  imageId: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  actor?: ChangeActor | null;
+  source: ChangeSource;
+  revertOf?: string;
+}): Promise<ChangeLogEntry | null> => {
+  const changes = diffMetadata(input.before, input.after);
+  if (!Object.keys(changes).length) {
+    return null;
+  }
+  const entry: ChangeLogEntry = {
+    id: randomUUID(),
+    imageId: input.imageId,
+    at: new Date().toISOString(),
+    actor: toChangeActor(input.actor),
+    source: input.source,
+    changes,
+    before: snapshot(input.before),
+    after: snapshot(input.after),
+    ...(input.revertOf ? { revertOf: input.revertOf } : {})
+  };
+
+  const key = getHistoryPath(input.imageId);
+  const previous = pendingAppends.get(key) ?? Promise.resolve();
+  const append = previous
+    .catch(() => undefined)
+    .then(async () => {
+      await fs.mkdir(path.dirname(key), { recursive: true });
+      await fs.appendFile(key, JSON.stringify(entry) + '\n', 'utf8');
+    });
+  pendingAppends.set(key, append);
+  try {
+    await append;
+  } finally {
+    if (pendingAppends.get(key) === append) {
+      pendingAppends.delete(key);
+    }
+  }
+  return entry;
+};
+
+/** Logging must not fail the edit that was already saved. */
+export const tryRecordMetadataChange = async (input: Parameters<typeof recordMetadataChange>[0]) => {
+  try {
+    return await recordMetadataChange(input);
+  } catch (error) {
+    console.warn('[change-log] Failed to record change', { imageId: input.imageId, error: String(error) });
+    return null;
+  }
+};
+
+/**
+ * Restores the tracked fields to their state before (default) or after the
+ * given change. Untracked fields such as hashes and EXIF are left alone.
+ */
+export const revertImageMetadata = async (
+  imageId: string,
+  changeId: string,
+  options: { state?: 'before' | 'after'; actor?: ChangeActor | null } = {}
+) => {
+  const history = await getImageHistory(imageId);
+  const target = history.find((entry) => entry.id === changeId);
+  if (!target) {
+    throw new ChangeLogError('Change not found', 404);
+  }
+  const version = options.state === 'after' ? target.after : target.before;
+
+  const storage = requireImageStorage();
+  const image = await storage.get(imageId);
+  const current = parseCloudflareMetadata(image.meta);
+  const metadata: Record<string, unknown> = { ...current, updatedAt: new Date().toISOString() };
+  TRACKED_FIELDS.forEach((field) => {
+    if (Object.prototype.hasOwnProperty.call(version, field)) {
+      metadata[field] = version[field];
+    } else {
+      delete metadata[field];
+    }
+  });
+
+  // Derived fields follow the restored URLs
+  metadata.originalUrlNormalized = normalizeOriginalUrl(metadata.originalUrl as string | undefined) ?? '';
+  metadata.sourceUrlNormalized = normalizeOriginalUrl(metadata.sourceUrl as string | undefined) ?? '';
+  if (!Object.keys(diffMetadata(current, metadata)).length) {
+    return { entry: null, metadata: current };
+  }
+
+  await storage.patchMetadata(imageId, metadata);
+  upsertCachedImage(
+    transformApiImageToCached({
+      id: image.id,
+      filename: image.filename,
+      uploaded: image.uploaded,
+      variants: image.variants,
+      meta: metadata
+    })
+  );
+  const entry = await recordMetadataChange({
+    imageId,
+    before: current,
+    after: metadata,
+    actor: options.actor,
+    source: 'revert',
+    revertOf: target.id
+  });
+  return { entry, metadata };
+};
@@ -0,0 +1,343 @@
+/**
+ * Cloudflare Images Emulator
+ *
+ * In-process stand-in for the Cloudflare Images v1 endpoints the app uses, so
+ * routes can run end-to-end in tests and offline development:
+ *   GET    /client/v4/accounts/:account/images/v1?page=&per_page=
+ *   POST   /client/v4/accounts/:account/images/v1            (multipart upload)
+ *   GET    /client/v4/accounts/:account/images/v1/:id
+ *   PATCH  /client/v4/accounts/:account/images/v1/:id        (JSON { metadata })
+ *   DELETE /client/v4/accounts/:account/images/v1/:id
+ *   GET    /delivery/:hash/:id/:variant                      (imagedelivery.net layout)
+ *
+ * Point the app at it with:
+ *   CLOUDFLARE_API_BASE_URL=<emulator>/client/v4
+ *   NEXT_PUBLIC_IMAGE_DELIVERY_BASE_URL=<emulator>/delivery
+ *
+ * `startCloudflareEmulator()` serves it over HTTP on 127.0.0.1 for tests; with
+ * CLOUDFLARE_EMULATOR=true the dev server also mounts it at /api/cloudflare-emulator.
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import type { StoredImage } from './imageStorage';
+import { renderVariant } from './variantRenderer';
+
+// Cloudflare rejects metadata payloads above this size
+const METADATA_LIMIT_BYTES = 1024;
+const DEFAULT_PER_PAGE = 1000;
+const NAMED_VARIANTS = ['public', 'thumbnail'];
+
+export interface EmulatedImage {
+  id: string;
+  filename: string;
+  uploaded: string;
+  contentType: string;
+  bytes: Buffer;
+  meta: Record<string, unknown>;
+}
+
+export interface CloudflareEmulatorOptions {
+  accountId?: string;
+  accountHash?: string;
+  deliveryBaseUrl?: string;
+}
+
+type CloudflareError = { code: number; message: string };
+
+const envelope = (result: unknown, status = 200) =>
+  Response.json({ success: true, errors: [], messages: [], result }, { status });
+
+const failure = (status: number, error: CloudflareError) =>
+  Response.json({ success: false, errors: [error], messages: [], result: null }, { status });
+
+const parsePositiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export class CloudflareImagesEmulator {
+  readonly accountId: string;
+  readonly accountHash: string;
+  deliveryBaseUrl: string;
+  private images = new Map<string, EmulatedImage>();
+  // Monotonic counter keeps list order stable when uploads share a timestamp
+  private sequence = new Map<string, number>();
+  private nextSequence = 0;
+
+  constructor(options: CloudflareEmulatorOptions = {}) {
+    this.accountId = options.accountId ?? 'emulator-account';
+    this.accountHash = options.accountHash ?? 'emulator-hash';
+    this.deliveryBaseUrl = options.deliveryBaseUrl ?? '/delivery';
+  }
+
+  reset() {
+    this.images.clear();
+    this.sequence.clear();
+    this.nextSequence = 0;
+  }
+
+  getImage(imageId: string): EmulatedImage | undefined {
+    return this.images.get(imageId);
+  }
+
+  listImages(): EmulatedImage[] {
+    return Array.from(this.images.values()).sort(
+      (a, b) => (this.sequence.get(b.id) ?? 0) - (this.sequence.get(a.id) ?? 0)
+    );
+  }
+
+  deleteImage(imageId: string): boolean {
+    this.sequence.delete(imageId);
+    return this.images.delete(imageId);
+  }
+
+  /** Seed an image directly, bypassing the HTTP API. */
+  addImage(input: Omit<EmulatedImage, 'id' | 'uploaded'> & { id?: string; uploaded?: string }): EmulatedImage {
+    const image: EmulatedImage = {
+      ...input,
+      id: input.id ?? randomUUID(),
+      uploaded: input.uploaded ?? new Date().toISOString()
+    };
+    this.images.set(image.id, image);
+    this.sequence.set(image.id, this.nextSequence++);
+    return image;
+  }
+
+  private toApiImage(image: EmulatedImage): StoredImage & { requireSignedURLs: boolean } {
+    return {
+      id: image.id,
+      filename: image.filename,
+      uploaded: image.uploaded,
+      requireSignedURLs: false,
+      variants: NAMED_VARIANTS.map(
+        (variant) => `${this.deliveryBaseUrl}/${this.accountHash}/${image.id}/${variant}`
+      ),
+      meta: image.meta,
+      size: image.bytes.byteLength
+    };
+  }
+
+  /**
+   * Fetch-style entry point. `request.url` may carry any prefix before
+   * `/client/v4` or `/delivery` (e.g. when mounted under a Next route).
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const apiMatch = url.pathname.match(/\/client\/v4\/accounts\/([^/]+)\/images\/v1(?:\/([^/]+))?\/?$/);
+    if (apiMatch) {
+      return this.handleApi(request, url, apiMatch[1], apiMatch[2]);
+    }
+    const deliveryMatch = url.pathname.match(/\/delivery\/([^/]+)\/([^/]+)\/([^/]+)\/?$/);
+    if (deliveryMatch) {
+      return this.handleDelivery(request, url, deliveryMatch[1], deliveryMatch[2], deliveryMatch[3]);
+    }
+    return failure(404, { code: 7003, message: 'No route for that URI' });
+  }
+
+  private async handleApi(request: Request, url: URL, accountId: string, imageId?: string) {
+    if (!request.headers.get('authorization')?.startsWith('Bearer ')) {
+      return failure(401, { code: 10000, message: 'Authentication error' });
+    }
+    if (accountId !== this.accountId) {
+      return failure(403, { code: 10000, message: 'Authentication error' });
+    }
+
+    if (!imageId) {
+      if (request.method === 'GET') {
+        const page = parsePositiveInt(url.searchParams.get('page'), 1);
+        const perPage = parsePositiveInt(url.searchParams.get('per_page'), DEFAULT_PER_PAGE);
+        const start = (page - 1) * perPage;
+        const images = this.listImages().slice(start, start + perPage).map((image) => this.toApiImage(image));
+        return envelope({ images });
+      }
+      if (request.method === 'POST') {
+        return this.handleUpload(request);
+      }
+      return failure(405, { code: 10405, message: 'Method not allowed' });
+    }
+
+    const image = this.images.get(imageId);
+    if (!image) {
+      return failure(404, { code: 5404, message: 'Image not found' });
+    }
+
+    switch (request.method) {
+      case 'GET':
+        return envelope(this.toApiImage(image));
+      case 'PATCH': {
+        const body = await request.json().catch(() => null);
+        if (body && typeof body.metadata === 'object' && body.metadata !== null) {
+          const error = this.validateMetadata(body.metadata);
+          if (error) {
+            return failure(400, error);
+          }
+          image.meta = body.metadata;
+        }
+        return envelope(this.toApiImage(image));
+      }
+      case 'DELETE':
+        this.deleteImage(imageId);
+        return envelope({});
+      default:
+        return failure(405, { code: 10405, message: 'Method not allowed' });
+    }
+  }
+
+  private validateMetadata(metadata: unknown): CloudflareError | undefined {
+    if (Buffer.byteLength(JSON.stringify(metadata), 'utf8') > METADATA_LIMIT_BYTES) {
+      return { code: 5411, message: 'Metadata must be less than 1024 bytes' };
+    }
+    return undefined;
+  }
+
+  private async handleUpload(request: Request) {
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return failure(400, { code: 5400, message: 'Bad request: expected multipart/form-data' });
+    }
+    const file = formData.get('file');
+    if (!(file instanceof Blob)) {
+      return failure(400, { code: 5400, message: 'Bad request: file is required' });
+    }
+
+    let meta: Record<string, unknown> = {};
+    const rawMetadata = formData.get('metadata');
+    if (typeof rawMetadata === 'string' && rawMetadata.trim()) {
+      try {
+        meta = JSON.parse(rawMetadata);
+      } catch {
+        return failure(400, { code: 5400, message: 'Bad request: metadata must be valid JSON' });
+      }
+      const error = this.validateMetadata(meta);
+      if (error) {
+        return failure(400, error);
+      }
+    }
+
+    const requestedId = formData.get('id');
+    if (typeof requestedId === 'string' && this.images.has(requestedId)) {
+      return failure(409, { code: 5409, message: 'Resource already exists' });
+    }
+
+    const image = this.addImage({
+      id: typeof requestedId === 'string' && requestedId ? requestedId : undefined,
+      filename: file instanceof File && file.name ? file.name : 'upload',
+      contentType: file.type || 'application/octet-stream',
+      bytes: Buffer.from(await file.arrayBuffer()),
+      meta
+    });
+    return envelope(this.toApiImage(image));
+  }
+
+  private async handleDelivery(request: Request, url: URL, hash: string, imageId: string, variant: string) {
+    const image = this.images.get(imageId);
+    if (hash !== this.accountHash || !image) {
+      return new Response('Not found', { status: 404 });
+    }
+    const rendered = await renderVariant(
+      { buffer: image.bytes, contentType: image.contentType },
+      variant,
+      url.searchParams.get('format')
+    );
+    const headers = {
+      'Content-Type': rendered.contentType,
+      'Content-Length': rendered.buffer.byteLength.toString()
+    };
+    if (request.method === 'HEAD') {
+      return new Response(null, { headers });
+    }
+    return new Response(new Uint8Array(rendered.buffer), { headers });
+  }
+}
+
+export interface RunningCloudflareEmulator {
+  emulator: CloudflareImagesEmulator;
+  url: string;
+  /** Environment variables that point the app at this emulator. */
+  env: Record<string, string>;
+  stop(): Promise<void>;
+}
+
+const readBody = (req: http.IncomingMessage) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+/**
+ * Serve an emulator over HTTP on a random local port.
+ */
+export async function startCloudflareEmulator(
+  options: Omit<CloudflareEmulatorOptions, 'deliveryBaseUrl'> = {}
+): Promise<RunningCloudflareEmulator> {
+  const emulator = new CloudflareImagesEmulator(options);
+  const server = http.createServer(async (req, res) => {
+    try {
+      const body = await readBody(req);
+      const headers = new Headers();
+      Object.entries(req.headers).forEach(([key, value]) => {
+        if (typeof value === 'string') headers.set(key, value);
+        else if (Array.isArray(value)) headers.set(key, value.join(', '));
+      });
+      const method = req.method ?? 'GET';
+      const response = await emulator.handle(
+        new Request(`http://${req.headers.host}${req.url}`, {
+          method,
+          headers,
+          body: method === 'GET' || method === 'HEAD' ? undefined : new Uint8Array(body)
+        })
+      );
+      res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      console.error('[cloudflare-emulator] Request failed', error);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: false, errors: [{ code: 500, message: 'Emulator error' }] }));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+  emulator.deliveryBaseUrl = `${url}/delivery`;
+
+  return {
+    emulator,
+    url,
+    env: {
+      CLOUDFLARE_ACCOUNT_ID: emulator.accountId,
+      CLOUDFLARE_API_TOKEN: 'emulator-token',
+      CLOUDFLARE_API_BASE_URL: `${url}/client/v4`,
+      NEXT_PUBLIC_CLOUDFLARE_ACCOUNT_HASH: emulator.accountHash,
+      NEXT_PUBLIC_IMAGE_DELIVERY_BASE_URL: `${url}/delivery`
+    },
+    stop: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      })
+  };
+}
+
+// Dev-server singleton so uploads survive hot reloads of the emulator route
+const GLOBAL_EMULATOR_KEY = Symbol.for('cloudflare.images.emulator');
+
+export const getSharedCloudflareEmulator = (deliveryBaseUrl: string): CloudflareImagesEmulator => {
+  const globalObject = globalThis as typeof globalThis & {
+    [GLOBAL_EMULATOR_KEY]?: CloudflareImagesEmulator;
+  };
+  if (!globalObject[GLOBAL_EMULATOR_KEY]) {
+    globalObject[GLOBAL_EMULATOR_KEY] = new CloudflareImagesEmulator({
+      accountId: process.env.CLOUDFLARE_ACCOUNT_ID,
+      accountHash: process.env.NEXT_PUBLIC_CLOUDFLARE_ACCOUNT_HASH
+    });
+  }
+  globalObject[GLOBAL_EMULATOR_KEY].deliveryBaseUrl = deliveryBaseUrl;
+  return globalObject[GLOBAL_EMULATOR_KEY];
+};
@@ -1,6 +1,12 @@
-import { cleanString, parseCloudflareMetadata } from '@/utils/cloudflareMetadata';
+import { cleanString } from '@/utils/cloudflareMetadata';
 import { normalizeOriginalUrl } from '@/utils/urlNormalization';
+import { normalizeDominantColors, type DominantColor } from '@/utils/colorPalette';
+import { normalizePerceptualHash } from '@/utils/perceptualHash';
+import { parseDerivativeInfo, type DerivativeInfo } from '@/utils/responsiveImages';
 import { getCacheStorage, type ICacheStorage } from './cacheStorage';
+import { requireImageStorage } from './imageStorage';
+import { mergeSidecarMetadata } from './metadataSidecar';
+import { invalidateSearchIndex, removeFromSearchIndex, updateSearchIndex } from './searchIndex';
 
 interface CloudflareImageApiResponse {
   id: string;
@@ -24,12 +30,20 @@ export interface CachedCloudflareImage {
   sourceUrlNormalized?: string;
   namespace?: string;
   contentHash?: string;
+  perceptualHash?: string;
+  dominantColors?: DominantColor[];
   altTag?: string;
   displayName?: string;
   exif?: Record<string, string | number>;
+  /** Stored bytes as recorded at upload (missing for older images) */
+  size?: number;
+  /** Set while the image is in the trash */
+  deletedAt?: string;
   parentId?: string;
   linkedAssetId?: string;
   variationSort?: number;
+  /** Set on responsive derivatives generated from `parentId` */
+  derivative?: DerivativeInfo;
 }
 
 interface CacheState {
@@ -83,7 +97,8 @@ const getStorage = (): ICacheStorage => {
 };
 
 const transformImage = (image: CloudflareImageApiResponse): CachedCloudflareImage => {
-  const parsedMeta = parseCloudflareMetadata(image.meta);
+  // Full metadata lives in the sidecar when Cloudflare only holds a compact copy
+  const parsedMeta = mergeSidecarMetadata(image.id, image.meta);
   const cleanFolder =
     parsedMeta.folder && parsedMeta.folder !== 'undefined' ? parsedMeta.folder : undefined;
   const cleanTags = Array.isArray(parsedMeta.tags)
@@ -127,6 +142,8 @@ const transformImage = (image: CloudflareImageApiResponse): CachedCloudflareImag
     parsedMeta.contentHash && parsedMeta.contentHash !== 'undefined'
       ? parsedMeta.contentHash
       : undefined;
+  const cleanPerceptualHash = normalizePerceptualHash(parsedMeta.perceptualHash);
+  const cleanDominantColors = normalizeDominantColors(parsedMeta.dominantColors);
   const cleanExif =
     parsedMeta.exif && typeof parsedMeta.exif === 'object' && !Array.isArray(parsedMeta.exif)
       ? (parsedMeta.exif as Record<string, string | number>)
@@ -141,8 +158,12 @@ const transformImage = (image: CloudflareImageApiResponse): CachedCloudflareImag
     }
     return undefined;
   })();
+  const cleanDeletedAt = cleanString(parsedMeta.deletedAt);
+  const cleanSize =
+    typeof parsedMeta.size === 'number' && Number.isFinite(parsedMeta.size) ? parsedMeta.size : undefined;
   const parentId = cleanString(parsedMeta.variationParentId);
   const linkedAssetId = cleanString(parsedMeta.linkedAssetId);
+  const derivative = parseDerivativeInfo(parsedMeta.derivative);
 
   return {
     id: image.id,
@@ -158,58 +179,27 @@ const transformImage = (image: CloudflareImageApiResponse): CachedCloudflareImag
     sourceUrlNormalized: normalizedSourceUrl,
     namespace: cleanNamespace,
     contentHash: cleanContentHash,
+    perceptualHash: cleanPerceptualHash,
+    dominantColors: cleanDominantColors,
     altTag: cleanAltTag,
-    displayName: displayName ?? image.filename || parsedMeta.filename || undefined,
+    displayName: displayName ?? (image.filename || parsedMeta.filename || undefined),
     exif: cleanExif,
+    size: cleanSize,
+    deletedAt: cleanDeletedAt,
     variationSort: cleanVariationSort,
     parentId,
-    linkedAssetId
+    linkedAssetId,
+    derivative
   };
 };
 
-const fetchPage = async (
-  accountId: string,
-  apiToken: string,
-  page: number
-): Promise<CloudflareImageApiResponse[]> => {
-  const params = new URLSearchParams({
-    per_page: String(PAGE_SIZE),
-    page: String(page)
-  });
-
-  const response = await fetch(
-    `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1?${params.toString()}`,
-    {
-      headers: {
-        Authorization: `Bearer ${apiToken}`
-      },
-      cache: 'no-store'
-    }
-  );
-
-  const json = await response.json();
-  if (!response.ok) {
-    const errorMessage =
-      json?.errors?.[0]?.message || 'Failed to fetch Cloudflare Images page.';
-    throw new Error(errorMessage);
-  }
-
-  return Array.isArray(json?.result?.images) ? json.result.images : [];
-};
-
 const fetchAllImages = async (): Promise<CachedCloudflareImage[]> => {
-  const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-  const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-
-  if (!accountId || !apiToken) {
-    throw new Error('Cloudflare credentials not configured');
-  }
-
+  const storage = requireImageStorage();
   const collected: CloudflareImageApiResponse[] = [];
   let page = 1;
 
   while (true) {
-    const images = await fetchPage(accountId, apiToken, page);
+    const images = await storage.listPage(page, PAGE_SIZE);
     collected.push(...images);
     if (images.length < PAGE_SIZE) {
       break;
@@ -274,6 +264,7 @@ const rebuildState = (images: CachedCloudflareImage[], timestamp?: number) => {
   cacheState.map = new Map(images.map(image => [image.id, image]));
   cacheState.lastFetched = timestamp ?? Date.now();
   cacheState.initialized = true;
+  invalidateSearchIndex();
 };
 
 /**
@@ -319,7 +310,8 @@ const triggerBackgroundRefresh = (): void => {
 };
 
 /**
- * Main entry point for getting cached images
+ * Main entry point for getting cached images. Images in the trash
+ * (`deletedAt` set) are left out; see `getTrashedImages`.
  * 
  * Cache hierarchy:
  * 1. In-memory cache (fastest, TTL: 5 minutes)
@@ -330,7 +322,16 @@ const triggerBackgroundRefresh = (): void => {
  * - Loads from persistent cache immediately (fast)
  * - Triggers background refresh if persistent cache is stale
  */
-export const getCachedImages = async (forceRefresh = false): Promise<CachedCloudflareImage[]> => {
+export const getCachedImages = async (forceRefresh = false): Promise<CachedCloudflareImage[]> =>
+  (await loadAllImages(forceRefresh)).filter((image) => !image.deletedAt);
+
+/** Images in the trash, most recently deleted first. */
+export const getTrashedImages = async (forceRefresh = false): Promise<CachedCloudflareImage[]> =>
+  (await loadAllImages(forceRefresh))
+    .filter((image) => image.deletedAt)
+    .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+
+const loadAllImages = async (forceRefresh: boolean): Promise<CachedCloudflareImage[]> => {
   // 1. Check in-memory cache first
   if (shouldUseMemoryCache(forceRefresh)) {
     return cacheState.images;
@@ -393,12 +394,11 @@ export const getCachedImages = async (forceRefresh = false): Promise<CachedCloud
   return inflight;
 };
 
-export const getCachedImage = async (id: string) => {
-  if (cacheState.map.has(id)) {
-    return cacheState.map.get(id);
-  }
-  const images = await getCachedImages();
-  return images.find(image => image.id === id);
+export const getCachedImage = async (id: string, options: { includeTrashed?: boolean } = {}) => {
+  const image = cacheState.map.has(id)
+    ? cacheState.map.get(id)
+    : (await loadAllImages(false)).find(candidate => candidate.id === id);
+  return image && (!image.deletedAt || options.includeTrashed) ? image : undefined;
 };
 
 export const refreshCloudflareImageCache = async () => {
@@ -414,6 +414,11 @@ export const upsertCachedImage = (image: CachedCloudflareImage) => {
     cacheState.images.unshift(image);
   }
   cacheState.lastFetched = Date.now();
+  if (image.deletedAt) {
+    removeFromSearchIndex(image.id);
+  } else {
+    updateSearchIndex(image);
+  }
   
   // Update persistent cache in background
   saveToPersistentCache(cacheState.images, cacheState.lastFetched).catch(() => {});
@@ -423,6 +428,7 @@ export const removeCachedImage = (id: string) => {
   cacheState.map.delete(id);
   cacheState.images = cacheState.images.filter(image => image.id !== id);
   cacheState.lastFetched = Date.now();
+  removeFromSearchIndex(id);
   
   // Update persistent cache in background
   saveToPersistentCache(cacheState.images, cacheState.lastFetched).catch(() => {});
@@ -448,6 +454,7 @@ export const clearAllCaches = async () => {
   cacheState.map = new Map();
   cacheState.lastFetched = 0;
   cacheState.initialized = false;
+  invalidateSearchIndex();
   
   try {
     await getStorage().delete(PERSISTENT_CACHE_KEY);
@@ -0,0 +1,135 @@
+import {
+  ImageStorageError,
+  type ImageBytes,
+  type ImageStorageProvider,
+  type ImageUploadInput,
+  type StoredImage
+} from './imageStorage';
+
+const DEFAULT_CLOUDFLARE_API_BASE_URL = 'https://api.cloudflare.com/client/v4';
+
+// Overridable so tests and offline development can target the bundled emulator
+export const getCloudflareApiBaseUrl = () =>
+  (process.env.CLOUDFLARE_API_BASE_URL || DEFAULT_CLOUDFLARE_API_BASE_URL).replace(/\/+$/, '');
+
+export const getCloudflareCredentials = () => {
+  const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+  const apiToken = process.env.CLOUDFLARE_API_TOKEN;
+  if (!accountId || !apiToken) {
+    throw new ImageStorageError('Cloudflare credentials not configured', 500);
+  }
+  return { accountId, apiToken };
+};
+
+const readErrorMessage = (payload: unknown, fallback: string) => {
+  const errors = (payload as { errors?: { message?: string }[] } | null)?.errors;
+  return errors?.[0]?.message || fallback;
+};
+
+const readJson = async (response: Response) => {
+  try {
+    return await response.json();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Cloudflare Images v1 implementation.
+ * Credentials are read on every call so env changes (tests, hot reload) apply.
+ */
+export class CloudflareImageStorage implements ImageStorageProvider {
+  readonly kind = 'cloudflare' as const;
+
+  getConfigurationError(): string | undefined {
+    if (!process.env.CLOUDFLARE_ACCOUNT_ID || !process.env.CLOUDFLARE_API_TOKEN) {
+      return 'Cloudflare credentials not configured. Please set CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN environment variables.';
+    }
+    return undefined;
+  }
+
+  private async request(path: string, init: RequestInit, fallbackError: string) {
+    const { accountId, apiToken } = getCloudflareCredentials();
+    const response = await fetch(`${getCloudflareApiBaseUrl()}/accounts/${accountId}/images/v1${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${apiToken}`,
+        ...(init.headers || {})
+      }
+    });
+    const payload = await readJson(response);
+    if (!response.ok) {
+      console.error('Cloudflare API error:', payload);
+      throw new ImageStorageError(readErrorMessage(payload, fallbackError), response.status);
+    }
+    return payload;
+  }
+
+  async upload({ buffer, filename, contentType, metadata }: ImageUploadInput): Promise<StoredImage> {
+    const formData = new FormData();
+    formData.append('file', new Blob([new Uint8Array(buffer)], { type: contentType }), filename);
+    formData.append('metadata', JSON.stringify(metadata));
+    const payload = await this.request('', { method: 'POST', body: formData }, 'Failed to upload to Cloudflare');
+    return payload.result as StoredImage;
+  }
+
+  async get(imageId: string): Promise<StoredImage> {
+    const payload = await this.request(
+      `/${imageId}`,
+      { cache: 'no-store' },
+      'Failed to fetch image from Cloudflare'
+    );
+    return payload.result as StoredImage;
+  }
+
+  async listPage(page: number, perPage: number): Promise<StoredImage[]> {
+    const params = new URLSearchParams({
+      per_page: String(perPage),
+      page: String(page)
+    });
+    const payload = await this.request(
+      `?${params.toString()}`,
+      { cache: 'no-store' },
+      'Failed to fetch Cloudflare Images page.'
+    );
+    return Array.isArray(payload?.result?.images) ? payload.result.images : [];
+  }
+
+  async patchMetadata(imageId: string, metadata: Record<string, unknown>): Promise<void> {
+    await this.request(
+      `/${imageId}`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ metadata })
+      },
+      'Failed to update image metadata'
+    );
+  }
+
+  async delete(imageId: string): Promise<void> {
+    await this.request(`/${imageId}`, { method: 'DELETE' }, 'Failed to delete image from Cloudflare');
+  }
+
+  getVariantUrl(image: Pick<StoredImage, 'id' | 'variants'>, variant = 'public'): string | undefined {
+    if (!Array.isArray(image.variants) || !image.variants.length) {
+      return undefined;
+    }
+    return image.variants.find((url) => url.includes(`/${variant}`)) ?? image.variants[0];
+  }
+
+  async fetchVariant(image: Pick<StoredImage, 'id' | 'variants'>, variant = 'public'): Promise<ImageBytes> {
+    const url = this.getVariantUrl(image, variant);
+    if (!url) {
+      throw new ImageStorageError('Cloudflare image is missing variants', 422);
+    }
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new ImageStorageError('Failed to download image variant', response.status);
+    }
+    return {
+      buffer: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream'
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { parseCloudflareMetadata, cleanString, CloudflareMetadata } from '@/utils/cloudflareMetadata';
+import { requireImageStorage } from './imageStorage';
 
 interface CloudflareImageApiResponse {
   id: string;
@@ -33,45 +34,10 @@ const CF_PAGE_SIZE_LIMIT = 100;
 const DEFAULT_PAGE_SIZE = 50;
 const MAX_PAGE_SIZE = 250;
 
-const ensureEnv = () => {
-  const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-  const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-  if (!accountId || !apiToken) {
-    throw new Error('Cloudflare credentials not configured');
-  }
-  return { accountId, apiToken };
-};
-
 const fetchCloudflarePage = async (
   page: number,
   perPage: number
-): Promise<CloudflareImageApiResponse[]> => {
-  const { accountId, apiToken } = ensureEnv();
-
-  const params = new URLSearchParams({
-    page: String(page),
-    per_page: String(perPage)
-  });
-
-  const response = await fetch(
-    `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1?${params.toString()}`,
-    {
-      headers: {
-        Authorization: `Bearer ${apiToken}`
-      },
-      cache: 'no-store'
-    }
-  );
-
-  const json = await response.json();
-
-  if (!response.ok) {
-    const message = json?.errors?.[0]?.message || 'Failed to fetch Cloudflare uploads';
-    throw new Error(message);
-  }
-
-  return Array.isArray(json?.result?.images) ? json.result.images : [];
-};
+): Promise<CloudflareImageApiResponse[]> => requireImageStorage().listPage(page, perPage);
 
 const pickVariantUrl = (variants: string[]): string => {
   if (!variants?.length) {
@@ -184,28 +150,13 @@ export async function listUploads(params: {
 }
 
 export async function getUploadDownloadInfo(uploadId: string) {
-  const { accountId, apiToken } = ensureEnv();
-  const response = await fetch(
-    `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1/${uploadId}`,
-    {
-      headers: {
-        Authorization: `Bearer ${apiToken}`
-      },
-      cache: 'no-store'
-    }
-  );
-  const payload = await response.json();
-  if (!response.ok) {
-    const message = payload?.errors?.[0]?.message || 'Failed to fetch Cloudflare image';
-    throw new Error(message);
-  }
-  const result = payload?.result;
+  const result = await requireImageStorage().get(uploadId);
   if (!result?.variants?.length) {
     throw new Error('Cloudflare image is missing variants');
   }
   const downloadUrl = pickVariantUrl(result.variants);
   const metadata = parseCloudflareMetadata(result.meta);
-  const contentType = cleanString(metadata?.type as string) || response.headers.get('content-type') || undefined;
+  const contentType = cleanString(metadata?.type as string) || undefined;
   return {
     url: downloadUrl,
     filename: result.filename || uploadId,
@@ -213,3 +164,18 @@ export async function getUploadDownloadInfo(uploadId: string) {
     size: typeof result.size === 'number' ? result.size : undefined
   };
 }
+
+/**
+ * Download the original bytes of an upload through the active storage provider.
+ */
+export async function fetchUploadBytes(uploadId: string) {
+  const storage = requireImageStorage();
+  const image = await storage.get(uploadId);
+  const metadata = parseCloudflareMetadata(image.meta);
+  const { buffer, contentType } = await storage.fetchVariant(image, 'public');
+  return {
+    buffer,
+    filename: image.filename || uploadId,
+    contentType: cleanString(metadata?.type as string) || contentType
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Collections
+ *
+ * Curated, ordered lists of image ids with a title, description and cover.
+ * Unlike folders (one per image) and tags (flat labels), an image can sit in
+ * any number of collections, and each collection keeps its own order. The
+ * list lives in a local JSON file next to the namespace registry; image
+ * metadata is not touched.
+ *
+ * Configuration:
+ *   COLLECTIONS_PATH=./data/collections.json
+ */
+
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+import { createJsonFileStore } from './jsonFileStore';
+
+export interface Collection {
+  id: string;
+  title: string;
+  description?: string;
+  /** Unset = the first image */
+  coverImageId?: string;
+  imageIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CollectionInput {
+  title?: string;
+  description?: string | null;
+  coverImageId?: string | null;
+  imageIds?: string[];
+}
+
+export class CollectionError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'CollectionError';
+  }
+}
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_COLLECTION_SIZE = 5000;
+
+const collectionsStore = createJsonFileStore<Collection[]>({
+  getPath: () => process.env.COLLECTIONS_PATH || path.join(process.cwd(), 'data', 'collections.json'),
+  parse: (data) => {
+    const collections = (data as { collections?: unknown } | undefined)?.collections;
+    return Array.isArray(collections) ? (collections as Collection[]) : [];
+  },
+  serialize: (collections) => ({ collections }),
+  label: 'collections'
+});
+const readCollections = collectionsStore.read;
+const mutateCollections = collectionsStore.mutate;
+
+const cleanIds = (ids: unknown): string[] => {
+  if (!Array.isArray(ids)) {
+    throw new CollectionError('imageIds must be an array of image ids');
+  }
+  return Array.from(
+    new Set(ids.filter((id): id is string => typeof id === 'string').map((id) => id.trim()).filter(Boolean))
+  );
+};
+
+const applyInput = (collection: Collection, input: CollectionInput) => {
+  if (input.title !== undefined) {
+    const title = typeof input.title === 'string' ? input.title.trim() : '';
+    if (!title) throw new CollectionError('title is required');
+    collection.title = title.slice(0, MAX_TITLE_LENGTH);
+  }
+  if (input.description !== undefined) {
+    const description = typeof input.description === 'string' ? input.description.trim() : '';
+    if (description) {
+      collection.description = description.slice(0, MAX_DESCRIPTION_LENGTH);
+    } else {
+      delete collection.description;
+    }
+  }
+  if (input.imageIds !== undefined) {
+    const imageIds = cleanIds(input.imageIds);
+    if (imageIds.length > MAX_COLLECTION_SIZE) {
+      throw new CollectionError(`A collection can hold at most ${MAX_COLLECTION_SIZE} images`);
+    }
+    collection.imageIds = imageIds;
+  }
+  if (input.coverImageId !== undefined) {
+    const cover = typeof input.coverImageId === 'string' ? input.coverImageId.trim() : '';
+    if (cover) {
+      collection.coverImageId = cover;
+    } else {
+      delete collection.coverImageId;
+    }
+  }
+  if (collection.coverImageId && !collection.imageIds.includes(collection.coverImageId)) {
+    throw new CollectionError('The cover must be one of the collection images');
+  }
+};
+
+/** Cover image id: the chosen cover, else the first image. */
+export const getCollectionCoverId = (collection: Collection) => collection.coverImageId ?? collection.imageIds[0];
+
+export const listCollections = async () =>
+  (await readCollections()).sort((a, b) => a.title.localeCompare(b.title));
+
+export const getCollection = async (id: string) => {
+  const collection = (await readCollections()).find((entry) => entry.id === id);
+  if (!collection) {
+    throw new CollectionError('Collection not found', 404);
+  }
+  return collection;
+};
+
+export const createCollection = (input: CollectionInput) =>
+  mutateCollections((collections) => {
+    const now = new Date().toISOString();
+    const collection: Collection = {
+      id: randomBytes(8).toString('hex'),
+      title: '',
+      imageIds: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    applyInput(collection, { ...input, title: input.title ?? '' });
+    collections.push(collection);
+    return collection;
+  });
+
+const findForUpdate = (collections: Collection[], id: string) => {
+  const collection = collections.find((entry) => entry.id === id);
+  if (!collection) {
+    throw new CollectionError('Collection not found', 404);
+  }
+  return collection;
+};
+
+/** Updates title, description, cover or the full ordered id list (used for reordering). */
+export const updateCollection = (id: string, input: CollectionInput) =>
+  mutateCollections((collections) => {
+    const collection = findForUpdate(collections, id);
+    // Validate on a copy so a rejected update leaves the collection as it was
+    const draft: Collection = { ...collection, imageIds: [...collection.imageIds] };
+    applyInput(draft, input);
+    draft.updatedAt = new Date().toISOString();
+    collections[collections.indexOf(collection)] = draft;
+    return draft;
+  });
+
+/** Appends images that are not in the collection yet, keeping the existing order. */
+export const addImagesToCollection = (id: string, imageIds: string[]) =>
+  mutateCollections((collections) => {
+    const collection = findForUpdate(collections, id);
+    const existing = new Set(collection.imageIds);
+    const added = cleanIds(imageIds).filter((imageId) => !existing.has(imageId));
+    if (collection.imageIds.length + added.length > MAX_COLLECTION_SIZE) {
+      throw new CollectionError(`A collection can hold at most ${MAX_COLLECTION_SIZE} images`);
+    }
+    collection.imageIds.push(...added);
+    collection.updatedAt = new Date().toISOString();
+    return { collection, added: added.length };
+  });
+
+export const removeImagesFromCollection = (id: string, imageIds: string[]) =>
+  mutateCollections((collections) => {
+    const collection = findForUpdate(collections, id);
+    const removed = new Set(cleanIds(imageIds));
+    const before = collection.imageIds.length;
+    collection.imageIds = collection.imageIds.filter((imageId) => !removed.has(imageId));
+    if (collection.coverImageId && removed.has(collection.coverImageId)) {
+      delete collection.coverImageId;
+    }
+    collection.updatedAt = new Date().toISOString();
+    return { collection, removed: before - collection.imageIds.length };
+  });
+
+export const deleteCollection = (id: string) =>
+  mutateCollections((collections) => {
+    const index = collections.findIndex((entry) => entry.id === id);
+    if (index < 0) {
+      throw new CollectionError('Collection not found', 404);
+    }
+    const [removed] = collections.splice(index, 1);
+    return removed;
+  });
+
+/** Drops a permanently deleted image from every collection it was in. */
+export const removeImageFromCollections = async (imageId: string) => {
+  if (!(await readCollections()).some((collection) => collection.imageIds.includes(imageId))) {
+    return 0;
+  }
+  return mutateCollections((collections) => {
+    let changed = 0;
+    collections.forEach((collection) => {
+      if (!collection.imageIds.includes(imageId)) return;
+      collection.imageIds = collection.imageIds.filter((entry) => entry !== imageId);
+      if (collection.coverImageId === imageId) delete collection.coverImageId;
+      collection.updatedAt = new Date().toISOString();
+      changed += 1;
+    });
+    return changed;
+  });
+};
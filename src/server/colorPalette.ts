@@ -0,0 +1,148 @@
+/**
+ * Dominant Color Extraction
+ *
+ * Reduces an image to a 64px thumbnail with sharp, buckets its pixels on a
+ * 4-bit-per-channel grid and greedily merges buckets that are perceptually
+ * close (CIEDE2000), leaving a small palette of `{ hex, share }` entries.
+ * Palettes are stored in image metadata as `dominantColors` at upload time;
+ * older images are filled in by `backfillDominantColors`.
+ */
+
+import sharp from 'sharp';
+import { parseCloudflareMetadata } from '@/utils/cloudflareMetadata';
+import {
+  deltaE2000,
+  rgbToHex,
+  rgbToLab,
+  type DominantColor,
+  type Lab
+} from '@/utils/colorPalette';
+import {
+  transformApiImageToCached,
+  upsertCachedImage,
+  type CachedCloudflareImage
+} from './cloudflareImageCache';
+import { requireImageStorage } from './imageStorage';
+
+const SAMPLE_SIZE = 64;
+const BUCKET_SHIFT = 4;
+const MERGE_DISTANCE = 12;
+const MAX_CLUSTERS = 24;
+const MIN_SHARE = 0.01;
+export const DEFAULT_PALETTE_SIZE = 6;
+
+interface ColorCluster {
+  r: number;
+  g: number;
+  b: number;
+  count: number;
+  lab: Lab;
+}
+
+const addToCluster = (cluster: ColorCluster, r: number, g: number, b: number, count: number) => {
+  const total = cluster.count + count;
+  cluster.r = (cluster.r * cluster.count + r * count) / total;
+  cluster.g = (cluster.g * cluster.count + g * count) / total;
+  cluster.b = (cluster.b * cluster.count + b * count) / total;
+  cluster.count = total;
+  cluster.lab = rgbToLab(cluster.r, cluster.g, cluster.b);
+};
+
+export const extractDominantColors = async (
+  buffer: Buffer,
+  paletteSize = DEFAULT_PALETTE_SIZE
+): Promise<DominantColor[]> => {
+  const pixels = await sharp(buffer)
+    .flatten({ background: '#ffffff' })
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  for (let index = 0; index < pixels.length; index += 3) {
+    const [r, g, b] = [pixels[index], pixels[index + 1], pixels[index + 2]];
+    const key = ((r >> BUCKET_SHIFT) << 8) | ((g >> BUCKET_SHIFT) << 4) | (b >> BUCKET_SHIFT);
+    const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    bucket.count += 1;
+    buckets.set(key, bucket);
+  }
+
+  // Largest buckets seed the clusters; smaller ones join the nearest close-enough cluster
+  const clusters: ColorCluster[] = [];
+  Array.from(buckets.values())
+    .sort((a, b) => b.count - a.count)
+    .forEach((bucket) => {
+      const [r, g, b] = [bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count];
+      const lab = rgbToLab(r, g, b);
+      let nearest: ColorCluster | undefined;
+      let nearestDistance = Infinity;
+      clusters.forEach((cluster) => {
+        const distance = deltaE2000(lab, cluster.lab);
+        if (distance < nearestDistance) {
+          nearest = cluster;
+          nearestDistance = distance;
+        }
+      });
+      if (nearest && (nearestDistance <= MERGE_DISTANCE || clusters.length >= MAX_CLUSTERS)) {
+        addToCluster(nearest, r, g, b, bucket.count);
+      } else {
+        clusters.push({ r, g, b, count: bucket.count, lab });
+      }
+    });
+
+  const total = pixels.length / 3 || 1;
+  return clusters
+    .sort((a, b) => b.count - a.count)
+    .map((cluster) => ({
+      hex: rgbToHex(cluster.r, cluster.g, cluster.b),
+      share: Number((cluster.count / total).toFixed(3))
+    }))
+    .filter((color) => color.share >= MIN_SHARE)
+    .slice(0, paletteSize);
+};
+
+/** Extraction is best-effort: formats sharp cannot decode simply go without a palette. */
+export const tryExtractDominantColors = async (buffer: Buffer): Promise<DominantColor[] | undefined> => {
+  try {
+    return await extractDominantColors(buffer);
+  } catch (error) {
+    console.warn('[color-palette] Failed to extract colors', error);
+    return undefined;
+  }
+};
+
+/**
+ * Extract and store palettes for images that have none yet, fetching their
+ * `public` variant from storage. Failures are skipped and retried next call.
+ */
+export const backfillDominantColors = async (images: CachedCloudflareImage[], limit = 25) => {
+  const storage = requireImageStorage();
+  const pending = images.filter((image) => !image.dominantColors?.length);
+  let computed = 0;
+  for (const image of pending.slice(0, limit)) {
+    try {
+      const { buffer } = await storage.fetchVariant(image, 'public');
+      const dominantColors = await extractDominantColors(buffer);
+      const stored = await storage.get(image.id);
+      const metadata = { ...parseCloudflareMetadata(stored.meta), dominantColors };
+      await storage.patchMetadata(image.id, metadata);
+      upsertCachedImage(
+        transformApiImageToCached({
+          id: stored.id,
+          filename: stored.filename,
+          uploaded: stored.uploaded,
+          variants: stored.variants,
+          meta: metadata
+        })
+      );
+      computed += 1;
+    } catch (error) {
+      console.warn('[color-palette] Failed to backfill colors', image.id, error);
+    }
+  }
+  return { computed, remaining: pending.length - computed };
+};
@@ -0,0 +1,67 @@
+/**
+ * Responsive Derivatives Job
+ *
+ * Registers the `derivatives` job, which renders the profiles from
+ * `derivatives.ts` for a list of images. It is kept out of `jobHandlers.ts`
+ * so `uploadService.ts` can queue it after an upload without importing the
+ * page import handler, which itself uploads through `uploadService.ts`.
+ */
+
+import { generateDerivatives, getUploadDerivativeProfileIds, resolveDerivativeProfiles } from './derivatives';
+import { enqueueJob, registerJobHandler } from './jobQueue';
+
+export interface DerivativesInput {
+  imageIds: string[];
+  /** Profile ids; every configured profile when omitted */
+  profiles?: string[];
+  /** Replace derivatives that already exist */
+  force?: boolean;
+}
+
+export interface DerivativesResult {
+  created: number;
+  skipped: number;
+  removed: number;
+  failed: { imageId: string; error: string }[];
+}
+
+interface DerivativesCheckpoint extends DerivativesResult {
+  processed: number;
+}
+
+// The checkpoint counts finished images so a retry picks up after them
+registerJobHandler<DerivativesInput, DerivativesResult, DerivativesCheckpoint>('derivatives', async (job) => {
+  const { imageIds, force } = job.input;
+  const profiles = await resolveDerivativeProfiles(job.input.profiles);
+  const progress: DerivativesCheckpoint = {
+    processed: job.checkpoint?.processed ?? 0,
+    created: job.checkpoint?.created ?? 0,
+    skipped: job.checkpoint?.skipped ?? 0,
+    removed: job.checkpoint?.removed ?? 0,
+    failed: [...(job.checkpoint?.failed ?? [])]
+  };
+  for (let index = progress.processed; index < imageIds.length; index += 1) {
+    job.throwIfCancelled();
+    try {
+      const generated = await generateDerivatives(imageIds[index], profiles, { force });
+      progress.created += generated.created.length;
+      progress.skipped += generated.skipped;
+      progress.removed += generated.removed.length;
+    } catch (error) {
+      progress.failed.push({ imageId: imageIds[index], error: error instanceof Error ? error.message : String(error) });
+    }
+    progress.processed = index + 1;
+    await job.saveCheckpoint(progress);
+    await job.reportProgress(index + 1, imageIds.length);
+  }
+  return { created: progress.created, skipped: progress.skipped, removed: progress.removed, failed: progress.failed };
+});
+
+export const enqueueDerivatives = (input: DerivativesInput) =>
+  enqueueJob('derivatives', input, { total: input.imageIds.length });
+
+/** Queues the `DERIVATIVES_ON_UPLOAD` profiles for a new upload; does nothing when none are set. */
+export const enqueueUploadDerivatives = async (imageId: string) => {
+  const profiles = getUploadDerivativeProfileIds();
+  return profiles.length ? enqueueDerivatives({ imageIds: [imageId], profiles }) : undefined;
+};
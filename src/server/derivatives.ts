@@ -0,0 +1,298 @@
+/**
+ * Responsive Derivatives
+ *
+ * Profiles describe the encoded copies a site needs for `<picture>` and
+ * `srcset`: formats, widths and optionally a crop to one of
+ * COMMON_ASPECT_RATIOS. Each derivative is stored as its own image, linked to
+ * the original through `variationParentId` and tagged with a `derivative`
+ * metadata entry ({ profile, format, width, height, aspectRatio }). They
+ * have no ALT text or description of their own: `<picture>` snippets take
+ * the original's, so later edits to it are never left behind, and they are
+ * left out of the accessibility report and batch captioning. Widths larger
+ * than the source are skipped rather than upscaled. Derivatives count
+ * towards their namespace's quota like any other upload.
+ *
+ * Profiles come from built-in defaults unless a JSON file replaces them:
+ *
+ *   { "profiles": [{ "id": "hero", "name": "Hero", "formats": ["avif", "jpeg"],
+ *                    "widths": [960, 1920], "aspectRatio": "21:9", "quality": 70 }] }
+ *
+ * Configuration:
+ *   DERIVATIVE_PROFILES_PATH=./data/derivative-profiles.json
+ *   DERIVATIVES_ON_UPLOAD=responsive (comma-separated profile ids queued after each upload)
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import sharp from 'sharp';
+import { cleanString, parseCloudflareMetadata } from '@/utils/cloudflareMetadata';
+import { COMMON_ASPECT_RATIOS } from '@/utils/imageUtils';
+import {
+  DERIVATIVE_FORMATS,
+  DERIVATIVE_MIME_TYPES,
+  type DerivativeFormat,
+  type DerivativeInfo
+} from '@/utils/responsiveImages';
+import {
+  getCachedImages,
+  removeCachedImage,
+  transformApiImageToCached,
+  upsertCachedImage,
+  type CachedCloudflareImage
+} from './cloudflareImageCache';
+import { requireImageStorage } from './imageStorage';
+import { checkNamespaceQuota } from './namespaceUsage';
+
+export interface DerivativeProfile {
+  id: string;
+  name: string;
+  formats: DerivativeFormat[];
+  widths: number[];
+  /** Crop to this COMMON_ASPECT_RATIOS name, keeping the most interesting region */
+  aspectRatio?: string;
+  quality?: number;
+}
+
+export interface DerivativePlan {
+  format: DerivativeFormat;
+  width: number;
+  height: number;
+}
+
+export interface DerivativeGenerationResult {
+  created: string[];
+  /** Already present and not regenerated */
+  skipped: number;
+  /** Replaced by a regenerated copy */
+  removed: string[];
+}
+
+export class DerivativeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'DerivativeError';
+  }
+}
+
+export const DEFAULT_DERIVATIVE_PROFILES: DerivativeProfile[] = [
+  { id: 'responsive', name: 'Responsive', formats: ['avif', 'webp', 'jpeg'], widths: [480, 960, 1600] },
+  { id: 'square', name: 'Square', formats: ['webp', 'jpeg'], widths: [320, 640], aspectRatio: '1:1' },
+  { id: 'wide', name: 'Wide', formats: ['webp', 'jpeg'], widths: [960, 1920], aspectRatio: '16:9' }
+];
+
+const DEFAULT_QUALITY: Record<DerivativeFormat, number> = { avif: 55, webp: 78, jpeg: 82 };
+const MAX_WIDTH = 6000;
+const FILE_EXTENSIONS: Record<DerivativeFormat, string> = { avif: 'avif', webp: 'webp', jpeg: 'jpg' };
+
+const getProfilesPath = () =>
+  process.env.DERIVATIVE_PROFILES_PATH || path.join(process.cwd(), 'data', 'derivative-profiles.json');
+
+/** Validates profiles from the config file; throws on the first problem. */
+export const sanitizeDerivativeProfiles = (value: unknown): DerivativeProfile[] => {
+  if (!Array.isArray(value)) {
+    throw new DerivativeError('profiles must be an array');
+  }
+  const seen = new Set<string>();
+  return value.map((entry, index) => {
+    const candidate = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const id = typeof candidate.id === 'string' ? candidate.id.trim() : '';
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+      throw new DerivativeError(`Profile ${index + 1}: id must be lowercase letters, digits and dashes`);
+    }
+    if (seen.has(id)) {
+      throw new DerivativeError(`Profile "${id}" is defined twice`);
+    }
+    seen.add(id);
+    const formats = Array.isArray(candidate.formats) ? candidate.formats : [];
+    if (!formats.length || formats.some((format) => !DERIVATIVE_FORMATS.includes(format as DerivativeFormat))) {
+      throw new DerivativeError(`Profile "${id}": formats must be some of ${DERIVATIVE_FORMATS.join(', ')}`);
+    }
+    const widths = Array.isArray(candidate.widths) ? candidate.widths : [];
+    if (!widths.length || widths.some((width) => !Number.isInteger(width) || width < 1 || width > MAX_WIDTH)) {
+      throw new DerivativeError(`Profile "${id}": widths must be whole numbers from 1 to ${MAX_WIDTH}`);
+    }
+    const aspectRatio = cleanString(candidate.aspectRatio as string);
+    if (aspectRatio && !COMMON_ASPECT_RATIOS.some((ratio) => ratio.name === aspectRatio)) {
+      throw new DerivativeError(
+        `Profile "${id}": aspectRatio must be one of ${COMMON_ASPECT_RATIOS.map((ratio) => ratio.name).join(', ')}`
+      );
+    }
+    const quality = candidate.quality;
+    if (quality !== undefined && (!Number.isInteger(quality) || (quality as number) < 1 || (quality as number) > 100)) {
+      throw new DerivativeError(`Profile "${id}": quality must be from 1 to 100`);
+    }
+    return {
+      id,
+      name: cleanString(candidate.name as string) ?? id,
+      formats: Array.from(new Set(formats as DerivativeFormat[])),
+      widths: Array.from(new Set(widths as number[])).sort((a, b) => a - b),
+      ...(aspectRatio ? { aspectRatio } : {}),
+      ...(quality !== undefined ? { quality: quality as number } : {})
+    };
+  });
+};
+
+export const getDerivativeProfiles = async (): Promise<DerivativeProfile[]> => {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getProfilesPath(), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('[derivatives] Failed to read derivative profiles', error);
+    }
+    return DEFAULT_DERIVATIVE_PROFILES;
+  }
+  try {
+    return sanitizeDerivativeProfiles(JSON.parse(raw)?.profiles);
+  } catch (error) {
+    console.warn('[derivatives] Ignoring invalid derivative profiles', error);
+    return DEFAULT_DERIVATIVE_PROFILES;
+  }
+};
+
+/** Profile ids from `DERIVATIVES_ON_UPLOAD`. */
+export const getUploadDerivativeProfileIds = () =>
+  (process.env.DERIVATIVES_ON_UPLOAD ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+/** The profiles named by `ids` (all of them when omitted); unknown ids are an error. */
+export const resolveDerivativeProfiles = async (ids?: unknown) => {
+  const profiles = await getDerivativeProfiles();
+  if (ids === undefined) return profiles;
+  if (!Array.isArray(ids) || !ids.length || ids.some((id) => typeof id !== 'string')) {
+    throw new DerivativeError('profiles must be a non-empty array of profile ids');
+  }
+  const unknown = ids.filter((id) => !profiles.some((profile) => profile.id === id));
+  if (unknown.length) {
+    throw new DerivativeError(`Unknown derivative profile(s): ${unknown.join(', ')}`);
+  }
+  return profiles.filter((profile) => ids.includes(profile.id));
+};
+
+/** Output sizes for a source of `width` × `height`, never wider than the (cropped) source. */
+export const planDerivatives = (
+  profile: DerivativeProfile,
+  source: { width: number; height: number }
+): DerivativePlan[] => {
+  const ratio = profile.aspectRatio
+    ? COMMON_ASPECT_RATIOS.find((entry) => entry.name === profile.aspectRatio)?.ratio
+    : undefined;
+  const sourceRatio = source.width / source.height;
+  const targetRatio = ratio ?? sourceRatio;
+  const maxWidth = ratio && ratio < sourceRatio ? Math.floor(source.height * ratio) : source.width;
+  const fitting = profile.widths.filter((width) => width <= maxWidth);
+  const widths = fitting.length ? fitting : [maxWidth];
+  return profile.formats.flatMap((format) =>
+    widths.map((width) => ({ format, width, height: Math.max(1, Math.round(width / targetRatio)) }))
+  );
+};
+
+/** Derivatives of `parentId` in the cached library, smallest first. */
+export const listDerivatives = (images: CachedCloudflareImage[], parentId: string) =>
+  images
+    .filter((image): image is CachedCloudflareImage & { derivative: DerivativeInfo } =>
+      Boolean(image.parentId === parentId && image.derivative)
+    )
+    .sort(
+      (a, b) =>
+        a.derivative.profile.localeCompare(b.derivative.profile) ||
+        DERIVATIVE_FORMATS.indexOf(a.derivative.format) - DERIVATIVE_FORMATS.indexOf(b.derivative.format) ||
+        a.derivative.width - b.derivative.width
+    );
+
+const derivativeKey = (info: Pick<DerivativeInfo, 'profile' | 'format' | 'width'>) =>
+  `${info.profile}:${info.format}:${info.width}`;
+
+/**
+ * Renders and uploads the derivatives `profiles` call for. Ones that already
+ * exist are kept unless `force` is set, in which case the new copy replaces
+ * (and deletes) the old one.
+ */
+export const generateDerivatives = async (
+  parentId: string,
+  profiles: DerivativeProfile[],
+  options: { force?: boolean } = {}
+): Promise<DerivativeGenerationResult> => {
+  const storage = requireImageStorage();
+  const image = await storage.get(parentId);
+  const meta = parseCloudflareMetadata(image.meta);
+  if (meta.derivative) {
+    throw new DerivativeError('Derivatives are generated from the original, not from another derivative');
+  }
+  const { buffer } = await storage.fetchVariant(image);
+  // Bake in EXIF orientation so widths and crops match what viewers see
+  const oriented = await sharp(buffer).rotate().toBuffer({ resolveWithObject: true });
+  const source = { width: oriented.info.width, height: oriented.info.height };
+
+  const existing = new Map(
+    listDerivatives(await getCachedImages(), image.id).map((entry) => [derivativeKey(entry.derivative), entry.id])
+  );
+  const baseName = (cleanString(image.filename || (meta.filename as string)) ?? image.id).replace(/\.[^.]+$/, '');
+  const result: DerivativeGenerationResult = { created: [], skipped: 0, removed: [] };
+
+  for (const profile of profiles) {
+    for (const plan of planDerivatives(profile, source)) {
+      const derivative: DerivativeInfo = {
+        profile: profile.id,
+        format: plan.format,
+        width: plan.width,
+        height: plan.height,
+        ...(profile.aspectRatio ? { aspectRatio: profile.aspectRatio } : {})
+      };
+      const previousId = existing.get(derivativeKey(derivative));
+      if (previousId && !options.force) {
+        result.skipped += 1;
+        continue;
+      }
+      const encoded = await sharp(oriented.data)
+        .resize(plan.width, plan.height, {
+          fit: 'cover',
+          position: profile.aspectRatio ? sharp.strategy.attention : 'centre'
+        })
+        .toFormat(plan.format, { quality: profile.quality ?? DEFAULT_QUALITY[plan.format] })
+        .toBuffer();
+      const filename = `${baseName}-${profile.id}-${plan.width}w.${FILE_EXTENSIONS[plan.format]}`;
+      // What the gallery needs to file and filter it
+      const metadata: Record<string, unknown> = {
+        filename,
+        displayName: filename,
+        uploadedAt: new Date().toISOString(),
+        size: encoded.byteLength,
+        type: DERIVATIVE_MIME_TYPES[plan.format],
+        folder: meta.folder,
+        tags: meta.tags,
+        namespace: meta.namespace,
+        variationParentId: image.id,
+        derivative
+      };
+      const quotaError = await checkNamespaceQuota(meta.namespace, encoded.byteLength);
+      if (quotaError) {
+        throw new DerivativeError(quotaError, 403);
+      }
+      const uploaded = await storage.upload({
+        buffer: encoded,
+        filename,
+        contentType: DERIVATIVE_MIME_TYPES[plan.format],
+        metadata
+      });
+      upsertCachedImage(
+        transformApiImageToCached({
+          id: uploaded.id,
+          filename: uploaded.filename,
+          uploaded: uploaded.uploaded,
+          variants: uploaded.variants,
+          meta: uploaded.meta ?? metadata
+        })
+      );
+      result.created.push(uploaded.id);
+      if (previousId) {
+        await storage.delete(previousId);
+        removeCachedImage(previousId);
+        result.removed.push(previousId);
+      }
+    }
+  }
+  return result;
+};
@@ -1,5 +1,7 @@
 import { getCachedImages, CachedCloudflareImage } from './cloudflareImageCache';
 import { normalizeOriginalUrl } from '@/utils/urlNormalization';
+import { hammingDistance, normalizePerceptualHash } from '@/utils/perceptualHash';
+import { getNearDuplicateMaxDistance } from './perceptualHash';
 
 const normalize = (value?: string | null) => (value ?? '').trim().toLowerCase();
 
@@ -53,3 +55,38 @@ export async function findDuplicatesByContentHash(contentHash: string, namespace
     return normalizeHash(img.contentHash) === normalized;
   });
 }
+
+export interface NearDuplicateMatch {
+  image: CachedCloudflareImage;
+  distance: number;
+}
+
+/**
+ * Images whose perceptual hash is within `maxDistance` bits of `perceptualHash`,
+ * closest first. Catches re-encoded or resized copies that the SHA-256
+ * content hash cannot.
+ */
+export async function findNearDuplicatesByPerceptualHash(
+  perceptualHash: string,
+  namespace?: string,
+  maxDistance = getNearDuplicateMaxDistance()
+): Promise<NearDuplicateMatch[]> {
+  const normalized = normalizePerceptualHash(perceptualHash);
+  if (!normalized) {
+    return [];
+  }
+  const images = await getCachedImages();
+  return images
+    .flatMap((img) => {
+      if (namespace && img.namespace !== namespace) {
+        return [];
+      }
+      const candidate = normalizePerceptualHash(img.perceptualHash);
+      if (!candidate) {
+        return [];
+      }
+      const distance = hammingDistance(normalized, candidate);
+      return distance <= maxDistance ? [{ image: img, distance }] : [];
+    })
+    .sort((a, b) => a.distance - b.distance);
+}
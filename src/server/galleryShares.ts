@@ -0,0 +1,297 @@
+/**
+ * Gallery Share Links
+ *
+ * A gallery share is a read-only page (`/shared/:token`) listing every image
+ * in a folder, a tag, a saved search (a query string in the format of
+ * `GET /api/images/query`) or a hand-picked list of ids. The set is resolved
+ * each time the page is opened, so a folder share picks up new uploads until
+ * it expires. Tokens are signed like image share links (`signSharePayload`)
+ * and records live next to them in the cache storage, where revocation and
+ * the download-all switch are kept.
+ *
+ * Configuration:
+ *   SHARE_LINK_SECRET=<long random string> (falls back to AUTH_SECRET)
+ *   SHARE_LINK_DEFAULT_TTL_HOURS=168
+ */
+
+import { randomBytes } from 'node:crypto';
+import { parseCloudflareMetadata } from '@/utils/cloudflareMetadata';
+import { getCacheStorage } from './cacheStorage';
+import { toChangeActor, type ChangeActor } from './changeLog';
+import { getCachedImages, type CachedCloudflareImage } from './cloudflareImageCache';
+import { ImageQueryError, MAX_QUERY_LIMIT, parseImageQuery, queryImages } from './imageQuery';
+import { requireImageStorage } from './imageStorage';
+import { getTagTaxonomy } from './tagTaxonomy';
+import {
+  getShareLinkDefaultTtlHours,
+  getShareSecret,
+  readSharePayload,
+  signSharePayload
+} from './shareLinks';
+import type { ZipEntry } from './zipStream';
+import type { AuthActor } from './auth';
+
+export type GallerySource =
+  | { kind: 'folder'; folder: string }
+  | { kind: 'tag'; tag: string }
+  /** Query string accepted by `GET /api/images/query` (folder, tags, search, dates…) */
+  | { kind: 'search'; query: string }
+  | { kind: 'ids'; ids: string[] };
+
+export interface GalleryShareRecord {
+  id: string;
+  title: string;
+  source: GallerySource;
+  /** Namespace for folder and tag sources; `null` = every namespace */
+  namespace: string | null;
+  /** Copied from a namespace-limited key so the page never shows more than its creator could see */
+  limitNamespaces?: string[];
+  allowDownload: boolean;
+  createdAt: string;
+  expiresAt: string;
+  createdBy: ChangeActor;
+  revokedAt?: string;
+}
+
+export type GalleryShareStatus = 'active' | 'expired' | 'revoked';
+
+export type GalleryShareSummary = GalleryShareRecord & { status: GalleryShareStatus };
+
+interface GalleryTokenPayload {
+  /** Gallery share id */
+  g: string;
+  /** Expiry, epoch ms */
+  e: number;
+}
+
+export class GalleryShareError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'GalleryShareError';
+  }
+}
+
+const GALLERY_SHARES_CACHE_KEY = 'gallery-shares';
+const PRUNE_AFTER_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_TITLE_LENGTH = 120;
+// Paging params make no sense for a saved search that is always shown whole
+const IGNORED_SEARCH_PARAMS = ['cursor', 'limit', 'refresh'];
+
+interface GalleryShareState {
+  loaded: Promise<Map<string, GalleryShareRecord>> | null;
+}
+
+const GLOBAL_GALLERY_SHARES_KEY = Symbol.for('cloudflare.image.galleryShares');
+const globalObject = globalThis as typeof globalThis & {
+  [GLOBAL_GALLERY_SHARES_KEY]?: GalleryShareState;
+};
+const shareState: GalleryShareState = globalObject[GLOBAL_GALLERY_SHARES_KEY] ?? { loaded: null };
+if (!globalObject[GLOBAL_GALLERY_SHARES_KEY]) {
+  globalObject[GLOBAL_GALLERY_SHARES_KEY] = shareState;
+}
+
+const getShareMap = () => {
+  if (!shareState.loaded) {
+    shareState.loaded = getCacheStorage()
+      .get<GalleryShareRecord[]>(GALLERY_SHARES_CACHE_KEY)
+      .then((cached) => new Map((cached?.data ?? []).map((record) => [record.id, record])))
+      .catch((error) => {
+        console.warn('[gallery-shares] Failed to load gallery shares', error);
+        return new Map<string, GalleryShareRecord>();
+      });
+  }
+  return shareState.loaded;
+};
+
+const persistShares = async (shares: Map<string, GalleryShareRecord>) => {
+  await getCacheStorage().set(GALLERY_SHARES_CACHE_KEY, Array.from(shares.values()));
+};
+
+export const getGalleryShareStatus = (record: GalleryShareRecord, now = Date.now()): GalleryShareStatus => {
+  if (record.revokedAt) return 'revoked';
+  if (Date.parse(record.expiresAt) <= now) return 'expired';
+  return 'active';
+};
+
+export const toGalleryShareSummary = (record: GalleryShareRecord, now = Date.now()): GalleryShareSummary => ({
+  ...record,
+  status: getGalleryShareStatus(record, now)
+});
+
+export const createGalleryShareToken = (record: GalleryShareRecord) => {
+  const payload: GalleryTokenPayload = { g: record.id, e: Date.parse(record.expiresAt) };
+  return signSharePayload(payload);
+};
+
+const cleanText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/** Validates a source from a request body. */
+export const parseGallerySource = (value: unknown): GallerySource => {
+  const input = (value ?? {}) as Record<string, unknown>;
+  switch (input.kind) {
+    case 'folder': {
+      const folder = cleanText(input.folder);
+      if (!folder || folder === 'all') throw new GalleryShareError('folder is required');
+      return { kind: 'folder', folder };
+    }
+    case 'tag': {
+      const tag = cleanText(input.tag);
+      if (!tag) throw new GalleryShareError('tag is required');
+      return { kind: 'tag', tag };
+    }
+    case 'search': {
+      const params = new URLSearchParams(cleanText(input.query).replace(/^\?/, ''));
+      IGNORED_SEARCH_PARAMS.forEach((key) => params.delete(key));
+      if (!params.toString()) throw new GalleryShareError('query is required');
+      try {
+        parseImageQuery(params);
+      } catch (error) {
+        if (error instanceof ImageQueryError) throw new GalleryShareError(error.message);
+        throw error;
+      }
+      return { kind: 'search', query: params.toString() };
+    }
+    case 'ids': {
+      const ids = Array.isArray(input.ids)
+        ? Array.from(new Set(input.ids.map(cleanText).filter(Boolean)))
+        : [];
+      if (!ids.length) throw new GalleryShareError('ids must list at least one image');
+      if (ids.length > MAX_QUERY_LIMIT) throw new GalleryShareError(`A gallery can hold at most ${MAX_QUERY_LIMIT} images`);
+      return { kind: 'ids', ids };
+    }
+    default:
+      throw new GalleryShareError('source.kind must be folder, tag, search or ids');
+  }
+};
+
+const defaultTitle = (source: GallerySource) => {
+  switch (source.kind) {
+    case 'folder':
+      return source.folder;
+    case 'tag':
+      return `#${source.tag}`;
+    case 'search':
+      return 'Search results';
+    case 'ids':
+      return `${source.ids.length} image${source.ids.length === 1 ? '' : 's'}`;
+  }
+};
+
+const pruneShares = (shares: Map<string, GalleryShareRecord>, now: number) => {
+  shares.forEach((record, id) => {
+    const endedAt = record.revokedAt ? Date.parse(record.revokedAt) : Date.parse(record.expiresAt);
+    if (getGalleryShareStatus(record, now) !== 'active' && now - endedAt > PRUNE_AFTER_MS) {
+      shares.delete(id);
+    }
+  });
+};
+
+export const createGalleryShare = async (input: {
+  source: GallerySource;
+  title?: string;
+  namespace?: string | null;
+  allowDownload?: boolean;
+  expiresInHours?: number;
+  actor?: AuthActor | null;
+}) => {
+  getShareSecret();
+  const hours = input.expiresInHours ?? getShareLinkDefaultTtlHours();
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new GalleryShareError('expiresInHours must be a positive number');
+  }
+  const title = (input.title?.trim() || defaultTitle(input.source)).slice(0, MAX_TITLE_LENGTH);
+
+  const now = Date.now();
+  const record: GalleryShareRecord = {
+    id: randomBytes(8).toString('hex'),
+    title,
+    source: input.source,
+    namespace: input.namespace === undefined ? null : input.namespace,
+    ...(input.actor?.namespaces?.length ? { limitNamespaces: [...input.actor.namespaces] } : {}),
+    allowDownload: input.allowDownload ?? false,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + hours * 60 * 60 * 1000).toISOString(),
+    createdBy: toChangeActor(input.actor)
+  };
+  const shares = await getShareMap();
+  pruneShares(shares, now);
+  shares.set(record.id, record);
+  await persistShares(shares);
+  return { record, token: createGalleryShareToken(record) };
+};
+
+export const listGalleryShares = async () =>
+  Array.from((await getShareMap()).values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const revokeGalleryShare = async (id: string) => {
+  const shares = await getShareMap();
+  const record = shares.get(id);
+  if (!record) {
+    throw new GalleryShareError('Gallery share not found', 404);
+  }
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    await persistShares(shares);
+  }
+  return record;
+};
+
+/** Checks the token, record and expiry. Throws `GalleryShareError` with the status to answer. */
+export const resolveGalleryShare = async (token: string) => {
+  const payload = readSharePayload<GalleryTokenPayload>(token);
+  const record = payload?.g ? (await getShareMap()).get(payload.g) : undefined;
+  if (!payload || !record) {
+    throw new GalleryShareError('Gallery not found', 404);
+  }
+  const status = getGalleryShareStatus(record);
+  if (status === 'revoked') throw new GalleryShareError('This gallery link was revoked', 410);
+  if (status === 'expired' || payload.e <= Date.now()) throw new GalleryShareError('This gallery link has expired', 410);
+  return record;
+};
+
+const toNamespaceParam = (namespace: string | null) =>
+  namespace === null ? '__all__' : namespace === '' ? '__none__' : namespace;
+
+const sourceParams = (record: GalleryShareRecord) => {
+  const { source } = record;
+  const params = new URLSearchParams(source.kind === 'search' ? source.query : '');
+  if (source.kind === 'folder') params.set('folder', source.folder);
+  if (source.kind === 'tag') params.set('tag', source.tag);
+  if (!params.has('namespace')) params.set('namespace', toNamespaceParam(record.namespace));
+  return params;
+};
+
+/** Images currently in the shared set (trashed images drop out), in display order. */
+export const selectGalleryShareImages = async (record: GalleryShareRecord): Promise<CachedCloudflareImage[]> => {
+  const images = (await getCachedImages()).filter(
+    (image) => !record.limitNamespaces || record.limitNamespaces.includes(image.namespace ?? '')
+  );
+  if (record.source.kind === 'ids') {
+    const byId = new Map(images.map((image) => [image.id, image]));
+    return record.source.ids.flatMap((id) => byId.get(id) ?? []);
+  }
+  const query = { ...parseImageQuery(sourceParams(record)), cursor: 0, limit: MAX_QUERY_LIMIT };
+  return queryImages(images, query, await getTagTaxonomy()).images;
+};
+
+const archiveName = (image: CachedCloudflareImage, index: number) => {
+  const safeName = (image.filename || image.id).replace(/[\\/]/g, '_').replace(/^\.+/, '') || image.id;
+  return `${String(index + 1).padStart(3, '0')}-${safeName}`;
+};
+
+/** Original bytes of every image in the gallery, for the download-all ZIP. */
+export async function* galleryShareArchiveEntries(record: GalleryShareRecord): AsyncGenerator<ZipEntry> {
+  const storage = requireImageStorage();
+  const images = await selectGalleryShareImages(record);
+  for (const [index, cached] of images.entries()) {
+    try {
+      const image = await storage.get(cached.id);
+      if (parseCloudflareMetadata(image.meta).deletedAt) continue;
+      const { buffer } = await storage.fetchVariant(image, 'public');
+      yield { name: archiveName(cached, index), data: buffer, modifiedAt: new Date(image.uploaded) };
+    } catch (error) {
+      // One unreadable image should not break the whole download
+      console.warn('[gallery-shares] Failed to read image', { id: cached.id, error: String(error) });
+    }
+  }
+}
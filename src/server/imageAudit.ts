@@ -0,0 +1,124 @@
+/**
+ * Delivery URL Audit
+ *
+ * Requests each image's delivery URL (HEAD, falling back to a one-byte GET)
+ * and reports the ones that are gone (404/410) or failing. Used by the
+ * synchronous `GET /api/images/audit` for small slices and by the
+ * `image-audit` background job for the whole catalog.
+ */
+
+import { getCloudflareImageUrl } from '@/utils/imageUtils';
+import type { CachedCloudflareImage } from './cloudflareImageCache';
+
+export type AuditEntry = {
+  id: string;
+  filename?: string;
+  url?: string;
+  status?: number;
+  reason?: string;
+};
+
+export interface ImageAuditOptions {
+  variant: string;
+  concurrency: number;
+  verbose: boolean;
+  /** Origin that relative delivery URLs (local storage) are resolved against */
+  baseUrl: string;
+}
+
+export interface ImageAuditResult {
+  checked: number;
+  broken: AuditEntry[];
+  errors: AuditEntry[];
+  results?: AuditEntry[];
+}
+
+const buildUrlForImage = (image: { id: string; variants: string[] }, variant: string) => {
+  try {
+    return getCloudflareImageUrl(image.id, variant);
+  } catch {
+    if (!Array.isArray(image.variants) || image.variants.length === 0) {
+      return undefined;
+    }
+    const variantMatch = image.variants.find((url) => url.includes(`/${variant}`));
+    return variantMatch ?? image.variants[0];
+  }
+};
+
+const fetchWithFallback = async (url: string) => {
+  const head = await fetch(url, { method: 'HEAD', cache: 'no-store' });
+  if (head.status !== 405 && head.status !== 501) {
+    return head;
+  }
+  return fetch(url, {
+    method: 'GET',
+    headers: { Range: 'bytes=0-0' },
+    cache: 'no-store'
+  });
+};
+
+export const runImageAudit = async (
+  targets: CachedCloudflareImage[],
+  options: ImageAuditOptions,
+  hooks: { onProgress?: (checked: number) => void | Promise<void>; shouldStop?: () => boolean } = {}
+): Promise<ImageAuditResult> => {
+  const { variant, concurrency, verbose, baseUrl } = options;
+  const broken: AuditEntry[] = [];
+  const errors: AuditEntry[] = [];
+  const results: AuditEntry[] = [];
+  let index = 0;
+  let checked = 0;
+
+  const worker = async () => {
+    while (index < targets.length && !hooks.shouldStop?.()) {
+      const current = targets[index++];
+      const builtUrl = buildUrlForImage(current, variant);
+      // Local storage delivers through a relative route; resolve it against this server
+      const url = builtUrl ? new URL(builtUrl, baseUrl).toString() : undefined;
+      const filename = current.filename;
+      if (!url) {
+        const entry = { id: current.id, filename, reason: 'missing-url' };
+        broken.push(entry);
+        if (verbose) {
+          results.push(entry);
+        }
+      } else {
+        try {
+          const response = await fetchWithFallback(url);
+          if (response.status === 404 || response.status === 410) {
+            const entry = { id: current.id, filename, url, status: response.status, reason: 'not-found' };
+            broken.push(entry);
+            if (verbose) {
+              results.push(entry);
+            }
+          } else if (!response.ok) {
+            const entry = { id: current.id, filename, url, status: response.status, reason: 'request-failed' };
+            errors.push(entry);
+            if (verbose) {
+              results.push(entry);
+            }
+          } else if (verbose) {
+            results.push({ id: current.id, filename, url, status: response.status, reason: 'ok' });
+          }
+        } catch (error) {
+          const entry = {
+            id: current.id,
+            filename,
+            url,
+            reason: error instanceof Error ? error.message : 'request-error'
+          };
+          errors.push(entry);
+          if (verbose) {
+            results.push(entry);
+          }
+        }
+      }
+      checked += 1;
+      await hooks.onProgress?.(checked);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, targets.length) }, () => worker()));
+
+  return { checked, broken, errors, results: verbose ? results : undefined };
+};
@@ -0,0 +1,269 @@
+/**
+ * Image Query
+ *
+ * Server-side filtering, sorting and cursor pagination over the cached image
+ * catalog, so clients can fetch one page at a time instead of the full list.
+ * Filters reuse the gallery predicates from `galleryFilter.ts`; facet counts
+ * for each dimension ignore that dimension's own filter so the UI can show
+ * how many images every alternative choice would return.
+ */
+
+import {
+  matchesFolderFilter,
+  matchesHiddenFolderFilter,
+  matchesHiddenTagFilter,
+  matchesSearchFilter,
+  matchesTagFilter
+} from '@/utils/galleryFilter';
+import { getFolderAncestors } from '@/utils/folderTree';
+import type { TagTaxonomy } from '@/utils/tagTaxonomy';
+import {
+  buildSearchContext,
+  getParsedSearchQuery,
+  searchQueryNeedsParents,
+  type SearchContext
+} from '@/utils/searchQuery';
+import type { CachedCloudflareImage } from './cloudflareImageCache';
+
+export type ImageQuerySort = 'uploaded-desc' | 'uploaded-asc' | 'name-asc' | 'name-desc';
+
+export interface ImageQuery {
+  folder: string;
+  tags: string[];
+  hiddenFolders: string[];
+  hiddenTags: string[];
+  search: string;
+  from?: Date;
+  to?: Date;
+  /** `null` = every namespace, `''` = images without a namespace */
+  namespace: string | null;
+  onlyCanonical: boolean;
+  sort: ImageQuerySort;
+  cursor: number;
+  limit: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ImageQueryFacets {
+  folders: FacetCount[];
+  tags: FacetCount[];
+  namespaces: FacetCount[];
+  months: FacetCount[];
+}
+
+export interface ImageQueryResult {
+  images: CachedCloudflareImage[];
+  total: number;
+  nextCursor: string | null;
+  facets: ImageQueryFacets;
+}
+
+export class ImageQueryError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ImageQueryError';
+  }
+}
+
+export const DEFAULT_QUERY_LIMIT = 60;
+export const MAX_QUERY_LIMIT = 500;
+const SORTS: ImageQuerySort[] = ['uploaded-desc', 'uploaded-asc', 'name-asc', 'name-desc'];
+const NO_FOLDER_FACET = 'no-folder';
+const NO_NAMESPACE_FACET = '__none__';
+
+/**
+ * Same namespace semantics as `GET /api/images`: `__none__` selects images
+ * without a namespace, `__all__` disables the filter, and a missing param
+ * falls back to IMAGE_NAMESPACE / NEXT_PUBLIC_IMAGE_NAMESPACE.
+ */
+export const resolveNamespaceParam = (namespaceParam: string | null): string | null => {
+  const defaultNamespace = process.env.IMAGE_NAMESPACE || process.env.NEXT_PUBLIC_IMAGE_NAMESPACE || '';
+  if (namespaceParam === '__none__') return '';
+  if (namespaceParam === '__all__') return null;
+  return namespaceParam !== null ? namespaceParam.trim() : defaultNamespace;
+};
+
+export const matchesNamespaceFilter = (image: CachedCloudflareImage, namespace: string | null) => {
+  if (namespace === null) return true;
+  if (namespace === '') return !image.namespace;
+  return image.namespace === namespace;
+};
+
+export const encodeQueryCursor = (offset: number) =>
+  Buffer.from(JSON.stringify({ o: offset }), 'utf8').toString('base64url');
+
+export const decodeQueryCursor = (cursor: string): number => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { o?: unknown };
+    if (typeof parsed.o === 'number' && Number.isInteger(parsed.o) && parsed.o >= 0) {
+      return parsed.o;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new ImageQueryError('Invalid cursor');
+};
+
+// Accepts both repeated params (?tag=a&tag=b) and comma-separated lists (?tags=a,b)
+const readList = (params: URLSearchParams, ...keys: string[]) =>
+  Array.from(
+    new Set(
+      keys
+        .flatMap((key) => params.getAll(key))
+        .flatMap((value) => value.split(','))
+        .map((value) => value.trim())
+        .filter(Boolean)
+    )
+  );
+
+const parseDateParam = (value: string | null, name: string, endOfDay: boolean) => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  // Bare dates (2025-01-31) cover the whole day on the `to` side
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(trimmed);
+  const date = new Date(isDateOnly && endOfDay ? `${trimmed}T23:59:59.999Z` : trimmed);
+  if (Number.isNaN(date.getTime())) {
+    throw new ImageQueryError(`Invalid ${name} date`);
+  }
+  return date;
+};
+
+export const parseImageQuery = (params: URLSearchParams): ImageQuery => {
+  const sortParam = params.get('sort');
+  if (sortParam && !SORTS.includes(sortParam as ImageQuerySort)) {
+    throw new ImageQueryError(`sort must be one of ${SORTS.join(', ')}`);
+  }
+
+  const limitParam = params.get('limit');
+  let limit = DEFAULT_QUERY_LIMIT;
+  if (limitParam) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ImageQueryError('limit must be a positive integer');
+    }
+    limit = Math.min(limit, MAX_QUERY_LIMIT);
+  }
+
+  const from = parseDateParam(params.get('from'), 'from', false);
+  const to = parseDateParam(params.get('to'), 'to', true);
+  if (from && to && from > to) {
+    throw new ImageQueryError('from must not be after to');
+  }
+
+  const cursorParam = params.get('cursor');
+  const canonicalParam = params.get('canonical');
+
+  return {
+    folder: params.get('folder')?.trim() || 'all',
+    tags: readList(params, 'tag', 'tags'),
+    hiddenFolders: readList(params, 'hiddenFolder', 'hiddenFolders'),
+    hiddenTags: readList(params, 'hiddenTag', 'hiddenTags'),
+    search: params.get('search') ?? params.get('q') ?? '',
+    from,
+    to,
+    namespace: resolveNamespaceParam(params.get('namespace')),
+    onlyCanonical: canonicalParam === '1' || canonicalParam === 'true',
+    sort: (sortParam as ImageQuerySort | null) ?? 'uploaded-desc',
+    cursor: cursorParam ? decodeQueryCursor(cursorParam) : 0,
+    limit
+  };
+};
+
+type Dimension = 'folder' | 'tags' | 'namespace' | 'date';
+
+// Evaluate every filter except the one named in `skip`
+const matchesQuery = (
+  image: CachedCloudflareImage,
+  query: ImageQuery,
+  context: SearchContext,
+  skip?: Dimension
+) => {
+  if (skip !== 'folder' && !matchesFolderFilter(image, query.folder)) return false;
+  if (skip !== 'tags' && !query.tags.every((tag) => matchesTagFilter(image, tag, context.tagTaxonomy))) return false;
+  if (skip !== 'namespace' && !matchesNamespaceFilter(image, query.namespace)) return false;
+  if (skip !== 'date' && (query.from || query.to)) {
+    const uploaded = new Date(image.uploaded).getTime();
+    if (query.from && uploaded < query.from.getTime()) return false;
+    if (query.to && uploaded > query.to.getTime()) return false;
+  }
+  if (!matchesSearchFilter(image, query.search, context)) return false;
+  if (query.onlyCanonical && image.parentId) return false;
+  if (!matchesHiddenFolderFilter(image, query.hiddenFolders)) return false;
+  if (!matchesHiddenTagFilter(image, query.hiddenTags)) return false;
+  return true;
+};
+
+const monthKey = (uploaded: string) => {
+  const date = new Date(uploaded);
+  if (Number.isNaN(date.getTime())) return null;
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+const countFacet = (
+  images: CachedCloudflareImage[],
+  query: ImageQuery,
+  context: SearchContext,
+  dimension: Dimension,
+  valuesOf: (image: CachedCloudflareImage) => Array<string | null>
+): FacetCount[] => {
+  const counts = new Map<string, number>();
+  images.forEach((image) => {
+    if (!matchesQuery(image, query, context, dimension)) return;
+    valuesOf(image).forEach((value) => {
+      if (value === null) return;
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    });
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+};
+
+const imageName = (image: CachedCloudflareImage) => (image.displayName || image.filename || '').toLowerCase();
+
+const compareImages = (sort: ImageQuerySort) => (a: CachedCloudflareImage, b: CachedCloudflareImage) => {
+  switch (sort) {
+    case 'uploaded-asc':
+      return new Date(a.uploaded).getTime() - new Date(b.uploaded).getTime() || a.id.localeCompare(b.id);
+    case 'name-asc':
+      return imageName(a).localeCompare(imageName(b)) || a.id.localeCompare(b.id);
+    case 'name-desc':
+      return imageName(b).localeCompare(imageName(a)) || a.id.localeCompare(b.id);
+    case 'uploaded-desc':
+    default:
+      return new Date(b.uploaded).getTime() - new Date(a.uploaded).getTime() || a.id.localeCompare(b.id);
+  }
+};
+
+export const queryImages = (
+  images: CachedCloudflareImage[],
+  query: ImageQuery,
+  tagTaxonomy?: TagTaxonomy
+): ImageQueryResult => {
+  const context: SearchContext = {
+    ...(searchQueryNeedsParents(getParsedSearchQuery(query.search)) ? buildSearchContext(images) : {}),
+    tagTaxonomy
+  };
+  const matches = images.filter((image) => matchesQuery(image, query, context)).sort(compareImages(query.sort));
+  const page = matches.slice(query.cursor, query.cursor + query.limit);
+  const nextOffset = query.cursor + page.length;
+
+  return {
+    images: page,
+    total: matches.length,
+    nextCursor: nextOffset < matches.length ? encodeQueryCursor(nextOffset) : null,
+    facets: {
+      // Nested folders count towards every ancestor, matching the subtree filter
+      folders: countFacet(images, query, context, 'folder', (image) =>
+        image.folder ? getFolderAncestors(image.folder) : [NO_FOLDER_FACET]
+      ),
+      tags: countFacet(images, query, context, 'tags', (image) => Array.from(new Set(image.tags ?? []))),
+      namespaces: countFacet(images, query, context, 'namespace', (image) => [image.namespace || NO_NAMESPACE_FACET]),
+      months: countFacet(images, query, context, 'date', (image) => [monthKey(image.uploaded)])
+    }
+  };
+};
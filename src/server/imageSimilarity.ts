@@ -0,0 +1,260 @@
+/**
+ * Image Similarity
+ *
+ * CPU-only "find similar images": each image gets a compact feature vector
+ * (64-bin RGB color histogram, the perceptual hash and, when a model is
+ * configured, an ONNX image embedding). Vectors are computed at upload time
+ * or on demand and persisted through `ICacheStorage` under one key.
+ *
+ * Configuration:
+ *   SIMILARITY_ONNX_MODEL=/path/to/model.onnx (optional; needs `onnxruntime-node` installed)
+ *   SIMILARITY_ONNX_INPUT_SIZE=224 (square input the model expects, NCHW float32)
+ */
+
+import sharp from 'sharp';
+import { hammingDistance, normalizePerceptualHash } from '@/utils/perceptualHash';
+import { getCacheStorage } from './cacheStorage';
+import type { CachedCloudflareImage } from './cloudflareImageCache';
+import { requireImageStorage } from './imageStorage';
+import { tryComputePerceptualHash } from './perceptualHash';
+
+export interface ImageFeatures {
+  histogram: number[];
+  perceptualHash?: string;
+  embedding?: number[];
+  computedAt: string;
+}
+
+export interface SimilarImageMatch {
+  image: CachedCloudflareImage;
+  score: number;
+}
+
+const FEATURES_CACHE_KEY = 'image-features';
+const HISTOGRAM_BINS_PER_CHANNEL = 4;
+const HISTOGRAM_SAMPLE_SIZE = 64;
+const IMAGENET_MEAN = [0.485, 0.456, 0.406];
+const IMAGENET_STD = [0.229, 0.224, 0.225];
+
+interface FeatureState {
+  loaded: Promise<Map<string, ImageFeatures>> | null;
+  onnxSession: Promise<OnnxSession | null> | null;
+}
+
+// Minimal surface of onnxruntime-node used here; the package is optional
+interface OnnxTensor {
+  data: ArrayLike<number>;
+}
+interface OnnxSession {
+  inputNames: string[];
+  outputNames: string[];
+  run(feeds: Record<string, OnnxTensor>): Promise<Record<string, OnnxTensor>>;
+}
+interface OnnxRuntime {
+  InferenceSession: { create(path: string): Promise<OnnxSession> };
+  Tensor: new (type: 'float32', data: Float32Array, dims: number[]) => OnnxTensor;
+}
+
+const GLOBAL_FEATURES_KEY = Symbol.for('cloudflare.image.features');
+const globalObject = globalThis as typeof globalThis & {
+  [GLOBAL_FEATURES_KEY]?: FeatureState;
+};
+const featureState: FeatureState = globalObject[GLOBAL_FEATURES_KEY] ?? { loaded: null, onnxSession: null };
+if (!globalObject[GLOBAL_FEATURES_KEY]) {
+  globalObject[GLOBAL_FEATURES_KEY] = featureState;
+}
+
+const getFeatureMap = () => {
+  if (!featureState.loaded) {
+    featureState.loaded = getCacheStorage()
+      .get<Record<string, ImageFeatures>>(FEATURES_CACHE_KEY)
+      .then((cached) => new Map(Object.entries(cached?.data ?? {})))
+      .catch((error) => {
+        console.warn('[similarity] Failed to load stored features', error);
+        return new Map<string, ImageFeatures>();
+      });
+  }
+  return featureState.loaded;
+};
+
+const persistFeatureMap = async (features: Map<string, ImageFeatures>) => {
+  try {
+    await getCacheStorage().set(FEATURES_CACHE_KEY, Object.fromEntries(features));
+  } catch (error) {
+    console.warn('[similarity] Failed to persist features', error);
+  }
+};
+
+const loadOnnxSession = () => {
+  if (!featureState.onnxSession) {
+    const modelPath = process.env.SIMILARITY_ONNX_MODEL?.trim();
+    featureState.onnxSession = modelPath
+      ? (async () => {
+          try {
+            // Resolved at runtime so the dependency stays optional
+            const runtimeModule = 'onnxruntime-node';
+            const runtime = (await import(/* webpackIgnore: true */ runtimeModule)) as OnnxRuntime;
+            return await runtime.InferenceSession.create(modelPath);
+          } catch (error) {
+            console.warn('[similarity] ONNX model unavailable, using histogram + hash only', error);
+            return null;
+          }
+        })()
+      : Promise.resolve(null);
+  }
+  return featureState.onnxSession;
+};
+
+const normalizeVector = (values: number[]) => {
+  const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return values.map((value) => Number((value / norm).toFixed(5)));
+};
+
+const computeEmbedding = async (buffer: Buffer): Promise<number[] | undefined> => {
+  const session = await loadOnnxSession();
+  if (!session) return undefined;
+  const runtimeModule = 'onnxruntime-node';
+  const runtime = (await import(/* webpackIgnore: true */ runtimeModule)) as OnnxRuntime;
+  const size = Number(process.env.SIMILARITY_ONNX_INPUT_SIZE) || 224;
+  const pixels = await sharp(buffer)
+    .flatten({ background: '#ffffff' })
+    .resize(size, size, { fit: 'cover' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  // HWC uint8 → CHW float32 with ImageNet normalization
+  const input = new Float32Array(3 * size * size);
+  for (let index = 0; index < size * size; index += 1) {
+    for (let channel = 0; channel < 3; channel += 1) {
+      input[channel * size * size + index] =
+        (pixels[index * 3 + channel] / 255 - IMAGENET_MEAN[channel]) / IMAGENET_STD[channel];
+    }
+  }
+  const outputs = await session.run({
+    [session.inputNames[0]]: new runtime.Tensor('float32', input, [1, 3, size, size])
+  });
+  return normalizeVector(Array.from(outputs[session.outputNames[0]].data));
+};
+
+export const computeColorHistogram = async (buffer: Buffer): Promise<number[]> => {
+  const pixels = await sharp(buffer)
+    .flatten({ background: '#ffffff' })
+    .resize(HISTOGRAM_SAMPLE_SIZE, HISTOGRAM_SAMPLE_SIZE, { fit: 'inside' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+  const bins = HISTOGRAM_BINS_PER_CHANNEL;
+  const histogram = new Array<number>(bins ** 3).fill(0);
+  const step = 256 / bins;
+  for (let index = 0; index < pixels.length; index += 3) {
+    const bin =
+      Math.floor(pixels[index] / step) * bins * bins +
+      Math.floor(pixels[index + 1] / step) * bins +
+      Math.floor(pixels[index + 2] / step);
+    histogram[bin] += 1;
+  }
+  const total = pixels.length / 3 || 1;
+  return histogram.map((count) => Number((count / total).toFixed(4)));
+};
+
+export const computeImageFeatures = async (buffer: Buffer, perceptualHash?: string): Promise<ImageFeatures> => {
+  const [histogram, hash, embedding] = await Promise.all([
+    computeColorHistogram(buffer),
+    perceptualHash ? Promise.resolve(perceptualHash) : tryComputePerceptualHash(buffer),
+    computeEmbedding(buffer).catch((error) => {
+      console.warn('[similarity] Embedding failed', error);
+      return undefined;
+    })
+  ]);
+  return { histogram, perceptualHash: hash, embedding, computedAt: new Date().toISOString() };
+};
+
+/** Compute and store features for freshly uploaded bytes. */
+export const recordImageFeatures = async (imageId: string, buffer: Buffer, perceptualHash?: string) => {
+  const features = await computeImageFeatures(buffer, perceptualHash);
+  const map = await getFeatureMap();
+  map.set(imageId, features);
+  await persistFeatureMap(map);
+  return features;
+};
+
+export const getImageFeatures = async (imageId: string) => (await getFeatureMap()).get(imageId);
+
+/**
+ * Compute features for images that have none yet, fetching their `public`
+ * variant from storage. Returns how many were added; failures are skipped.
+ */
+export const backfillImageFeatures = async (images: CachedCloudflareImage[], limit = 25) => {
+  const map = await getFeatureMap();
+  const storage = requireImageStorage();
+  const pending = images.filter((image) => !map.has(image.id)).slice(0, limit);
+  let computed = 0;
+  for (const image of pending) {
+    try {
+      const { buffer } = await storage.fetchVariant(image, 'public');
+      map.set(image.id, await computeImageFeatures(buffer, image.perceptualHash));
+      computed += 1;
+    } catch (error) {
+      console.warn('[similarity] Failed to compute features', image.id, error);
+    }
+  }
+  if (computed) {
+    await persistFeatureMap(map);
+  }
+  return { computed, remaining: images.filter((image) => !map.has(image.id)).length };
+};
+
+const histogramIntersection = (a: number[], b: number[]) =>
+  a.reduce((sum, value, index) => sum + Math.min(value, b[index] ?? 0), 0);
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  if (a.length !== b.length) return 0;
+  return a.reduce((sum, value, index) => sum + value * b[index], 0);
+};
+
+/** Similarity in [0, 1]; embeddings dominate when both sides have one. */
+export const scoreFeatures = (a: ImageFeatures, b: ImageFeatures) => {
+  const colorScore = histogramIntersection(a.histogram, b.histogram);
+  const hashA = normalizePerceptualHash(a.perceptualHash);
+  const hashB = normalizePerceptualHash(b.perceptualHash);
+  const hashScore = hashA && hashB ? 1 - hammingDistance(hashA, hashB) / 64 : undefined;
+
+  if (a.embedding && b.embedding) {
+    const embeddingScore = (cosineSimilarity(a.embedding, b.embedding) + 1) / 2;
+    return 0.6 * embeddingScore + 0.25 * colorScore + 0.15 * (hashScore ?? colorScore);
+  }
+  return hashScore === undefined ? colorScore : 0.6 * colorScore + 0.4 * hashScore;
+};
+
+/**
+ * Rank `candidates` by similarity to `target`. The target's features are
+ * computed on demand; candidates without stored features are left out
+ * (see `backfillImageFeatures`).
+ */
+export const findSimilarImages = async (
+  target: CachedCloudflareImage,
+  candidates: CachedCloudflareImage[],
+  limit = 12
+): Promise<{ matches: SimilarImageMatch[]; indexed: number }> => {
+  if (!(await getImageFeatures(target.id))) {
+    await backfillImageFeatures([target], 1);
+  }
+  const targetFeatures = await getImageFeatures(target.id);
+  if (!targetFeatures) {
+    return { matches: [], indexed: 0 };
+  }
+
+  const map = await getFeatureMap();
+  let indexed = 0;
+  const matches: SimilarImageMatch[] = [];
+  candidates.forEach((image) => {
+    if (image.id === target.id) return;
+    const features = map.get(image.id);
+    if (!features) return;
+    indexed += 1;
+    matches.push({ image, score: Number(scoreFeatures(targetFeatures, features).toFixed(4)) });
+  });
+  matches.sort((a, b) => b.score - a.score);
+  return { matches: matches.slice(0, limit), indexed };
+};
@@ -0,0 +1,152 @@
+/**
+ * Image Storage Provider Abstraction
+ *
+ * Every read and write of image bytes and image metadata goes through an
+ * ImageStorageProvider, so the app can run against Cloudflare Images or
+ * against a local directory (offline development, tests).
+ *
+ * Configuration:
+ *   IMAGE_STORAGE_PROVIDER=cloudflare|local (default: cloudflare)
+ *   LOCAL_IMAGE_STORAGE_DIR=/path/to/data/local-images (for local storage)
+ *   CLOUDFLARE_API_BASE_URL=https://api.cloudflare.com/client/v4 (for cloudflare storage)
+ */
+
+import { CloudflareImageStorage } from './cloudflareImageStorage';
+import { LocalImageStorage } from './localImageStorage';
+import { MetadataSidecarStorage } from './metadataSidecar';
+
+export type ImageStorageKind = 'cloudflare' | 'local';
+
+/**
+ * Shape of an image as returned by the storage backend.
+ * Mirrors the Cloudflare Images v1 `result` object.
+ */
+export interface StoredImage {
+  id: string;
+  filename?: string;
+  uploaded: string;
+  variants: string[];
+  meta?: unknown;
+  size?: number;
+}
+
+export interface ImageUploadInput {
+  buffer: Buffer;
+  filename: string;
+  contentType: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface ImageBytes {
+  buffer: Buffer;
+  contentType: string;
+}
+
+export interface ImageStorageProvider {
+  readonly kind: ImageStorageKind;
+  /** Returns a human readable error when the provider cannot be used. */
+  getConfigurationError(): string | undefined;
+  upload(input: ImageUploadInput): Promise<StoredImage>;
+  get(imageId: string): Promise<StoredImage>;
+  listPage(page: number, perPage: number): Promise<StoredImage[]>;
+  /** Replaces the stored metadata object (Cloudflare PATCH semantics). */
+  patchMetadata(imageId: string, metadata: Record<string, unknown>): Promise<void>;
+  delete(imageId: string): Promise<void>;
+  getVariantUrl(image: Pick<StoredImage, 'id' | 'variants'>, variant?: string): string | undefined;
+  fetchVariant(image: Pick<StoredImage, 'id' | 'variants'>, variant?: string): Promise<ImageBytes>;
+}
+
+/**
+ * Error raised by providers; `status` is the HTTP status routes should surface.
+ */
+export class ImageStorageError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'ImageStorageError';
+    this.status = status;
+  }
+}
+
+export const getImageStorageKind = (): ImageStorageKind =>
+  process.env.IMAGE_STORAGE_PROVIDER === 'local' ? 'local' : 'cloudflare';
+
+// Factory function to get the configured provider; instances are reused per kind
+const instances: Partial<Record<ImageStorageKind, ImageStorageProvider>> = {};
+
+export function getImageStorage(): ImageStorageProvider {
+  const kind = getImageStorageKind();
+  const existing = instances[kind];
+  if (existing) {
+    return existing;
+  }
+
+  switch (kind) {
+    case 'local':
+      console.log('[Storage] Using local filesystem image storage');
+      instances.local = new LocalImageStorage();
+      return instances.local;
+
+    case 'cloudflare':
+    default:
+      // Cloudflare caps metadata at 1 KB; the sidecar keeps the full copy
+      instances.cloudflare = new MetadataSidecarStorage(new CloudflareImageStorage());
+      return instances.cloudflare;
+  }
+}
+
+/**
+ * Throws when the active provider is not configured. Use in services; routes
+ * should check `getConfigurationError()` up front so they can answer with a 500.
+ */
+export function requireImageStorage(): ImageStorageProvider {
+  const storage = getImageStorage();
+  const configError = storage.getConfigurationError();
+  if (configError) {
+    throw new ImageStorageError(configError, 500);
+  }
+  return storage;
+}
+
+/**
+ * URL a third-party service (e.g. OpenAI vision) can read. Local variants are
+ * not publicly reachable, so they are inlined as a data URL.
+ */
+export async function getExternallyReadableImageUrl(
+  storage: ImageStorageProvider,
+  image: Pick<StoredImage, 'id' | 'variants'>
+): Promise<string | undefined> {
+  const variantUrl = storage.getVariantUrl(image);
+  if (!variantUrl || storage.kind !== 'local') {
+    return variantUrl;
+  }
+  const { buffer, contentType } = await storage.fetchVariant(image, 'w=1024');
+  return `data:${contentType};base64,${buffer.toString('base64')}`;
+}
+
+/**
+ * Bytes for any delivery variant, including flexible ones such as `w=900`
+ * that Cloudflare does not list among an image's named variants.
+ */
+export async function fetchDeliveryVariant(
+  storage: ImageStorageProvider,
+  image: Pick<StoredImage, 'id' | 'variants'>,
+  variant: string
+): Promise<ImageBytes> {
+  if (storage.kind === 'local' || image.variants.some((url) => url.endsWith(`/${variant}`))) {
+    return storage.fetchVariant(image, variant);
+  }
+  const baseUrl = storage.getVariantUrl(image);
+  if (!baseUrl) {
+    throw new ImageStorageError('Image is missing variants', 422);
+  }
+  const response = await fetch(baseUrl.replace(/\/[^/]+$/, `/${variant}`), { cache: 'no-store' });
+  if (!response.ok) {
+    throw new ImageStorageError('Failed to download image variant', response.status);
+  }
+  return {
+    buffer: Buffer.from(await response.arrayBuffer()),
+    contentType: response.headers.get('content-type') || 'application/octet-stream'
+  };
+}
@@ -0,0 +1,343 @@
+/**
+ * Ingest Rules
+ *
+ * Ordered rules that fill in folder, tags, display name and namespace for
+ * new images. `uploadImageBuffer` evaluates them for every upload (gallery,
+ * zip, page import, URL import and the drop-off watcher, which all post
+ * through it); `/api/upload/external` applies them the same way.
+ *
+ * Conditions within a rule are ANDed: filename glob, source URL host glob,
+ * EXIF camera (make + model) and lens globs, width/height bounds, MIME type
+ * glob and namespace. Every matching rule adds its tags; the first matching
+ * rule that sets a folder, display name or namespace wins, and a rule with
+ * `stop` ends the evaluation. Values the caller passed explicitly (folder,
+ * namespace) are never overridden.
+ *
+ * Display name templates accept {name} (filename without extension), {ext},
+ * {filename}, {date} (YYYY-MM-DD), {camera}, {lens}, {width}, {height},
+ * {host} and {folder}.
+ *
+ * Configuration:
+ *   INGEST_RULES_PATH=./data/ingest-rules.json
+ */
+
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+import { normalizeFolderPath } from '@/utils/folderTree';
+import type { CachedCloudflareImage } from './cloudflareImageCache';
+import { createJsonFileStore } from './jsonFileStore';
+
+export interface IngestRuleMatch {
+  /** Glob on the file name, e.g. `IMG_*.jpg` */
+  filename?: string;
+  /** Glob on the host of the original or source URL, e.g. `*.dribbble.com` */
+  sourceHost?: string;
+  /** Glob on EXIF make + model, e.g. `*X100*` */
+  camera?: string;
+  lens?: string;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  /** Glob on the MIME type, e.g. `image/svg*` */
+  mimeType?: string;
+  /** Namespace the upload is headed for; `none` for no namespace */
+  namespace?: string;
+}
+
+export interface IngestRuleActions {
+  folder?: string;
+  tags?: string[];
+  displayName?: string;
+  namespace?: string;
+}
+
+export interface IngestRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: IngestRuleMatch;
+  actions: IngestRuleActions;
+  /** Skip the rules after this one when it matches */
+  stop?: boolean;
+}
+
+/** What is known about an image when the rules run. */
+export interface IngestFacts {
+  filename: string;
+  mimeType?: string;
+  sourceUrl?: string;
+  originalUrl?: string;
+  exif?: Record<string, string | number>;
+  width?: number;
+  height?: number;
+  namespace?: string;
+  folder?: string;
+  tags: string[];
+}
+
+export interface IngestResult {
+  folder?: string;
+  tags: string[];
+  displayName?: string;
+  namespace?: string;
+  /** Ids of the rules that matched, in order */
+  matchedRuleIds: string[];
+}
+
+export interface IngestOptions {
+  /** The caller chose the folder; rules leave it alone */
+  folderLocked?: boolean;
+  /** The caller chose the namespace; rules leave it alone */
+  namespaceLocked?: boolean;
+  /** Namespaces the caller may write to; rule namespaces outside them are ignored */
+  allowedNamespaces?: string[];
+  /** Upload time for {date}; defaults to now */
+  now?: Date;
+}
+
+export class IngestRuleError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'IngestRuleError';
+  }
+}
+
+const MAX_RULES = 200;
+const MATCH_TEXT_FIELDS = ['filename', 'sourceHost', 'camera', 'lens', 'mimeType', 'namespace'] as const;
+const MATCH_NUMBER_FIELDS = ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const;
+
+const rulesStore = createJsonFileStore<IngestRule[]>({
+  getPath: () => process.env.INGEST_RULES_PATH || path.join(process.cwd(), 'data', 'ingest-rules.json'),
+  parse: (data) => {
+    const rules = (data as { rules?: unknown } | undefined)?.rules;
+    return Array.isArray(rules) ? (rules as IngestRule[]) : [];
+  },
+  serialize: (rules) => ({ rules }),
+  label: 'ingest-rules'
+});
+export const listIngestRules = () => rulesStore.read();
+
+const cleanText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+/** Validates rules from the editor; missing ids are generated. */
+export const sanitizeIngestRules = (input: unknown): IngestRule[] => {
+  if (!Array.isArray(input)) {
+    throw new IngestRuleError('rules must be an array');
+  }
+  if (input.length > MAX_RULES) {
+    throw new IngestRuleError(`At most ${MAX_RULES} rules are supported`);
+  }
+  return input.map((raw, index) => {
+    const entry = (raw ?? {}) as Partial<IngestRule>;
+    const label = `Rule ${index + 1}`;
+    const match: IngestRuleMatch = {};
+    MATCH_TEXT_FIELDS.forEach((field) => {
+      const value = cleanText(entry.match?.[field]);
+      if (value) match[field] = value;
+    });
+    MATCH_NUMBER_FIELDS.forEach((field) => {
+      const value = entry.match?.[field];
+      if (value === undefined || value === null || (value as unknown) === '') return;
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < 0) {
+        throw new IngestRuleError(`${label}: ${field} must be a positive number`);
+      }
+      match[field] = number;
+    });
+
+    const actions: IngestRuleActions = {};
+    const folder = normalizeFolderPath(cleanText(entry.actions?.folder));
+    if (folder) actions.folder = folder;
+    const tags = Array.isArray(entry.actions?.tags)
+      ? entry.actions.tags.map(cleanText).filter((tag): tag is string => Boolean(tag))
+      : [];
+    if (tags.length) actions.tags = Array.from(new Set(tags));
+    const displayName = cleanText(entry.actions?.displayName);
+    if (displayName) actions.displayName = displayName;
+    const namespace = cleanText(entry.actions?.namespace);
+    if (namespace) actions.namespace = namespace;
+
+    if (!Object.keys(match).length) {
+      throw new IngestRuleError(`${label}: add at least one condition`);
+    }
+    if (!Object.keys(actions).length) {
+      throw new IngestRuleError(`${label}: add at least one action`);
+    }
+    return {
+      id: cleanText(entry.id) ?? randomBytes(6).toString('hex'),
+      name: cleanText(entry.name) ?? label,
+      enabled: entry.enabled !== false,
+      match,
+      actions,
+      ...(entry.stop ? { stop: true } : {})
+    };
+  });
+};
+
+/** Replaces the whole ordered list. */
+export const saveIngestRules = async (input: unknown) => {
+  const rules = sanitizeIngestRules(input);
+  await rulesStore.write(rules);
+  return rules;
+};
+
+// `*` any run of characters, `?` one character; case-insensitive, whole value
+const globToRegExp = (glob: string) =>
+  new RegExp(
+    `^${glob
+      .split('')
+      .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('')}$`,
+    'i'
+  );
+
+const matchesGlob = (glob: string, value: string | undefined) => value !== undefined && globToRegExp(glob).test(value);
+
+const getHost = (url?: string) => {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+};
+
+const getCamera = (exif?: IngestFacts['exif']) => {
+  const camera = [exif?.make, exif?.model].filter((part) => part !== undefined && part !== '').join(' ');
+  return camera || undefined;
+};
+
+const matchesRule = (match: IngestRuleMatch, facts: IngestFacts) => {
+  if (match.filename && !matchesGlob(match.filename, facts.filename)) return false;
+  if (match.sourceHost) {
+    const hosts = [getHost(facts.originalUrl), getHost(facts.sourceUrl)];
+    if (!hosts.some((host) => matchesGlob(match.sourceHost as string, host))) return false;
+  }
+  if (match.camera && !matchesGlob(match.camera, getCamera(facts.exif))) return false;
+  if (match.lens && !matchesGlob(match.lens, facts.exif?.lens?.toString())) return false;
+  if (match.mimeType && !matchesGlob(match.mimeType, facts.mimeType)) return false;
+  if (match.namespace) {
+    const namespace = facts.namespace || 'none';
+    if (!matchesGlob(match.namespace, namespace)) return false;
+  }
+  // Unknown dimensions never satisfy a size condition
+  if (match.minWidth !== undefined && !(facts.width !== undefined && facts.width >= match.minWidth)) return false;
+  if (match.maxWidth !== undefined && !(facts.width !== undefined && facts.width <= match.maxWidth)) return false;
+  if (match.minHeight !== undefined && !(facts.height !== undefined && facts.height >= match.minHeight)) return false;
+  if (match.maxHeight !== undefined && !(facts.height !== undefined && facts.height <= match.maxHeight)) return false;
+  return true;
+};
+
+const renderTemplate = (template: string, facts: IngestFacts, folder: string | undefined, now: Date) => {
+  const extIndex = facts.filename.lastIndexOf('.');
+  const values: Record<string, string> = {
+    name: extIndex > 0 ? facts.filename.slice(0, extIndex) : facts.filename,
+    ext: extIndex > 0 ? facts.filename.slice(extIndex + 1) : '',
+    filename: facts.filename,
+    date: now.toISOString().slice(0, 10),
+    camera: getCamera(facts.exif) ?? '',
+    lens: facts.exif?.lens?.toString() ?? '',
+    width: facts.width?.toString() ?? '',
+    height: facts.height?.toString() ?? '',
+    host: getHost(facts.originalUrl) ?? getHost(facts.sourceUrl) ?? '',
+    folder: folder ?? ''
+  };
+  const rendered = template.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token).trim();
+  return rendered || undefined;
+};
+
+/** Applies `rules` to `facts` without touching storage. */
+export const evaluateIngestRules = (
+  rules: IngestRule[],
+  facts: IngestFacts,
+  options: IngestOptions = {}
+): IngestResult => {
+  const result: IngestResult = {
+    folder: facts.folder,
+    tags: [...facts.tags],
+    namespace: facts.namespace,
+    matchedRuleIds: []
+  };
+  let folderSet = Boolean(options.folderLocked && facts.folder);
+  let namespaceSet = Boolean(options.namespaceLocked);
+  let displayTemplate: string | undefined;
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    if (!matchesRule(rule.match, { ...facts, namespace: result.namespace })) continue;
+    result.matchedRuleIds.push(rule.id);
+    const { actions } = rule;
+    actions.tags?.forEach((tag) => {
+      if (!result.tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+        result.tags.push(tag);
+      }
+    });
+    if (actions.folder && !folderSet) {
+      result.folder = actions.folder;
+      folderSet = true;
+    }
+    if (actions.namespace && !namespaceSet) {
+      const allowed = !options.allowedNamespaces?.length || options.allowedNamespaces.includes(actions.namespace);
+      if (allowed) {
+        result.namespace = actions.namespace;
+        namespaceSet = true;
+      }
+    }
+    if (actions.displayName && !displayTemplate) {
+      displayTemplate = actions.displayName;
+    }
+    if (rule.stop) break;
+  }
+
+  if (displayTemplate) {
+    result.displayName = renderTemplate(displayTemplate, facts, result.folder, options.now ?? new Date());
+  }
+  return result;
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+/**
+ * Facts for an image already in the library, for dry runs. The MIME type is
+ * guessed from the extension and dimensions are not stored, so size
+ * conditions never match here. Folder and tags start empty, as for an
+ * upload that sets neither.
+ */
+export const factsFromCachedImage = (image: CachedCloudflareImage): IngestFacts => ({
+  filename: image.filename,
+  mimeType: MIME_BY_EXTENSION[image.filename.split('.').pop()?.toLowerCase() ?? ''],
+  originalUrl: image.originalUrl,
+  sourceUrl: image.sourceUrl,
+  exif: image.exif,
+  namespace: image.namespace,
+  tags: []
+});
+
+const passThrough = (facts: IngestFacts): IngestResult => ({
+  folder: facts.folder,
+  tags: facts.tags,
+  namespace: facts.namespace,
+  matchedRuleIds: []
+});
+
+/** Loads the saved rules and applies them; a broken rules file never blocks an upload. */
+export const applyIngestRules = async (facts: IngestFacts, options: IngestOptions = {}) => {
+  const rules = await rulesStore.read();
+  if (!rules.length) {
+    return passThrough(facts);
+  }
+  try {
+    return evaluateIngestRules(rules, facts, options);
+  } catch (error) {
+    console.warn('[ingest-rules] Failed to evaluate rules', error);
+    return passThrough(facts);
+  }
+};
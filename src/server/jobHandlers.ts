@@ -0,0 +1,318 @@
+/**
+ * Background Job Handlers
+ *
+ * Registers the handler for every job type with the queue. Import the
+ * `enqueue*` helpers from here (not `jobQueue.ts` directly) so the handlers
+ * are registered before anything is queued or restored from storage.
+ * The `derivatives` job is registered in `derivativeJobs.ts` and re-exported.
+ */
+
+import { rm } from 'node:fs/promises';
+import { fetchCloudflareImages, updateImageFolder, updateImageTags } from '@/utils/cloudflareClient';
+import { isInFolderSubtree, rebaseFolderPath } from '@/utils/folderTree';
+import { normalizeTagKey } from '@/utils/tagTaxonomy';
+import {
+  importCatalogArchive,
+  type CatalogImportCheckpoint,
+  type CatalogImportResult
+} from './catalogArchive';
+import type { CaptionKind } from './captioning';
+import { createCaptionSuggestion, type CaptionTarget } from './captionReview';
+import type { ChangeActor } from './changeLog';
+import { getCachedImages, transformApiImageToCached, upsertCachedImage } from './cloudflareImageCache';
+import { runImageAudit, type ImageAuditResult } from './imageAudit';
+import { enqueueJob, listJobs, registerJobHandler } from './jobQueue';
+import {
+  importPageImage,
+  type PageImportFailure,
+  type PageImportItem,
+  type PageImportSuccess
+} from './pageImport';
+import { getTrashPurgeIntervalMs, listPurgeableImages, purgeImage } from './trash';
+
+export interface FolderRenameInput {
+  from: string;
+  /** Unset when the folder is deleted and its images move to [none]; subfolders move with it */
+  to?: string;
+  /** Who asked, for the change log */
+  actor?: ChangeActor;
+}
+
+export interface TagRenameInput {
+  /** Tags to replace, matched case-insensitively; several = a merge */
+  from: string[];
+  to: string;
+  actor?: ChangeActor;
+}
+
+export interface ImageAuditInput {
+  variant: string;
+  refresh: boolean;
+  offset: number;
+  limit: number;
+  concurrency: number;
+  verbose: boolean;
+  baseUrl: string;
+}
+
+export interface PageImportInput {
+  items: PageImportItem[];
+  allowInsecure: boolean;
+}
+
+export interface TrashPurgeInput {
+  /** Purge everything in the trash, not just images past the retention window */
+  all?: boolean;
+}
+
+export interface TrashPurgeResult {
+  purged: number;
+  failed: { id: string; error: string }[];
+}
+
+export interface CatalogImportInput {
+  /** Uploaded archive on local disk; removed once the import succeeds */
+  archivePath: string;
+  /** Map images whose content hash already exists in the same namespace instead of uploading them */
+  skipExisting: boolean;
+}
+
+export interface CaptionBatchInput {
+  /** Resolved when the job is queued, so the estimate shown matches the work */
+  targets: CaptionTarget[];
+  language?: string;
+  ratePerMinute: number;
+}
+
+export interface CaptionBatchResult {
+  generated: number;
+  failed: { imageId: string; kind: CaptionKind; error: string }[];
+}
+
+export interface ImageAuditJobResult extends ImageAuditResult {
+  totalImages: number;
+  variant: string;
+  offset: number;
+  checkedAt: string;
+}
+
+interface PageImportCheckpoint {
+  results: PageImportSuccess[];
+  failures: PageImportFailure[];
+}
+
+export interface PageImportResult extends PageImportCheckpoint {
+  successCount: number;
+  failureCount: number;
+}
+
+// Re-running is safe: images already moved no longer match `from`
+registerJobHandler<FolderRenameInput, { updated: number }>('folder-rename', async (job) => {
+  const images = await fetchCloudflareImages();
+  const targets = images.filter((img) => isInFolderSubtree(img.folder, job.input.from));
+  let updated = 0;
+  for (const image of targets) {
+    job.throwIfCancelled();
+    const patched = await updateImageFolder(
+      image.id,
+      rebaseFolderPath(image.folder ?? '', job.input.from, job.input.to),
+      { actor: job.input.actor, source: job.input.to ? 'folder-rename' : 'folder-delete' }
+    );
+    upsertCachedImage(transformApiImageToCached(patched));
+    updated += 1;
+    await job.reportProgress(updated, targets.length);
+  }
+  return { updated };
+});
+
+// Re-running is safe: images already rewritten no longer carry any `from` tag
+registerJobHandler<TagRenameInput, { updated: number }>('tag-rename', async (job) => {
+  const sources = new Set(job.input.from.map(normalizeTagKey));
+  const images = await fetchCloudflareImages();
+  const targets = images.filter((img) => img.tags.some((tag) => sources.has(normalizeTagKey(tag))));
+  let updated = 0;
+  for (const image of targets) {
+    job.throwIfCancelled();
+    const seen = new Set<string>();
+    const tags = image.tags
+      .map((tag) => (sources.has(normalizeTagKey(tag)) ? job.input.to : tag))
+      .filter((tag) => {
+        const key = normalizeTagKey(tag);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    const patched = await updateImageTags(image.id, tags, { actor: job.input.actor, source: 'tag-rename' });
+    upsertCachedImage(transformApiImageToCached(patched));
+    updated += 1;
+    await job.reportProgress(updated, targets.length);
+  }
+  return { updated };
+});
+
+// Targets finished by an earlier attempt are kept in the checkpoint and skipped on retry
+registerJobHandler<CaptionBatchInput, CaptionBatchResult, CaptionBatchResult>('caption-batch', async (job) => {
+  const { targets, language } = job.input;
+  const intervalMs = 60_000 / job.input.ratePerMinute;
+  const result: CaptionBatchResult = {
+    generated: job.checkpoint?.generated ?? 0,
+    failed: [...(job.checkpoint?.failed ?? [])]
+  };
+  for (let index = result.generated + result.failed.length; index < targets.length; index += 1) {
+    job.throwIfCancelled();
+    const startedAt = Date.now();
+    try {
+      await createCaptionSuggestion(targets[index], { language, jobId: job.id });
+      result.generated += 1;
+    } catch (error) {
+      const { imageId, kind } = targets[index];
+      result.failed.push({ imageId, kind, error: error instanceof Error ? error.message : String(error) });
+    }
+    await job.saveCheckpoint(result);
+    await job.reportProgress(index + 1, targets.length);
+    const wait = intervalMs - (Date.now() - startedAt);
+    if (wait > 0 && index + 1 < targets.length) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+  return result;
+});
+
+registerJobHandler<ImageAuditInput, ImageAuditJobResult>('image-audit', async (job) => {
+  const { variant, refresh, offset, limit, concurrency, verbose, baseUrl } = job.input;
+  const images = await getCachedImages(refresh);
+  const targets = images.slice(offset, limit > 0 ? offset + limit : undefined);
+  await job.reportProgress(0, targets.length);
+
+  const audit = await runImageAudit(
+    targets,
+    { variant, concurrency, verbose, baseUrl },
+    {
+      onProgress: (checked) => job.reportProgress(checked, targets.length),
+      shouldStop: job.isCancelled
+    }
+  );
+  job.throwIfCancelled();
+  return {
+    totalImages: images.length,
+    ...audit,
+    variant,
+    offset,
+    checkedAt: new Date().toISOString()
+  };
+});
+
+// Items finished by an earlier attempt are kept in the checkpoint and skipped on retry
+registerJobHandler<PageImportInput, PageImportResult, PageImportCheckpoint>(
+  'page-import',
+  async (job) => {
+    const { items, allowInsecure } = job.input;
+    const done: PageImportCheckpoint = {
+      results: [...(job.checkpoint?.results ?? [])],
+      failures: [...(job.checkpoint?.failures ?? [])]
+    };
+    const finished = new Set([...done.results, ...done.failures].map((entry) => entry.clientId));
+
+    for (const item of items) {
+      if (finished.has(item.clientId)) continue;
+      job.throwIfCancelled();
+      const outcome = await importPageImage(item, allowInsecure);
+      if (outcome.ok) {
+        done.results.push(outcome.result);
+      } else {
+        done.failures.push(outcome.failure);
+      }
+      finished.add(item.clientId);
+      await job.saveCheckpoint(done);
+      await job.reportProgress(finished.size, items.length);
+    }
+
+    return {
+      ...done,
+      successCount: done.results.length,
+      failureCount: done.failures.length
+    };
+  }
+);
+
+registerJobHandler<TrashPurgeInput, TrashPurgeResult>('trash-purge', async (job) => {
+  const targets = await listPurgeableImages({ all: job.input.all });
+  const result: TrashPurgeResult = { purged: 0, failed: [] };
+  for (const [index, image] of targets.entries()) {
+    job.throwIfCancelled();
+    try {
+      await purgeImage(image.id);
+      result.purged += 1;
+    } catch (error) {
+      // Images restored since the job started are skipped, not retried
+      result.failed.push({ id: image.id, error: error instanceof Error ? error.message : String(error) });
+    }
+    await job.reportProgress(index + 1, targets.length);
+  }
+  return result;
+});
+
+// Images finished by an earlier attempt are kept in the checkpoint and skipped on retry
+registerJobHandler<CatalogImportInput, CatalogImportResult, CatalogImportCheckpoint>(
+  'catalog-import',
+  async (job) => {
+    const result = await importCatalogArchive(job.input.archivePath, {
+      skipExisting: job.input.skipExisting,
+      checkpoint: job.checkpoint,
+      throwIfCancelled: job.throwIfCancelled,
+      onProgress: async (checkpoint, done, total) => {
+        await job.saveCheckpoint(checkpoint);
+        await job.reportProgress(done, total);
+      }
+    });
+    await rm(job.input.archivePath, { force: true });
+    return result;
+  }
+);
+
+export const enqueueFolderRename = (input: FolderRenameInput) => enqueueJob('folder-rename', input);
+
+export const enqueueTagRename = (input: TagRenameInput) => enqueueJob('tag-rename', input);
+
+export const enqueueCaptionBatch = (input: CaptionBatchInput) =>
+  enqueueJob('caption-batch', input, { total: input.targets.length });
+
+export { enqueueDerivatives } from './derivativeJobs';
+
+export const enqueueImageAudit = (input: ImageAuditInput) => enqueueJob('image-audit', input);
+
+export const enqueuePageImport = (input: PageImportInput) =>
+  enqueueJob('page-import', input, { total: input.items.length });
+
+export const enqueueCatalogImport = (input: CatalogImportInput, total: number) =>
+  enqueueJob('catalog-import', input, { total });
+
+export const enqueueTrashPurge = (input: TrashPurgeInput = {}) => enqueueJob('trash-purge', input);
+
+const GLOBAL_PURGE_TIMER_KEY = Symbol.for('cloudflare.image.trashPurgeTimer');
+const globalObject = globalThis as typeof globalThis & {
+  [GLOBAL_PURGE_TIMER_KEY]?: ReturnType<typeof setInterval>;
+};
+
+// Skips when nothing has expired or a purge is already waiting to run
+const enqueueExpiredTrashPurge = async () => {
+  const [queued, running] = await Promise.all([
+    listJobs({ type: 'trash-purge', status: 'queued' }),
+    listJobs({ type: 'trash-purge', status: 'running' })
+  ]);
+  if (queued.length || running.length || !(await listPurgeableImages()).length) {
+    return undefined;
+  }
+  return enqueueTrashPurge();
+};
+
+/** Starts the retention timer once per process. */
+export const scheduleTrashPurge = () => {
+  if (globalObject[GLOBAL_PURGE_TIMER_KEY]) return;
+  const run = () =>
+    enqueueExpiredTrashPurge().catch((error) => console.warn('[trash] Failed to schedule purge', error));
+  const timer = setInterval(run, getTrashPurgeIntervalMs());
+  timer.unref?.();
+  globalObject[GLOBAL_PURGE_TIMER_KEY] = timer;
+  void run();
+};
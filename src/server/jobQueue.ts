@@ -0,0 +1,392 @@
+/**
+ * Background Job Queue
+ *
+ * Long-running operations (folder renames, URL audits, page imports) run as
+ * jobs instead of inside the HTTP request, so a closed tab or a proxy timeout
+ * no longer leaves them half-done. Job records are persisted through
+ * `ICacheStorage` (file or Redis) and survive restarts: a job that was running
+ * when the process stopped is queued again. Clients poll `GET /api/jobs/:id`.
+ *
+ * Handlers are registered per job type (see `jobHandlers.ts`) and receive a
+ * context for reporting progress, saving a checkpoint that a retry resumes
+ * from, and checking whether the job was cancelled.
+ *
+ * Configuration:
+ *   JOB_QUEUE_CONCURRENCY=1 (jobs running at once in this process)
+ *   JOB_MAX_ATTEMPTS=3 (attempts before a job is marked failed)
+ *   JOB_RETRY_DELAY_MS=2000 (delay before the first retry; doubles per attempt)
+ *   JOB_RETENTION=200 (finished jobs kept in storage)
+ */
+
+import { randomUUID } from 'node:crypto';
+import { getCacheStorage } from './cacheStorage';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  completed: number;
+  total: number;
+  message?: string;
+}
+
+export interface JobRecord<TInput = unknown, TResult = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  input: TInput;
+  progress: JobProgress;
+  result?: TResult;
+  /** Handler-defined resume state, kept across retries and restarts */
+  checkpoint?: unknown;
+  error?: string;
+  attempts: number;
+  maxAttempts: number;
+  cancelRequested?: boolean;
+  /** Epoch ms before which a retried job is not picked up */
+  runAfter?: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/** Job record as returned by the API (checkpoints stay server-side). */
+export type JobSummary = Omit<JobRecord, 'checkpoint' | 'runAfter'>;
+
+export interface JobContext<TInput, TCheckpoint> {
+  id: string;
+  input: TInput;
+  attempt: number;
+  checkpoint: TCheckpoint | undefined;
+  reportProgress(completed: number, total: number, message?: string): Promise<void>;
+  saveCheckpoint(checkpoint: TCheckpoint): Promise<void>;
+  isCancelled(): boolean;
+  /** Throws `JobCancelledError` once cancellation was requested. */
+  throwIfCancelled(): void;
+}
+
+export type JobHandler<TInput = unknown, TResult = unknown, TCheckpoint = unknown> = (
+  context: JobContext<TInput, TCheckpoint>
+) => Promise<TResult>;
+
+export class JobError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+const JOBS_CACHE_KEY = 'background-jobs';
+const PROGRESS_PERSIST_INTERVAL_MS = 1000;
+const TERMINAL_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const getConcurrency = () => readPositiveInt(process.env.JOB_QUEUE_CONCURRENCY, 1);
+const getDefaultMaxAttempts = () => readPositiveInt(process.env.JOB_MAX_ATTEMPTS, 3);
+const getRetryDelayMs = () => {
+  const parsed = Number(process.env.JOB_RETRY_DELAY_MS);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 2000;
+};
+const getRetention = () => readPositiveInt(process.env.JOB_RETENTION, 200);
+
+interface QueueState {
+  jobs: Map<string, JobRecord>;
+  handlers: Map<string, JobHandler>;
+  loaded: Promise<void> | null;
+  running: Set<string>;
+  waiters: Map<string, Array<(job: JobRecord) => void>>;
+  persisting: Promise<void>;
+  lastPersistedAt: number;
+  wakeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const GLOBAL_QUEUE_KEY = Symbol.for('cloudflare.image.jobs');
+const globalObject = globalThis as typeof globalThis & {
+  [GLOBAL_QUEUE_KEY]?: QueueState;
+};
+const queueState: QueueState = globalObject[GLOBAL_QUEUE_KEY] ?? {
+  jobs: new Map(),
+  handlers: new Map(),
+  loaded: null,
+  running: new Set(),
+  waiters: new Map(),
+  persisting: Promise.resolve(),
+  lastPersistedAt: 0,
+  wakeTimer: null
+};
+if (!globalObject[GLOBAL_QUEUE_KEY]) {
+  globalObject[GLOBAL_QUEUE_KEY] = queueState;
+}
+
+const isTerminal = (job: JobRecord) => TERMINAL_STATUSES.includes(job.status);
+
+// Writes are chained so snapshots land in order
+const persistJobs = () => {
+  queueState.lastPersistedAt = Date.now();
+  const snapshot = Array.from(queueState.jobs.values());
+  queueState.persisting = queueState.persisting
+    .then(() => getCacheStorage().set(JOBS_CACHE_KEY, snapshot))
+    .catch((error) => {
+      console.warn('[jobs] Failed to persist job records', error);
+    });
+  return queueState.persisting;
+};
+
+const pruneFinishedJobs = () => {
+  const finished = Array.from(queueState.jobs.values())
+    .filter(isTerminal)
+    .sort((a, b) => (b.finishedAt ?? '').localeCompare(a.finishedAt ?? ''));
+  finished.slice(getRetention()).forEach((job) => queueState.jobs.delete(job.id));
+};
+
+const ensureLoaded = () => {
+  if (!queueState.loaded) {
+    queueState.loaded = getCacheStorage()
+      .get<JobRecord[]>(JOBS_CACHE_KEY)
+      .then((cached) => {
+        let interrupted = 0;
+        (cached?.data ?? []).forEach((job) => {
+          if (queueState.jobs.has(job.id)) return;
+          if (job.status === 'running') {
+            // The process stopped mid-run; the checkpoint lets the next attempt resume
+            job.status = job.cancelRequested ? 'cancelled' : 'queued';
+            if (job.status === 'cancelled') job.finishedAt = new Date().toISOString();
+            interrupted += 1;
+          }
+          queueState.jobs.set(job.id, job);
+        });
+        if (interrupted) {
+          console.warn(`[jobs] Re-queued ${interrupted} job(s) interrupted by a restart`);
+        }
+      })
+      .catch((error) => {
+        console.warn('[jobs] Failed to load job records', error);
+      });
+  }
+  return queueState.loaded;
+};
+
+const touch = (job: JobRecord) => {
+  job.updatedAt = new Date().toISOString();
+};
+
+const finishJob = (job: JobRecord, status: JobStatus, error?: string) => {
+  job.status = status;
+  job.error = error;
+  job.runAfter = undefined;
+  job.finishedAt = new Date().toISOString();
+  touch(job);
+  const waiters = queueState.waiters.get(job.id) ?? [];
+  queueState.waiters.delete(job.id);
+  waiters.forEach((resolve) => resolve(job));
+};
+
+const scheduleWake = (delayMs: number) => {
+  if (queueState.wakeTimer) clearTimeout(queueState.wakeTimer);
+  queueState.wakeTimer = setTimeout(() => {
+    queueState.wakeTimer = null;
+    pumpQueue();
+  }, delayMs);
+  // Never keep the process alive just for a pending retry
+  queueState.wakeTimer.unref?.();
+};
+
+const runJob = async (job: JobRecord, handler: JobHandler) => {
+  queueState.running.add(job.id);
+  job.status = 'running';
+  job.attempts += 1;
+  job.runAfter = undefined;
+  job.startedAt = new Date().toISOString();
+  touch(job);
+  await persistJobs();
+
+  const context: JobContext<unknown, unknown> = {
+    id: job.id,
+    input: job.input,
+    attempt: job.attempts,
+    checkpoint: job.checkpoint,
+    reportProgress: async (completed, total, message) => {
+      job.progress = { completed, total, message };
+      touch(job);
+      if (Date.now() - queueState.lastPersistedAt >= PROGRESS_PERSIST_INTERVAL_MS) {
+        await persistJobs();
+      }
+    },
+    saveCheckpoint: async (checkpoint) => {
+      job.checkpoint = checkpoint;
+      context.checkpoint = checkpoint;
+      touch(job);
+      await persistJobs();
+    },
+    isCancelled: () => Boolean(job.cancelRequested),
+    throwIfCancelled: () => {
+      if (job.cancelRequested) throw new JobCancelledError();
+    }
+  };
+
+  try {
+    const result = await handler(context);
+    job.result = result;
+    finishJob(job, job.cancelRequested ? 'cancelled' : 'succeeded');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof JobCancelledError || job.cancelRequested) {
+      finishJob(job, 'cancelled');
+    } else if (job.attempts < job.maxAttempts) {
+      const delay = getRetryDelayMs() * 2 ** (job.attempts - 1);
+      console.warn(`[jobs] ${job.type} ${job.id} failed (attempt ${job.attempts}), retrying in ${delay}ms`, error);
+      job.status = 'queued';
+      job.error = message;
+      job.runAfter = Date.now() + delay;
+      touch(job);
+    } else {
+      console.error(`[jobs] ${job.type} ${job.id} failed`, error);
+      finishJob(job, 'failed', message);
+    }
+  } finally {
+    queueState.running.delete(job.id);
+  }
+
+  pruneFinishedJobs();
+  await persistJobs();
+  pumpQueue();
+};
+
+const pumpQueue = () => {
+  const now = Date.now();
+  const queued = Array.from(queueState.jobs.values())
+    .filter((job) => job.status === 'queued' && queueState.handlers.has(job.type))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const job of queued) {
+    if (queueState.running.size >= getConcurrency()) return;
+    if (job.runAfter && job.runAfter > now) continue;
+    void runJob(job, queueState.handlers.get(job.type)!);
+  }
+
+  const nextRetry = queued
+    .filter((job) => job.runAfter && job.runAfter > now)
+    .reduce((earliest, job) => Math.min(earliest, job.runAfter!), Infinity);
+  if (Number.isFinite(nextRetry)) {
+    scheduleWake(nextRetry - now);
+  }
+};
+
+/**
+ * Register the handler for a job type. Queued jobs of that type (including
+ * ones restored from storage) start running once their handler exists.
+ */
+export const registerJobHandler = <TInput, TResult, TCheckpoint = unknown>(
+  type: string,
+  handler: JobHandler<TInput, TResult, TCheckpoint>
+) => {
+  queueState.handlers.set(type, handler as unknown as JobHandler);
+  void ensureLoaded().then(pumpQueue);
+};
+
+export const enqueueJob = async <TInput>(
+  type: string,
+  input: TInput,
+  options: { maxAttempts?: number; total?: number } = {}
+): Promise<JobRecord<TInput>> => {
+  if (!queueState.handlers.has(type)) {
+    throw new JobError(`Unknown job type: ${type}`);
+  }
+  await ensureLoaded();
+  const now = new Date().toISOString();
+  const job: JobRecord<TInput> = {
+    id: randomUUID(),
+    type,
+    status: 'queued',
+    input,
+    progress: { completed: 0, total: options.total ?? 0 },
+    attempts: 0,
+    maxAttempts: options.maxAttempts ?? getDefaultMaxAttempts(),
+    createdAt: now,
+    updatedAt: now
+  };
+  queueState.jobs.set(job.id, job);
+  await persistJobs();
+  pumpQueue();
+  return job;
+};
+
+export const getJob = async (id: string) => {
+  await ensureLoaded();
+  return queueState.jobs.get(id);
+};
+
+export const listJobs = async (filter: { type?: string; status?: JobStatus; limit?: number } = {}) => {
+  await ensureLoaded();
+  return Array.from(queueState.jobs.values())
+    .filter((job) => (!filter.type || job.type === filter.type) && (!filter.status || job.status === filter.status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filter.limit ?? 50);
+};
+
+/**
+ * Queued jobs are cancelled immediately; running jobs stop at the handler's
+ * next cancellation check and keep the progress made so far.
+ */
+export const cancelJob = async (id: string) => {
+  await ensureLoaded();
+  const job = queueState.jobs.get(id);
+  if (!job) {
+    throw new JobError('Job not found', 404);
+  }
+  if (isTerminal(job)) {
+    throw new JobError(`Job already ${job.status}`, 409);
+  }
+  job.cancelRequested = true;
+  touch(job);
+  if (job.status === 'queued') {
+    finishJob(job, 'cancelled');
+  }
+  await persistJobs();
+  return job;
+};
+
+/** Resolves once the job finishes (or with its current state after `timeoutMs`). */
+export const waitForJob = async (id: string, timeoutMs = 30000): Promise<JobRecord | undefined> => {
+  const job = await getJob(id);
+  if (!job || isTerminal(job)) return job;
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(queueState.jobs.get(id)), timeoutMs);
+    timer.unref?.();
+    queueState.waiters.set(id, [
+      ...(queueState.waiters.get(id) ?? []),
+      (finished) => {
+        clearTimeout(timer);
+        resolve(finished);
+      }
+    ]);
+  });
+};
+
+export const toJobSummary = (job: JobRecord): JobSummary => ({
+  id: job.id,
+  type: job.type,
+  status: job.status,
+  input: job.input,
+  progress: job.progress,
+  result: job.result,
+  error: job.error,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  cancelRequested: job.cancelRequested,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt
+});
@@ -0,0 +1,97 @@
+/**
+ * JSON File Store
+ *
+ * Read-modify-write access to the small JSON files under `data/`
+ * (collections, the caption review queue, the tag taxonomy and ingest
+ * rules). A missing file reads as empty. Writes go to a temp file that is
+ * renamed over the original, so a crash mid-write never leaves half a file
+ * behind, and changes to the same file run one at a time so two requests
+ * editing it at once do not drop each other's change.
+ */
+
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export interface JsonFileStoreOptions<T> {
+  /** Called on every read and write so tests and scripts can point it elsewhere */
+  getPath: () => string;
+  /** Builds the value from the parsed file; gets `undefined` when the file is missing or unreadable */
+  parse: (data: unknown) => T;
+  /** What goes in the file; the value itself unless given */
+  serialize?: (value: T) => unknown;
+  /** Prefix for the warning logged when the file cannot be read */
+  label: string;
+}
+
+export interface JsonFileStore<T> {
+  read: () => Promise<T>;
+  /** Replaces the whole file */
+  write: (value: T) => Promise<void>;
+  /** Runs `change` on a fresh read and writes the (mutated) value back */
+  mutate: <R>(change: (value: T) => R | Promise<R>) => Promise<R>;
+}
+
+// Keyed by file path and kept on globalThis so every module instance (dev reloads, route bundles) shares one chain
+const GLOBAL_WRITES_KEY = Symbol.for('cloudflare.image.jsonFileWrites');
+const globalObject = globalThis as typeof globalThis & {
+  [GLOBAL_WRITES_KEY]?: Map<string, Promise<unknown>>;
+};
+const pendingWrites = globalObject[GLOBAL_WRITES_KEY] ?? new Map<string, Promise<unknown>>();
+if (!globalObject[GLOBAL_WRITES_KEY]) {
+  globalObject[GLOBAL_WRITES_KEY] = pendingWrites;
+}
+
+const enqueueWrite = <R>(filePath: string, task: () => Promise<R>): Promise<R> => {
+  const run = (pendingWrites.get(filePath) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  pendingWrites.set(filePath, settled);
+  void settled.then(() => {
+    if (pendingWrites.get(filePath) === settled) {
+      pendingWrites.delete(filePath);
+    }
+  });
+  return run;
+};
+
+const writeJsonFile = async (filePath: string, value: unknown) => {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(value, null, 2) + '\n', 'utf8');
+  await fs.rename(tempPath, filePath);
+};
+
+export const createJsonFileStore = <T>({
+  getPath,
+  parse,
+  serialize = (value) => value,
+  label
+}: JsonFileStoreOptions<T>): JsonFileStore<T> => {
+  const readFrom = async (filePath: string): Promise<T> => {
+    try {
+      return parse(JSON.parse(await fs.readFile(filePath, 'utf8')));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`[${label}] Failed to read ${filePath}`, error);
+      }
+      return parse(undefined);
+    }
+  };
+
+  return {
+    read: () => readFrom(getPath()),
+    write: (value) => {
+      const filePath = getPath();
+      return enqueueWrite(filePath, () => writeJsonFile(filePath, serialize(value)));
+    },
+    mutate: (change) => {
+      const filePath = getPath();
+      return enqueueWrite(filePath, async () => {
+        const value = await readFrom(filePath);
+        const result = await change(value);
+        await writeJsonFile(filePath, serialize(value));
+        return result;
+      });
+    }
+  };
+};
@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  ImageStorageError,
+  type ImageBytes,
+  type ImageStorageProvider,
+  type ImageUploadInput,
+  type StoredImage
+} from './imageStorage';
+import { renderVariant } from './variantRenderer';
+
+// Named variants reported for every local image, matching a default Cloudflare account.
+const LOCAL_VARIANTS = ['public', 'thumbnail'];
+const RECORD_FILE = 'record.json';
+const ORIGINAL_FILE = 'original';
+
+type LocalImageRecord = {
+  id: string;
+  filename: string;
+  uploaded: string;
+  contentType: string;
+  size: number;
+  meta: Record<string, unknown>;
+};
+
+const isValidId = (imageId: string) => /^[a-zA-Z0-9_-]+$/.test(imageId);
+
+/**
+ * Filesystem implementation: one directory per image holding the original bytes
+ * and a JSON record. Variants are served by `/api/local-images/[hash]/[id]/[variant]`.
+ */
+export class LocalImageStorage implements ImageStorageProvider {
+  readonly kind = 'local' as const;
+  private rootDir: string;
+
+  constructor(rootDir?: string) {
+    this.rootDir =
+      rootDir ?? process.env.LOCAL_IMAGE_STORAGE_DIR ?? path.join(process.cwd(), 'data', 'local-images');
+  }
+
+  getConfigurationError(): string | undefined {
+    return undefined;
+  }
+
+  private getImageDir(imageId: string): string {
+    if (!isValidId(imageId)) {
+      throw new ImageStorageError('Invalid image ID', 400);
+    }
+    return path.join(this.rootDir, imageId);
+  }
+
+  private buildVariantUrls(imageId: string): string[] {
+    return LOCAL_VARIANTS.map((variant) => getLocalVariantUrl(imageId, variant));
+  }
+
+  private toStoredImage(record: LocalImageRecord): StoredImage {
+    return {
+      id: record.id,
+      filename: record.filename,
+      uploaded: record.uploaded,
+      variants: this.buildVariantUrls(record.id),
+      meta: record.meta,
+      size: record.size
+    };
+  }
+
+  private async readRecord(imageId: string): Promise<LocalImageRecord> {
+    const filePath = path.join(this.getImageDir(imageId), RECORD_FILE);
+    try {
+      const raw = await fs.readFile(filePath, 'utf-8');
+      return JSON.parse(raw) as LocalImageRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new ImageStorageError('Image not found', 404);
+      }
+      throw error;
+    }
+  }
+
+  private async writeRecord(record: LocalImageRecord): Promise<void> {
+    const filePath = path.join(this.getImageDir(record.id), RECORD_FILE);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(record, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async upload({ buffer, filename, contentType, metadata }: ImageUploadInput): Promise<StoredImage> {
+    const id = randomUUID();
+    await fs.mkdir(this.getImageDir(id), { recursive: true });
+    await fs.writeFile(path.join(this.getImageDir(id), ORIGINAL_FILE), buffer);
+    const record: LocalImageRecord = {
+      id,
+      filename,
+      uploaded: new Date().toISOString(),
+      contentType,
+      size: buffer.byteLength,
+      meta: metadata
+    };
+    await this.writeRecord(record);
+    return this.toStoredImage(record);
+  }
+
+  async get(imageId: string): Promise<StoredImage> {
+    return this.toStoredImage(await this.readRecord(imageId));
+  }
+
+  async listPage(page: number, perPage: number): Promise<StoredImage[]> {
+    let entries: string[] = [];
+    try {
+      entries = await fs.readdir(this.rootDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const records = await Promise.all(
+      entries.filter(isValidId).map((entry) => this.readRecord(entry).catch(() => null))
+    );
+    // Newest first, matching the order the gallery expects from Cloudflare
+    const sorted = records
+      .filter((record): record is LocalImageRecord => Boolean(record))
+      .sort((a, b) => b.uploaded.localeCompare(a.uploaded));
+    const start = (Math.max(1, page) - 1) * perPage;
+    return sorted.slice(start, start + perPage).map((record) => this.toStoredImage(record));
+  }
+
+  async patchMetadata(imageId: string, metadata: Record<string, unknown>): Promise<void> {
+    const record = await this.readRecord(imageId);
+    await this.writeRecord({ ...record, meta: metadata });
+  }
+
+  async delete(imageId: string): Promise<void> {
+    await this.readRecord(imageId);
+    await fs.rm(this.getImageDir(imageId), { recursive: true, force: true });
+  }
+
+  getVariantUrl(image: Pick<StoredImage, 'id' | 'variants'>, variant = 'public'): string {
+    return getLocalVariantUrl(image.id, variant);
+  }
+
+  async readOriginal(imageId: string): Promise<ImageBytes> {
+    const record = await this.readRecord(imageId);
+    const buffer = await fs.readFile(path.join(this.getImageDir(imageId), ORIGINAL_FILE));
+    return { buffer, contentType: record.contentType };
+  }
+
+  async fetchVariant(image: Pick<StoredImage, 'id' | 'variants'>, variant = 'public'): Promise<ImageBytes> {
+    return renderVariant(await this.readOriginal(image.id), variant);
+  }
+}
+
+/**
+ * Local variant URLs follow the imagedelivery.net layout so client helpers
+ * (`getCloudflareImageUrl`) work unchanged when pointed at the local route.
+ */
+export const getLocalVariantUrl = (imageId: string, variant: string) => {
+  const base = process.env.NEXT_PUBLIC_IMAGE_DELIVERY_BASE_URL || '/api/local-images';
+  const hash = process.env.NEXT_PUBLIC_CLOUDFLARE_ACCOUNT_HASH || 'local';
+  return `${base}/${hash}/${imageId}/${variant}`;
+};
@@ -0,0 +1,220 @@
+/**
+ * Sidecar Metadata Store
+ *
+ * Cloudflare Images caps metadata at 1024 bytes, so the full metadata for each
+ * image is kept locally as one JSON file per image id. Cloudflare receives a
+ * compact copy (whatever fits, plus a `metadataDigest` pointer) and reads merge
+ * the sidecar back in when the digest still matches, so nothing is truncated.
+ * Fields on Cloudflare take precedence, so direct edits there are not masked.
+ *
+ * Configuration:
+ *   METADATA_SIDECAR_DIR=/path/to/data/metadata (default: ./data/metadata)
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash, randomUUID } from 'node:crypto';
+import {
+  enforceCloudflareMetadataLimit,
+  parseCloudflareMetadata,
+  type CloudflareMetadata
+} from '@/utils/cloudflareMetadata';
+import type {
+  ImageBytes,
+  ImageStorageProvider,
+  ImageUploadInput,
+  StoredImage
+} from './imageStorage';
+
+const CLOUDFLARE_METADATA_LIMIT_BYTES = 1024;
+const DIGEST_FIELD = 'metadataDigest';
+
+interface SidecarRecord {
+  id: string;
+  digest: string;
+  metadata: CloudflareMetadata;
+  updatedAt: string;
+}
+
+interface SidecarState {
+  dir: string | null;
+  records: Map<string, SidecarRecord>;
+}
+
+// Shared across hot reloads, like the image cache
+const GLOBAL_SIDECAR_KEY = Symbol.for('cloudflare.metadata.sidecar');
+const globalObject = globalThis as typeof globalThis & {
+  [GLOBAL_SIDECAR_KEY]?: SidecarState;
+};
+const sidecarState: SidecarState = globalObject[GLOBAL_SIDECAR_KEY] ?? { dir: null, records: new Map() };
+if (!globalObject[GLOBAL_SIDECAR_KEY]) {
+  globalObject[GLOBAL_SIDECAR_KEY] = sidecarState;
+}
+
+const getSidecarDir = () =>
+  process.env.METADATA_SIDECAR_DIR ?? path.join(process.cwd(), 'data', 'metadata');
+
+const isValidId = (imageId: string) => /^[a-zA-Z0-9_-]+$/.test(imageId);
+
+// Loads every record once (synchronously, so transformImage can stay sync);
+// reloads if METADATA_SIDECAR_DIR changes.
+const getRecords = (): Map<string, SidecarRecord> => {
+  const dir = getSidecarDir();
+  if (sidecarState.dir === dir) {
+    return sidecarState.records;
+  }
+  const records = new Map<string, SidecarRecord>();
+  try {
+    for (const entry of fs.readdirSync(dir)) {
+      if (!entry.endsWith('.json')) continue;
+      try {
+        const record = JSON.parse(fs.readFileSync(path.join(dir, entry), 'utf8')) as SidecarRecord;
+        if (record?.id && record.metadata) {
+          records.set(record.id, record);
+        }
+      } catch (error) {
+        console.warn('[metadata-sidecar] Skipping unreadable record', entry, error);
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('[metadata-sidecar] Failed to load sidecar directory', error);
+    }
+  }
+  sidecarState.dir = dir;
+  sidecarState.records = records;
+  return records;
+};
+
+const stripPointer = (metadata: Record<string, unknown>): CloudflareMetadata => {
+  const rest = { ...metadata };
+  delete rest[DIGEST_FIELD];
+  return rest as CloudflareMetadata;
+};
+
+export const computeMetadataDigest = (metadata: Record<string, unknown>) =>
+  createHash('sha256').update(JSON.stringify(stripPointer(metadata))).digest('hex').slice(0, 16);
+
+export const getSidecarMetadata = (imageId: string): CloudflareMetadata | undefined =>
+  getRecords().get(imageId)?.metadata;
+
+export const saveSidecarMetadata = async (imageId: string, metadata: Record<string, unknown>) => {
+  if (!isValidId(imageId)) {
+    throw new Error(`Invalid image id for metadata sidecar: ${imageId}`);
+  }
+  const full = stripPointer(metadata);
+  const record: SidecarRecord = {
+    id: imageId,
+    digest: computeMetadataDigest(full),
+    metadata: full,
+    updatedAt: new Date().toISOString()
+  };
+  const dir = getSidecarDir();
+  const filePath = path.join(dir, `${imageId}.json`);
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.promises.mkdir(dir, { recursive: true });
+  await fs.promises.writeFile(tempPath, JSON.stringify(record, null, 2), 'utf8');
+  await fs.promises.rename(tempPath, filePath);
+  getRecords().set(imageId, record);
+  return record;
+};
+
+export const removeSidecarMetadata = async (imageId: string) => {
+  if (!isValidId(imageId)) return;
+  getRecords().delete(imageId);
+  await fs.promises.rm(path.join(getSidecarDir(), `${imageId}.json`), { force: true });
+};
+
+/**
+ * Build the metadata sent to Cloudflare: as many fields as fit within the
+ * limit, plus the digest of the full payload pointing at the sidecar record.
+ */
+export const toCompactCloudflareMetadata = (metadata: Record<string, unknown>) => {
+  const full = stripPointer(metadata);
+  const pointer = { [DIGEST_FIELD]: computeMetadataDigest(full) };
+  const pointerBytes = Buffer.byteLength(JSON.stringify(pointer), 'utf8');
+  const { metadata: limited, dropped } = enforceCloudflareMetadataLimit(
+    full,
+    CLOUDFLARE_METADATA_LIMIT_BYTES - pointerBytes
+  );
+  const compact: CloudflareMetadata = { ...limited, ...pointer };
+  return { metadata: compact, dropped };
+};
+
+/**
+ * Merge the sidecar copy with Cloudflare's compact metadata. The sidecar is
+ * only used when its digest matches the pointer stored on Cloudflare, and even
+ * then the fields Cloudflare holds win: scripts that spread the existing
+ * metadata keep the old digest, so their edits (and removals of fields the
+ * compact copy should hold) show through. Fields only the sidecar holds were
+ * dropped for size and can only be edited through the app.
+ */
+export const mergeSidecarMetadata = (imageId: string, rawMeta?: unknown): CloudflareMetadata => {
+  const cloudflareMeta = parseCloudflareMetadata(rawMeta);
+  const record = getRecords().get(imageId);
+  if (!record || cloudflareMeta[DIGEST_FIELD] !== record.digest) {
+    return cloudflareMeta;
+  }
+  const merged: CloudflareMetadata = { ...record.metadata, ...cloudflareMeta };
+  Object.keys(toCompactCloudflareMetadata(record.metadata).metadata).forEach((key) => {
+    if (!(key in cloudflareMeta)) {
+      delete merged[key];
+    }
+  });
+  return merged;
+};
+
+/**
+ * Wraps a size-limited provider (Cloudflare) so writes keep the full metadata
+ * in the sidecar and reads hand back the merged result.
+ */
+export class MetadataSidecarStorage implements ImageStorageProvider {
+  constructor(private inner: ImageStorageProvider) {}
+
+  get kind() {
+    return this.inner.kind;
+  }
+
+  private withMergedMeta<T extends StoredImage>(image: T): T {
+    return { ...image, meta: mergeSidecarMetadata(image.id, image.meta) };
+  }
+
+  getConfigurationError(): string | undefined {
+    return this.inner.getConfigurationError();
+  }
+
+  async upload(input: ImageUploadInput): Promise<StoredImage> {
+    const { metadata: compact } = toCompactCloudflareMetadata(input.metadata);
+    const stored = await this.inner.upload({ ...input, metadata: compact });
+    await saveSidecarMetadata(stored.id, input.metadata);
+    return { ...stored, meta: mergeSidecarMetadata(stored.id, stored.meta ?? compact) };
+  }
+
+  async get(imageId: string): Promise<StoredImage> {
+    return this.withMergedMeta(await this.inner.get(imageId));
+  }
+
+  async listPage(page: number, perPage: number): Promise<StoredImage[]> {
+    const images = await this.inner.listPage(page, perPage);
+    return images.map((image) => this.withMergedMeta(image));
+  }
+
+  async patchMetadata(imageId: string, metadata: Record<string, unknown>): Promise<void> {
+    const { metadata: compact } = toCompactCloudflareMetadata(metadata);
+    await this.inner.patchMetadata(imageId, compact);
+    await saveSidecarMetadata(imageId, metadata);
+  }
+
+  async delete(imageId: string): Promise<void> {
+    await this.inner.delete(imageId);
+    await removeSidecarMetadata(imageId);
+  }
+
+  getVariantUrl(image: Pick<StoredImage, 'id' | 'variants'>, variant?: string): string | undefined {
+    return this.inner.getVariantUrl(image, variant);
+  }
+
+  fetchVariant(image: Pick<StoredImage, 'id' | 'variants'>, variant?: string): Promise<ImageBytes> {
+    return this.inner.fetchVariant(image, variant);
+  }
+}
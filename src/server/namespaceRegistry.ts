@@ -1,16 +1,25 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
 
-// Local JSON registry used to populate namespace dropdown options in the UI.
-const REGISTRY_PATH = path.join(process.cwd(), 'data', 'namespace-registry.json');
+// Local JSON registry used to populate namespace dropdown options in the UI
+// and to hold per-namespace quotas.
+const REGISTRY_PATH =
+  process.env.NAMESPACE_REGISTRY_PATH || path.join(process.cwd(), 'data', 'namespace-registry.json');
+
+// Unset limits are unlimited.
+export type NamespaceQuota = {
+  maxImages?: number;
+  maxBytes?: number;
+};
 
 type NamespaceRegistryPayload = {
   namespaces: string[];
+  quotas?: Record<string, NamespaceQuota>;
   updatedAt: string;
 };
 
 // Normalize input so registry only stores meaningful namespaces.
-const normalizeNamespace = (value?: string) => {
+export const normalizeNamespace = (value?: string) => {
   if (!value) return '';
   const trimmed = value.trim();
   if (!trimmed || trimmed === '__none__' || trimmed === '__all__') return '';
@@ -25,8 +34,13 @@ const readRegistry = async (): Promise<NamespaceRegistryPayload> => {
     const namespaces = Array.isArray(parsed?.namespaces)
       ? parsed.namespaces.filter((entry) => typeof entry === 'string')
       : [];
+    const quotas =
+      parsed?.quotas && typeof parsed.quotas === 'object' && !Array.isArray(parsed.quotas)
+        ? (parsed.quotas as Record<string, NamespaceQuota>)
+        : undefined;
     return {
       namespaces,
+      quotas,
       updatedAt: typeof parsed?.updatedAt === 'string' ? parsed.updatedAt : new Date(0).toISOString()
     };
   } catch (error) {
@@ -43,6 +57,7 @@ const writeRegistry = async (payload: NamespaceRegistryPayload) => {
   const normalized = Array.from(new Set(payload.namespaces.map((entry) => entry.trim()).filter(Boolean))).sort();
   const nextPayload: NamespaceRegistryPayload = {
     namespaces: normalized,
+    ...(payload.quotas && Object.keys(payload.quotas).length ? { quotas: payload.quotas } : {}),
     updatedAt: payload.updatedAt
   };
   await fs.writeFile(REGISTRY_PATH, JSON.stringify(nextPayload, null, 2) + '\n', 'utf8');
@@ -65,5 +80,44 @@ export const upsertRegistryNamespace = async (namespace?: string) => {
   await writeRegistry(payload);
 };
 
+// Limits for one namespace; images without a namespace have none.
+export const getNamespaceQuota = async (namespace?: string): Promise<NamespaceQuota | undefined> => {
+  const normalized = normalizeNamespace(namespace);
+  if (!normalized) return undefined;
+  const payload = await readRegistry();
+  return payload.quotas?.[normalized];
+};
+
+export const listNamespaceQuotas = async () => {
+  const payload = await readRegistry();
+  return payload.quotas ?? {};
+};
+
+// Replaces the quota for a namespace (registering it if needed); an empty quota removes it.
+export const setNamespaceQuota = async (namespace: string, quota: NamespaceQuota) => {
+  const normalized = normalizeNamespace(namespace);
+  if (!normalized) {
+    throw new Error('A namespace is required');
+  }
+  const payload = await readRegistry();
+  const quotas = { ...(payload.quotas ?? {}) };
+  const cleaned: NamespaceQuota = {
+    ...(quota.maxImages !== undefined ? { maxImages: quota.maxImages } : {}),
+    ...(quota.maxBytes !== undefined ? { maxBytes: quota.maxBytes } : {})
+  };
+  if (Object.keys(cleaned).length) {
+    quotas[normalized] = cleaned;
+  } else {
+    delete quotas[normalized];
+  }
+  if (!payload.namespaces.includes(normalized)) {
+    payload.namespaces.push(normalized);
+  }
+  payload.quotas = quotas;
+  payload.updatedAt = new Date().toISOString();
+  await writeRegistry(payload);
+  return quotas[normalized];
+};
+
 // Exposes the registry path for scripts/debugging.
 export const getRegistryPath = () => REGISTRY_PATH;
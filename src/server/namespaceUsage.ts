@@ -0,0 +1,72 @@
+/**
+ * Namespace Usage and Quotas
+ *
+ * Counts images and stored bytes per namespace from the image cache and
+ * compares them with the quotas kept in the namespace registry. Bytes come
+ * from the `size` recorded at upload, so images uploaded before sizes were
+ * recorded count towards the image limit only.
+ */
+
+import { getCachedImages, type CachedCloudflareImage } from './cloudflareImageCache';
+import {
+  getNamespaceQuota,
+  listNamespaceQuotas,
+  listRegistryNamespaces,
+  normalizeNamespace,
+  type NamespaceQuota
+} from './namespaceRegistry';
+
+export interface NamespaceUsage {
+  /** `''` = images without a namespace */
+  namespace: string;
+  images: number;
+  bytes: number;
+  quota?: NamespaceQuota;
+}
+
+const summarize = (images: CachedCloudflareImage[], namespace: string) =>
+  images.reduce(
+    (usage, image) => {
+      if ((image.namespace ?? '') !== namespace) return usage;
+      usage.images += 1;
+      usage.bytes += image.size ?? 0;
+      return usage;
+    },
+    { images: 0, bytes: 0 }
+  );
+
+export const listNamespaceUsage = async (): Promise<NamespaceUsage[]> => {
+  const [images, registered, quotas] = await Promise.all([
+    getCachedImages(),
+    listRegistryNamespaces(),
+    listNamespaceQuotas()
+  ]);
+  const namespaces = new Set<string>([
+    ...registered,
+    ...Object.keys(quotas),
+    ...images.map((image) => image.namespace ?? '')
+  ]);
+  return Array.from(namespaces)
+    .sort((a, b) => a.localeCompare(b))
+    .map((namespace) => ({ namespace, ...summarize(images, namespace), quota: quotas[namespace] }));
+};
+
+/**
+ * Returns why an upload of `incomingBytes` into `namespace` would exceed its
+ * quota, or undefined when it fits.
+ */
+export const checkNamespaceQuota = async (namespace: string | undefined, incomingBytes: number) => {
+  const normalized = normalizeNamespace(namespace);
+  const quota = await getNamespaceQuota(normalized);
+  if (!quota || (quota.maxImages === undefined && quota.maxBytes === undefined)) {
+    return undefined;
+  }
+  const usage = summarize(await getCachedImages(), normalized);
+  if (quota.maxImages !== undefined && usage.images + 1 > quota.maxImages) {
+    return `Namespace "${normalized}" has reached its limit of ${quota.maxImages} images`;
+  }
+  if (quota.maxBytes !== undefined && usage.bytes + incomingBytes > quota.maxBytes) {
+    return `Namespace "${normalized}" would exceed its storage limit of ${quota.maxBytes} bytes`;
+  }
+  return undefined;
+};
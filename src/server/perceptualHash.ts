@@ -0,0 +1,57 @@
+/**
+ * Perceptual Hashing
+ *
+ * Computes a 64-bit difference hash (dHash) with sharp: the image is reduced
+ * to a 9x8 grayscale thumbnail and each bit records whether a pixel is
+ * brighter than its right-hand neighbour. Re-encoded, resized or lightly
+ * edited copies of an image end up within a few bits of the original.
+ *
+ * Configuration:
+ *   NEAR_DUPLICATE_MODE=reject (default: off; reject uploads that look like an existing image)
+ *   NEAR_DUPLICATE_MAX_DISTANCE=6 (bits of difference still treated as the same picture)
+ */
+
+import sharp from 'sharp';
+import { DEFAULT_NEAR_DUPLICATE_DISTANCE } from '@/utils/perceptualHash';
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+export const computePerceptualHash = async (buffer: Buffer): Promise<string> => {
+  const pixels = await sharp(buffer)
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hex = '';
+  for (let row = 0; row < HASH_HEIGHT; row += 1) {
+    let byte = 0;
+    for (let column = 0; column < HASH_WIDTH - 1; column += 1) {
+      const left = pixels[row * HASH_WIDTH + column];
+      const right = pixels[row * HASH_WIDTH + column + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+/** Hashing is best-effort: formats sharp cannot decode simply go without one. */
+export const tryComputePerceptualHash = async (buffer: Buffer): Promise<string | undefined> => {
+  try {
+    return await computePerceptualHash(buffer);
+  } catch (error) {
+    console.warn('[perceptual-hash] Failed to hash image', error);
+    return undefined;
+  }
+};
+
+export const getNearDuplicateMaxDistance = () => {
+  const value = Number(process.env.NEAR_DUPLICATE_MAX_DISTANCE);
+  return Number.isInteger(value) && value >= 0 && value <= 32 ? value : DEFAULT_NEAR_DUPLICATE_DISTANCE;
+};
+
+export const isNearDuplicateRejectionEnabled = () =>
+  (process.env.NEAR_DUPLICATE_MODE ?? '').trim().toLowerCase() === 'reject';
@@ -0,0 +1,356 @@
+/**
+ * Full-text Search Index
+ *
+ * In-memory inverted index over the cached image metadata. Terms are
+ * lowercased and lightly stemmed; queries match exact terms, prefixes and
+ * (for longer words) typos within a small edit distance, and results are
+ * ranked with a BM25-style score weighted by the field a term came from.
+ *
+ * The index is rebuilt lazily from the image cache after a full refresh and
+ * kept current by `upsertCachedImage` / `removeCachedImage`.
+ */
+
+import type { CachedCloudflareImage } from './cloudflareImageCache';
+
+export type SearchIndexField =
+  | 'displayName'
+  | 'filename'
+  | 'tags'
+  | 'altTag'
+  | 'description'
+  | 'folder'
+  | 'exif'
+  | 'urls';
+
+export interface SearchSnippet {
+  field: SearchIndexField;
+  text: string;
+  /** [start, end) character ranges within `text` to highlight */
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchHit {
+  image: CachedCloudflareImage;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+const FIELD_WEIGHTS: Record<SearchIndexField, number> = {
+  displayName: 3,
+  filename: 2.5,
+  tags: 2.5,
+  altTag: 2,
+  description: 1.5,
+  folder: 1.5,
+  exif: 1,
+  urls: 0.5
+};
+
+// Fields worth showing back to the user, in preference order
+const SNIPPET_FIELDS: SearchIndexField[] = ['description', 'altTag', 'displayName', 'filename', 'tags', 'folder', 'exif'];
+const SNIPPET_RADIUS = 60;
+const PREFIX_FACTOR = 0.6;
+const FUZZY_FACTOR = 0.4;
+const SYNONYM_FACTOR = 0.8;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+interface IndexedDocument {
+  image: CachedCloudflareImage;
+  fields: Partial<Record<SearchIndexField, string>>;
+  // stemmed term → weighted term frequency
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface IndexState {
+  built: boolean;
+  documents: Map<string, IndexedDocument>;
+  postings: Map<string, Set<string>>;
+  totalLength: number;
+}
+
+const GLOBAL_INDEX_KEY = Symbol.for('cloudflare.image.searchIndex');
+const globalObject = globalThis as typeof globalThis & {
+  [GLOBAL_INDEX_KEY]?: IndexState;
+};
+const indexState: IndexState = globalObject[GLOBAL_INDEX_KEY] ?? {
+  built: false,
+  documents: new Map(),
+  postings: new Map(),
+  totalLength: 0
+};
+if (!globalObject[GLOBAL_INDEX_KEY]) {
+  globalObject[GLOBAL_INDEX_KEY] = indexState;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Light English suffix stripping (plurals, -ing, -ed, -ly); enough for
+ * "logos" to find "logo" and "running" to find "run" without a dictionary.
+ */
+export const stemTerm = (word: string): string => {
+  let term = word.toLowerCase();
+  if (term.length <= 3 || /^\d+$/.test(term)) return term;
+  if (term.endsWith('ies') && term.length > 4) return `${term.slice(0, -3)}y`;
+  if (term.endsWith('sses')) return term.slice(0, -2);
+  if (term.endsWith('ing') && term.length > 5) {
+    term = term.slice(0, -3);
+  } else if (term.endsWith('ed') && term.length > 4) {
+    term = term.slice(0, -2);
+  } else if (term.endsWith('ly') && term.length > 4) {
+    return term.slice(0, -2);
+  } else if (term.endsWith('es') && /(x|ch|sh|z)es$/.test(term)) {
+    return term.slice(0, -2);
+  } else if (term.endsWith('s') && !term.endsWith('ss') && !term.endsWith('us')) {
+    return term.slice(0, -1);
+  }
+  // running → runn → run
+  if (/([^aeiouslz])\1$/.test(term)) {
+    term = term.slice(0, -1);
+  }
+  return term;
+};
+
+export const tokenizeText = (text: string): string[] => (text.match(WORD_PATTERN) ?? []).map(stemTerm);
+
+const extractFields = (image: CachedCloudflareImage): IndexedDocument['fields'] => {
+  const exifValues = image.exif
+    ? ['make', 'model', 'lens'].map((key) => image.exif?.[key]).filter((value) => value !== undefined)
+    : [];
+  const fields: IndexedDocument['fields'] = {
+    displayName: image.displayName,
+    filename: image.filename,
+    tags: image.tags?.join(', '),
+    altTag: image.altTag,
+    description: image.description,
+    folder: image.folder,
+    exif: exifValues.length ? exifValues.join(' ') : undefined,
+    urls: [image.originalUrl, image.sourceUrl].filter(Boolean).join(' ') || undefined
+  };
+  (Object.keys(fields) as SearchIndexField[]).forEach((field) => {
+    if (!fields[field]) delete fields[field];
+  });
+  return fields;
+};
+
+const removeDocument = (imageId: string) => {
+  const existing = indexState.documents.get(imageId);
+  if (!existing) return;
+  existing.terms.forEach((_, term) => {
+    const posting = indexState.postings.get(term);
+    posting?.delete(imageId);
+    if (posting && posting.size === 0) {
+      indexState.postings.delete(term);
+    }
+  });
+  indexState.totalLength -= existing.length;
+  indexState.documents.delete(imageId);
+};
+
+const addDocument = (image: CachedCloudflareImage) => {
+  removeDocument(image.id);
+  const fields = extractFields(image);
+  const terms = new Map<string, number>();
+  let length = 0;
+  (Object.entries(fields) as Array<[SearchIndexField, string]>).forEach(([field, text]) => {
+    tokenizeText(text).forEach((term) => {
+      terms.set(term, (terms.get(term) ?? 0) + FIELD_WEIGHTS[field]);
+      length += 1;
+    });
+  });
+  terms.forEach((_, term) => {
+    const posting = indexState.postings.get(term) ?? new Set<string>();
+    posting.add(image.id);
+    indexState.postings.set(term, posting);
+  });
+  indexState.documents.set(image.id, { image, fields, terms, length });
+  indexState.totalLength += length;
+};
+
+export const rebuildSearchIndex = (images: CachedCloudflareImage[]) => {
+  indexState.documents = new Map();
+  indexState.postings = new Map();
+  indexState.totalLength = 0;
+  images.forEach(addDocument);
+  indexState.built = true;
+};
+
+/** Mark the index stale; it is rebuilt on the next search. */
+export const invalidateSearchIndex = () => {
+  indexState.built = false;
+};
+
+export const updateSearchIndex = (image: CachedCloudflareImage) => {
+  if (indexState.built) addDocument(image);
+};
+
+export const removeFromSearchIndex = (imageId: string) => {
+  if (indexState.built) removeDocument(imageId);
+};
+
+// Edit distance counting adjacent transpositions as one edit (optimal string alignment)
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const maxTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Every indexed term a query term can stand for, with how much that match is worth
+const expandQueryTerm = (queryTerm: string): Map<string, number> => {
+  const matches = new Map<string, number>();
+  if (indexState.postings.has(queryTerm)) {
+    matches.set(queryTerm, 1);
+  }
+  const typos = maxTypos(queryTerm);
+  indexState.postings.forEach((_, term) => {
+    if (matches.has(term)) return;
+    if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+      matches.set(term, PREFIX_FACTOR);
+    } else if (typos > 0 && editDistance(queryTerm, term, typos) <= typos) {
+      matches.set(term, FUZZY_FACTOR);
+    }
+  });
+  return matches;
+};
+
+const buildSnippets = (document: IndexedDocument, matchedTerms: Set<string>): SearchSnippet[] => {
+  const snippets: SearchSnippet[] = [];
+  SNIPPET_FIELDS.forEach((field) => {
+    const text = document.fields[field];
+    if (!text) return;
+    const ranges: Array<[number, number]> = [];
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      if (matchedTerms.has(stemTerm(match[0]))) {
+        ranges.push([match.index ?? 0, (match.index ?? 0) + match[0].length]);
+      }
+    }
+    if (!ranges.length) return;
+
+    // Trim long text to a window around the first highlight
+    const start = Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+    const end = Math.min(text.length, ranges[0][1] + SNIPPET_RADIUS);
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const offset = prefix.length - start;
+    snippets.push({
+      field,
+      text: `${prefix}${text.slice(start, end)}${suffix}`,
+      highlights: ranges
+        .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+        .map(([rangeStart, rangeEnd]) => [rangeStart + offset, rangeEnd + offset])
+    });
+  });
+  return snippets;
+};
+
+// Index terms for one query word: the word's own expansions, plus single-word synonyms at a discount
+const expandQueryWord = (word: string, synonyms?: (word: string) => string[]) => {
+  const queryTerm = stemTerm(word);
+  const expanded = expandQueryTerm(queryTerm);
+  synonyms?.(word.toLowerCase()).forEach((synonym) => {
+    const terms = tokenizeText(synonym);
+    if (terms.length !== 1 || terms[0] === queryTerm) return;
+    expandQueryTerm(terms[0]).forEach((factor, term) => {
+      expanded.set(term, Math.max(expanded.get(term) ?? 0, factor * SYNONYM_FACTOR));
+    });
+  });
+  return expanded;
+};
+
+/**
+ * Rank `images` against a free-text query. Every query word must match (as
+ * a term, prefix or near-miss, or through `synonyms`, e.g. the tag
+ * taxonomy); the index is built from `images` if stale.
+ */
+export const searchImages = (
+  images: CachedCloudflareImage[],
+  query: string,
+  options: {
+    limit?: number;
+    filter?: (image: CachedCloudflareImage) => boolean;
+    synonyms?: (word: string) => string[];
+  } = {}
+): { hits: SearchHit[]; total: number } => {
+  if (!indexState.built) {
+    rebuildSearchIndex(images);
+  }
+  // One entry per distinct stemmed word; the first spelling is kept for synonym lookup
+  const queryWords = new Map<string, string>();
+  (query.match(WORD_PATTERN) ?? []).forEach((word) => {
+    const term = stemTerm(word);
+    if (!queryWords.has(term)) queryWords.set(term, word);
+  });
+  if (!queryWords.size) {
+    return { hits: [], total: 0 };
+  }
+
+  const documentCount = Math.max(1, indexState.documents.size);
+  const averageLength = indexState.totalLength / documentCount || 1;
+  const scores = new Map<string, number>();
+  const matchedTerms = new Map<string, Set<string>>();
+  let candidates: Set<string> | undefined;
+
+  for (const word of queryWords.values()) {
+    const termScores = new Map<string, number>();
+    expandQueryWord(word, options.synonyms).forEach((factor, term) => {
+      const posting = indexState.postings.get(term);
+      if (!posting) return;
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+      posting.forEach((imageId) => {
+        const document = indexState.documents.get(imageId)!;
+        const frequency = document.terms.get(term) ?? 0;
+        const normalized =
+          (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength));
+        const score = idf * normalized * factor;
+        termScores.set(imageId, Math.max(termScores.get(imageId) ?? 0, score));
+        const matched = matchedTerms.get(imageId) ?? new Set<string>();
+        matched.add(term);
+        matchedTerms.set(imageId, matched);
+      });
+    });
+
+    // Every query term has to match, so keep only documents seen for all of them
+    const matchedIds = Array.from(termScores.keys());
+    candidates = new Set(candidates ? matchedIds.filter((imageId) => candidates?.has(imageId)) : matchedIds);
+    termScores.forEach((score, imageId) => {
+      scores.set(imageId, (scores.get(imageId) ?? 0) + score);
+    });
+  }
+
+  const ranked = Array.from(candidates ?? [])
+    .map((imageId) => indexState.documents.get(imageId)!)
+    .filter((document) => !options.filter || options.filter(document.image))
+    .map((document) => ({ document, score: scores.get(document.image.id) ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.document.image.id.localeCompare(b.document.image.id));
+
+  const limited = options.limit ? ranked.slice(0, options.limit) : ranked;
+  return {
+    total: ranked.length,
+    hits: limited.map(({ document, score }) => ({
+      image: document.image,
+      score: Number(score.toFixed(4)),
+      snippets: buildSnippets(document, matchedTerms.get(document.image.id) ?? new Set())
+    }))
+  };
+};
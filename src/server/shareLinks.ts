@@ -0,0 +1,284 @@
+/**
+ * Signed Share Links
+ *
+ * A share link is a token `<payload>.<signature>`. The payload names the
+ * link, the image, the variant and the expiry; the HMAC signature stops
+ * anyone from editing it. Each link also has a record (through
+ * `ICacheStorage`, next to the image cache) holding what cannot live in the
+ * token: the download count and limit, a password hash and revocation.
+ * `/api/share/:token` checks both and proxies the image bytes, so the
+ * storage URL is never handed out.
+ *
+ * Configuration:
+ *   SHARE_LINK_SECRET=<long random string> (falls back to AUTH_SECRET)
+ *   SHARE_LINK_DEFAULT_TTL_HOURS=168
+ */
+
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { parseCloudflareMetadata } from '@/utils/cloudflareMetadata';
+import { IMAGE_VARIANTS } from '@/utils/imageUtils';
+import { getCacheStorage } from './cacheStorage';
+import { toChangeActor, type ChangeActor } from './changeLog';
+import { fetchDeliveryVariant, requireImageStorage } from './imageStorage';
+
+export interface ShareLinkRecord {
+  id: string;
+  imageId: string;
+  variant: string;
+  createdAt: string;
+  expiresAt: string;
+  createdBy: ChangeActor;
+  /** Unset = unlimited */
+  maxDownloads?: number;
+  downloads: number;
+  /** `scrypt:<salt>:<hash>` */
+  passwordHash?: string;
+  lastDownloadedAt?: string;
+  revokedAt?: string;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+/** Link record as returned by the API (never includes the password hash). */
+export type ShareLinkSummary = Omit<ShareLinkRecord, 'passwordHash'> & {
+  hasPassword: boolean;
+  status: ShareLinkStatus;
+};
+
+interface ShareTokenPayload {
+  /** Link id */
+  l: string;
+  /** Image id */
+  i: string;
+  /** Variant */
+  v: string;
+  /** Expiry, epoch ms */
+  e: number;
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+const SHARE_LINKS_CACHE_KEY = 'share-links';
+// Expired and revoked links stay listed this long, then are dropped
+const PRUNE_AFTER_MS = 30 * 24 * 60 * 60 * 1000;
+const FLEXIBLE_VARIANT_PATTERN = /^[a-z0-9]+=[a-z0-9.]+(,[a-z0-9]+=[a-z0-9.]+)*$/i;
+
+interface ShareLinkState {
+  loaded: Promise<Map<string, ShareLinkRecord>> | null;
+}
+
+const GLOBAL_SHARE_LINKS_KEY = Symbol.for('cloudflare.image.shareLinks');
+const globalObject = globalThis as typeof globalThis & {
+  [GLOBAL_SHARE_LINKS_KEY]?: ShareLinkState;
+};
+const linkState: ShareLinkState = globalObject[GLOBAL_SHARE_LINKS_KEY] ?? { loaded: null };
+if (!globalObject[GLOBAL_SHARE_LINKS_KEY]) {
+  globalObject[GLOBAL_SHARE_LINKS_KEY] = linkState;
+}
+
+const getLinkMap = () => {
+  if (!linkState.loaded) {
+    linkState.loaded = getCacheStorage()
+      .get<ShareLinkRecord[]>(SHARE_LINKS_CACHE_KEY)
+      .then((cached) => new Map((cached?.data ?? []).map((record) => [record.id, record])))
+      .catch((error) => {
+        console.warn('[share-links] Failed to load share links', error);
+        return new Map<string, ShareLinkRecord>();
+      });
+  }
+  return linkState.loaded;
+};
+
+const persistLinks = async (links: Map<string, ShareLinkRecord>) => {
+  await getCacheStorage().set(SHARE_LINKS_CACHE_KEY, Array.from(links.values()));
+};
+
+export const getShareLinkDefaultTtlHours = () => {
+  const hours = Number(process.env.SHARE_LINK_DEFAULT_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : 168;
+};
+
+export const getShareSecret = () => {
+  const secret = process.env.SHARE_LINK_SECRET || process.env.AUTH_SECRET || '';
+  if (secret.length < 16) {
+    throw new ShareLinkError('SHARE_LINK_SECRET (or AUTH_SECRET) must be set (at least 16 characters)', 500);
+  }
+  return secret;
+};
+
+const sign = (value: string) => createHmac('sha256', getShareSecret()).update(value).digest('base64url');
+
+const safeEqual = (a: Buffer, b: Buffer) => a.length === b.length && timingSafeEqual(a, b);
+
+const hashPassword = (password: string) => {
+  const salt = randomBytes(16).toString('base64url');
+  return `scrypt:${salt}:${scryptSync(password, salt, 32).toString('base64url')}`;
+};
+
+const verifyPassword = (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  return safeEqual(scryptSync(password, salt, 32), Buffer.from(hash, 'base64url'));
+};
+
+/** Named variants (`large`) or flexible options (`w=900,h=600`). */
+export const isValidShareVariant = (variant: string) =>
+  IMAGE_VARIANTS.some((entry) => entry.name === variant) || FLEXIBLE_VARIANT_PATTERN.test(variant);
+
+const resolveVariant = (variant: string) =>
+  IMAGE_VARIANTS.find((entry) => entry.name === variant)?.value ?? variant;
+
+export const getShareLinkStatus = (record: ShareLinkRecord, now = Date.now()): ShareLinkStatus => {
+  if (record.revokedAt) return 'revoked';
+  if (Date.parse(record.expiresAt) <= now) return 'expired';
+  if (record.maxDownloads !== undefined && record.downloads >= record.maxDownloads) return 'exhausted';
+  return 'active';
+};
+
+export const toShareLinkSummary = (record: ShareLinkRecord, now = Date.now()): ShareLinkSummary => {
+  const { passwordHash, ...rest } = record;
+  return { ...rest, hasPassword: Boolean(passwordHash), status: getShareLinkStatus(record, now) };
+};
+
+/** `<base64url JSON>.<HMAC>`; shared with gallery share links. */
+export const signSharePayload = (payload: object) => {
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+};
+
+/** Payload of a token made by `signSharePayload`, or undefined if it was tampered with. */
+export const readSharePayload = <T>(token: string): T | undefined => {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return undefined;
+  if (!safeEqual(Buffer.from(signature, 'utf8'), Buffer.from(sign(encoded), 'utf8'))) return undefined;
+  try {
+    return JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+export const createShareToken = (record: ShareLinkRecord) => {
+  const payload: ShareTokenPayload = {
+    l: record.id,
+    i: record.imageId,
+    v: record.variant,
+    e: Date.parse(record.expiresAt)
+  };
+  return signSharePayload(payload);
+};
+
+const pruneLinks = (links: Map<string, ShareLinkRecord>, now: number) => {
+  links.forEach((record, id) => {
+    const endedAt = record.revokedAt ? Date.parse(record.revokedAt) : Date.parse(record.expiresAt);
+    if (getShareLinkStatus(record, now) !== 'active' && now - endedAt > PRUNE_AFTER_MS) {
+      links.delete(id);
+    }
+  });
+};
+
+export const createShareLink = async (input: {
+  imageId: string;
+  variant?: string;
+  expiresInHours?: number;
+  maxDownloads?: number;
+  password?: string;
+  actor?: ChangeActor | null;
+}) => {
+  getShareSecret();
+  const variant = input.variant?.trim() || 'large';
+  if (!isValidShareVariant(variant)) {
+    throw new ShareLinkError(`Unknown variant "${variant}"`);
+  }
+  const hours = input.expiresInHours ?? getShareLinkDefaultTtlHours();
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new ShareLinkError('expiresInHours must be a positive number');
+  }
+  if (input.maxDownloads !== undefined && (!Number.isInteger(input.maxDownloads) || input.maxDownloads < 1)) {
+    throw new ShareLinkError('maxDownloads must be a positive whole number');
+  }
+
+  const now = Date.now();
+  const record: ShareLinkRecord = {
+    id: randomBytes(8).toString('hex'),
+    imageId: input.imageId,
+    variant,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + hours * 60 * 60 * 1000).toISOString(),
+    createdBy: toChangeActor(input.actor),
+    ...(input.maxDownloads !== undefined ? { maxDownloads: input.maxDownloads } : {}),
+    downloads: 0,
+    ...(input.password ? { passwordHash: hashPassword(input.password) } : {})
+  };
+  const links = await getLinkMap();
+  pruneLinks(links, now);
+  links.set(record.id, record);
+  await persistLinks(links);
+  return { record, token: createShareToken(record) };
+};
+
+export const listShareLinks = async (filter: { imageId?: string } = {}) =>
+  Array.from((await getLinkMap()).values())
+    .filter((record) => !filter.imageId || record.imageId === filter.imageId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const revokeShareLink = async (id: string) => {
+  const links = await getLinkMap();
+  const record = links.get(id);
+  if (!record) {
+    throw new ShareLinkError('Share link not found', 404);
+  }
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    await persistLinks(links);
+  }
+  return record;
+};
+
+/**
+ * Checks a token (signature, record, expiry, limit, password) without
+ * counting a download. Throws `ShareLinkError` with the status to answer.
+ */
+export const resolveShareLink = async (token: string, password?: string) => {
+  const payload = readSharePayload<ShareTokenPayload>(token);
+  const record = payload ? (await getLinkMap()).get(payload.l) : undefined;
+  if (!payload || !record || record.imageId !== payload.i || record.variant !== payload.v) {
+    throw new ShareLinkError('Share link not found', 404);
+  }
+  const status = getShareLinkStatus(record);
+  if (status === 'revoked') throw new ShareLinkError('This share link was revoked', 410);
+  if (status === 'expired' || payload.e <= Date.now()) throw new ShareLinkError('This share link has expired', 410);
+  if (status === 'exhausted') throw new ShareLinkError('This share link has reached its download limit', 410);
+  if (record.passwordHash) {
+    if (!password) throw new ShareLinkError('This share link needs a password', 401);
+    if (!verifyPassword(password, record.passwordHash)) throw new ShareLinkError('Incorrect password', 401);
+  }
+  return record;
+};
+
+/** Resolves the link, fetches the shared variant and counts the download. */
+export const downloadSharedImage = async (token: string, password?: string) => {
+  const record = await resolveShareLink(token, password);
+  const storage = requireImageStorage();
+  const image = await storage.get(record.imageId);
+  if (parseCloudflareMetadata(image.meta).deletedAt) {
+    throw new ShareLinkError('Share link not found', 404);
+  }
+  const bytes = await fetchDeliveryVariant(storage, image, resolveVariant(record.variant));
+
+  // Count only once the bytes are in hand, so a failed fetch does not use up the limit
+  const links = await getLinkMap();
+  const current = links.get(record.id) ?? record;
+  if (getShareLinkStatus(current) === 'exhausted') {
+    throw new ShareLinkError('This share link has reached its download limit', 410);
+  }
+  current.downloads += 1;
+  current.lastDownloadedAt = new Date().toISOString();
+  await persistLinks(links);
+  return { record: current, filename: image.filename || record.imageId, ...bytes };
+};
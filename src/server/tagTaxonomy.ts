@@ -0,0 +1,216 @@
+/**
+ * Tag Taxonomy Store
+ *
+ * Persists the synonym and parent maps described in `utils/tagTaxonomy.ts`
+ * in a local JSON file next to the namespace registry, and builds the tag
+ * catalog (every tag with its image count) for the tag manager. Renames and
+ * merges rewrite image metadata in a `tag-rename` job; the taxonomy entries
+ * for the old names are moved here before the job is queued.
+ *
+ * Configuration:
+ *   TAG_TAXONOMY_PATH=./data/tag-taxonomy.json
+ */
+
+import path from 'node:path';
+import {
+  createEmptyTagTaxonomy,
+  expandTag,
+  getTagAliases,
+  getTagChildren,
+  getTagDescendants,
+  normalizeTagKey,
+  resolveTagSynonym,
+  type TagTaxonomy
+} from '@/utils/tagTaxonomy';
+import type { CachedCloudflareImage } from './cloudflareImageCache';
+import { createJsonFileStore } from './jsonFileStore';
+
+export interface TagCatalogEntry {
+  /** Most common spelling on images, or the taxonomy key for tags no image has */
+  tag: string;
+  key: string;
+  /** Images tagged with exactly this tag (any casing) */
+  count: number;
+  /** Images a `tag:` filter returns: this tag, its aliases and every tag below it */
+  total: number;
+  parent?: string;
+  children: string[];
+  /** Set when this tag is an alias of another tag */
+  synonymOf?: string;
+  aliases: string[];
+}
+
+export class TagTaxonomyError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'TagTaxonomyError';
+  }
+}
+
+const MAX_TAG_LENGTH = 100;
+
+const taxonomyStore = createJsonFileStore<TagTaxonomy>({
+  getPath: () => process.env.TAG_TAXONOMY_PATH || path.join(process.cwd(), 'data', 'tag-taxonomy.json'),
+  parse: (data) => {
+    const parsed = data as Partial<TagTaxonomy> | undefined;
+    if (!parsed) return createEmptyTagTaxonomy();
+    return {
+      synonyms: parsed.synonyms && typeof parsed.synonyms === 'object' ? parsed.synonyms : {},
+      parents: parsed.parents && typeof parsed.parents === 'object' ? parsed.parents : {}
+    };
+  },
+  label: 'tags'
+});
+const readTaxonomy = taxonomyStore.read;
+const mutateTaxonomy = taxonomyStore.mutate;
+
+const requireTagKey = (value: unknown, label: string) => {
+  const key = normalizeTagKey(typeof value === 'string' ? value : undefined);
+  if (!key) {
+    throw new TagTaxonomyError(`${label} is required`);
+  }
+  if (key.length > MAX_TAG_LENGTH) {
+    throw new TagTaxonomyError(`${label} is longer than ${MAX_TAG_LENGTH} characters`);
+  }
+  return key;
+};
+
+export const getTagTaxonomy = () => readTaxonomy();
+
+/** Replaces the aliases of `tag`; an empty list removes them. */
+export const setTagSynonyms = (tag: string, aliases: unknown) =>
+  mutateTaxonomy((taxonomy) => {
+    const canonical = requireTagKey(tag, 'Tag');
+    if (taxonomy.synonyms[canonical]) {
+      throw new TagTaxonomyError(
+        `"${canonical}" is a synonym of "${taxonomy.synonyms[canonical]}"; edit that tag instead`,
+        409
+      );
+    }
+    if (!Array.isArray(aliases)) {
+      throw new TagTaxonomyError('synonyms must be an array of tags');
+    }
+    const keys = Array.from(new Set(aliases.map((alias) => requireTagKey(alias, 'Synonym')))).filter(
+      (alias) => alias !== canonical
+    );
+    keys.forEach((alias) => {
+      const existing = taxonomy.synonyms[alias];
+      if (existing && existing !== canonical) {
+        throw new TagTaxonomyError(`"${alias}" is already a synonym of "${existing}"`, 409);
+      }
+      if (getTagAliases(taxonomy, alias).length) {
+        throw new TagTaxonomyError(`"${alias}" has synonyms of its own and cannot become one`, 409);
+      }
+      if (taxonomy.parents[alias] || getTagChildren(taxonomy, alias).length) {
+        throw new TagTaxonomyError(`"${alias}" has a parent or child tags; merge it instead`, 409);
+      }
+    });
+    Object.keys(taxonomy.synonyms).forEach((alias) => {
+      if (taxonomy.synonyms[alias] === canonical) delete taxonomy.synonyms[alias];
+    });
+    keys.forEach((alias) => {
+      taxonomy.synonyms[alias] = canonical;
+    });
+    return taxonomy;
+  });
+
+/** Sets or clears (`null`) the parent of `tag`. */
+export const setTagParent = (tag: string, parent: unknown) =>
+  mutateTaxonomy((taxonomy) => {
+    const child = resolveTagSynonym(taxonomy, requireTagKey(tag, 'Tag'));
+    if (parent === null || parent === '') {
+      delete taxonomy.parents[child];
+      return taxonomy;
+    }
+    const parentKey = resolveTagSynonym(taxonomy, requireTagKey(parent, 'Parent tag'));
+    if (parentKey === child || getTagDescendants(taxonomy, child).includes(parentKey)) {
+      throw new TagTaxonomyError('A tag cannot be placed under itself or one of its children');
+    }
+    taxonomy.parents[child] = parentKey;
+    return taxonomy;
+  });
+
+/**
+ * Points taxonomy entries for `from` at `to` after a rename or merge. With
+ * `keepAsSynonyms` the old names become aliases of `to`, so searches for
+ * them keep working.
+ */
+export const renameTaxonomyTags = (from: string[], to: string, options: { keepAsSynonyms?: boolean } = {}) =>
+  mutateTaxonomy((taxonomy) => {
+    const target = requireTagKey(to, 'New tag name');
+    const sources = new Set(from.map(normalizeTagKey).filter((key) => key && key !== target));
+    const rename = (key: string) => (sources.has(key) ? target : key);
+
+    const synonyms: Record<string, string> = {};
+    Object.entries(taxonomy.synonyms).forEach(([alias, canonical]) => {
+      const nextAlias = rename(alias);
+      const nextCanonical = rename(canonical);
+      if (nextAlias !== nextCanonical) synonyms[nextAlias] = nextCanonical;
+    });
+    if (options.keepAsSynonyms) {
+      sources.forEach((source) => {
+        synonyms[source] = target;
+      });
+    }
+    // An alias cannot also be a canonical tag
+    delete synonyms[target];
+
+    const parents: Record<string, string> = {};
+    Object.entries(taxonomy.parents).forEach(([child, parentKey]) => {
+      const nextChild = rename(child);
+      const nextParent = rename(parentKey);
+      if (nextChild !== nextParent && !parents[nextChild]) parents[nextChild] = nextParent;
+    });
+    // Aliases do not keep their own place in the hierarchy
+    Object.keys(synonyms).forEach((alias) => delete parents[alias]);
+
+    taxonomy.synonyms = synonyms;
+    taxonomy.parents = parents;
+    return taxonomy;
+  });
+
+/** Every tag on an image or in the taxonomy, with counts, sorted by name. */
+export const buildTagCatalog = (images: CachedCloudflareImage[], taxonomy: TagTaxonomy): TagCatalogEntry[] => {
+  const counts = new Map<string, number>();
+  const spellings = new Map<string, Map<string, number>>();
+  const imageKeys = images.map((image) => {
+    const keys = new Set<string>();
+    (image.tags ?? []).forEach((tag) => {
+      const key = normalizeTagKey(tag);
+      if (!key) return;
+      keys.add(key);
+      const variants = spellings.get(key) ?? new Map<string, number>();
+      variants.set(tag.trim(), (variants.get(tag.trim()) ?? 0) + 1);
+      spellings.set(key, variants);
+    });
+    keys.forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1));
+    return keys;
+  });
+
+  const allKeys = new Set<string>([
+    ...counts.keys(),
+    ...Object.keys(taxonomy.synonyms),
+    ...Object.values(taxonomy.synonyms),
+    ...Object.keys(taxonomy.parents),
+    ...Object.values(taxonomy.parents)
+  ]);
+
+  return Array.from(allKeys)
+    .map((key) => {
+      const expanded = expandTag(taxonomy, key);
+      const variants = spellings.get(key);
+      const tag = variants ? Array.from(variants).sort((a, b) => b[1] - a[1])[0][0] : key;
+      const synonymOf = taxonomy.synonyms[key];
+      return {
+        tag,
+        key,
+        count: counts.get(key) ?? 0,
+        total: imageKeys.filter((keys) => Array.from(keys).some((entry) => expanded.has(entry))).length,
+        ...(taxonomy.parents[key] ? { parent: taxonomy.parents[key] } : {}),
+        children: synonymOf ? [] : getTagChildren(taxonomy, key),
+        ...(synonymOf ? { synonymOf } : {}),
+        aliases: synonymOf ? [] : getTagAliases(taxonomy, key)
+      };
+    })
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
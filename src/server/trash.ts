@@ -0,0 +1,164 @@
+/**
+ * Trash
+ *
+ * `DELETE /api/images/:id` moves an image to the trash by setting `deletedAt`
+ * in its metadata; the bytes stay in storage and `getCachedImages` leaves the
+ * image out. Trashed images can be restored, or purged (deleted from storage
+ * for good). Responsive derivatives follow their original: they are trashed,
+ * restored and purged along with it. The `trash-purge` job purges images older
+ * than the retention window and runs on a timer started from
+ * `src/instrumentation.ts`.
+ *
+ * Configuration:
+ *   TRASH_RETENTION_DAYS=30 (0 keeps trashed images until purged by hand)
+ *   TRASH_PURGE_INTERVAL_MINUTES=60
+ */
+
+import { parseCloudflareMetadata } from '@/utils/cloudflareMetadata';
+import { tryRecordMetadataChange, type ChangeActor } from './changeLog';
+import { removeImageFromCollections } from './collections';
+import {
+  getCachedImage,
+  getCachedImages,
+  getTrashedImages,
+  removeCachedImage,
+  transformApiImageToCached,
+  upsertCachedImage
+} from './cloudflareImageCache';
+import { listDerivatives } from './derivatives';
+import { requireImageStorage } from './imageStorage';
+
+export class TrashError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'TrashError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getTrashRetentionDays = () => {
+  const days = Number(process.env.TRASH_RETENTION_DAYS ?? 30);
+  return Number.isFinite(days) && days >= 0 ? days : 30;
+};
+
+export const getTrashPurgeIntervalMs = () => {
+  const minutes = Number(process.env.TRASH_PURGE_INTERVAL_MINUTES ?? 60);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : 60) * 60 * 1000;
+};
+
+/** When a trashed image becomes eligible for the purge job, or undefined if never. */
+export const getPurgeAt = (deletedAt: string) => {
+  const days = getTrashRetentionDays();
+  return days > 0 ? new Date(Date.parse(deletedAt) + days * DAY_MS).toISOString() : undefined;
+};
+
+const setDeletedAt = async (
+  imageId: string,
+  deletedAt: string | undefined,
+  actor: ChangeActor | null | undefined,
+  source: 'trash' | 'restore'
+) => {
+  const storage = requireImageStorage();
+  const image = await storage.get(imageId);
+  const existingMeta = parseCloudflareMetadata(image.meta);
+  const metadata: Record<string, unknown> = { ...existingMeta, updatedAt: new Date().toISOString() };
+  if (deletedAt) {
+    metadata.deletedAt = deletedAt;
+  } else {
+    delete metadata.deletedAt;
+  }
+  await storage.patchMetadata(imageId, metadata);
+  const cached = transformApiImageToCached({
+    id: image.id,
+    filename: image.filename,
+    uploaded: image.uploaded,
+    variants: image.variants,
+    meta: metadata
+  });
+  upsertCachedImage(cached);
+  await tryRecordMetadataChange({ imageId, before: existingMeta, after: metadata, actor, source });
+  return cached;
+};
+
+// Derivatives are handled before their original so a failure leaves the original where it was
+const getDerivativesOf = async (imageId: string) =>
+  listDerivatives([...(await getCachedImages()), ...(await getTrashedImages())], imageId);
+
+export const trashImage = async (imageId: string, actor?: ChangeActor | null) => {
+  const existing = await getCachedImage(imageId, { includeTrashed: true });
+  if (existing?.deletedAt) {
+    return existing;
+  }
+  const deletedAt = new Date().toISOString();
+  for (const derivative of await getDerivativesOf(imageId)) {
+    if (!derivative.deletedAt) {
+      await setDeletedAt(derivative.id, deletedAt, actor, 'trash');
+    }
+  }
+  return setDeletedAt(imageId, deletedAt, actor, 'trash');
+};
+
+/** Restores the image and the derivatives that were trashed with it. */
+export const restoreImage = async (imageId: string, actor?: ChangeActor | null) => {
+  const existing = await getCachedImage(imageId, { includeTrashed: true });
+  if (existing && !existing.deletedAt) {
+    throw new TrashError('Image is not in the trash', 409);
+  }
+  if (existing?.deletedAt) {
+    for (const derivative of await getDerivativesOf(imageId)) {
+      if (derivative.deletedAt === existing.deletedAt) {
+        await setDeletedAt(derivative.id, undefined, actor, 'restore');
+      }
+    }
+  }
+  return setDeletedAt(imageId, undefined, actor, 'restore');
+};
+
+const deleteImage = async (imageId: string) => {
+  await requireImageStorage().delete(imageId);
+  removeCachedImage(imageId);
+  try {
+    await removeImageFromCollections(imageId);
+  } catch (error) {
+    console.warn('[trash] Failed to remove purged image from collections', { imageId, error: String(error) });
+  }
+};
+
+/** Deletes an image and all of its derivatives from storage for good, trashed or not. */
+export const deleteImageWithDerivatives = async (imageId: string) => {
+  for (const derivative of await getDerivativesOf(imageId)) {
+    await deleteImage(derivative.id);
+  }
+  await deleteImage(imageId);
+};
+
+/** Deletes a trashed image and all of its derivatives from storage for good. */
+export const purgeImage = async (imageId: string) => {
+  const existing = await getCachedImage(imageId, { includeTrashed: true });
+  if (!existing) {
+    throw new TrashError('Image not found', 404);
+  }
+  if (!existing.deletedAt) {
+    throw new TrashError('Only images in the trash can be purged', 409);
+  }
+  await deleteImageWithDerivatives(imageId);
+};
+
+/**
+ * Trashed images whose retention window has passed (all of them with `all`).
+ * Derivatives whose original is also listed are left out; purging the
+ * original takes them with it.
+ */
+export const listPurgeableImages = async (options: { all?: boolean; now?: number } = {}) => {
+  const now = options.now ?? Date.now();
+  const trashed = await getTrashedImages();
+  const purgeable = options.all
+    ? trashed
+    : trashed.filter((image) => {
+        const purgeAt = image.deletedAt ? getPurgeAt(image.deletedAt) : undefined;
+        return purgeAt !== undefined && Date.parse(purgeAt) <= now;
+      });
+  const ids = new Set(purgeable.map((image) => image.id));
+  return purgeable.filter((image) => !(image.derivative && image.parentId && ids.has(image.parentId)));
+};
@@ -1,10 +1,21 @@
 import { createHash } from 'crypto';
 import sharp from 'sharp';
 import { transformApiImageToCached, upsertCachedImage } from '@/server/cloudflareImageCache';
-import { findDuplicatesByContentHash, findDuplicatesByOriginalUrl } from '@/server/duplicateDetector';
+import { ImageStorageError, requireImageStorage } from '@/server/imageStorage';
+import type { StoredImage } from '@/server/imageStorage';
+import {
+  findDuplicatesByContentHash,
+  findDuplicatesByOriginalUrl,
+  findNearDuplicatesByPerceptualHash
+} from '@/server/duplicateDetector';
+import { tryExtractDominantColors } from '@/server/colorPalette';
+import { isNearDuplicateRejectionEnabled, tryComputePerceptualHash } from '@/server/perceptualHash';
+import { recordImageFeatures } from '@/server/imageSimilarity';
+import { checkNamespaceQuota } from '@/server/namespaceUsage';
+import { applyIngestRules } from '@/server/ingestRules';
+import { enqueueUploadDerivatives } from '@/server/derivativeJobs';
 import type { toDuplicateSummary } from '@/server/duplicateDetector';
 import { normalizeOriginalUrl } from '@/utils/urlNormalization';
-import { enforceCloudflareMetadataLimit } from '@/utils/cloudflareMetadata';
 import { extractExifSummary } from '@/utils/exif';
 import { extractSnagx } from '@/utils/snagx';
 
@@ -19,8 +30,6 @@ export const SUPPORTED_IMAGE_TYPES = new Set([
 ]);
 
 export type UploadContext = {
-  accountId: string;
-  apiToken: string;
   folder?: string;
   tags: string[];
   description?: string;
@@ -28,6 +37,12 @@ export type UploadContext = {
   sourceUrl?: string;
   namespace?: string;
   parentId?: string;
+  /** Overrides NEAR_DUPLICATE_MODE for this upload */
+  nearDuplicateMode?: 'off' | 'reject';
+  /** The caller picked `namespace` explicitly, so ingest rules may not change it */
+  namespaceRequested?: boolean;
+  /** Namespaces the caller may write to (namespace-limited keys); bounds rule-assigned namespaces */
+  allowedNamespaces?: string[];
 };
 
 export type UploadSuccess = {
@@ -36,11 +51,13 @@ export type UploadSuccess = {
   url: string;
   variants: string[];
   uploaded: string;
+  displayName?: string;
   folder?: string;
   tags: string[];
   description?: string;
   originalUrl?: string;
   sourceUrl?: string;
+  namespace?: string;
   parentId?: string;
   linkedAssetId?: string;
   webpVariantId?: string;
@@ -49,7 +66,7 @@ export type UploadSuccess = {
 export type UploadFailure = {
   filename: string;
   error: string;
-  reason?: 'invalid-type' | 'too-large' | 'duplicate' | 'upload' | 'unsupported';
+  reason?: 'invalid-type' | 'too-large' | 'duplicate' | 'near-duplicate' | 'quota' | 'upload' | 'unsupported';
   duplicates?: ReturnType<typeof toDuplicateSummary>[];
 };
 
@@ -79,7 +96,7 @@ const shrinkIfNeeded = async (input: Buffer, type: string): Promise<Buffer> => {
 
 export type UploadOutcome =
   | { ok: true; data: UploadSuccess }
-  | { ok: false; error: string; status: number; reason?: UploadFailure['reason']; duplicates?: ReturnType<typeof findDuplicatesByOriginalUrl> };
+  | { ok: false; error: string; status: number; reason?: UploadFailure['reason']; duplicates?: Awaited<ReturnType<typeof findDuplicatesByOriginalUrl>> };
 
 export async function uploadImageBuffer({
   buffer,
@@ -97,15 +114,11 @@ export async function uploadImageBuffer({
   context: UploadContext;
 }): Promise<UploadOutcome> {
   const {
-    accountId,
-    apiToken,
-    folder,
-    tags,
     description,
     originalUrl,
     sourceUrl,
-    namespace,
-    parentId
+    parentId,
+    nearDuplicateMode
   } = context;
   const isSnagx = fileName.toLowerCase().endsWith('.snagx');
   if (!isSnagx && !SUPPORTED_IMAGE_TYPES.has(fileType)) {
@@ -152,6 +165,35 @@ export async function uploadImageBuffer({
     return { ok: false, error: 'File size must be less than 10MB', status: 400, reason: 'too-large' };
   }
 
+  // Ingest rules see the file as received; EXIF comes from the untouched original
+  const exifSummary = await extractExifSummary(workingOriginalBuffer);
+  const dimensions = await sharp(workingBuffer)
+    .metadata()
+    .catch(() => undefined);
+  const ingest = await applyIngestRules(
+    {
+      filename: normalizedName,
+      mimeType: workingFileType,
+      originalUrl,
+      sourceUrl,
+      exif: exifSummary,
+      width: dimensions?.width,
+      height: dimensions?.height,
+      namespace: context.namespace,
+      folder: context.folder,
+      tags: context.tags
+    },
+    {
+      folderLocked: Boolean(context.folder),
+      namespaceLocked: context.namespaceRequested,
+      allowedNamespaces: context.allowedNamespaces
+    }
+  );
+  const { folder, tags, namespace } = ingest;
+  if (ingest.matchedRuleIds.length) {
+    console.info('[upload] Applied ingest rules', { filename: normalizedName, rules: ingest.matchedRuleIds });
+  }
+
   if (normalizedOriginalUrl) {
     duplicateMatches = await findDuplicatesByOriginalUrl(normalizedOriginalUrl, namespace);
     if (duplicateMatches.length) {
@@ -172,7 +214,6 @@ export async function uploadImageBuffer({
 
   const finalBuffer = await shrinkIfNeeded(workingBuffer, workingFileType);
   const contentHash = createHash('sha256').update(finalBuffer).digest('hex');
-  const exifSummary = await extractExifSummary(workingOriginalBuffer);
 
   if (!normalizedOriginalUrl) {
     duplicateMatches = await findDuplicatesByContentHash(contentHash, namespace);
@@ -192,12 +233,39 @@ export async function uploadImageBuffer({
     }
   }
 
-  const uploadFormData = new FormData();
-  uploadFormData.append('file', new Blob([finalBuffer], { type: workingFileType }), normalizedName);
+  const perceptualHash = await tryComputePerceptualHash(finalBuffer);
+  const rejectNearDuplicates = nearDuplicateMode
+    ? nearDuplicateMode === 'reject'
+    : isNearDuplicateRejectionEnabled();
+  if (perceptualHash && rejectNearDuplicates) {
+    const nearMatches = await findNearDuplicatesByPerceptualHash(perceptualHash, namespace);
+    if (nearMatches.length) {
+      console.warn('[upload] Near-duplicate image detected', {
+        perceptualHash,
+        duplicateIds: nearMatches.map(match => match.image.id),
+        distances: nearMatches.map(match => match.distance)
+      });
+      return {
+        ok: false,
+        error: 'Visually similar image already exists',
+        status: 409,
+        reason: 'near-duplicate',
+        duplicates: nearMatches.map(match => match.image)
+      };
+    }
+  }
+
+  const quotaError = await checkNamespaceQuota(namespace, finalBuffer.byteLength);
+  if (quotaError) {
+    logIssue('Rejected upload over namespace quota', { filename: normalizedName, namespace });
+    return { ok: false, error: quotaError, status: 403, reason: 'quota' };
+  }
+
+  const dominantColors = await tryExtractDominantColors(finalBuffer);
 
   const metadataPayload: Record<string, unknown> = {
     filename: normalizedName,
-    displayName: normalizedName,
+    displayName: ingest.displayName ?? normalizedName,
     uploadedAt: new Date().toISOString(),
     size: workingFileSize,
     type: workingFileType,
@@ -210,41 +278,29 @@ export async function uploadImageBuffer({
     sourceUrlNormalized: normalizedSourceUrl,
     namespace: namespace,
     contentHash,
+    perceptualHash,
+    dominantColors,
     variationParentId: parentId,
     exif: exifSummary,
   };
 
-  const { metadata: limitedMetadata, dropped } = enforceCloudflareMetadataLimit(metadataPayload);
-  if (dropped.length) {
-    logIssue('Metadata trimmed to fit Cloudflare limits', { dropped });
-  }
-  uploadFormData.append('metadata', JSON.stringify(limitedMetadata));
-
-  const cloudflareResponse = await fetch(
-    `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1`,
-    {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiToken}`,
-      },
-      body: uploadFormData,
+  const storage = requireImageStorage();
+  let imageData: StoredImage;
+  try {
+    imageData = await storage.upload({
+      buffer: finalBuffer,
+      filename: normalizedName,
+      contentType: workingFileType,
+      metadata: metadataPayload
+    });
+  } catch (error) {
+    if (error instanceof ImageStorageError) {
+      return { ok: false, error: error.message, status: error.status, reason: 'upload' };
     }
-  );
-
-  const result = await cloudflareResponse.json();
-
-  if (!cloudflareResponse.ok) {
-    console.error('Cloudflare API error:', result);
-    return {
-      ok: false,
-      error: result.errors?.[0]?.message || 'Failed to upload to Cloudflare',
-      status: cloudflareResponse.status,
-      reason: 'upload'
-    };
+    throw error;
   }
 
-  const imageData = result.result;
-  const baseMeta = imageData.meta ?? limitedMetadata;
+  const baseMeta = imageData.meta ?? metadataPayload;
   const primaryCached = transformApiImageToCached({
     id: imageData.id,
     filename: imageData.filename,
@@ -254,13 +310,17 @@ export async function uploadImageBuffer({
   });
   upsertCachedImage(primaryCached);
 
+  try {
+    await recordImageFeatures(imageData.id, finalBuffer, perceptualHash);
+  } catch (error) {
+    logIssue('Failed to compute similarity features', { id: imageData.id, error: String(error) });
+  }
+
   let webpVariantId: string | undefined;
   if (fileType === 'image/svg+xml') {
     try {
       const webpBuffer = await sharp(finalBuffer).webp({ quality: 85 }).toBuffer();
       const webpName = normalizedName.replace(/\.svg$/i, '') + '.webp';
-      const webpFormData = new FormData();
-      webpFormData.append('file', new Blob([webpBuffer], { type: 'image/webp' }), webpName);
       const webpMetadataPayload = {
         ...metadataPayload,
         filename: webpName,
@@ -268,37 +328,22 @@ export async function uploadImageBuffer({
         variationParentId: parentId,
         linkedAssetId: imageData.id,
       };
-      const { metadata: limitedWebpMetadata, dropped } = enforceCloudflareMetadataLimit(webpMetadataPayload);
-      if (dropped.length) {
-        logIssue('Metadata trimmed for webp variant', { dropped });
-      }
-      webpFormData.append('metadata', JSON.stringify(limitedWebpMetadata));
-      const webpResponse = await fetch(
-        `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${apiToken}`,
-          },
-          body: webpFormData,
-        }
-      );
-      const webpJson = await webpResponse.json();
-      if (!webpResponse.ok) {
-        console.error('Cloudflare WebP upload error:', webpJson);
-      } else {
-        const webpResult = webpJson.result;
-        webpVariantId = webpResult?.id;
-        if (webpResult) {
-          const cachedVariant = transformApiImageToCached({
-            id: webpResult.id,
-            filename: webpResult.filename,
-            uploaded: webpResult.uploaded,
-            variants: webpResult.variants,
-            meta: webpResult.meta ?? limitedWebpMetadata
-          });
-          upsertCachedImage(cachedVariant);
-        }
+      const webpResult = await storage.upload({
+        buffer: webpBuffer,
+        filename: webpName,
+        contentType: 'image/webp',
+        metadata: webpMetadataPayload
+      });
+      webpVariantId = webpResult?.id;
+      if (webpResult) {
+        const cachedVariant = transformApiImageToCached({
+          id: webpResult.id,
+          filename: webpResult.filename,
+          uploaded: webpResult.uploaded,
+          variants: webpResult.variants,
+          meta: webpResult.meta ?? webpMetadataPayload
+        });
+        upsertCachedImage(cachedVariant);
       }
     } catch (err) {
       console.error('Failed to convert SVG to WebP', err);
@@ -311,40 +356,27 @@ export async function uploadImageBuffer({
       linkedAssetId: webpVariantId,
       updatedAt: new Date().toISOString(),
     };
-    const { metadata: limitedUpdatedMetadata, dropped } = enforceCloudflareMetadataLimit(updatedMetadata);
-    if (dropped.length) {
-      logIssue('Metadata trimmed for linked asset update', { dropped });
-    }
     try {
-      const patchResp = await fetch(
-        `https://api.cloudflare.com/client/v4/accounts/${accountId}/images/v1/${imageData.id}`,
-        {
-          method: 'PATCH',
-          headers: {
-            'Authorization': `Bearer ${apiToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ metadata: limitedUpdatedMetadata }),
-        }
-      );
-      if (!patchResp.ok) {
-        const patchJson = await patchResp.json();
-        console.error('Failed to patch SVG metadata', patchJson);
-      } else {
-        const updatedPrimary = transformApiImageToCached({
-          id: imageData.id,
-          filename: imageData.filename,
-          uploaded: imageData.uploaded,
-          variants: imageData.variants,
-          meta: updatedMetadata
-        });
-        upsertCachedImage(updatedPrimary);
-      }
+      await storage.patchMetadata(imageData.id, updatedMetadata);
+      const updatedPrimary = transformApiImageToCached({
+        id: imageData.id,
+        filename: imageData.filename,
+        uploaded: imageData.uploaded,
+        variants: imageData.variants,
+        meta: updatedMetadata
+      });
+      upsertCachedImage(updatedPrimary);
     } catch (err) {
       console.error('Failed to patch SVG metadata', err);
     }
   }
 
+  try {
+    await enqueueUploadDerivatives(imageData.id);
+  } catch (error) {
+    logIssue('Failed to queue responsive derivatives', { id: imageData.id, error: String(error) });
+  }
+
   return {
     ok: true,
     data: {
@@ -353,6 +385,7 @@ export async function uploadImageBuffer({
       url: imageData.variants.find((v: string) => v.includes('public')) || imageData.variants[0],
       variants: imageData.variants,
       uploaded: new Date().toISOString(),
+      displayName: ingest.displayName,
       folder: folder,
       tags: tags,
       description: description,
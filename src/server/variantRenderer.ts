@@ -0,0 +1,102 @@
+import sharp from 'sharp';
+import type { ImageBytes } from './imageStorage';
+
+// Named variants that Cloudflare accounts typically define, expressed as flexible options.
+const NAMED_VARIANTS: Record<string, string> = {
+  public: '',
+  full: '',
+  original: '',
+  thumbnail: 'w=150'
+};
+
+const FORMAT_TO_MIME: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  gif: 'image/gif'
+};
+
+type VariantOptions = {
+  width?: number;
+  height?: number;
+  fit?: 'cover' | 'contain' | 'inside' | 'fill';
+  quality?: number;
+  format?: string;
+};
+
+const FIT_MAP: Record<string, VariantOptions['fit']> = {
+  'scale-down': 'inside',
+  contain: 'inside',
+  cover: 'cover',
+  crop: 'cover',
+  pad: 'contain'
+};
+
+const parsePositive = (value?: string) => {
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : undefined;
+};
+
+/**
+ * Parse a Cloudflare-style variant segment (`public`, `w=300`, `w=300,h=200,fit=cover`,
+ * or URL params like `w=300&format=webp`) plus an optional `format` query override.
+ */
+export const parseVariantOptions = (variant: string, format?: string | null): VariantOptions => {
+  const decoded = decodeURIComponent(variant);
+  const spec = Object.prototype.hasOwnProperty.call(NAMED_VARIANTS, decoded)
+    ? NAMED_VARIANTS[decoded]
+    : decoded;
+  const entries = spec
+    .split(/[,&]/)
+    .map((part) => part.split('='))
+    .filter((pair) => pair.length === 2)
+    .map(([key, value]) => [key.trim().toLowerCase(), value.trim().toLowerCase()] as const);
+  const options: VariantOptions = {};
+  for (const [key, value] of entries) {
+    if (key === 'w' || key === 'width') options.width = parsePositive(value);
+    if (key === 'h' || key === 'height') options.height = parsePositive(value);
+    if (key === 'fit') options.fit = FIT_MAP[value];
+    if (key === 'quality' || key === 'q') options.quality = parsePositive(value);
+    if (key === 'format' && FORMAT_TO_MIME[value]) options.format = value;
+  }
+  const normalizedFormat = format?.toLowerCase();
+  if (normalizedFormat && FORMAT_TO_MIME[normalizedFormat]) {
+    options.format = normalizedFormat;
+  }
+  return options;
+};
+
+/**
+ * Render a variant of the original bytes. SVGs and untouched originals are passed through.
+ */
+export const renderVariant = async (
+  original: ImageBytes,
+  variant: string,
+  format?: string | null
+): Promise<ImageBytes> => {
+  const options = parseVariantOptions(variant, format);
+  const needsTransform = Boolean(options.width || options.height || options.format || options.quality);
+  if (!needsTransform || original.contentType === 'image/svg+xml') {
+    return original;
+  }
+
+  let transformer = sharp(original.buffer, { animated: true }).rotate();
+  if (options.width || options.height) {
+    transformer = transformer.resize(options.width, options.height, {
+      fit: options.fit ?? 'inside',
+      withoutEnlargement: true
+    });
+  }
+  const outputFormat = options.format === 'jpg' ? 'jpeg' : options.format;
+  if (outputFormat) {
+    transformer = transformer.toFormat(outputFormat as keyof sharp.FormatEnum, { quality: options.quality ?? 85 });
+  }
+  const buffer = await transformer.toBuffer();
+  return {
+    buffer,
+    contentType: outputFormat ? FORMAT_TO_MIME[outputFormat] : original.contentType
+  };
+};
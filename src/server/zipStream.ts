@@ -0,0 +1,322 @@
+/**
+ * Streaming ZIP Writer and Reader
+ *
+ * Builds a ZIP archive entry by entry as a web `ReadableStream`, so routes
+ * can send large archives without holding them in memory. Only one entry's
+ * bytes are buffered at a time. Images are stored as-is (they are already
+ * compressed); entries with `compress` are deflated. Zip64 records are
+ * written once offsets or the entry count outgrow the classic format.
+ *
+ * `openZipFile` reads an archive on disk the same way: the central directory
+ * up front, then one entry's bytes per `read` call.
+ */
+
+import { open } from 'node:fs/promises';
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+
+export interface ZipEntry {
+  /** Path inside the archive, `/`-separated */
+  name: string;
+  data: Buffer;
+  modifiedAt?: Date;
+  compress?: boolean;
+}
+
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+const UTF8_FLAG = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Buffer) => {
+  let crc = UINT32_MAX;
+  for (let i = 0; i < data.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ UINT32_MAX) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+interface CentralRecord {
+  name: Buffer;
+  crc: number;
+  method: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const localHeader = (record: CentralRecord) => {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(VERSION_DEFAULT, 4);
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  header.writeUInt16LE(record.method, 8);
+  header.writeUInt16LE(record.time, 10);
+  header.writeUInt16LE(record.date, 12);
+  header.writeUInt32LE(record.crc, 14);
+  header.writeUInt32LE(record.compressedSize, 18);
+  header.writeUInt32LE(record.size, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, record.name]);
+};
+
+const centralHeader = (record: CentralRecord) => {
+  const zip64 = record.offset >= UINT32_MAX;
+  const extra = Buffer.alloc(zip64 ? 12 : 0);
+  if (zip64) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(8, 2);
+    extra.writeBigUInt64LE(BigInt(record.offset), 4);
+  }
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(VERSION_ZIP64, 4);
+  header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+  header.writeUInt16LE(UTF8_FLAG, 8);
+  header.writeUInt16LE(record.method, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(record.compressedSize, 20);
+  header.writeUInt32LE(record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  header.writeUInt32LE(zip64 ? UINT32_MAX : record.offset, 42);
+  return Buffer.concat([header, record.name, extra]);
+};
+
+const endOfCentralDirectory = (count: number, size: number, offset: number) => {
+  const parts: Buffer[] = [];
+  const zip64 = count >= UINT16_MAX || size >= UINT32_MAX || offset >= UINT32_MAX;
+  if (zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(BigInt(44), 4);
+    record.writeUInt16LE(VERSION_ZIP64, 12);
+    record.writeUInt16LE(VERSION_ZIP64, 14);
+    record.writeBigUInt64LE(BigInt(count), 24);
+    record.writeBigUInt64LE(BigInt(count), 32);
+    record.writeBigUInt64LE(BigInt(size), 40);
+    record.writeBigUInt64LE(BigInt(offset), 48);
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + size), 8);
+    locator.writeUInt32LE(1, 16);
+    parts.push(record, locator);
+  }
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(count, UINT16_MAX), 8);
+  end.writeUInt16LE(Math.min(count, UINT16_MAX), 10);
+  end.writeUInt32LE(Math.min(size, UINT32_MAX), 12);
+  end.writeUInt32LE(Math.min(offset, UINT32_MAX), 16);
+  parts.push(end);
+  return Buffer.concat(parts);
+};
+
+/** Yields the archive as consecutive chunks. */
+export async function* zipChunks(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>) {
+  const records: CentralRecord[] = [];
+  let offset = 0;
+  for await (const entry of entries) {
+    const payload = entry.compress ? deflateRawSync(entry.data) : entry.data;
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+    const record: CentralRecord = {
+      name: Buffer.from(entry.name.replace(/^\/+/, ''), 'utf8'),
+      crc: crc32(entry.data),
+      method: entry.compress ? 8 : 0,
+      compressedSize: payload.length,
+      size: entry.data.length,
+      offset,
+      time,
+      date
+    };
+    const header = localHeader(record);
+    records.push(record);
+    offset += header.length + payload.length;
+    yield header;
+    yield payload;
+  }
+
+  const central = Buffer.concat(records.map(centralHeader));
+  yield central;
+  yield endOfCentralDirectory(records.length, central.length, offset);
+}
+
+export const createZipStream = (entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>) => {
+  const iterator = zipChunks(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    }
+  });
+};
+
+export interface ZipFileEntry {
+  name: string;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  /** Offset of the entry's local header */
+  offset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_SIZE = 22;
+const MAX_COMMENT_BYTES = UINT16_MAX;
+
+const readAt = async (handle: Awaited<ReturnType<typeof open>>, position: number, length: number) => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new Error('Unexpected end of ZIP file');
+  }
+  return buffer;
+};
+
+// Sizes and offsets that overflowed the classic fields are in the zip64 extra field, in this order
+const applyZip64Extra = (entry: ZipFileEntry, extra: Buffer) => {
+  let position = 0;
+  while (position + 4 <= extra.length) {
+    const id = extra.readUInt16LE(position);
+    const length = extra.readUInt16LE(position + 2);
+    if (id === 0x0001) {
+      let field = position + 4;
+      const next = () => {
+        const value = Number(extra.readBigUInt64LE(field));
+        field += 8;
+        return value;
+      };
+      if (entry.size === UINT32_MAX) entry.size = next();
+      if (entry.compressedSize === UINT32_MAX) entry.compressedSize = next();
+      if (entry.offset === UINT32_MAX) entry.offset = next();
+      return;
+    }
+    position += 4 + length;
+  }
+};
+
+/** Opens a ZIP file for reading; throws when it has no readable central directory. */
+export const openZipFile = async (filePath: string) => {
+  const handle = await open(filePath, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+    const tailLength = Math.min(fileSize, EOCD_SIZE + MAX_COMMENT_BYTES);
+    const tailStart = fileSize - tailLength;
+    const tail = await readAt(handle, tailStart, tailLength);
+    let eocd = -1;
+    for (let index = tail.length - EOCD_SIZE; index >= 0; index -= 1) {
+      if (tail.readUInt32LE(index) === EOCD_SIGNATURE) {
+        eocd = index;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new Error('ZIP end of central directory not found');
+    }
+    let count = tail.readUInt16LE(eocd + 10);
+    let directorySize = tail.readUInt32LE(eocd + 12);
+    let directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (count === UINT16_MAX || directorySize === UINT32_MAX || directoryOffset === UINT32_MAX) {
+      const locator = await readAt(handle, tailStart + eocd - 20, 20);
+      if (locator.readUInt32LE(0) !== 0x07064b50) {
+        throw new Error('ZIP64 locator not found');
+      }
+      const record = await readAt(handle, Number(locator.readBigUInt64LE(8)), 56);
+      count = Number(record.readBigUInt64LE(32));
+      directorySize = Number(record.readBigUInt64LE(40));
+      directoryOffset = Number(record.readBigUInt64LE(48));
+    }
+
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    const entries = new Map<string, ZipFileEntry>();
+    let position = 0;
+    for (let index = 0; index < count; index += 1) {
+      if (directory.readUInt32LE(position) !== 0x02014b50) {
+        throw new Error('Malformed ZIP central directory');
+      }
+      const nameLength = directory.readUInt16LE(position + 28);
+      const extraLength = directory.readUInt16LE(position + 30);
+      const commentLength = directory.readUInt16LE(position + 32);
+      const nameStart = position + 46;
+      const entry: ZipFileEntry = {
+        name: directory.toString('utf8', nameStart, nameStart + nameLength),
+        method: directory.readUInt16LE(position + 10),
+        crc: directory.readUInt32LE(position + 16),
+        compressedSize: directory.readUInt32LE(position + 20),
+        size: directory.readUInt32LE(position + 24),
+        offset: directory.readUInt32LE(position + 42)
+      };
+      applyZip64Extra(entry, directory.subarray(nameStart + nameLength, nameStart + nameLength + extraLength));
+      entries.set(entry.name, entry);
+      position = nameStart + nameLength + extraLength + commentLength;
+    }
+
+    /** The uncompressed bytes of `name`, or undefined when the archive has no such entry. */
+    const read = async (name: string) => {
+      const entry = entries.get(name);
+      if (!entry) return undefined;
+      const header = await readAt(handle, entry.offset, 30);
+      if (header.readUInt32LE(0) !== 0x04034b50) {
+        throw new Error(`Malformed ZIP entry ${name}`);
+      }
+      const dataStart = entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+      const payload = await readAt(handle, dataStart, entry.compressedSize);
+      let data: Buffer;
+      if (entry.method === 0) {
+        data = payload;
+      } else if (entry.method === 8) {
+        data = inflateRawSync(payload);
+      } else {
+        throw new Error(`Unsupported compression method ${entry.method} for ${name}`);
+      }
+      if (data.length !== entry.size || crc32(data) !== entry.crc) {
+        throw new Error(`Corrupt ZIP entry ${name}`);
+      }
+      return data;
+    };
+
+    return { entries, read, close: () => handle.close() };
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+};
+
+export type ZipFile = Awaited<ReturnType<typeof openZipFile>>;
@@ -1,11 +1,8 @@
-import { cleanString, parseCloudflareMetadata, pickCloudflareMetadata } from './cloudflareMetadata';
+import { requireImageStorage } from '@/server/imageStorage';
+import { tryRecordMetadataChange, type ChangeActor, type ChangeSource } from '@/server/changeLog';
+import { cleanString, parseCloudflareMetadata } from './cloudflareMetadata';
 
-const ACCOUNT_ID = process.env.CLOUDFLARE_ACCOUNT_ID;
-const API_TOKEN = process.env.CLOUDFLARE_API_TOKEN;
-
-if (!ACCOUNT_ID || !API_TOKEN) {
-  console.warn('Cloudflare credentials missing; folder management endpoints will fail.');
-}
+const LIST_PAGE_SIZE = 100;
 
 export interface CloudflareImageRecord {
   id: string;
@@ -13,76 +10,75 @@ export interface CloudflareImageRecord {
   uploaded: string;
   variants: string[];
   folder?: string;
+  tags: string[];
   linkedAssetId?: string;
 }
 
-async function apiFetch(url: string, init?: RequestInit) {
-  if (!ACCOUNT_ID || !API_TOKEN) {
-    throw new Error('Cloudflare credentials not configured');
-  }
-  const resp = await fetch(url, {
-    ...init,
-    headers: {
-      'Authorization': `Bearer ${API_TOKEN}`,
-      ...(init?.headers || {}),
-    }
-  });
-  return resp;
-}
-
 export async function fetchCloudflareImages(): Promise<CloudflareImageRecord[]> {
-  const resp = await apiFetch(`https://api.cloudflare.com/client/v4/accounts/${ACCOUNT_ID}/images/v1`);
-  const json = await resp.json();
-  if (!resp.ok) {
-    throw new Error(json.errors?.[0]?.message || 'Failed to fetch Cloudflare images');
+  const storage = requireImageStorage();
+  const records: CloudflareImageRecord[] = [];
+  let page = 1;
+  while (true) {
+    const images = await storage.listPage(page, LIST_PAGE_SIZE);
+    images.forEach((image) => {
+      const meta = parseCloudflareMetadata(image.meta);
+      const folder = cleanString(typeof meta.folder === 'string' ? meta.folder : undefined);
+      const linkedAssetId = cleanString(typeof meta.linkedAssetId === 'string' ? meta.linkedAssetId : undefined);
+      const tags = Array.isArray(meta.tags) ? meta.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+      records.push({
+        id: image.id,
+        filename: image.filename,
+        uploaded: image.uploaded,
+        variants: Array.isArray(image.variants) ? image.variants : [],
+        folder,
+        tags,
+        linkedAssetId,
+      });
+    });
+    if (images.length < LIST_PAGE_SIZE) {
+      break;
+    }
+    page += 1;
   }
-  const records: CloudflareImageRecord[] = Array.isArray(json.result?.images)
-    ? json.result.images.map((image: any) => {
-        const meta = parseCloudflareMetadata(image.meta);
-        const folder = cleanString(typeof meta.folder === 'string' ? meta.folder : undefined);
-        const linkedAssetId = cleanString(typeof meta.linkedAssetId === 'string' ? meta.linkedAssetId : undefined);
-        return {
-          id: image.id,
-          filename: image.filename,
-          uploaded: image.uploaded,
-          variants: Array.isArray(image.variants) ? image.variants : [],
-          folder,
-          linkedAssetId,
-        };
-      })
-    : [];
   return records;
 }
 
-export async function updateImageFolder(imageId: string, folder?: string) {
-  if (!ACCOUNT_ID || !API_TOKEN) {
-    throw new Error('Cloudflare credentials not configured');
-  }
-  const fetchResp = await apiFetch(`https://api.cloudflare.com/client/v4/accounts/${ACCOUNT_ID}/images/v1/${imageId}`);
-  const fetchJson = await fetchResp.json();
-  if (!fetchResp.ok) {
-    throw new Error(fetchJson.errors?.[0]?.message || 'Failed to fetch existing metadata');
-  }
-  const existingMeta = parseCloudflareMetadata(fetchJson.result?.meta);
+export async function updateImageFolder(
+  imageId: string,
+  folder?: string,
+  change?: { actor?: ChangeActor | null; source: ChangeSource }
+) {
+  const storage = requireImageStorage();
+  const existing = await storage.get(imageId);
+  const existingMeta = parseCloudflareMetadata(existing.meta);
   const metadata = {
     ...existingMeta,
     updatedAt: new Date().toISOString(),
   } as Record<string, unknown>;
   metadata.folder = cleanString(folder);
-  const metadataPayload = pickCloudflareMetadata(metadata);
+  await storage.patchMetadata(imageId, metadata);
+  if (change) {
+    await tryRecordMetadataChange({ imageId, before: existingMeta, after: metadata, ...change });
+  }
+  return { ...existing, meta: metadata };
+}
 
-  const patchResp = await apiFetch(
-    `https://api.cloudflare.com/client/v4/accounts/${ACCOUNT_ID}/images/v1/${imageId}`,
-    {
-      method: 'PATCH',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ metadata: metadataPayload }),
-    }
-  );
-  const patchJson = await patchResp.json();
-  if (!patchResp.ok) {
-    throw new Error(patchJson.errors?.[0]?.message || 'Failed to update metadata');
+export async function updateImageTags(
+  imageId: string,
+  tags: string[],
+  change?: { actor?: ChangeActor | null; source: ChangeSource }
+) {
+  const storage = requireImageStorage();
+  const existing = await storage.get(imageId);
+  const existingMeta = parseCloudflareMetadata(existing.meta);
+  const metadata = {
+    ...existingMeta,
+    updatedAt: new Date().toISOString(),
+  } as Record<string, unknown>;
+  metadata.tags = tags;
+  await storage.patchMetadata(imageId, metadata);
+  if (change) {
+    await tryRecordMetadataChange({ imageId, before: existingMeta, after: metadata, ...change });
   }
+  return { ...existing, meta: metadata };
 }
@@ -8,6 +8,8 @@ export type CloudflareMetadata = {
   sourceUrlNormalized?: string;
   namespace?: string;
   contentHash?: string;
+  perceptualHash?: string;
+  dominantColors?: { hex: string; share: number }[];
   altTag?: string;
   displayName?: string;
   filename?: string;
@@ -17,6 +19,8 @@ export type CloudflareMetadata = {
   uploadedAt?: string;
   updatedAt?: string;
   variationSort?: number;
+  /** Set while the image is in the trash */
+  deletedAt?: string;
   [key: string]: unknown;
 };
 
@@ -30,12 +34,15 @@ export const CLOUDFLARE_METADATA_FIELDS = [
   'sourceUrlNormalized',
   'namespace',
   'contentHash',
+  'perceptualHash',
+  'dominantColors',
   'altTag',
   'displayName',
   'variationParentId',
   'linkedAssetId',
   'exif',
   'variationSort',
+  'deletedAt',
   'updatedAt'
 ] as const;
 
@@ -110,6 +117,7 @@ export function enforceCloudflareMetadataLimit(
   const dropped: string[] = [];
   const dropOrder = [
     'exif',
+    'dominantColors',
     'description',
     'tags',
     'originalUrlNormalized',
@@ -121,6 +129,7 @@ export function enforceCloudflareMetadataLimit(
     'displayName',
     'filename',
     'contentHash',
+    'perceptualHash',
     'uploadedAt',
     'type',
     'size',
@@ -0,0 +1,191 @@
+/**
+ * Dominant color helpers shared by the server (palette extraction) and the
+ * gallery (`color:` search filter). Palettes are stored per image as
+ * `{ hex, share }` entries ordered by coverage; colors are compared in CIELAB
+ * with the CIEDE2000 difference so "close" means close to the eye, not close
+ * in RGB.
+ */
+
+export interface DominantColor {
+  /** `#rrggbb` */
+  hex: string;
+  /** Fraction of the image covered by this color, 0–1 */
+  share: number;
+}
+
+export type Lab = [number, number, number];
+
+/** Default CIEDE2000 distance for `color:#hex` matches. */
+export const DEFAULT_COLOR_DISTANCE = 15;
+/** Palette entries covering less than this fraction never match a color filter. */
+export const MIN_COLOR_SHARE = 0.05;
+
+// Reference points for `color:<name>`; a palette color belongs to the nearest one
+export const NAMED_COLORS: Record<string, string> = {
+  red: '#d62828',
+  orange: '#f77f00',
+  yellow: '#f5d000',
+  green: '#2f9e44',
+  teal: '#0f8b8d',
+  cyan: '#22c7e0',
+  blue: '#1f5fd6',
+  navy: '#14213d',
+  purple: '#7b2cbf',
+  pink: '#f48fb1',
+  magenta: '#d61f9b',
+  brown: '#7f5539',
+  beige: '#e9dcc0',
+  black: '#111111',
+  gray: '#8a8a8a',
+  white: '#f7f7f7'
+};
+
+const COLOR_ALIASES: Record<string, string> = {
+  grey: 'gray',
+  violet: 'purple',
+  aqua: 'cyan',
+  turquoise: 'teal',
+  tan: 'beige'
+};
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const normalizeHexColor = (value?: string | null) => {
+  const match = HEX_PATTERN.exec((value ?? '').trim());
+  if (!match) return undefined;
+  const digits = match[1].length === 3 ? match[1].replace(/./g, (digit) => digit + digit) : match[1];
+  return `#${digits.toLowerCase()}`;
+};
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+export const rgbToHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+const srgbToLinear = (channel: number) => {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+};
+
+const labPivot = (value: number) => (value > 216 / 24389 ? Math.cbrt(value) : (24389 / 27 * value + 16) / 116);
+
+/** sRGB (0–255) → CIELAB, D65 white point. */
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const [lr, lg, lb] = [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)];
+  const x = labPivot((lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047);
+  const y = labPivot(lr * 0.2126 + lg * 0.7152 + lb * 0.0722);
+  const z = labPivot((lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+};
+
+export const hexToLab = (hex: string): Lab => rgbToLab(...hexToRgb(hex));
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/** CIEDE2000 color difference; ~2 is barely noticeable, >30 is a different color. */
+export const deltaE2000 = ([l1, a1, b1]: Lab, [l2, a2, b2]: Lab) => {
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const meanC7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + 25 ** 7)));
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const h1p = c1p === 0 ? 0 : (toDegrees(Math.atan2(b1, a1p)) + 360) % 360;
+  const h2p = c2p === 0 ? 0 : (toDegrees(Math.atan2(b2, a2p)) + 360) % 360;
+
+  const deltaL = l2 - l1;
+  const deltaC = c2p - c1p;
+  let deltaH = 0;
+  if (c1p * c2p !== 0) {
+    deltaH = h2p - h1p;
+    if (deltaH > 180) deltaH -= 360;
+    else if (deltaH < -180) deltaH += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(deltaH / 2));
+
+  const meanL = (l1 + l2) / 2;
+  const meanCp = (c1p + c2p) / 2;
+  let meanHp = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    meanHp = Math.abs(h1p - h2p) > 180 ? (h1p + h2p + (h1p + h2p < 360 ? 360 : -360)) / 2 : (h1p + h2p) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(meanHp - 30)) +
+    0.24 * Math.cos(toRadians(2 * meanHp)) +
+    0.32 * Math.cos(toRadians(3 * meanHp + 6)) -
+    0.2 * Math.cos(toRadians(4 * meanHp - 63));
+  const sl = 1 + (0.015 * (meanL - 50) ** 2) / Math.sqrt(20 + (meanL - 50) ** 2);
+  const sc = 1 + 0.045 * meanCp;
+  const sh = 1 + 0.015 * meanCp * t;
+  const meanCp7 = meanCp ** 7;
+  const rt =
+    -2 *
+    Math.sqrt(meanCp7 / (meanCp7 + 25 ** 7)) *
+    Math.sin(toRadians(60 * Math.exp(-(((meanHp - 275) / 25) ** 2))));
+
+  return Math.sqrt(
+    (deltaL / sl) ** 2 + (deltaC / sc) ** 2 + (deltaHp / sh) ** 2 + rt * (deltaC / sc) * (deltaHp / sh)
+  );
+};
+
+const NAMED_LABS = Object.entries(NAMED_COLORS).map(([name, hex]) => ({ name, lab: hexToLab(hex) }));
+
+/** Name of the reference color closest to `hex`. */
+export const nearestColorName = (hex: string) => {
+  const lab = hexToLab(hex);
+  let best = NAMED_LABS[0];
+  let bestDistance = Infinity;
+  NAMED_LABS.forEach((entry) => {
+    const distance = deltaE2000(lab, entry.lab);
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  });
+  return best.name;
+};
+
+/** Keeps well-formed palette entries only; tolerates metadata from older uploads. */
+export const normalizeDominantColors = (value: unknown): DominantColor[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const colors = value
+    .map((entry) => {
+      const record = entry as Partial<DominantColor> | null;
+      const hex = normalizeHexColor(record?.hex);
+      const share = Number(record?.share);
+      return hex && Number.isFinite(share) && share > 0 ? { hex, share: Math.min(share, 1) } : null;
+    })
+    .filter((entry): entry is DominantColor => Boolean(entry));
+  return colors.length ? colors : undefined;
+};
+
+/**
+ * `color:blue` matches palettes with a sizeable color whose nearest reference
+ * color is blue; `color:#1e90ff` matches colors within `maxDistance`.
+ * Unknown names match nothing.
+ */
+export const matchesDominantColor = (
+  colors: DominantColor[] | undefined,
+  query: string,
+  maxDistance = DEFAULT_COLOR_DISTANCE
+) => {
+  if (!colors?.length) return false;
+  const candidates = colors.filter((color) => color.share >= MIN_COLOR_SHARE);
+  const key = query.trim().toLowerCase();
+  const name = COLOR_ALIASES[key] ?? key;
+  if (NAMED_COLORS[name]) {
+    return candidates.some((color) => nearestColorName(color.hex) === name);
+  }
+  const hex = normalizeHexColor(key);
+  if (!hex) return false;
+  const target = hexToLab(hex);
+  return candidates.some((color) => deltaE2000(hexToLab(color.hex), target) <= maxDistance);
+};
@@ -1,5 +1,6 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { isInFolderSubtree, normalizeFolderPath, rebaseFolderPath } from './folderTree';
 
 const STORE_PATH = path.join(process.cwd(), 'src', 'data', 'folders.json');
 
@@ -43,7 +44,7 @@ export async function listStoredFolders(): Promise<string[]> {
 }
 
 export async function addFolder(name: string): Promise<void> {
-  const trimmed = name.trim();
+  const trimmed = normalizeFolderPath(name);
   if (!trimmed) {
     throw new Error('Folder name cannot be empty');
   }
@@ -57,25 +58,31 @@ export async function addFolder(name: string): Promise<void> {
   }
 }
 
+// Removes the folder and every folder below it
 export async function removeFolder(name: string): Promise<void> {
   const store = await readStore();
-  const idx = store.folders.indexOf(name);
-  if (idx >= 0) {
-    store.folders.splice(idx, 1);
+  const remaining = store.folders.filter((folder) => !isInFolderSubtree(folder, name));
+  if (remaining.length !== store.folders.length) {
+    store.folders = remaining;
     await writeStore(store);
   }
 }
 
+// Moves the folder and its subfolders: renaming `a` to `b` turns `a/x` into `b/x`
 export async function renameFolder(oldName: string, newName: string): Promise<void> {
-  const trimmedNew = newName.trim();
+  const trimmedNew = normalizeFolderPath(newName);
   if (!trimmedNew) {
     throw new Error('New folder name cannot be empty');
   }
+  if (isInFolderSubtree(trimmedNew, oldName) && trimmedNew !== oldName) {
+    throw new Error('A folder cannot be moved into its own subfolder');
+  }
   const store = await readStore();
-  const idx = store.folders.indexOf(oldName);
-  if (idx >= 0) {
-    store.folders[idx] = trimmedNew;
-    store.folders = Array.from(new Set(store.folders));
+  const moved = store.folders.some((folder) => isInFolderSubtree(folder, oldName));
+  if (moved) {
+    store.folders = Array.from(
+      new Set(store.folders.map((folder) => rebaseFolderPath(folder, oldName, trimmedNew) ?? folder))
+    );
     store.folders.sort((a, b) => a.localeCompare(b));
     await writeStore(store);
   } else if (!store.folders.includes(trimmedNew)) {
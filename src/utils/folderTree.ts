@@ -0,0 +1,112 @@
+/**
+ * Folder Trees
+ *
+ * Folders are `/`-separated paths (`clients/acme/2025`) stored as the image's
+ * `folder` string, so nesting needs no extra metadata. These helpers
+ * normalise paths, test subtree membership, rebase a subtree on move/rename
+ * and build the tree (with per-node counts including descendants) shown in
+ * the folder manager and the gallery.
+ */
+
+export const FOLDER_SEPARATOR = '/';
+
+export interface FolderTreeNode {
+  /** Last path segment */
+  name: string;
+  /** Full path */
+  path: string;
+  /** Images directly in this folder */
+  count: number;
+  /** Images in this folder and every folder below it */
+  total: number;
+  children: FolderTreeNode[];
+}
+
+/** Trims every segment and drops empty ones: ` a//b / c/` → `a/b/c`. */
+export const normalizeFolderPath = (value?: string | null) =>
+  (value ?? '')
+    .split(FOLDER_SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join(FOLDER_SEPARATOR);
+
+/** `a/b/c` → `['a', 'a/b', 'a/b/c']` */
+export const getFolderAncestors = (path: string) => {
+  const segments = normalizeFolderPath(path).split(FOLDER_SEPARATOR).filter(Boolean);
+  return segments.map((_, index) => segments.slice(0, index + 1).join(FOLDER_SEPARATOR));
+};
+
+export const getParentFolder = (path: string) => {
+  const ancestors = getFolderAncestors(path);
+  return ancestors.length > 1 ? ancestors[ancestors.length - 2] : '';
+};
+
+/** True for `root` itself and every folder below it. */
+export const isInFolderSubtree = (folder: string | undefined, root: string) =>
+  folder !== undefined && root !== '' && (folder === root || folder.startsWith(`${root}${FOLDER_SEPARATOR}`));
+
+/**
+ * New path for `folder` when the subtree at `from` moves to `to`; undefined
+ * when `to` is unset (the subtree is deleted). Folders outside the subtree
+ * are returned unchanged.
+ */
+export const rebaseFolderPath = (folder: string, from: string, to?: string) => {
+  if (!isInFolderSubtree(folder, from)) return folder;
+  if (!to) return undefined;
+  return `${to}${folder.slice(from.length)}`;
+};
+
+/** Builds the tree from folder paths; missing ancestors are filled in with zero counts. */
+export const buildFolderTree = (folders: string[], counts: Map<string, number> = new Map()) => {
+  const nodes = new Map<string, FolderTreeNode>();
+  const roots: FolderTreeNode[] = [];
+  const paths = new Set([...folders, ...counts.keys()].map(normalizeFolderPath).filter(Boolean));
+
+  paths.forEach((path) => {
+    getFolderAncestors(path).forEach((ancestor) => {
+      if (nodes.has(ancestor)) return;
+      const node: FolderTreeNode = {
+        name: ancestor.slice(ancestor.lastIndexOf(FOLDER_SEPARATOR) + 1),
+        path: ancestor,
+        count: 0,
+        total: 0,
+        children: []
+      };
+      nodes.set(ancestor, node);
+      // Ancestors come first, so the parent node already exists
+      const parent = nodes.get(getParentFolder(ancestor));
+      (parent ? parent.children : roots).push(node);
+    });
+  });
+
+  counts.forEach((count, path) => {
+    const normalized = normalizeFolderPath(path);
+    const node = nodes.get(normalized);
+    if (node) node.count += count;
+    getFolderAncestors(normalized).forEach((ancestor) => {
+      const target = nodes.get(ancestor);
+      if (target) target.total += count;
+    });
+  });
+
+  const sortNodes = (list: FolderTreeNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach((node) => sortNodes(node.children));
+    return list;
+  };
+  return sortNodes(roots);
+};
+
+/** Image count per folder path, for `buildFolderTree`. */
+export const countImagesByFolder = (images: Array<{ folder?: string }>) => {
+  const counts = new Map<string, number>();
+  images.forEach((image) => {
+    const folder = normalizeFolderPath(image.folder);
+    if (folder) counts.set(folder, (counts.get(folder) ?? 0) + 1);
+  });
+  return counts;
+};
+
+/** Depth-first list of the tree, for flat pickers. */
+export const flattenFolderTree = (nodes: FolderTreeNode[], depth = 0): Array<FolderTreeNode & { depth: number }> =>
+  nodes.flatMap((node) => [{ ...node, depth }, ...flattenFolderTree(node.children, depth + 1)]);
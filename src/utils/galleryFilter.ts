@@ -1,3 +1,14 @@
+import {
+  buildSearchContext,
+  evaluateSearchQuery,
+  getParsedSearchQuery,
+  searchQueryNeedsParents,
+  type SearchContext
+} from './searchQuery';
+import type { DominantColor } from './colorPalette';
+import { isInFolderSubtree } from './folderTree';
+import { tagsMatch, type TagTaxonomy } from './tagTaxonomy';
+
 export interface GalleryImage {
   id: string;
   filename: string;
@@ -13,6 +24,8 @@ export interface GalleryImage {
   originalUrlNormalized?: string;
   sourceUrl?: string;
   sourceUrlNormalized?: string;
+  namespace?: string;
+  dominantColors?: DominantColor[];
 }
 
 export interface GalleryFilterOptions {
@@ -22,65 +35,41 @@ export interface GalleryFilterOptions {
   onlyCanonical: boolean;
   hiddenFolders?: string[];
   hiddenTags?: string[];
+  /** Expands tag filters and searches with synonyms and child tags */
+  tagTaxonomy?: TagTaxonomy;
 }
 
 const normalize = (value?: string) => value?.toLowerCase() ?? '';
 
-const matchesFolderFilter = (image: GalleryImage, selectedFolder: string) => {
+// A folder includes its subfolders: `clients` matches `clients/acme/2025`
+export const matchesFolderFilter = (image: GalleryImage, selectedFolder: string) => {
   if (selectedFolder === 'all') return true;
   if (selectedFolder === 'no-folder') return !image.folder;
-  return image.folder === selectedFolder;
+  return isInFolderSubtree(image.folder, selectedFolder);
 };
 
-const matchesTagFilter = (image: GalleryImage, selectedTag: string) => {
+export const matchesTagFilter = (image: GalleryImage, selectedTag: string, taxonomy?: TagTaxonomy) => {
   if (!selectedTag) return true;
-  return Array.isArray(image.tags) && image.tags.includes(selectedTag);
+  return tagsMatch(image.tags, selectedTag, taxonomy);
 };
 
-const stripQuery = (value: string) => value.split('?')[0];
-
-const matchesSearchFilter = (image: GalleryImage, searchTerm: string) => {
-  const normalizedSearch = normalize(searchTerm.trim());
-  const normalizedSearchNoQuery = normalizedSearch ? stripQuery(normalizedSearch) : '';
-  if (!normalizedSearch) return true;
-
-  const baseHaystacks = [
-    normalize(image.id),
-    normalize(image.filename),
-    normalize(image.displayName),
-    normalize(image.folder),
-    normalize(image.altTag),
-    normalize(image.description),
-    normalize(image.originalUrl),
-    normalize(image.originalUrlNormalized),
-    normalize(image.sourceUrl),
-    normalize(image.sourceUrlNormalized),
-    ...(image.tags?.map(normalize) ?? []),
-    ...(image.variants?.map(normalize) ?? [])
-  ].filter(Boolean);
-
-  const haystacks = new Set<string>();
-  baseHaystacks.forEach((value) => {
-    haystacks.add(value);
-    haystacks.add(stripQuery(value));
-  });
-
-  return Array.from(haystacks).some(
-    (candidate) =>
-      candidate.includes(normalizedSearch) || (normalizedSearchNoQuery && candidate.includes(normalizedSearchNoQuery))
-  );
-};
+/**
+ * Evaluates the structured search syntax from `searchQuery.ts`; plain words
+ * keep the substring match over every text field.
+ */
+export const matchesSearchFilter = (image: GalleryImage, searchTerm: string, context?: SearchContext) =>
+  evaluateSearchQuery(getParsedSearchQuery(searchTerm), image, context);
 
-const matchesHiddenFolderFilter = (image: GalleryImage, hiddenFolders?: string[]) => {
+export const matchesHiddenFolderFilter = (image: GalleryImage, hiddenFolders?: string[]) => {
   if (!hiddenFolders || hiddenFolders.length === 0) return true;
   const hiddenNoFolder = hiddenFolders.some(
     (folder) => normalize(folder).replace(/\s+/g, '-') === 'no-folder'
   );
   if (!image.folder) return !hiddenNoFolder;
-  return !hiddenFolders.includes(image.folder);
+  return !hiddenFolders.some((folder) => isInFolderSubtree(image.folder, folder));
 };
 
-const matchesHiddenTagFilter = (image: GalleryImage, hiddenTags?: string[]) => {
+export const matchesHiddenTagFilter = (image: GalleryImage, hiddenTags?: string[]) => {
   if (!hiddenTags || hiddenTags.length === 0) return true;
   if (!Array.isArray(image.tags) || image.tags.length === 0) return true;
   const hiddenSet = new Set(hiddenTags.map(normalize));
@@ -91,11 +80,15 @@ export const filterImagesForGallery = (
   images: GalleryImage[],
   options: GalleryFilterOptions
 ): GalleryImage[] => {
-  const { selectedFolder, selectedTag, searchTerm, onlyCanonical, hiddenFolders, hiddenTags } = options;
+  const { selectedFolder, selectedTag, searchTerm, onlyCanonical, hiddenFolders, hiddenTags, tagTaxonomy } = options;
+  const searchContext: SearchContext = {
+    ...(searchQueryNeedsParents(getParsedSearchQuery(searchTerm)) ? buildSearchContext(images) : {}),
+    tagTaxonomy
+  };
   return images.filter((image) => {
     if (!matchesFolderFilter(image, selectedFolder)) return false;
-    if (!matchesTagFilter(image, selectedTag)) return false;
-    if (!matchesSearchFilter(image, searchTerm)) return false;
+    if (!matchesTagFilter(image, selectedTag, tagTaxonomy)) return false;
+    if (!matchesSearchFilter(image, searchTerm, searchContext)) return false;
     if (onlyCanonical && image.parentId) return false;
     if (!matchesHiddenFolderFilter(image, hiddenFolders)) return false;
     if (!matchesHiddenTagFilter(image, hiddenTags)) return false;
@@ -18,6 +18,17 @@ export const IMAGE_VARIANTS: ImageVariant[] = [
   { name: 'thumbnail', value: 'w=150', description: 'Thumbnail size (150px width)', width: 150 },
 ];
 
+const DEFAULT_IMAGE_DELIVERY_BASE_URL = 'https://imagedelivery.net';
+
+/**
+ * Base URL images are delivered from. Override with NEXT_PUBLIC_IMAGE_DELIVERY_BASE_URL
+ * (e.g. `/api/local-images` for the local storage provider).
+ */
+export function getImageDeliveryBaseUrl(): string {
+  const configured = process.env.NEXT_PUBLIC_IMAGE_DELIVERY_BASE_URL;
+  return configured ? configured.replace(/\/+$/, '') : DEFAULT_IMAGE_DELIVERY_BASE_URL;
+}
+
 /**
  * Generate a Cloudflare Images URL for a specific variant/size
  * @param imageId - The Cloudflare image ID
@@ -41,7 +52,7 @@ export function getCloudflareImageUrl(
   const variantValue = predefinedVariant ? predefinedVariant.value : variant;
 
   const includesParams = variantValue.includes('?');
-  const base = `https://imagedelivery.net/${hash}/${imageId}/${variantValue}`;
+  const base = `${getImageDeliveryBaseUrl()}/${hash}/${imageId}/${variantValue}`;
   if (variantValue.includes('format=')) {
     return base;
   }
@@ -265,7 +276,7 @@ export function getCloudflareDownloadUrl(
       formatParam = 'jpeg';
   }
 
-  const base = `https://imagedelivery.net/${hash}/${imageId}/public`;
+  const base = `${getImageDeliveryBaseUrl()}/${hash}/${imageId}/public`;
   
   // OPTIMIZATION: We avoid adding ?format=xyz if we can, because explicit format transformation
   // often results in "Transfer-Encoding: chunked" with no Content-Length header.
@@ -0,0 +1,36 @@
+/**
+ * Client-side polling for background jobs queued by the API
+ * (`202 { jobId }` responses). Resolves with the finished job and rejects
+ * when it failed or was cancelled.
+ */
+
+export interface JobSnapshot<TResult = unknown> {
+  id: string;
+  type: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  progress: { completed: number; total: number; message?: string };
+  result?: TResult;
+  error?: string;
+}
+
+export const waitForJobCompletion = async <TResult = unknown>(
+  jobId: string,
+  options: { intervalMs?: number; onProgress?: (job: JobSnapshot<TResult>) => void } = {}
+): Promise<JobSnapshot<TResult>> => {
+  const intervalMs = options.intervalMs ?? 1000;
+  while (true) {
+    const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`, { cache: 'no-store' });
+    const job = (await response.json()) as JobSnapshot<TResult> & { error?: string };
+    if (!response.ok) {
+      throw new Error(job.error || 'Failed to read job status');
+    }
+    options.onProgress?.(job);
+    if (job.status === 'succeeded') {
+      return job;
+    }
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(job.error || `Job ${job.status}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+};
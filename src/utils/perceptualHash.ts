@@ -0,0 +1,78 @@
+/**
+ * Perceptual hash helpers shared by the server (near-duplicate checks) and the
+ * gallery (similar-image clusters). Hashes are 64-bit dHashes stored as 16 hex
+ * characters; visually similar images differ in only a few bits.
+ */
+
+export const DEFAULT_NEAR_DUPLICATE_DISTANCE = 6;
+
+const HASH_PATTERN = /^[0-9a-f]{16}$/;
+const SEGMENT_HEX = 2;
+
+export const normalizePerceptualHash = (value?: string | null) => {
+  const trimmed = (value ?? '').trim().toLowerCase();
+  return HASH_PATTERN.test(trimmed) ? trimmed : undefined;
+};
+
+const popcount = (value: number) => {
+  let bits = value - ((value >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+/** Number of differing bits between two 64-bit hex hashes. */
+export const hammingDistance = (a: string, b: string) =>
+  popcount((parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) >>> 0) +
+  popcount((parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16)) >>> 0);
+
+/**
+ * Group items whose hashes are within `maxDistance` bits of each other
+ * (transitively). Candidate pairs come from a pigeonhole index: two hashes
+ * within d bits share at least one of d + 1 equal segments, so each hash is
+ * only compared against items sharing a segment rather than every other item.
+ * Exact up to a distance of 7 (eight 8-bit segments); larger distances may
+ * miss some pairs.
+ */
+export const clusterByPerceptualHash = <T extends { id: string; perceptualHash?: string }>(
+  items: T[],
+  maxDistance = DEFAULT_NEAR_DUPLICATE_DISTANCE
+): T[][] => {
+  const hashed = items
+    .map((item) => ({ item, hash: normalizePerceptualHash(item.perceptualHash) }))
+    .filter((entry): entry is { item: T; hash: string } => Boolean(entry.hash));
+
+  const segmentCount = Math.min(Math.max(maxDistance + 1, 1), 16 / SEGMENT_HEX);
+  const segmentLength = Math.floor(16 / segmentCount);
+  const parent = hashed.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const buckets = new Map<string, number[]>();
+  hashed.forEach(({ hash }, index) => {
+    for (let segment = 0; segment < segmentCount; segment += 1) {
+      const start = segment * segmentLength;
+      const end = segment === segmentCount - 1 ? 16 : start + segmentLength;
+      const key = `${segment}:${hash.slice(start, end)}`;
+      const bucket = buckets.get(key) ?? [];
+      bucket.forEach((other) => {
+        if (find(other) !== find(index) && hammingDistance(hash, hashed[other].hash) <= maxDistance) {
+          parent[find(other)] = find(index);
+        }
+      });
+      bucket.push(index);
+      buckets.set(key, bucket);
+    }
+  });
+
+  const clusters = new Map<number, T[]>();
+  hashed.forEach(({ item }, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), item]);
+  });
+  return Array.from(clusters.values()).filter((cluster) => cluster.length > 1);
+};
@@ -0,0 +1,82 @@
+// Responsive image derivatives and the <picture> markup that uses them
+
+export type DerivativeFormat = 'avif' | 'webp' | 'jpeg';
+
+/** Stored in a derivative's metadata under `derivative` */
+export interface DerivativeInfo {
+  profile: string;
+  format: DerivativeFormat;
+  width: number;
+  height: number;
+  /** Name from COMMON_ASPECT_RATIOS when the profile crops */
+  aspectRatio?: string;
+}
+
+export interface PictureSource extends DerivativeInfo {
+  url: string;
+}
+
+export const DERIVATIVE_FORMATS: DerivativeFormat[] = ['avif', 'webp', 'jpeg'];
+
+export const DERIVATIVE_MIME_TYPES: Record<DerivativeFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg'
+};
+
+export const parseDerivativeInfo = (value: unknown): DerivativeInfo | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const candidate = value as Record<string, unknown>;
+  const { profile, format, width, height, aspectRatio } = candidate;
+  if (
+    typeof profile !== 'string' ||
+    !DERIVATIVE_FORMATS.includes(format as DerivativeFormat) ||
+    typeof width !== 'number' ||
+    typeof height !== 'number'
+  ) {
+    return undefined;
+  }
+  return {
+    profile,
+    format: format as DerivativeFormat,
+    width,
+    height,
+    ...(typeof aspectRatio === 'string' ? { aspectRatio } : {})
+  };
+};
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toSrcset = (sources: PictureSource[]) => sources.map((source) => `${source.url} ${source.width}w`).join(', ');
+
+/**
+ * `<picture>` element with one `<source>` per modern format (AVIF first) and
+ * an `<img>` fallback in the most widely supported format present. Pass the
+ * derivatives of a single profile so every source has the same shape.
+ */
+export const buildPictureSnippet = (
+  sources: PictureSource[],
+  options: { alt?: string; sizes?: string; lazy?: boolean } = {}
+) => {
+  if (!sources.length) return '';
+  const sizes = escapeAttribute(options.sizes || '100vw');
+  const byFormat = DERIVATIVE_FORMATS.map((format) =>
+    sources.filter((source) => source.format === format).sort((a, b) => a.width - b.width)
+  ).filter((group) => group.length);
+  const fallback = byFormat[byFormat.length - 1];
+  const largest = fallback[fallback.length - 1];
+
+  const lines = ['<picture>'];
+  byFormat.slice(0, -1).forEach((group) => {
+    lines.push(
+      `  <source type="${DERIVATIVE_MIME_TYPES[group[0].format]}" srcset="${toSrcset(group)}" sizes="${sizes}">`
+    );
+  });
+  const lazy = options.lazy === false ? '' : ' loading="lazy" decoding="async"';
+  lines.push(
+    `  <img src="${largest.url}" srcset="${toSrcset(fallback)}" sizes="${sizes}" width="${largest.width}" height="${largest.height}" alt="${escapeAttribute(options.alt ?? '')}"${lazy}>`
+  );
+  lines.push('</picture>');
+  return lines.join('\n');
+};
@@ -0,0 +1,385 @@
+import { matchesDominantColor } from './colorPalette';
+import { isInFolderSubtree } from './folderTree';
+import type { GalleryImage } from './galleryFilter';
+import { expandTag, hasTaxonomyEntry, normalizeTagKey, tagsMatch, type TagTaxonomy } from './tagTaxonomy';
+
+/**
+ * Search query language shared by the gallery search box and the server query API.
+ *
+ *   folder:logos tag:red -tag:draft uploaded:>2025-01 has:alt is:parent
+ *   namespace:app name:hero "exact phrase" (tag:a OR tag:b) NOT folder:archive
+ *   color:blue color:#1e90ff
+ *
+ * Terms are ANDed unless joined with OR; `-term` and `NOT term` negate, and
+ * parentheses group. `folder:`, `tag:` and `namespace:` match whole values
+ * (case-insensitive, trailing `*` for a prefix). Unknown `field:` prefixes and
+ * bare words fall back to the substring search over every text field, so
+ * pasted URLs keep working. `color:` takes a color name or hex value and
+ * compares it with the image's dominant palette by perceptual distance.
+ * Parsing never throws: unbalanced parentheses and dangling operators are
+ * ignored. With a tag taxonomy in the context, `tag:car` and the bare word
+ * `car` also match the tag's synonyms and child tags.
+ */
+
+export type SearchField =
+  | 'folder'
+  | 'tag'
+  | 'namespace'
+  | 'name'
+  | 'id'
+  | 'uploaded'
+  | 'has'
+  | 'is'
+  | 'color';
+
+export type SearchNode =
+  | { type: 'text'; value: string }
+  | { type: 'field'; field: SearchField; value: string }
+  | { type: 'not'; child: SearchNode }
+  | { type: 'and'; children: SearchNode[] }
+  | { type: 'or'; children: SearchNode[] };
+
+export interface SearchContext {
+  /** Ids of images that have at least one variation child, for `is:parent` */
+  parentIds?: Set<string>;
+  /** Synonyms and child tags for `tag:` terms and bare words */
+  tagTaxonomy?: TagTaxonomy;
+}
+
+const SEARCH_FIELDS: SearchField[] = ['folder', 'tag', 'namespace', 'name', 'id', 'uploaded', 'has', 'is', 'color'];
+
+type Token =
+  | { kind: 'word'; value: string; quoted: boolean }
+  | { kind: 'open' | 'close' | 'and' | 'or' | 'not' };
+
+const normalize = (value?: string) => value?.toLowerCase() ?? '';
+
+const stripQuery = (value: string) => value.split('?')[0];
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close' });
+      index += 1;
+      continue;
+    }
+    if (char === '-' && index + 1 < input.length && !/[\s)]/.test(input[index + 1])) {
+      tokens.push({ kind: 'not' });
+      index += 1;
+      continue;
+    }
+
+    // A word runs to whitespace or ')'; quoted sections (also after `field:`) may contain either
+    let value = '';
+    let quoted = false;
+    while (index < input.length && !/[\s)]/.test(input[index])) {
+      if (input[index] === '"') {
+        // A leading quote makes the whole word a literal phrase, never `field:` or an operator
+        if (!value) quoted = true;
+        const end = input.indexOf('"', index + 1);
+        const stop = end === -1 ? input.length : end;
+        value += input.slice(index + 1, stop);
+        index = stop + 1;
+        continue;
+      }
+      value += input[index];
+      index += 1;
+    }
+
+    if (!quoted && (value === 'AND' || value === 'OR' || value === 'NOT')) {
+      tokens.push({ kind: value.toLowerCase() as 'and' | 'or' | 'not' });
+    } else if (value) {
+      tokens.push({ kind: 'word', value, quoted });
+    }
+  }
+
+  return tokens;
+};
+
+const toLeaf = (token: { value: string; quoted: boolean }): SearchNode => {
+  const separator = token.value.indexOf(':');
+  if (!token.quoted && separator > 0) {
+    const field = token.value.slice(0, separator).toLowerCase() as SearchField;
+    const value = token.value.slice(separator + 1);
+    if (SEARCH_FIELDS.includes(field) && value) {
+      return { type: 'field', field, value };
+    }
+  }
+  return { type: 'text', value: token.value };
+};
+
+const combine = (type: 'and' | 'or', children: SearchNode[]): SearchNode | null => {
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { type, children };
+};
+
+/**
+ * Parse a search string into a query tree; returns null for an empty query.
+ * Precedence, loosest first: OR, AND (explicit or implicit), NOT / `-`.
+ */
+export const parseSearchQuery = (input: string): SearchNode | null => {
+  const tokens = tokenize(input);
+  let position = 0;
+  let depth = 0;
+
+  const parseOr = (): SearchNode | null => {
+    const children: SearchNode[] = [];
+    while (position < tokens.length) {
+      const child = parseAnd();
+      if (child) children.push(child);
+      if (tokens[position]?.kind !== 'or') break;
+      position += 1;
+    }
+    return combine('or', children);
+  };
+
+  const parseAnd = (): SearchNode | null => {
+    const children: SearchNode[] = [];
+    while (position < tokens.length) {
+      const token = tokens[position];
+      if (token.kind === 'or') break;
+      if (token.kind === 'close') {
+        // Only a group closes on ')'; a stray one at the top level is skipped
+        if (depth > 0) break;
+        position += 1;
+        continue;
+      }
+      if (token.kind === 'and') {
+        position += 1;
+        continue;
+      }
+      const child = parseUnary();
+      if (child) children.push(child);
+    }
+    return combine('and', children);
+  };
+
+  const parseUnary = (): SearchNode | null => {
+    const token = tokens[position];
+    if (!token) return null;
+    if (token.kind === 'not') {
+      position += 1;
+      const child = parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+    if (token.kind === 'open') {
+      position += 1;
+      depth += 1;
+      const group = parseOr();
+      depth -= 1;
+      if (tokens[position]?.kind === 'close') position += 1;
+      return group;
+    }
+    if (token.kind === 'word') {
+      position += 1;
+      return toLeaf(token);
+    }
+    position += 1;
+    return null;
+  };
+
+  return parseOr();
+};
+
+// Parsing happens once per search string rather than once per image
+let lastParsed: { input: string; node: SearchNode | null } | null = null;
+
+export const getParsedSearchQuery = (input: string): SearchNode | null => {
+  if (lastParsed?.input !== input) {
+    lastParsed = { input, node: parseSearchQuery(input) };
+  }
+  return lastParsed.node;
+};
+
+/** True when the query needs `SearchContext.parentIds` to evaluate `is:parent`. */
+export const searchQueryNeedsParents = (node: SearchNode | null): boolean => {
+  if (!node) return false;
+  switch (node.type) {
+    case 'field':
+      return node.field === 'is' && normalize(node.value) === 'parent';
+    case 'not':
+      return searchQueryNeedsParents(node.child);
+    case 'and':
+    case 'or':
+      return node.children.some(searchQueryNeedsParents);
+    default:
+      return false;
+  }
+};
+
+export const buildSearchContext = (images: GalleryImage[]): SearchContext => ({
+  parentIds: new Set(images.map((image) => image.parentId).filter((id): id is string => Boolean(id)))
+});
+
+const matchesText = (image: GalleryImage, text: string, context: SearchContext) => {
+  const normalizedSearch = normalize(text.trim());
+  const normalizedSearchNoQuery = normalizedSearch ? stripQuery(normalizedSearch) : '';
+  if (!normalizedSearch) return true;
+  // A word the taxonomy knows (`automobile`) also finds the tags it stands for (`car`)
+  if (context.tagTaxonomy && hasTaxonomyEntry(context.tagTaxonomy, normalizedSearch)) {
+    const expanded = expandTag(context.tagTaxonomy, normalizedSearch);
+    if (image.tags?.some((tag) => expanded.has(normalizeTagKey(tag)))) return true;
+  }
+
+  const baseHaystacks = [
+    normalize(image.id),
+    normalize(image.filename),
+    normalize(image.displayName),
+    normalize(image.folder),
+    normalize(image.altTag),
+    normalize(image.description),
+    normalize(image.originalUrl),
+    normalize(image.originalUrlNormalized),
+    normalize(image.sourceUrl),
+    normalize(image.sourceUrlNormalized),
+    ...(image.tags?.map(normalize) ?? []),
+    ...(image.variants?.map(normalize) ?? [])
+  ].filter(Boolean);
+
+  const haystacks = new Set<string>();
+  baseHaystacks.forEach((value) => {
+    haystacks.add(value);
+    haystacks.add(stripQuery(value));
+  });
+
+  return Array.from(haystacks).some(
+    (candidate) =>
+      candidate.includes(normalizedSearch) || (normalizedSearchNoQuery && candidate.includes(normalizedSearchNoQuery))
+  );
+};
+
+const matchesValue = (candidate: string | undefined, pattern: string) => {
+  const target = normalize(pattern);
+  const value = normalize(candidate);
+  if (target.endsWith('*')) return value.startsWith(target.slice(0, -1));
+  return value === target;
+};
+
+// `2025`, `2025-01` or `2025-01-31` → [start, end) in UTC
+const parseDateRange = (value: string): [number, number] | null => {
+  const match = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/.exec(value);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month === null) return [Date.UTC(year, 0, 1), Date.UTC(year + 1, 0, 1)];
+  if (day === null) return [Date.UTC(year, month, 1), Date.UTC(year, month + 1, 1)];
+  return [Date.UTC(year, month, day), Date.UTC(year, month, day + 1)];
+};
+
+const matchesUploaded = (image: GalleryImage, value: string) => {
+  const [, operator, date] = /^(>=|<=|>|<|=)?(.*)$/.exec(value) ?? [];
+  const range = parseDateRange(date ?? '');
+  const uploaded = new Date(image.uploaded).getTime();
+  if (!range || Number.isNaN(uploaded)) return false;
+  const [start, end] = range;
+  switch (operator) {
+    case '>':
+      return uploaded >= end;
+    case '>=':
+      return uploaded >= start;
+    case '<':
+      return uploaded < start;
+    case '<=':
+      return uploaded < end;
+    default:
+      return uploaded >= start && uploaded < end;
+  }
+};
+
+const matchesHas = (image: GalleryImage, value: string) => {
+  switch (normalize(value)) {
+    case 'alt':
+      return Boolean(image.altTag?.trim());
+    case 'description':
+      return Boolean(image.description?.trim());
+    case 'tags':
+    case 'tag':
+      return Boolean(image.tags?.length);
+    case 'folder':
+      return Boolean(image.folder);
+    case 'namespace':
+      return Boolean(image.namespace);
+    case 'parent':
+      return Boolean(image.parentId);
+    case 'source':
+      return Boolean(image.originalUrl || image.sourceUrl);
+    case 'colors':
+    case 'color':
+      return Boolean(image.dominantColors?.length);
+    default:
+      return false;
+  }
+};
+
+const matchesIs = (image: GalleryImage, value: string, context: SearchContext) => {
+  switch (normalize(value)) {
+    case 'parent':
+      return Boolean(context.parentIds?.has(image.id));
+    case 'child':
+    case 'variation':
+      return Boolean(image.parentId);
+    case 'canonical':
+      return !image.parentId;
+    case 'svg':
+      return normalize(image.filename).endsWith('.svg');
+    default:
+      return false;
+  }
+};
+
+const matchesField = (image: GalleryImage, field: SearchField, value: string, context: SearchContext) => {
+  switch (field) {
+    case 'folder':
+      if (normalize(value) === 'none') return !image.folder;
+      if (value.endsWith('*')) return matchesValue(image.folder, value);
+      // A folder matches along with everything below it
+      return isInFolderSubtree(image.folder?.toLowerCase(), normalize(value).replace(/\/+$/, ''));
+    case 'tag':
+      if (!value.endsWith('*') && tagsMatch(image.tags, value, context.tagTaxonomy)) return true;
+      return Boolean(image.tags?.some((tag) => matchesValue(tag, value)));
+    case 'namespace':
+      return normalize(value) === 'none' ? !image.namespace : matchesValue(image.namespace, value);
+    case 'name':
+      return [image.filename, image.displayName].some((name) => normalize(name).includes(normalize(value)));
+    case 'id':
+      return matchesValue(image.id, value);
+    case 'uploaded':
+      return matchesUploaded(image, value);
+    case 'has':
+      return matchesHas(image, value);
+    case 'is':
+      return matchesIs(image, value, context);
+    case 'color':
+      return matchesDominantColor(image.dominantColors, value);
+  }
+};
+
+export const evaluateSearchQuery = (
+  node: SearchNode | null,
+  image: GalleryImage,
+  context: SearchContext = {}
+): boolean => {
+  if (!node) return true;
+  switch (node.type) {
+    case 'text':
+      return matchesText(image, node.value, context);
+    case 'field':
+      return matchesField(image, node.field, node.value, context);
+    case 'not':
+      return !evaluateSearchQuery(node.child, image, context);
+    case 'and':
+      return node.children.every((child) => evaluateSearchQuery(child, image, context));
+    case 'or':
+      return node.children.some((child) => evaluateSearchQuery(child, image, context));
+  }
+};
@@ -0,0 +1,103 @@
+/**
+ * Tag Taxonomy
+ *
+ * Tags stay free-form strings on each image; the taxonomy adds two maps on
+ * top of them, keyed by lowercased tag:
+ *
+ *   synonyms  alias → canonical   `automobile` → `car`
+ *   parents   child → parent      `sedan` → `car`
+ *
+ * Filtering or searching for a tag also matches its aliases and every tag
+ * below it, so `tag:car` finds images tagged `automobile` or `sedan`. The
+ * maps are stored server-side (`src/server/tagTaxonomy.ts`); these helpers
+ * are shared with the gallery so client-side filtering agrees with the API.
+ */
+
+export interface TagTaxonomy {
+  /** Alias → canonical tag */
+  synonyms: Record<string, string>;
+  /** Child tag → parent tag */
+  parents: Record<string, string>;
+}
+
+export const createEmptyTagTaxonomy = (): TagTaxonomy => ({ synonyms: {}, parents: {} });
+
+export const normalizeTagKey = (tag?: string | null) => (tag ?? '').trim().toLowerCase();
+
+/** Canonical form of `tag`: its synonym target, or the tag itself. */
+export const resolveTagSynonym = (taxonomy: TagTaxonomy, tag: string) => {
+  const key = normalizeTagKey(tag);
+  return taxonomy.synonyms[key] ?? key;
+};
+
+export const getTagAliases = (taxonomy: TagTaxonomy, tag: string) => {
+  const canonical = resolveTagSynonym(taxonomy, tag);
+  return Object.keys(taxonomy.synonyms)
+    .filter((alias) => taxonomy.synonyms[alias] === canonical)
+    .sort((a, b) => a.localeCompare(b));
+};
+
+export const getTagChildren = (taxonomy: TagTaxonomy, tag: string) => {
+  const key = resolveTagSynonym(taxonomy, tag);
+  return Object.keys(taxonomy.parents)
+    .filter((child) => taxonomy.parents[child] === key)
+    .sort((a, b) => a.localeCompare(b));
+};
+
+/** Parent chain from the direct parent up; stops on a cycle. */
+export const getTagAncestors = (taxonomy: TagTaxonomy, tag: string) => {
+  const ancestors: string[] = [];
+  let current = taxonomy.parents[resolveTagSynonym(taxonomy, tag)];
+  while (current && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = taxonomy.parents[current];
+  }
+  return ancestors;
+};
+
+export const getTagDescendants = (taxonomy: TagTaxonomy, tag: string) => {
+  const descendants = new Set<string>();
+  const queue = getTagChildren(taxonomy, tag);
+  while (queue.length) {
+    const next = queue.shift() as string;
+    if (descendants.has(next)) continue;
+    descendants.add(next);
+    queue.push(...getTagChildren(taxonomy, next));
+  }
+  return Array.from(descendants);
+};
+
+/** Every lowercased tag that counts as a match for `tag`: itself, its canonical form, aliases and descendants. */
+export const expandTag = (taxonomy: TagTaxonomy, tag: string) => {
+  const canonical = resolveTagSynonym(taxonomy, tag);
+  const expanded = new Set([normalizeTagKey(tag)]);
+  [canonical, ...getTagDescendants(taxonomy, canonical)].forEach((entry) => {
+    expanded.add(entry);
+    getTagAliases(taxonomy, entry).forEach((alias) => expanded.add(alias));
+  });
+  return expanded;
+};
+
+export const hasTaxonomyEntry = (taxonomy: TagTaxonomy | undefined, tag: string) => {
+  if (!taxonomy) return false;
+  const key = normalizeTagKey(tag);
+  return (
+    key in taxonomy.synonyms ||
+    key in taxonomy.parents ||
+    Object.values(taxonomy.synonyms).includes(key) ||
+    Object.values(taxonomy.parents).includes(key)
+  );
+};
+
+/**
+ * True when `tags` contain `tag` or, with a taxonomy, any of its synonyms or
+ * descendants. Without one (or for tags the taxonomy does not mention) this
+ * is the exact, case-sensitive match the filters have always used.
+ */
+export const tagsMatch = (tags: string[] | undefined, tag: string, taxonomy?: TagTaxonomy) => {
+  if (!Array.isArray(tags) || tags.length === 0) return false;
+  if (tags.includes(tag)) return true;
+  if (!taxonomy || !hasTaxonomyEntry(taxonomy, tag)) return false;
+  const expanded = expandTag(taxonomy, tag);
+  return tags.some((entry) => expanded.has(normalizeTagKey(entry)));
+};
@@ -1,10 +1,17 @@
 import { defineConfig } from 'vitest/config';
+import os from 'node:os';
 import path from 'node:path';
 
 export default defineConfig({
   test: {
     environment: 'node',
     include: ['__tests__/**/*.test.ts'],
+    env: {
+      // Keep caches and sidecar metadata written by route tests out of the working tree
+      CACHE_STORAGE_DIR: path.join(os.tmpdir(), 'photarium-test-cache'),
+      METADATA_SIDECAR_DIR: path.join(os.tmpdir(), 'photarium-test-metadata'),
+      NAMESPACE_REGISTRY_PATH: path.join(os.tmpdir(), 'photarium-test-registry', 'namespace-registry.json'),
+    },
     coverage: {
       reporter: ['text', 'html'],
     },